@@ -0,0 +1,282 @@
+/**
+ * Analysis Context
+ *
+ * Parses a source file once into a TypeScript syntax tree and indexes the
+ * constructs rules care about (calls, catch clauses, imports, string
+ * literals, identifiers). Rules query the index instead of running regexes
+ * over the whole file, so comments and string contents no longer satisfy
+ * or trigger checks by accident.
+ */
+
+import ts from 'typescript';
+import { extname } from 'path';
+import type { ProjectScope } from './project-graph.js';
+
+export interface CallSite {
+  callee: string;        // Full callee text, e.g. "this.mutex.runExclusive"
+  name: string;          // Last segment of the callee, e.g. "runExclusive"
+  node: ts.CallExpression;
+}
+
+export interface CatchSite {
+  parameter?: string;
+  isEmpty: boolean;      // No statements and no explanatory comment
+  onlyLogs: boolean;     // Every statement is a console/logger call
+  node: ts.CatchClause;
+}
+
+export interface ImportSite {
+  module: string;
+  names: string[];       // Local binding names
+  node: ts.Node;
+}
+
+export interface StringLiteralSite {
+  value: string;
+  node: ts.StringLiteral | ts.NoSubstitutionTemplateLiteral;
+}
+
+export interface SourceSpan {
+  line: number;          // 1-based start line
+  column: number;        // 1-based start column
+  end_line: number;      // 1-based end line
+  snippet: string;       // Short excerpt of the offending code
+}
+
+export interface AnalysisContext {
+  fileName: string;
+  code: string;
+  sourceFile: ts.SourceFile;
+  calls: CallSite[];
+  catchClauses: CatchSite[];
+  imports: ImportSite[];
+  stringLiterals: StringLiteralSite[];
+  identifiers: Set<string>;
+  project?: ProjectScope;  // Set when the file is inspected as part of a server
+}
+
+const SNIPPET_MAX_LINES = 3;
+const SNIPPET_MAX_LENGTH = 200;
+
+const LOG_CALL_PATTERN = /^(console\.(log|info|warn|error|debug)|logger\.(info|warn|error|debug|log))$/;
+
+/**
+ * Pick a script kind from the file extension (inline code is parsed as TS)
+ */
+function getScriptKind(fileName: string): ts.ScriptKind {
+  switch (extname(fileName).toLowerCase()) {
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function getCalleeName(callee: string): string {
+  const segments = callee.split('.');
+  return segments[segments.length - 1];
+}
+
+function isLogStatement(statement: ts.Statement, sourceFile: ts.SourceFile): boolean {
+  if (!ts.isExpressionStatement(statement)) return false;
+
+  let expression = statement.expression;
+  if (ts.isAwaitExpression(expression)) {
+    expression = expression.expression;
+  }
+
+  return ts.isCallExpression(expression) &&
+    LOG_CALL_PATTERN.test(expression.expression.getText(sourceFile));
+}
+
+function toCatchSite(node: ts.CatchClause, sourceFile: ts.SourceFile): CatchSite {
+  const statements = node.block.statements;
+  const blockText = node.block.getText(sourceFile);
+  const innerText = blockText.slice(1, -1).trim();
+
+  return {
+    parameter: node.variableDeclaration?.name.getText(sourceFile),
+    isEmpty: statements.length === 0 && innerText === '',
+    onlyLogs: statements.length > 0 && statements.every(s => isLogStatement(s, sourceFile)),
+    node
+  };
+}
+
+function toImportSite(node: ts.ImportDeclaration, sourceFile: ts.SourceFile): ImportSite {
+  const names: string[] = [];
+  const clause = node.importClause;
+
+  if (clause?.name) {
+    names.push(clause.name.text);
+  }
+  if (clause?.namedBindings) {
+    if (ts.isNamespaceImport(clause.namedBindings)) {
+      names.push(clause.namedBindings.name.text);
+    } else {
+      names.push(...clause.namedBindings.elements.map(e => e.name.text));
+    }
+  }
+
+  return {
+    module: (node.moduleSpecifier as ts.StringLiteral).text ?? node.moduleSpecifier.getText(sourceFile),
+    names,
+    node
+  };
+}
+
+/**
+ * Parse code and build the shared analysis context for a file
+ */
+export function createAnalysisContext(code: string, fileName: string = 'inline.ts'): AnalysisContext {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName)
+  );
+
+  const context: AnalysisContext = {
+    fileName,
+    code,
+    sourceFile,
+    calls: [],
+    catchClauses: [],
+    imports: [],
+    stringLiterals: [],
+    identifiers: new Set()
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression.getText(sourceFile).replace(/\s+/g, '');
+      context.calls.push({ callee, name: getCalleeName(callee), node });
+
+      // CommonJS require('module') counts as an import
+      if (callee === 'require' && node.arguments.length > 0 && ts.isStringLiteral(node.arguments[0])) {
+        const names: string[] = [];
+        const parent = node.parent;
+        if (ts.isVariableDeclaration(parent)) {
+          if (ts.isIdentifier(parent.name)) {
+            names.push(parent.name.text);
+          } else if (ts.isObjectBindingPattern(parent.name)) {
+            for (const element of parent.name.elements) {
+              if (ts.isIdentifier(element.name)) names.push(element.name.text);
+            }
+          }
+        }
+        context.imports.push({ module: node.arguments[0].text, names, node });
+      }
+
+      // Dynamic import('module')
+      if (node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+          node.arguments.length > 0 && ts.isStringLiteral(node.arguments[0])) {
+        context.imports.push({ module: node.arguments[0].text, names: [], node });
+      }
+    } else if (ts.isCatchClause(node)) {
+      context.catchClauses.push(toCatchSite(node, sourceFile));
+    } else if (ts.isImportDeclaration(node)) {
+      context.imports.push(toImportSite(node, sourceFile));
+    } else if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      context.stringLiterals.push({ value: node.text, node });
+    } else if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+      context.identifiers.add(node.text);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return context;
+}
+
+/**
+ * Find call expressions whose callee text matches a pattern
+ */
+export function findCalls(context: AnalysisContext, pattern: RegExp): CallSite[] {
+  return context.calls.filter(c => pattern.test(c.callee));
+}
+
+/**
+ * Check whether any call expression's callee matches a pattern
+ */
+export function hasCall(context: AnalysisContext, pattern: RegExp): boolean {
+  return context.calls.some(c => pattern.test(c.callee));
+}
+
+/**
+ * Check whether any identifier (variable, function, property name) matches a pattern
+ */
+export function hasIdentifier(context: AnalysisContext, pattern: RegExp): boolean {
+  for (const identifier of context.identifiers) {
+    if (pattern.test(identifier)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether any import/require module specifier or imported name matches a pattern
+ */
+export function hasImport(context: AnalysisContext, pattern: RegExp): boolean {
+  return context.imports.some(i => pattern.test(i.module) || i.names.some(n => pattern.test(n)));
+}
+
+/**
+ * Find string literals whose value matches a pattern
+ */
+export function findStringLiterals(context: AnalysisContext, pattern: RegExp): StringLiteralSite[] {
+  return context.stringLiterals.filter(s => pattern.test(s.value));
+}
+
+/**
+ * Find the first identifier node whose text matches a pattern
+ */
+export function findIdentifier(context: AnalysisContext, pattern: RegExp): ts.Node | undefined {
+  const search = (node: ts.Node): ts.Node | undefined => {
+    if ((ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) && pattern.test(node.text)) {
+      return node;
+    }
+    return ts.forEachChild(node, search);
+  };
+  return search(context.sourceFile);
+}
+
+/**
+ * Build a span (1-based line/column plus excerpt) from character offsets
+ */
+export function spanFromOffsets(code: string, start: number, end: number): SourceSpan {
+  const before = code.slice(0, start);
+  const line = before.split('\n').length;
+  const column = start - before.lastIndexOf('\n');
+  const endLine = line + (code.slice(start, Math.max(start, end)).match(/\n/g)?.length ?? 0);
+
+  const lines = code.split('\n').slice(line - 1, Math.min(endLine, line + SNIPPET_MAX_LINES - 1));
+  let snippet = lines.map(l => l.trim()).filter(l => l.length > 0).join('\n');
+  if (endLine - line + 1 > SNIPPET_MAX_LINES) snippet += '\n...';
+  if (snippet.length > SNIPPET_MAX_LENGTH) snippet = snippet.slice(0, SNIPPET_MAX_LENGTH) + '...';
+
+  return { line, column, end_line: endLine, snippet };
+}
+
+/**
+ * Locate the first regex match in code
+ */
+export function locateMatch(code: string, pattern: RegExp): SourceSpan | undefined {
+  const flags = pattern.flags.replace('g', '');
+  const match = new RegExp(pattern.source, flags).exec(code);
+  if (!match) return undefined;
+  return spanFromOffsets(code, match.index, match.index + match[0].length);
+}
+
+/**
+ * Locate a syntax tree node
+ */
+export function locateNode(context: AnalysisContext, node: ts.Node): SourceSpan {
+  return spanFromOffsets(context.code, node.getStart(context.sourceFile), node.getEnd());
+}
@@ -0,0 +1,11 @@
+/**
+ * Analysis Module
+ *
+ * Exports the shared syntax-tree analysis context used by rules, the
+ * project import graph behind cross-file checks and the parser for
+ * linus-ignore suppression directives.
+ */
+
+export * from './analysis-context.js';
+export * from './project-graph.js';
+export * from './suppressions.js';
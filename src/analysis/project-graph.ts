@@ -0,0 +1,232 @@
+/**
+ * Project Graph
+ *
+ * Rules run on one file at a time, but a capability often lives in another
+ * module: a token refresh guarded by a mutex from utils/lock.ts, or retries
+ * that go through a backoff helper. The project graph records every file's
+ * local imports and the capabilities it implements, so a rule can ask
+ * whether a capability or exported symbol is reachable from the file it is
+ * checking.
+ *
+ * The graph is plain data so it can be handed to worker threads as is.
+ */
+
+import ts from 'typescript';
+import { dirname, extname, join, resolve } from 'path';
+import {
+  createAnalysisContext,
+  hasCall,
+  hasIdentifier,
+  hasImport,
+  type AnalysisContext
+} from './analysis-context.js';
+
+export type ProjectCapability =
+  | 'async-lock'
+  | 'exponential-backoff'
+  | 'jitter'
+  | 'circuit-breaker'
+  | 'rate-limiter';
+
+export interface ProjectSource {
+  file_name: string;     // Absolute path
+  code: string;
+}
+
+export interface ProjectFile {
+  imports: string[];     // Resolved local modules (absolute paths); packages are left out
+  exports: string[];     // Exported names ('default' for a default export)
+  capabilities: ProjectCapability[];
+}
+
+export interface ProjectGraph {
+  files: Record<string, ProjectFile>;
+}
+
+/**
+ * What a rule can ask about the modules a file imports, directly or through
+ * other local modules. Each query returns the file that provides the match.
+ */
+export interface ProjectScope {
+  reachableFiles: string[];
+  reaches(capability: ProjectCapability): string | undefined;
+  reachesSymbol(pattern: RegExp): string | undefined;
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Compiled output extensions an ESM import names in place of the source file
+const EMITTED_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs']);
+
+const CAPABILITY_DETECTORS: Record<ProjectCapability, (context: AnalysisContext) => boolean> = {
+  'async-lock': context =>
+    hasIdentifier(context, /(^|_)(lock|mutex|semaphore|LOCK|MUTEX|SEMAPHORE)|Lock|Mutex|Semaphore|[Aa]tomic|synchronized/) ||
+    hasImport(context, /mutex|semaphore|(^|[-/@])lock/i),
+  'exponential-backoff': context =>
+    hasIdentifier(context, /exponential|backoff/i) ||
+    hasCall(context, /^Math\.pow$/) ||
+    /\b2\s*\*\*/.test(context.code),
+  'jitter': context =>
+    hasIdentifier(context, /jitter/i) ||
+    hasCall(context, /^Math\.random$/),
+  'circuit-breaker': context =>
+    hasIdentifier(context, /circuit[_-]?breaker|half[_-]?open/i) ||
+    hasImport(context, /opossum|cockatiel|circuit/i),
+  'rate-limiter': context =>
+    hasIdentifier(context, /rate[_-]?limit|throttle/i) ||
+    hasImport(context, /bottleneck|p-limit|p-queue|p-throttle|limiter/i)
+};
+
+/**
+ * Capabilities a parsed file implements itself
+ */
+export function detectCapabilities(context: AnalysisContext): ProjectCapability[] {
+  return (Object.keys(CAPABILITY_DETECTORS) as ProjectCapability[])
+    .filter(capability => CAPABILITY_DETECTORS[capability](context));
+}
+
+/**
+ * Resolve a relative import to a file of the project, accepting the
+ * emitted .js name for a .ts source, extensionless paths and index files
+ */
+export function resolveLocalImport(
+  fromFile: string,
+  specifier: string,
+  files: Record<string, unknown>
+): string | undefined {
+  if (!specifier.startsWith('.') && !specifier.startsWith('/')) return undefined;
+
+  const base = resolve(dirname(fromFile), specifier);
+  const extension = extname(base);
+  const candidates = [base];
+  if (EMITTED_EXTENSIONS.has(extension)) {
+    const stem = base.slice(0, -extension.length);
+    candidates.push(...SOURCE_EXTENSIONS.map(ext => stem + ext));
+  }
+  candidates.push(...SOURCE_EXTENSIONS.map(ext => base + ext));
+  candidates.push(...SOURCE_EXTENSIONS.map(ext => join(base, 'index' + ext)));
+
+  return candidates.find(candidate => Object.hasOwn(files, candidate));
+}
+
+/**
+ * Module specifiers of `export ... from` re-exports, which the analysis
+ * context does not list as imports
+ */
+function reExportSpecifiers(sourceFile: ts.SourceFile): string[] {
+  return sourceFile.statements
+    .filter((statement): statement is ts.ExportDeclaration =>
+      ts.isExportDeclaration(statement) && statement.moduleSpecifier !== undefined)
+    .map(statement => (statement.moduleSpecifier as ts.StringLiteral).text)
+    .filter((specifier): specifier is string => typeof specifier === 'string');
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+function hasDefaultModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+}
+
+/**
+ * Names a module exports from its own top-level declarations
+ */
+function exportedNames(sourceFile: ts.SourceFile): string[] {
+  const names: string[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement)) {
+      names.push('default');
+    } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      names.push(...statement.exportClause.elements.map(element => element.name.text));
+    } else if (hasExportModifier(statement)) {
+      if (hasDefaultModifier(statement)) {
+        names.push('default');
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name)) names.push(declaration.name.text);
+        }
+      } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) ||
+                  ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) ||
+                  ts.isEnumDeclaration(statement)) && statement.name) {
+        names.push(statement.name.text);
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Parse every source of a server and link its local imports
+ */
+export function buildProjectGraph(sources: ProjectSource[]): ProjectGraph {
+  const graph: ProjectGraph = { files: {} };
+  const specifiers: Record<string, string[]> = {};
+
+  for (const source of sources) {
+    const context = createAnalysisContext(source.code, source.file_name);
+    specifiers[source.file_name] = [
+      ...context.imports.map(site => site.module),
+      ...reExportSpecifiers(context.sourceFile)
+    ];
+    graph.files[source.file_name] = {
+      imports: [],
+      exports: exportedNames(context.sourceFile),
+      capabilities: detectCapabilities(context)
+    };
+  }
+
+  // Resolve once every file is known
+  for (const [fileName, file] of Object.entries(graph.files)) {
+    const resolved = specifiers[fileName]
+      .map(specifier => resolveLocalImport(fileName, specifier, graph.files))
+      .filter((target): target is string => target !== undefined && target !== fileName);
+    file.imports = [...new Set(resolved)];
+  }
+
+  return graph;
+}
+
+/**
+ * Local modules a file imports directly or transitively (not the file itself)
+ */
+export function reachableFiles(graph: ProjectGraph, fileName: string): string[] {
+  const seen = new Set<string>([fileName]);
+  const queue = [...(graph.files[fileName]?.imports ?? [])];
+  const reached: string[] = [];
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    reached.push(next);
+    queue.push(...(graph.files[next]?.imports ?? []));
+  }
+
+  return reached;
+}
+
+/**
+ * Reachability queries for one file of the graph
+ */
+export function createProjectScope(graph: ProjectGraph, fileName: string): ProjectScope {
+  const reachable = reachableFiles(graph, fileName);
+
+  return {
+    reachableFiles: reachable,
+    reaches: capability => reachable.find(file => graph.files[file].capabilities.includes(capability)),
+    reachesSymbol: pattern => reachable.find(file => graph.files[file].exports.some(name => pattern.test(name)))
+  };
+}
+
+/**
+ * Check whether a file reaches a capability through its imports; false for
+ * inline code, which has no project
+ */
+export function reachesCapability(context: AnalysisContext | undefined, capability: ProjectCapability): boolean {
+  return context?.project?.reaches(capability) !== undefined;
+}
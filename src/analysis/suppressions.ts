@@ -0,0 +1,177 @@
+/**
+ * Suppression Directives
+ *
+ * Parses `linus-ignore` comments so known false positives can be waived
+ * where they occur instead of disabling a whole category:
+ *
+ *   // linus-ignore oauth-002: refresh runs in a single-threaded worker
+ *   // linus-ignore-file rl-001, rl-003: rate limiting handled by the gateway
+ *
+ * A `linus-ignore` directive covers the next line of code; when that line
+ * starts a statement or declaration it covers the whole construct, so a
+ * directive above a function or try block waives the entire block. A
+ * directive trailing code on the same line covers that line. Every
+ * directive must carry a reason after the colon.
+ */
+
+import ts from 'typescript';
+import type { AnalysisContext } from './analysis-context.js';
+import { spanFromOffsets } from './analysis-context.js';
+
+export interface SuppressionDirective {
+  rule_ids: string[];
+  reason?: string;              // Undefined when no justification was given
+  scope: 'line' | 'block' | 'file';
+  line: number;                 // Line of the directive comment
+  column: number;
+  snippet: string;              // The directive comment itself
+  start_line: number;           // First suppressed line
+  end_line: number;             // Last suppressed line
+}
+
+const DIRECTIVE_PATTERN = /^linus-ignore(-file)?(?![\w-])\s*([^:]*?)\s*(?::\s*([\s\S]*?))?\s*$/;
+
+/**
+ * Strip comment delimiters and leading block-comment asterisks
+ */
+function commentBody(text: string): string {
+  if (text.startsWith('//')) {
+    return text.slice(2).trim();
+  }
+  return text
+    .replace(/^\/\*+/, '')
+    .replace(/\*+\/$/, '')
+    .split('\n')
+    .map(l => l.replace(/^\s*\*?\s?/, ''))
+    .join(' ')
+    .trim();
+}
+
+/**
+ * Collect every comment in the file exactly once
+ */
+function collectComments(context: AnalysisContext): ts.CommentRange[] {
+  const { code, sourceFile } = context;
+  const seen = new Map<number, ts.CommentRange>();
+
+  const add = (ranges: ts.CommentRange[] | undefined): void => {
+    for (const range of ranges ?? []) {
+      if (!seen.has(range.pos)) seen.set(range.pos, range);
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    add(ts.getLeadingCommentRanges(code, node.pos));
+    add(ts.getTrailingCommentRanges(code, node.end));
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  add(ts.getLeadingCommentRanges(code, sourceFile.endOfFileToken.pos));
+
+  return [...seen.values()].sort((a, b) => a.pos - b.pos);
+}
+
+/**
+ * Position of the first code character after a comment, skipping any
+ * further whitespace and comments
+ */
+function nextCodePosition(code: string, pos: number): number {
+  const following = ts.getLeadingCommentRanges(code, pos);
+  const after = following && following.length > 0 ? following[following.length - 1].end : pos;
+  const offset = code.slice(after).search(/\S/);
+  return offset === -1 ? code.length : after + offset;
+}
+
+/**
+ * Last line covered by the statement or declaration starting at a position
+ */
+function constructEndLine(context: AnalysisContext, start: number, fallback: number): number {
+  const { sourceFile } = context;
+  let end = -1;
+
+  const visit = (node: ts.Node): void => {
+    if (node.getStart(sourceFile) === start && node.kind !== ts.SyntaxKind.SyntaxList) {
+      end = Math.max(end, node.getEnd());
+    }
+    if (node.pos <= start && start < node.end) {
+      ts.forEachChild(node, visit);
+    }
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  return end === -1 ? fallback : sourceFile.getLineAndCharacterOfPosition(end).line + 1;
+}
+
+/**
+ * Parse all linus-ignore directives in a file
+ */
+export function parseSuppressions(context: AnalysisContext): SuppressionDirective[] {
+  const { code, sourceFile } = context;
+  const directives: SuppressionDirective[] = [];
+  const lineCount = sourceFile.getLineStarts().length;
+
+  for (const comment of collectComments(context)) {
+    const match = DIRECTIVE_PATTERN.exec(commentBody(code.slice(comment.pos, comment.end)));
+    if (!match) continue;
+
+    const [, fileWide, ids, reason] = match;
+    const span = spanFromOffsets(code, comment.pos, comment.end);
+    const ruleIds = ids.split(/[\s,]+/).filter(id => id.length > 0);
+    const base = {
+      rule_ids: ruleIds,
+      reason: reason ? reason : undefined,
+      line: span.line,
+      column: span.column,
+      snippet: span.snippet
+    };
+
+    if (fileWide) {
+      directives.push({ ...base, scope: 'file', start_line: 1, end_line: lineCount });
+      continue;
+    }
+
+    // Trailing directive: covers the code on its own line
+    const lineStart = sourceFile.getLineStarts()[span.line - 1];
+    if (code.slice(lineStart, comment.pos).trim().length > 0) {
+      directives.push({ ...base, scope: 'line', start_line: span.line, end_line: span.line });
+      continue;
+    }
+
+    // Otherwise covers the next line of code (skipping blank lines and comments)
+    const endLine = sourceFile.getLineAndCharacterOfPosition(comment.end).line + 1;
+    const nextToken = nextCodePosition(code, comment.end);
+    if (nextToken >= code.length) {
+      directives.push({ ...base, scope: 'line', start_line: endLine + 1, end_line: endLine + 1 });
+      continue;
+    }
+
+    const targetLine = sourceFile.getLineAndCharacterOfPosition(nextToken).line + 1;
+    const lastLine = constructEndLine(context, nextToken, targetLine);
+    directives.push({
+      ...base,
+      scope: lastLine > targetLine ? 'block' : 'line',
+      start_line: targetLine,
+      end_line: lastLine
+    });
+  }
+
+  return directives;
+}
+
+/**
+ * Find the justified directive that waives a rule at a given line. The
+ * directive's own line counts as covered, since text-matching rules can
+ * report the rule name or keywords quoted in the directive itself.
+ */
+export function findSuppression(
+  directives: SuppressionDirective[],
+  ruleId: string,
+  line: number | undefined
+): SuppressionDirective | undefined {
+  return directives.find(d =>
+    d.reason !== undefined &&
+    d.rule_ids.includes(ruleId) &&
+    (d.scope === 'file' ||
+      (line !== undefined && (line === d.line || (line >= d.start_line && line <= d.end_line))))
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * CLI Argument Parsing
+ *
+ * One flat option table shared by every subcommand; each command reads the
+ * flags it understands and ignores the rest.
+ */
+
+import { parseArgs } from 'util';
+
+export type OutputFormat = 'text' | 'json' | 'sarif';
+export type FailOn = 'warning' | 'blocked' | 'never';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif'];
+export const FAIL_ON_LEVELS: FailOn[] = ['warning', 'blocked', 'never'];
+
+export interface CliArgs {
+  command?: string;
+  positionals: string[];
+  format: OutputFormat;
+  output?: string;             // Write the formatted result here instead of stdout
+  fail_on: FailOn;             // Lowest verdict that produces a non-zero exit code
+  help: boolean;
+  vendor?: string;
+  regulation?: string;
+  industry?: string;
+  build_id?: string;
+  server_name?: string;
+  baseline?: string;
+  write_baseline: boolean;
+  probe_health: boolean;
+  since?: string;
+  no_cache: boolean;
+  concurrency?: number;
+  file_timeout_ms?: number;
+  no_meta: boolean;
+  use_case?: string;
+  expected_format?: string;
+}
+
+const OPTIONS = {
+  format: { type: 'string', short: 'f' },
+  output: { type: 'string', short: 'o' },
+  'fail-on': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  vendor: { type: 'string' },
+  regulation: { type: 'string' },
+  industry: { type: 'string' },
+  'build-id': { type: 'string' },
+  'server-name': { type: 'string' },
+  baseline: { type: 'string' },
+  'write-baseline': { type: 'boolean' },
+  'probe-health': { type: 'boolean' },
+  since: { type: 'string' },
+  'no-cache': { type: 'boolean' },
+  concurrency: { type: 'string' },
+  'file-timeout': { type: 'string' },
+  'no-meta': { type: 'boolean' },
+  'use-case': { type: 'string' },
+  'expected-format': { type: 'string' }
+} as const;
+
+function integerOption(name: string, value: string | undefined, min: number): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`--${name} must be an integer >= ${min}, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse argv (without the node and script entries); throws on unknown flags
+ * and invalid --format / --fail-on values
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+
+  const format = (values.format ?? 'text') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${values.format}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  const failOn = (values['fail-on'] ?? 'warning') as FailOn;
+  if (!FAIL_ON_LEVELS.includes(failOn)) {
+    throw new Error(`Unknown --fail-on level "${values['fail-on']}" (expected ${FAIL_ON_LEVELS.join(', ')})`);
+  }
+
+  return {
+    command: positionals[0],
+    positionals: positionals.slice(1),
+    format,
+    output: values.output,
+    fail_on: failOn,
+    help: values.help ?? false,
+    vendor: values.vendor,
+    regulation: values.regulation,
+    industry: values.industry,
+    build_id: values['build-id'],
+    server_name: values['server-name'],
+    baseline: values.baseline,
+    write_baseline: values['write-baseline'] ?? false,
+    probe_health: values['probe-health'] ?? false,
+    since: values.since,
+    no_cache: values['no-cache'] ?? false,
+    concurrency: integerOption('concurrency', values.concurrency, 0),
+    file_timeout_ms: integerOption('file-timeout', values['file-timeout'], 1),
+    no_meta: values['no-meta'] ?? false,
+    use_case: values['use-case'],
+    expected_format: values['expected-format']
+  };
+}
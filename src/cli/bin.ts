@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+/**
+ * `linus` executable
+ */
+
+import { runCli } from './index.js';
+import { closeDatabase } from '../database/index.js';
+
+runCli(process.argv.slice(2))
+  .then((code) => {
+    closeDatabase();
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(3);
+  });
@@ -0,0 +1,148 @@
+/**
+ * CLI Commands
+ *
+ * Each subcommand calls the same inspector the matching MCP tool uses and
+ * returns the raw result; formatting and exit codes are decided afterwards.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { basename, resolve } from 'path';
+import { inspectCode, type CodeInspectionResult } from '../inspectors/code-inspector.js';
+import { inspectPrompt, type PromptInspectionResult } from '../inspectors/prompt-inspector.js';
+import { validateSkill, type SkillValidationResult } from '../inspectors/skill-validator.js';
+import { inspectSelf, type SelfInspectionResult } from '../tools/inspect-self.js';
+import { detectServerProfile, type ServerProfile } from '../profiler/index.js';
+import { getInspection, getIssuesByInspection, type InspectionIssue, type InspectionRecord } from '../database/index.js';
+import type { CliArgs } from './args.js';
+
+export type CliVerdict = 'PASSED' | 'WARNING' | 'NEEDS_REVISION' | 'BLOCKED';
+
+export interface StoredReport {
+  inspection: InspectionRecord;
+  issues: InspectionIssue[];
+}
+
+export type CommandOutcome =
+  | { command: 'inspect'; result: CodeInspectionResult }
+  | { command: 'self'; result: SelfInspectionResult }
+  | { command: 'prompt'; result: PromptInspectionResult }
+  | { command: 'skill'; result: SkillValidationResult }
+  | { command: 'report'; result: StoredReport }
+  | { command: 'profile'; result: ServerProfile };
+
+export type CommandName = CommandOutcome['command'];
+
+export interface CommandSpec {
+  usage: string;
+  description: string;
+  run(args: CliArgs): Promise<CommandOutcome>;
+}
+
+function requirePositional(args: CliArgs, name: string): string {
+  const value = args.positionals[0];
+  if (!value) throw new Error(`Missing <${name}> argument`);
+  return value;
+}
+
+function existingPath(value: string): string {
+  const fullPath = resolve(value);
+  if (!existsSync(fullPath)) throw new Error(`Path not found: ${fullPath}`);
+  return fullPath;
+}
+
+export const COMMANDS: Record<CommandName, CommandSpec> = {
+  inspect: {
+    usage: 'inspect <path> [--vendor v] [--regulation r] [--industry i] [--build-id id] [--server-name n] [--baseline file] [--write-baseline] [--probe-health] [--since ref] [--no-cache] [--concurrency n] [--file-timeout ms]',
+    description: 'Run the full build inspection on a server directory',
+    run: async (args) => {
+      const serverPath = existingPath(requirePositional(args, 'path'));
+      const result = await inspectCode({
+        server_path: serverPath,
+        server_name: args.server_name,
+        vendor: args.vendor,
+        regulation: args.regulation,
+        industry: args.industry,
+        build_id: args.build_id,
+        baseline_path: args.baseline,
+        write_baseline: args.write_baseline,
+        probe_health: args.probe_health,
+        since: args.since,
+        use_cache: !args.no_cache,
+        concurrency: args.concurrency,
+        file_timeout_ms: args.file_timeout_ms
+      });
+      return { command: 'inspect', result };
+    }
+  },
+
+  self: {
+    usage: 'self [--no-meta]',
+    description: 'Inspect linus-inspector itself, including meta-rules',
+    run: async (args) => {
+      const result = await inspectSelf({ include_meta_rules: !args.no_meta, emit_signal: false, verbose: false });
+      return { command: 'self', result };
+    }
+  },
+
+  prompt: {
+    usage: 'prompt <file> [--use-case text] [--expected-format text]',
+    description: 'Validate a prompt file for safety, clarity and token efficiency',
+    run: async (args) => {
+      const file = existingPath(requirePositional(args, 'file'));
+      const result = inspectPrompt({
+        prompt_id: basename(file),
+        prompt_content: readFileSync(file, 'utf-8'),
+        use_case: args.use_case,
+        expected_output_format: args.expected_format
+      });
+      return { command: 'prompt', result };
+    }
+  },
+
+  skill: {
+    usage: 'skill <file>',
+    description: 'Validate a skill.md file against the skill format guidelines',
+    run: async (args) => {
+      const result = validateSkill({ skill_path: existingPath(requirePositional(args, 'file')) });
+      return { command: 'skill', result };
+    }
+  },
+
+  report: {
+    usage: 'report <inspection-id>',
+    description: 'Print a stored inspection and its issues',
+    run: async (args) => {
+      const id = requirePositional(args, 'inspection-id');
+      const inspection = getInspection(id);
+      if (!inspection) throw new Error(`Inspection not found: ${id}`);
+      return { command: 'report', result: { inspection, issues: getIssuesByInspection(id) } };
+    }
+  },
+
+  profile: {
+    usage: 'profile <path>',
+    description: 'Detect the server profile that decides which rules apply',
+    run: async (args) => {
+      const result = await detectServerProfile(existingPath(requirePositional(args, 'path')));
+      return { command: 'profile', result };
+    }
+  }
+};
+
+export function isCommandName(name: string): name is CommandName {
+  return Object.prototype.hasOwnProperty.call(COMMANDS, name);
+}
+
+/**
+ * Verdict of an outcome; profile detection has none and never fails the gate
+ */
+export function outcomeVerdict(outcome: CommandOutcome): CliVerdict | undefined {
+  switch (outcome.command) {
+    case 'report':
+      return outcome.result.inspection.verdict;
+    case 'profile':
+      return undefined;
+    default:
+      return outcome.result.verdict;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Linus Command-Line Interface
+ *
+ * Runs the inspectors from a shell without starting the MCP, HTTP or
+ * InterLock servers:
+ *
+ *   linus inspect <path>    full build inspection
+ *   linus self              inspect linus-inspector itself
+ *   linus prompt <file>     prompt validation
+ *   linus skill <file>      skill.md validation
+ *   linus report <id>       stored inspection
+ *   linus profile <path>    server profile detection
+ *
+ * Exit codes follow the verdict so a CI script can gate on them:
+ *   0 PASSED (or below --fail-on), 1 WARNING / NEEDS_REVISION, 2 BLOCKED,
+ *   3 usage or runtime error.
+ */
+
+import { writeFileSync } from 'fs';
+import { initDatabase } from '../database/index.js';
+import { parseCliArgs, OUTPUT_FORMATS, FAIL_ON_LEVELS, type CliArgs, type FailOn } from './args.js';
+import { COMMANDS, isCommandName, outcomeVerdict, type CliVerdict } from './commands.js';
+import { formatOutcome } from './output.js';
+
+export * from './args.js';
+export * from './commands.js';
+export * from './output.js';
+
+export const EXIT_CODES = {
+  PASSED: 0,
+  WARNING: 1,
+  BLOCKED: 2,
+  ERROR: 3
+} as const;
+
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const PROCESS_IO: CliIO = {
+  stdout: (text) => process.stdout.write(text + '\n'),
+  stderr: (text) => process.stderr.write(text + '\n')
+};
+
+/**
+ * Map a verdict to its exit code; verdicts below the --fail-on level exit 0
+ */
+export function exitCodeForVerdict(verdict: CliVerdict | undefined, failOn: FailOn = 'warning'): number {
+  if (verdict === undefined || verdict === 'PASSED' || failOn === 'never') return EXIT_CODES.PASSED;
+  if (verdict === 'BLOCKED') return EXIT_CODES.BLOCKED;
+  return failOn === 'warning' ? EXIT_CODES.WARNING : EXIT_CODES.PASSED;
+}
+
+export function usage(): string {
+  const commands = Object.values(COMMANDS).map(spec => `  linus ${spec.usage}\n      ${spec.description}`);
+  return [
+    'Usage:',
+    ...commands,
+    '',
+    'Options:',
+    `  -f, --format <${OUTPUT_FORMATS.join('|')}>      output format (default text; sarif for inspect, self, report)`,
+    '  -o, --output <file>                  write the result to a file instead of stdout',
+    `  --fail-on <${FAIL_ON_LEVELS.join('|')}>   lowest verdict with a non-zero exit code (default warning)`,
+    '  -h, --help                           show this help',
+    '',
+    'Exit codes: 0 passed, 1 warning / needs revision, 2 blocked, 3 error'
+  ].join('\n');
+}
+
+/**
+ * Run one CLI invocation and return its exit code
+ */
+export async function runCli(argv: string[], io: CliIO = PROCESS_IO): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error: any) {
+    io.stderr(`linus: ${error.message}`);
+    io.stderr(usage());
+    return EXIT_CODES.ERROR;
+  }
+
+  if (args.help || !args.command) {
+    (args.help ? io.stdout : io.stderr)(usage());
+    return args.help ? EXIT_CODES.PASSED : EXIT_CODES.ERROR;
+  }
+  if (!isCommandName(args.command)) {
+    io.stderr(`linus: unknown command "${args.command}"`);
+    io.stderr(usage());
+    return EXIT_CODES.ERROR;
+  }
+
+  try {
+    initDatabase();
+    const outcome = await COMMANDS[args.command].run(args);
+    const text = formatOutcome(outcome, args.format);
+    if (args.output) {
+      writeFileSync(args.output, text + '\n');
+    } else {
+      io.stdout(text);
+    }
+    return exitCodeForVerdict(outcomeVerdict(outcome), args.fail_on);
+  } catch (error: any) {
+    io.stderr(`linus ${args.command}: ${error.message || error}`);
+    return EXIT_CODES.ERROR;
+  }
+}
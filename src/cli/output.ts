@@ -0,0 +1,130 @@
+/**
+ * CLI Output
+ *
+ * text  - human-readable summary, one line per issue
+ * json  - the inspector result exactly as the MCP tool returns it
+ * sarif - SARIF 2.1.0 log of the stored inspection (inspect, self, report)
+ */
+
+import { getInspection, getIssuesByInspection } from '../database/index.js';
+import { buildSarifLog } from '../reports/index.js';
+import type { OutputFormat } from './args.js';
+import { outcomeVerdict, type CommandOutcome } from './commands.js';
+
+interface TextIssue {
+  severity: string;
+  rule_id?: string;
+  location?: string;
+  issue: string;
+  remedy?: string;
+  suppressed?: boolean;
+}
+
+function issueLines(issues: TextIssue[]): string[] {
+  const lines: string[] = [];
+  for (const issue of issues) {
+    const head = [issue.severity.padEnd(8), issue.rule_id, issue.location].filter(Boolean).join(' ');
+    lines.push(`  ${head}${issue.suppressed ? ' (suppressed)' : ''}`);
+    lines.push(`    ${issue.issue}`);
+    if (issue.remedy) lines.push(`    -> ${issue.remedy}`);
+  }
+  return lines;
+}
+
+function counts(summary: { critical: number; high: number; medium: number; low: number }): string {
+  return `critical ${summary.critical}, high ${summary.high}, medium ${summary.medium}, low ${summary.low}`;
+}
+
+function location(file: string, line?: number, column?: number): string {
+  if (!line) return file;
+  return column ? `${file}:${line}:${column}` : `${file}:${line}`;
+}
+
+function renderText(outcome: CommandOutcome): string[] {
+  const verdict = outcomeVerdict(outcome);
+  switch (outcome.command) {
+    case 'inspect':
+    case 'self': {
+      const result = outcome.result;
+      const diff = outcome.command === 'inspect' ? outcome.result.diff : undefined;
+      return [
+        `${result.server_name}: ${verdict} (${counts(result.summary)})`,
+        ...(diff ? [`Changed since ${diff.since} (${diff.base_commit.slice(0, 12)}): ${diff.inspected_files} code files, ${diff.unchanged_line_issues} findings on unchanged lines skipped`] : []),
+        ...issueLines(result.issues.map(i => ({ ...i, location: location(i.file, i.line, i.column) }))),
+        ...(outcome.command === 'inspect' && outcome.result.timed_out_files
+          ? [`Timed out (not inspected): ${outcome.result.timed_out_files.join(', ')}`]
+          : []),
+        `Inspection ${result.inspection_id} - ${result.summary.total_files} files in ${result.duration_ms}ms`
+      ];
+    }
+    case 'prompt': {
+      const result = outcome.result;
+      return [
+        `${result.prompt_id}: ${verdict} (safety ${result.safety_score}, clarity ${result.clarity_score}, ${result.token_count} tokens)`,
+        ...issueLines(result.issues)
+      ];
+    }
+    case 'skill': {
+      const result = outcome.result;
+      const failed = Object.entries(result.checks).filter(([, ok]) => !ok).map(([check]) => check);
+      return [
+        `${result.skill_name}: ${verdict}${failed.length > 0 ? ` (failed: ${failed.join(', ')})` : ''}`,
+        ...issueLines(result.issues.map(i => ({ ...i, location: i.section })))
+      ];
+    }
+    case 'report': {
+      const { inspection, issues } = outcome.result;
+      return [
+        `${inspection.server_name}: ${verdict} (${counts({
+          critical: inspection.summary_critical,
+          high: inspection.summary_high,
+          medium: inspection.summary_medium,
+          low: inspection.summary_low
+        })})`,
+        ...issueLines(issues),
+        `Inspection ${inspection.id} - build ${inspection.build_id}, ${inspection.created_at}`
+      ];
+    }
+    case 'profile': {
+      const profile = outcome.result;
+      const capabilities = Object.entries(profile)
+        .filter(([key, value]) => /^(has|is)[A-Z]/.test(key) && value === true)
+        .map(([key]) => key);
+      return [
+        `Type: ${profile.type} (confidence ${Math.round(profile.confidence * 100)}%)`,
+        `Capabilities: ${capabilities.length > 0 ? capabilities.join(', ') : 'none'}`,
+        ...(profile.detectedVendors.length > 0 ? [`Vendors: ${profile.detectedVendors.join(', ')}`] : [])
+      ];
+    }
+  }
+}
+
+function inspectionIdOf(outcome: CommandOutcome): string {
+  switch (outcome.command) {
+    case 'inspect':
+    case 'self':
+      return outcome.result.inspection_id;
+    case 'report':
+      return outcome.result.inspection.id;
+    default:
+      throw new Error(`SARIF output is not available for "${outcome.command}" (use inspect, self or report)`);
+  }
+}
+
+/**
+ * Render an outcome in the requested format
+ */
+export function formatOutcome(outcome: CommandOutcome, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(outcome.result, null, 2);
+    case 'sarif': {
+      const id = inspectionIdOf(outcome);
+      const inspection = getInspection(id);
+      if (!inspection) throw new Error(`Inspection not found: ${id}`);
+      return JSON.stringify(buildSarifLog([{ inspection, issues: getIssuesByInspection(id) }]), null, 2);
+    }
+    default:
+      return renderText(outcome).join('\n');
+  }
+}
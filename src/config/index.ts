@@ -0,0 +1,7 @@
+/**
+ * Config Module
+ *
+ * Exports the project-level .linusrc.json loader.
+ */
+
+export * from './linus-config.js';
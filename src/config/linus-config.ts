@@ -0,0 +1,131 @@
+/**
+ * Project Configuration (.linusrc.json)
+ *
+ * Optional per-server configuration read from the inspected server's root.
+ * `.linusrc.json` is checked first, then `linus.config.json`:
+ *
+ *   {
+ *     "vendor": "hubspot",                  // Skip vendor auto-detection
+ *     "regulation": "GDPR",                 // Skip regulation auto-detection
+ *     "rules": {
+ *       "err-011": "off",                   // Disable a rule
+ *       "wh-001": "on",                     // Run even if the profile skips its category
+ *       "rl-004": "HIGH"                    // Override severity (implies "on")
+ *     },
+ *     "ignore": ["src/generated/**"],       // Never inspect these files
+ *     "packs": ["./linus-rules", "@acme/linus-rules"],  // Rule pack directories or npm packages
+ *     "profile": {
+ *       "exclude_paths": ["src/rules/**"],  // Inspected, but not used to detect capabilities
+ *       "flags": { "hasOAuth": false }      // Pin detected ServerProfile flags
+ *     }
+ *   }
+ *
+ * Supersedes `profiling.exclude_paths` in config/interlock.json, which is
+ * still honored when no project config sets `profile.exclude_paths`.
+ */
+
+import { z } from 'zod';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+export const CONFIG_FILE_NAMES = ['.linusrc.json', 'linus.config.json'] as const;
+
+const SeveritySchema = z.enum(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW']);
+
+export const RuleSettingSchema = z.union([z.enum(['on', 'off']), SeveritySchema]);
+
+export const ProfileFlagsSchema = z.object({
+  hasExternalAPIs: z.boolean(),
+  hasInternalAPIs: z.boolean(),
+  hasOAuth: z.boolean(),
+  hasWebhooks: z.boolean(),
+  hasDatabaseWrites: z.boolean(),
+  hasMessageQueue: z.boolean(),
+  isMCPServer: z.boolean(),
+  hasHTTPLayer: z.boolean(),
+  hasWebSocketLayer: z.boolean(),
+  hasInterLock: z.boolean()
+}).partial().strict();
+
+export const LinusConfigSchema = z.object({
+  $schema: z.string().optional(),
+  vendor: z.string().optional(),
+  regulation: z.string().optional(),
+  rules: z.record(RuleSettingSchema).optional(),
+  ignore: z.array(z.string()).optional(),
+  packs: z.array(z.string()).optional(),
+  profile: z.object({
+    exclude_paths: z.array(z.string()).optional(),
+    exclude_reason: z.string().optional(),
+    flags: ProfileFlagsSchema.optional()
+  }).strict().optional()
+}).strict();
+
+export type RuleSetting = z.infer<typeof RuleSettingSchema>;
+export type RuleOverrides = Record<string, RuleSetting>;
+export type ProfileFlags = z.infer<typeof ProfileFlagsSchema>;
+
+export type LinusConfig = z.infer<typeof LinusConfigSchema> & {
+  source?: string;  // Absolute path of the file the config was loaded from
+};
+
+/**
+ * Read profiling.exclude_paths from config/interlock.json (legacy location)
+ */
+function readLegacyExcludePaths(serverPath: string): string[] | undefined {
+  try {
+    const configData = JSON.parse(readFileSync(join(serverPath, 'config', 'interlock.json'), 'utf-8'));
+    if (Array.isArray(configData.profiling?.exclude_paths)) {
+      return configData.profiling.exclude_paths;
+    }
+  } catch {
+    // No interlock config or no profiling section
+  }
+  return undefined;
+}
+
+/**
+ * Find the project config file in a server root, if any
+ */
+export function findLinusConfigFile(serverPath: string): string | undefined {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = join(serverPath, name);
+    if (existsSync(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Load and validate the project config for a server.
+ * Returns an empty config when the server has none; throws on invalid files
+ * so a typo never silently re-enables a disabled rule.
+ */
+export function loadLinusConfig(serverPath: string): LinusConfig {
+  const configPath = findLinusConfigFile(serverPath);
+  let config: LinusConfig = {};
+
+  if (configPath) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Invalid ${configPath}: ${error.message}`);
+    }
+
+    const parsed = LinusConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+      const problems = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`);
+      throw new Error(`Invalid ${configPath}: ${problems.join('; ')}`);
+    }
+    config = { ...parsed.data, source: configPath };
+  }
+
+  if (!config.profile?.exclude_paths) {
+    const legacy = readLegacyExcludePaths(serverPath);
+    if (legacy) {
+      config = { ...config, profile: { ...config.profile, exclude_paths: legacy } };
+    }
+  }
+
+  return config;
+}
@@ -25,7 +25,8 @@ function initializeSchema(): void {
   // Check if database already has tables
   const tables = db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='inspections'").get();
   if (tables) {
-    // Database already initialized
+    // Database already initialized - bring older databases up to date
+    migrateSchema();
     return;
   }
 
@@ -34,6 +35,79 @@ function initializeSchema(): void {
   db.exec(schema);
 }
 
+// Columns added after the initial schema; existing databases get them via ALTER TABLE
+const COLUMN_MIGRATIONS: { table: string; column: string; definition: string }[] = [
+  { table: 'inspection_issues', column: 'line', definition: 'INTEGER' },
+  { table: 'inspection_issues', column: 'column', definition: 'INTEGER' },
+  { table: 'inspection_issues', column: 'end_line', definition: 'INTEGER' },
+  { table: 'inspection_issues', column: 'snippet', definition: 'TEXT' },
+  { table: 'inspection_issues', column: 'suppressed', definition: 'INTEGER DEFAULT 0' },
+  { table: 'inspection_issues', column: 'suppression_reason', definition: 'TEXT' },
+  { table: 'inspection_issues', column: 'rule_id', definition: 'TEXT' },
+  { table: 'inspection_issues', column: 'baseline_status', definition: 'TEXT' },
+  { table: 'auto_fixes', column: 'reverted_at', definition: 'TEXT' },
+  { table: 'auto_fixes', column: 'covered_issue_ids', definition: 'TEXT' },
+  { table: 'integration_checks', column: 'health_probe', definition: 'TEXT' }
+];
+
+// Tables added after the initial schema; same definitions as schema.sql
+const TABLE_MIGRATIONS: { table: string; sql: string }[] = [
+  {
+    table: 'vendor_fixtures',
+    sql: `
+      CREATE TABLE vendor_fixtures (
+        id TEXT PRIMARY KEY,
+        vendor TEXT NOT NULL,
+        name TEXT NOT NULL,
+        source TEXT NOT NULL CHECK (source IN ('har', 'json', 'recorded')),
+        base_path TEXT,
+        entries TEXT NOT NULL,
+        redactions INTEGER DEFAULT 0,
+        recorded_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (vendor) REFERENCES vendor_configs(vendor) ON DELETE CASCADE,
+        UNIQUE (vendor, name)
+      );
+      CREATE INDEX idx_vendor_fixtures_vendor ON vendor_fixtures(vendor);
+    `
+  },
+  {
+    table: 'inspection_cache',
+    sql: `
+      CREATE TABLE inspection_cache (
+        cache_key TEXT PRIMARY KEY,
+        file_path TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        ruleset_version TEXT NOT NULL,
+        vendor TEXT,
+        regulation TEXT,
+        profile_key TEXT NOT NULL,
+        result TEXT NOT NULL,
+        hits INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        last_used_at TEXT
+      );
+      CREATE INDEX idx_inspection_cache_ruleset ON inspection_cache(ruleset_version);
+      CREATE INDEX idx_inspection_cache_file ON inspection_cache(file_path);
+    `
+  }
+];
+
+function migrateSchema(): void {
+  if (!db) return;
+
+  for (const { table, sql } of TABLE_MIGRATIONS) {
+    const exists = db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name = ?").get(table);
+    if (!exists) db.exec(sql);
+  }
+
+  for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN "${column}" ${definition}`);
+    }
+  }
+}
+
 export function closeDatabase(): void {
   if (db) {
     db.close();
@@ -77,18 +151,23 @@ export function saveIssue(data: {
   severity: string;
   category: string;
   location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
   issue: string;
   remedy?: string;
   auto_fixable?: boolean;
 }): void {
   const database = getDatabase();
   database.prepare(`
-    INSERT OR REPLACE INTO inspection_issues (id, inspection_id, severity, category, location, issue, remedy, auto_fixable, auto_fixed, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    INSERT OR REPLACE INTO inspection_issues (id, inspection_id, severity, category, location, line, "column", end_line, snippet,
+      issue, remedy, auto_fixable, auto_fixed, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
   `).run(
     data.id, data.inspection_id, data.severity, data.category,
-    data.location || null, data.issue, data.remedy || null,
-    data.auto_fixable ? 1 : 0, 0
+    data.location || null, data.line ?? null, data.column ?? null, data.end_line ?? null, data.snippet ?? null,
+    data.issue, data.remedy || null, data.auto_fixable ? 1 : 0, 0
   );
 }
 
@@ -122,14 +201,22 @@ export interface InspectionRecord {
 export interface InspectionIssue {
   id: string;
   inspection_id: string;
+  rule_id?: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
   category: string;
   location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
   issue: string;
   remedy?: string;
   auto_fixable: boolean;
   auto_fixed: boolean;
   fix_applied_at?: string;
+  suppressed?: boolean;
+  suppression_reason?: string;
+  baseline_status?: 'new' | 'existing';
   created_at: string;
 }
 
@@ -176,12 +263,15 @@ export function createInspectionIssue(data: Omit<InspectionIssue, 'id' | 'create
   const created_at = new Date().toISOString();
 
   database.prepare(`
-    INSERT INTO inspection_issues (id, inspection_id, severity, category, location, issue, remedy, auto_fixable, auto_fixed, fix_applied_at, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO inspection_issues (id, inspection_id, rule_id, severity, category, location, line, "column", end_line, snippet,
+      issue, remedy, auto_fixable, auto_fixed, fix_applied_at, suppressed, suppression_reason, baseline_status, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
-    id, data.inspection_id, data.severity, data.category, data.location || null,
+    id, data.inspection_id, data.rule_id || null, data.severity, data.category, data.location || null,
+    data.line ?? null, data.column ?? null, data.end_line ?? null, data.snippet ?? null,
     data.issue, data.remedy || null, data.auto_fixable ? 1 : 0, data.auto_fixed ? 1 : 0,
-    data.fix_applied_at || null, created_at
+    data.fix_applied_at || null, data.suppressed ? 1 : 0, data.suppression_reason || null,
+    data.baseline_status || null, created_at
   );
 
   return { ...data, id, created_at };
@@ -269,6 +359,7 @@ export function updateInspectionVerdict(id: string, verdict: 'PASSED' | 'BLOCKED
 
 export function recordAutoFix(data: {
   issue_id: string;
+  covered_issue_ids?: string[];  // Every issue the fix resolves (default: issue_id only)
   inspection_id: string;
   fix_type: string;
   original_content?: string;
@@ -279,22 +370,290 @@ export function recordAutoFix(data: {
 }): string {
   const database = getDatabase();
   const id = generateId('fix');
+  const coveredIssueIds = data.covered_issue_ids ?? [data.issue_id];
 
   database.prepare(`
-    INSERT INTO auto_fixes (id, issue_id, inspection_id, fix_type, original_content, fixed_content, file_path, success, error_message)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO auto_fixes (id, issue_id, covered_issue_ids, inspection_id, fix_type, original_content, fixed_content, file_path, success, error_message)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
-    id, data.issue_id, data.inspection_id, data.fix_type,
+    id, data.issue_id, JSON.stringify(coveredIssueIds), data.inspection_id, data.fix_type,
     data.original_content || null, data.fixed_content || null,
     data.file_path || null, data.success ? 1 : 0, data.error_message || null
   );
 
-  // Mark issue as fixed if successful
+  // Mark every issue the fix resolves as fixed if successful
   if (data.success) {
-    database.prepare(`
+    const markFixed = database.prepare(`
       UPDATE inspection_issues SET auto_fixed = 1, fix_applied_at = datetime('now') WHERE id = ?
-    `).run(data.issue_id);
+    `);
+    for (const issueId of coveredIssueIds) markFixed.run(issueId);
   }
 
   return id;
 }
+
+export interface AutoFixRecord {
+  id: string;
+  issue_id: string;
+  covered_issue_ids?: string;   // JSON array of every issue id the fix resolves
+  inspection_id: string;
+  fix_type: string;
+  original_content?: string;
+  fixed_content?: string;
+  file_path?: string;
+  success: boolean;
+  error_message?: string;
+  applied_at: string;
+  reverted_at?: string;
+}
+
+export function getAutoFix(id: string): AutoFixRecord | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM auto_fixes WHERE id = ?').get(id) as AutoFixRecord | undefined;
+  return row || null;
+}
+
+export function getAutoFixesByInspection(inspectionId: string): AutoFixRecord[] {
+  const database = getDatabase();
+  return database.prepare('SELECT * FROM auto_fixes WHERE inspection_id = ? ORDER BY applied_at, rowid').all(inspectionId) as AutoFixRecord[];
+}
+
+export function incrementAutoFixesApplied(inspectionId: string, count: number): void {
+  const database = getDatabase();
+  database.prepare(`
+    UPDATE inspections SET auto_fixes_applied = auto_fixes_applied + ? WHERE id = ?
+  `).run(count, inspectionId);
+}
+
+export function markAutoFixReverted(id: string): void {
+  const database = getDatabase();
+  const fix = getAutoFix(id);
+  if (!fix) return;
+
+  database.prepare(`
+    UPDATE auto_fixes SET reverted_at = datetime('now') WHERE id = ?
+  `).run(id);
+  const unmarkFixed = database.prepare(`
+    UPDATE inspection_issues SET auto_fixed = 0, fix_applied_at = NULL WHERE id = ?
+  `);
+  const coveredIssueIds: string[] = fix.covered_issue_ids ? JSON.parse(fix.covered_issue_ids) : [fix.issue_id];
+  for (const issueId of coveredIssueIds) unmarkFixed.run(issueId);
+  database.prepare(`
+    UPDATE inspections SET auto_fixes_applied = MAX(auto_fixes_applied - 1, 0) WHERE id = ?
+  `).run(fix.inspection_id);
+}
+
+export interface ConnectionTestRecord {
+  id: string;
+  inspection_id?: string;
+  server_path: string;
+  test_mode: 'auth' | 'full' | 'quick';
+  use_sandbox: boolean;
+  verdict: 'PASS' | 'FAIL' | 'PARTIAL';
+  tests: any[];
+  performance?: Record<string, unknown>;
+  created_at: string;
+}
+
+export function saveConnectionTest(data: Omit<ConnectionTestRecord, 'id' | 'created_at'>): ConnectionTestRecord {
+  const database = getDatabase();
+  const id = generateId('conn');
+  const created_at = new Date().toISOString();
+
+  database.prepare(`
+    INSERT INTO connection_tests (id, inspection_id, server_path, test_mode, use_sandbox, verdict, tests, performance, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, data.inspection_id || null, data.server_path, data.test_mode, data.use_sandbox ? 1 : 0,
+    data.verdict, JSON.stringify(data.tests), data.performance ? JSON.stringify(data.performance) : null, created_at
+  );
+
+  return { ...data, id, created_at };
+}
+
+export function getConnectionTest(id: string): ConnectionTestRecord | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM connection_tests WHERE id = ?').get(id) as any;
+  if (!row) return null;
+
+  return {
+    ...row,
+    use_sandbox: Boolean(row.use_sandbox),
+    tests: JSON.parse(row.tests || '[]'),
+    performance: row.performance ? JSON.parse(row.performance) : undefined
+  };
+}
+
+export interface IntegrationCheckRecord {
+  id: string;
+  inspection_id?: string;
+  server_path: string;
+  verdict: 'PASS' | 'FAIL' | 'PARTIAL';
+  interlock_valid: boolean;
+  interlock_port?: number;
+  peer_connectivity?: Record<string, unknown>;
+  signal_health?: Record<string, unknown>;
+  mcp_tools: string[];
+  health_endpoint_status?: number;   // Only set when the endpoints were probed
+  health_probe?: Record<string, unknown>;
+  issues: any[];
+  created_at: string;
+}
+
+export function saveIntegrationCheck(data: Omit<IntegrationCheckRecord, 'id' | 'created_at'>): IntegrationCheckRecord {
+  const database = getDatabase();
+  const id = generateId('integ');
+  const created_at = new Date().toISOString();
+
+  database.prepare(`
+    INSERT INTO integration_checks (id, inspection_id, server_path, verdict, interlock_valid, interlock_port,
+      peer_connectivity, signal_health, mcp_tools, health_endpoint_status, health_probe, issues, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, data.inspection_id || null, data.server_path, data.verdict, data.interlock_valid ? 1 : 0,
+    data.interlock_port ?? null,
+    data.peer_connectivity ? JSON.stringify(data.peer_connectivity) : null,
+    data.signal_health ? JSON.stringify(data.signal_health) : null,
+    JSON.stringify(data.mcp_tools), data.health_endpoint_status ?? null,
+    data.health_probe ? JSON.stringify(data.health_probe) : null,
+    JSON.stringify(data.issues), created_at
+  );
+
+  return { ...data, id, created_at };
+}
+
+export function getIntegrationCheck(id: string): IntegrationCheckRecord | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM integration_checks WHERE id = ?').get(id) as any;
+  if (!row) return null;
+
+  return {
+    ...row,
+    inspection_id: row.inspection_id ?? undefined,
+    interlock_valid: Boolean(row.interlock_valid),
+    interlock_port: row.interlock_port ?? undefined,
+    peer_connectivity: row.peer_connectivity ? JSON.parse(row.peer_connectivity) : undefined,
+    signal_health: row.signal_health ? JSON.parse(row.signal_health) : undefined,
+    mcp_tools: JSON.parse(row.mcp_tools || '[]'),
+    health_endpoint_status: row.health_endpoint_status ?? undefined,
+    health_probe: row.health_probe ? JSON.parse(row.health_probe) : undefined,
+    issues: JSON.parse(row.issues || '[]')
+  };
+}
+
+export interface VendorFixtureRecord {
+  id: string;
+  vendor: string;                    // vendor_configs.vendor
+  name: string;
+  source: 'har' | 'json' | 'recorded';
+  base_path?: string;
+  entries: any[];
+  redactions: number;
+  recorded_at: string;
+}
+
+function vendorFixtureFromRow(row: any): VendorFixtureRecord {
+  return {
+    ...row,
+    base_path: row.base_path ?? undefined,
+    entries: JSON.parse(row.entries || '[]')
+  };
+}
+
+/**
+ * Save a fixture; recording again under the same vendor and name replaces it
+ */
+export function saveVendorFixture(data: Omit<VendorFixtureRecord, 'id' | 'recorded_at'>): VendorFixtureRecord {
+  const database = getDatabase();
+  const id = generateId('fix');
+  const recorded_at = new Date().toISOString();
+
+  database.prepare('DELETE FROM vendor_fixtures WHERE vendor = ? AND name = ?').run(data.vendor, data.name);
+  database.prepare(`
+    INSERT INTO vendor_fixtures (id, vendor, name, source, base_path, entries, redactions, recorded_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, data.vendor, data.name, data.source, data.base_path ?? null,
+    JSON.stringify(data.entries), data.redactions, recorded_at
+  );
+
+  return { ...data, id, recorded_at };
+}
+
+export function getVendorFixture(id: string): VendorFixtureRecord | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM vendor_fixtures WHERE id = ?').get(id);
+  return row ? vendorFixtureFromRow(row) : null;
+}
+
+export function getVendorFixtures(vendor: string): VendorFixtureRecord[] {
+  const database = getDatabase();
+  return (database.prepare('SELECT * FROM vendor_fixtures WHERE vendor = ? ORDER BY recorded_at, name').all(vendor) as any[])
+    .map(vendorFixtureFromRow);
+}
+
+export interface InspectionCacheRecord {
+  cache_key: string;
+  file_path: string;
+  content_hash: string;
+  ruleset_version: string;
+  vendor?: string;
+  regulation?: string;
+  profile_key: string;
+  result: any;
+  hits: number;
+  created_at: string;
+  last_used_at?: string;
+}
+
+/**
+ * Look up a cached file result and count the hit
+ */
+export function getInspectionCacheEntry(cacheKey: string): InspectionCacheRecord | null {
+  const database = getDatabase();
+  const row = database.prepare('SELECT * FROM inspection_cache WHERE cache_key = ?').get(cacheKey) as any;
+  if (!row) return null;
+
+  const last_used_at = new Date().toISOString();
+  database.prepare('UPDATE inspection_cache SET hits = hits + 1, last_used_at = ? WHERE cache_key = ?').run(last_used_at, cacheKey);
+  return {
+    ...row,
+    vendor: row.vendor ?? undefined,
+    regulation: row.regulation ?? undefined,
+    result: JSON.parse(row.result),
+    hits: row.hits + 1,
+    last_used_at
+  };
+}
+
+/**
+ * Store a file result, dropping the file's entries for other contents or
+ * rule-set versions: they can never be hit again once the file or the rules
+ * have moved on, so the cache stays bounded by the files it has seen
+ */
+export function saveInspectionCacheEntry(data: Omit<InspectionCacheRecord, 'hits' | 'created_at' | 'last_used_at'>): void {
+  const database = getDatabase();
+  database.prepare(`
+    DELETE FROM inspection_cache WHERE file_path = ? AND (content_hash != ? OR ruleset_version != ?)
+  `).run(data.file_path, data.content_hash, data.ruleset_version);
+  database.prepare(`
+    INSERT OR REPLACE INTO inspection_cache
+    (cache_key, file_path, content_hash, ruleset_version, vendor, regulation, profile_key, result, hits, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?)
+  `).run(
+    data.cache_key, data.file_path, data.content_hash, data.ruleset_version,
+    data.vendor ?? null, data.regulation ?? null, data.profile_key,
+    JSON.stringify(data.result), new Date().toISOString()
+  );
+}
+
+/**
+ * Drop cached results; with a ruleset version, only entries from other versions
+ */
+export function clearInspectionCache(keepRulesetVersion?: string): number {
+  const database = getDatabase();
+  const result = keepRulesetVersion
+    ? database.prepare('DELETE FROM inspection_cache WHERE ruleset_version != ?').run(keepRulesetVersion)
+    : database.prepare('DELETE FROM inspection_cache').run();
+  return result.changes;
+}
@@ -30,14 +30,22 @@ CREATE INDEX idx_inspections_created ON inspections(created_at);
 CREATE TABLE IF NOT EXISTS inspection_issues (
   id TEXT PRIMARY KEY,
   inspection_id TEXT NOT NULL,
+  rule_id TEXT,
   severity TEXT NOT NULL CHECK (severity IN ('CRITICAL', 'HIGH', 'MEDIUM', 'LOW')),
   category TEXT NOT NULL,
   location TEXT,
+  line INTEGER,
+  "column" INTEGER,
+  end_line INTEGER,
+  snippet TEXT,
   issue TEXT NOT NULL,
   remedy TEXT,
   auto_fixable INTEGER DEFAULT 0,
   auto_fixed INTEGER DEFAULT 0,
   fix_applied_at TEXT,
+  suppressed INTEGER DEFAULT 0,
+  suppression_reason TEXT,
+  baseline_status TEXT CHECK (baseline_status IN ('new', 'existing')),
   created_at TEXT DEFAULT (datetime('now')),
   FOREIGN KEY (inspection_id) REFERENCES inspections(id) ON DELETE CASCADE
 );
@@ -131,7 +139,8 @@ CREATE TABLE IF NOT EXISTS integration_checks (
   peer_connectivity TEXT, -- JSON object
   signal_health TEXT, -- JSON object
   mcp_tools TEXT, -- JSON array
-  health_endpoint_status INTEGER,
+  health_endpoint_status INTEGER, -- HTTP status of /health when probed, 0 if unreachable
+  health_probe TEXT, -- JSON object: endpoint statuses, latencies, readiness flip
   issues TEXT, -- JSON array
   created_at TEXT DEFAULT (datetime('now')),
   FOREIGN KEY (inspection_id) REFERENCES inspections(id) ON DELETE SET NULL
@@ -144,6 +153,7 @@ CREATE INDEX idx_integration_checks_verdict ON integration_checks(verdict);
 CREATE TABLE IF NOT EXISTS auto_fixes (
   id TEXT PRIMARY KEY,
   issue_id TEXT NOT NULL,
+  covered_issue_ids TEXT, -- JSON array of every issue the fix resolves
   inspection_id TEXT NOT NULL,
   fix_type TEXT NOT NULL,
   original_content TEXT,
@@ -152,6 +162,7 @@ CREATE TABLE IF NOT EXISTS auto_fixes (
   success INTEGER DEFAULT 0,
   error_message TEXT,
   applied_at TEXT DEFAULT (datetime('now')),
+  reverted_at TEXT,
   FOREIGN KEY (issue_id) REFERENCES inspection_issues(id) ON DELETE CASCADE,
   FOREIGN KEY (inspection_id) REFERENCES inspections(id) ON DELETE CASCADE
 );
@@ -159,6 +170,24 @@ CREATE TABLE IF NOT EXISTS auto_fixes (
 CREATE INDEX idx_auto_fixes_issue ON auto_fixes(issue_id);
 CREATE INDEX idx_auto_fixes_inspection ON auto_fixes(inspection_id);
 
+-- Per-file rule results, reused while a file and the rules that ran on it are unchanged
+CREATE TABLE IF NOT EXISTS inspection_cache (
+  cache_key TEXT PRIMARY KEY, -- Hash of every field below that affects the result
+  file_path TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  ruleset_version TEXT NOT NULL,
+  vendor TEXT,
+  regulation TEXT,
+  profile_key TEXT NOT NULL, -- Profile type and capability flags, or 'legacy'
+  result TEXT NOT NULL, -- JSON: violations, suppressed, applied/skipped categories
+  hits INTEGER DEFAULT 0,
+  created_at TEXT DEFAULT (datetime('now')),
+  last_used_at TEXT
+);
+
+CREATE INDEX idx_inspection_cache_ruleset ON inspection_cache(ruleset_version);
+CREATE INDEX idx_inspection_cache_file ON inspection_cache(file_path);
+
 -- Vendor-specific configurations (rate limits, auth patterns, etc.)
 CREATE TABLE IF NOT EXISTS vendor_configs (
   id TEXT PRIMARY KEY,
@@ -192,6 +221,22 @@ INSERT OR REPLACE INTO vendor_configs (id, vendor, rate_limit_value, rate_limit_
   ('vc-servicenow', 'servicenow', 0, 0, 'user_defined', 'oauth2', NULL, NULL, 'offset', '["No default rate limits - must configure"]', 30000, '["Rate limits must be configured by admin", "OAuth scopes must be defined"]', '["Configure rate limits in instance", "Define OAuth scopes explicitly"]'),
   ('vc-microsoft365', 'microsoft365', 130000, 10000, 'multi_layer', 'oauth2', 60, 5, 'cursor', '["Multi-layer throttling - service-specific limits apply"]', 10000, '["Different services have different limits", "Teams API has separate throttling"]', '["Handle service-specific rate limits", "Implement multi-layer backoff"]');
 
+-- Recorded vendor exchanges, replayed by the mock vendor as per-vendor regression suites
+CREATE TABLE IF NOT EXISTS vendor_fixtures (
+  id TEXT PRIMARY KEY,
+  vendor TEXT NOT NULL,
+  name TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('har', 'json', 'recorded')),
+  base_path TEXT, -- Prefix stripped from recorded URL paths
+  entries TEXT NOT NULL, -- JSON array of redacted request/response pairs
+  redactions INTEGER DEFAULT 0,
+  recorded_at TEXT DEFAULT (datetime('now')),
+  FOREIGN KEY (vendor) REFERENCES vendor_configs(vendor) ON DELETE CASCADE,
+  UNIQUE (vendor, name)
+);
+
+CREATE INDEX idx_vendor_fixtures_vendor ON vendor_fixtures(vendor);
+
 -- Compliance rule configurations
 CREATE TABLE IF NOT EXISTS compliance_rules (
   id TEXT PRIMARY KEY,
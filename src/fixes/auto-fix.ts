@@ -0,0 +1,258 @@
+/**
+ * Auto-Fix Engine
+ *
+ * Applies AUTO_FIXERS to the fixable issues of a stored inspection.
+ * Dry-run (the default) only returns a unified diff; otherwise files are
+ * written and every fix is recorded in auto_fixes with the file content
+ * before and after, so it can be reverted. Each fix is re-inspected before
+ * it is kept - a fix that no longer parses or leaves its rule firing is
+ * reported as failed.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { relative, resolve } from 'path';
+import ts from 'typescript';
+import { createAnalysisContext } from '../analysis/index.js';
+import { loadLinusConfig, type LinusConfig } from '../config/index.js';
+import {
+  getInspection,
+  getIssuesByInspection,
+  incrementAutoFixesApplied,
+  recordAutoFix,
+  type InspectionIssue
+} from '../database/index.js';
+import { createEmptyProfile } from '../profiler/index.js';
+import { runProfileAwareInspections } from '../rules/index.js';
+import { AUTO_FIXERS } from './fixers.js';
+import { createUnifiedDiff } from './unified-diff.js';
+
+export interface ApplyAutoFixesOptions {
+  inspection_id: string;
+  server_path: string;
+  rule_ids?: string[];
+  dry_run?: boolean;
+}
+
+export type AutoFixStatus = 'planned' | 'applied' | 'failed' | 'unsupported';
+
+export interface AutoFixOutcome {
+  rule_id: string;
+  file: string;
+  issue_ids: string[];
+  status: AutoFixStatus;
+  description?: string;
+  resolved: boolean;     // Re-inspection no longer reports the rule in the file
+  fix_id?: string;       // auto_fixes row, when written
+  error?: string;
+}
+
+export interface ApplyAutoFixesResult {
+  inspection_id: string;
+  dry_run: boolean;
+  fixes: AutoFixOutcome[];
+  files_changed: string[];
+  diff: string;
+  summary: Record<AutoFixStatus, number>;
+}
+
+/**
+ * File an issue was reported in, from its stored location
+ */
+export function issueFile(issue: Pick<InspectionIssue, 'location' | 'line' | 'column'>): string | undefined {
+  if (!issue.location) return undefined;
+  if (issue.line != null) {
+    const suffix = `:${issue.line}:${issue.column}`;
+    if (issue.location.endsWith(suffix)) return issue.location.slice(0, -suffix.length);
+  }
+  return issue.location.split(':')[0];
+}
+
+/**
+ * Resolve a file relative to the server root, refusing paths that escape it
+ */
+export function resolveServerFile(serverPath: string, file: string): string {
+  const root = resolve(serverPath);
+  const fullPath = resolve(root, file);
+  if (relative(root, fullPath).startsWith('..')) {
+    throw new Error(`Invalid file path outside server_path: ${file}`);
+  }
+  return fullPath;
+}
+
+/**
+ * First syntax error in the given code, if any
+ */
+function parseError(code: string, fileName: string): string | undefined {
+  const { diagnostics } = ts.transpileModule(code, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2022, jsx: ts.JsxEmit.Preserve }
+  });
+  const first = diagnostics?.[0];
+  return first ? ts.flattenDiagnosticMessageText(first.messageText, '\n') : undefined;
+}
+
+/**
+ * Whether a rule still fires on the given code. The rule is forced on so the
+ * check runs regardless of the server's profile.
+ */
+function ruleStillReported(code: string, ruleId: string, fileName: string, config: LinusConfig): boolean {
+  const result = runProfileAwareInspections(code, createEmptyProfile(), {
+    vendor: config.vendor,
+    regulation: config.regulation,
+    file_name: fileName,
+    rules: { [ruleId]: 'on' }
+  });
+  return result.results.some(r => r.violations.some(v => v.rule_id === ruleId));
+}
+
+/**
+ * Group fixable, unfixed issues by file, then by rule
+ */
+function groupIssues(issues: InspectionIssue[], ruleIds?: string[]): Map<string, Map<string, InspectionIssue[]>> {
+  const byFile = new Map<string, Map<string, InspectionIssue[]>>();
+
+  for (const issue of issues) {
+    if (!issue.auto_fixable || issue.auto_fixed || issue.suppressed || !issue.rule_id) continue;
+    if (ruleIds && !ruleIds.includes(issue.rule_id)) continue;
+    const file = issueFile(issue);
+    if (!file) continue;
+
+    const byRule = byFile.get(file) ?? new Map<string, InspectionIssue[]>();
+    byRule.set(issue.rule_id, [...(byRule.get(issue.rule_id) ?? []), issue]);
+    byFile.set(file, byRule);
+  }
+
+  return byFile;
+}
+
+/**
+ * Generate, verify and (unless dry-run) apply fixes for an inspection's issues
+ */
+export function applyAutoFixes(options: ApplyAutoFixesOptions): ApplyAutoFixesResult {
+  const dryRun = options.dry_run !== false;
+
+  const inspection = getInspection(options.inspection_id);
+  if (!inspection) {
+    throw new Error(`Inspection not found: ${options.inspection_id}`);
+  }
+  if (!existsSync(options.server_path)) {
+    throw new Error(`server_path does not exist: ${options.server_path}`);
+  }
+
+  const config = loadLinusConfig(options.server_path);
+  const grouped = groupIssues(getIssuesByInspection(options.inspection_id), options.rule_ids);
+
+  const fixes: AutoFixOutcome[] = [];
+  const filesChanged: string[] = [];
+  const diffs: string[] = [];
+
+  for (const file of [...grouped.keys()].sort()) {
+    const fullPath = resolveServerFile(options.server_path, file);
+    const byRule = grouped.get(file)!;
+    const outcomes: AutoFixOutcome[] = [];
+    const steps: { outcome: AutoFixOutcome; before: string; after: string }[] = [];
+
+    let original: string | undefined;
+    try {
+      original = readFileSync(fullPath, 'utf-8');
+    } catch {
+      // Reported per rule below
+    }
+
+    let current = original;
+    for (const ruleId of [...byRule.keys()].sort()) {
+      const fixer = AUTO_FIXERS[ruleId];
+      const outcome: AutoFixOutcome = {
+        rule_id: ruleId,
+        file,
+        issue_ids: byRule.get(ruleId)!.map(issue => issue.id),
+        status: 'failed',
+        description: fixer?.description,
+        resolved: false
+      };
+      outcomes.push(outcome);
+
+      if (!fixer) {
+        outcome.status = 'unsupported';
+        outcome.error = `No auto-fixer for ${ruleId}`;
+        continue;
+      }
+      if (current === undefined) {
+        outcome.error = `File not found: ${file}`;
+        continue;
+      }
+
+      const fixed = fixer.apply(current, createAnalysisContext(current, fullPath));
+      if (fixed === undefined || fixed === current) {
+        outcome.error = `No code found that the ${ruleId} fixer can rewrite`;
+        continue;
+      }
+      const syntaxError = parseError(fixed, fullPath);
+      if (syntaxError) {
+        outcome.error = `Fix for ${ruleId} does not parse: ${syntaxError}`;
+        continue;
+      }
+      if (ruleStillReported(fixed, ruleId, fullPath, config)) {
+        outcome.error = `Fix did not resolve ${ruleId}`;
+        continue;
+      }
+
+      outcome.status = dryRun ? 'planned' : 'applied';
+      outcome.resolved = true;
+      steps.push({ outcome, before: current, after: fixed });
+      current = fixed;
+    }
+
+    if (original !== undefined && current !== undefined && current !== original) {
+      diffs.push(createUnifiedDiff(original, current, file));
+      filesChanged.push(file);
+    }
+
+    if (!dryRun) {
+      if (steps.length > 0) {
+        writeFileSync(fullPath, current!);
+      }
+      for (const { outcome, before, after } of steps) {
+        outcome.fix_id = recordAutoFix({
+          issue_id: outcome.issue_ids[0],
+          covered_issue_ids: outcome.issue_ids,
+          inspection_id: options.inspection_id,
+          fix_type: outcome.rule_id,
+          original_content: before,
+          fixed_content: after,
+          file_path: file,
+          success: true
+        });
+      }
+      for (const outcome of outcomes.filter(o => o.status === 'failed')) {
+        outcome.fix_id = recordAutoFix({
+          issue_id: outcome.issue_ids[0],
+          inspection_id: options.inspection_id,
+          fix_type: outcome.rule_id,
+          file_path: file,
+          success: false,
+          error_message: outcome.error
+        });
+      }
+    }
+
+    fixes.push(...outcomes);
+  }
+
+  const summary: Record<AutoFixStatus, number> = { planned: 0, applied: 0, failed: 0, unsupported: 0 };
+  for (const fix of fixes) summary[fix.status]++;
+
+  if (summary.applied > 0) {
+    incrementAutoFixesApplied(options.inspection_id, summary.applied);
+  }
+
+  return {
+    inspection_id: options.inspection_id,
+    dry_run: dryRun,
+    fixes,
+    files_changed: filesChanged,
+    diff: diffs.join(''),
+    summary
+  };
+}
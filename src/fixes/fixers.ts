@@ -0,0 +1,365 @@
+/**
+ * Auto-Fixers
+ *
+ * Concrete code transformations. A violation is marked auto_fixable only
+ * when its rule has a fixer here. Each fixer takes a file's source and returns the fixed
+ * source, or undefined when it cannot find code it knows how to rewrite -
+ * fixers never guess, so an unfixable file is reported rather than mangled.
+ */
+
+import ts from 'typescript';
+import type { AnalysisContext } from '../analysis/index.js';
+
+export interface AutoFixer {
+  rule_id: string;
+  description: string;
+  apply: (code: string, context: AnalysisContext) => string | undefined;
+}
+
+const INDENT = '  ';
+
+function isTypeScriptFile(fileName: string): boolean {
+  return /\.(ts|tsx|mts|cts)$/.test(fileName);
+}
+
+function lineStartOf(code: string, pos: number): number {
+  return code.lastIndexOf('\n', pos - 1) + 1;
+}
+
+function indentationAt(code: string, pos: number): string {
+  const start = lineStartOf(code, pos);
+  return code.slice(start).match(/^[ \t]*/)![0];
+}
+
+/**
+ * Start of a node including its leading comments (JSDoc stays attached)
+ */
+function startWithComments(code: string, node: ts.Node): number {
+  const comments = ts.getLeadingCommentRanges(code, node.getFullStart());
+  return comments && comments.length > 0 ? comments[0].pos : node.getStart();
+}
+
+/**
+ * Statement that contains a node (the nearest ancestor directly inside a block or file)
+ */
+function enclosingStatement(node: ts.Node): ts.Node {
+  let current = node;
+  while (current.parent && !ts.isBlock(current.parent) && !ts.isSourceFile(current.parent)) {
+    current = current.parent;
+  }
+  return current;
+}
+
+function visit(node: ts.Node, callback: (node: ts.Node) => void): void {
+  callback(node);
+  ts.forEachChild(node, child => visit(child, callback));
+}
+
+/**
+ * Move a block body's statements one level deeper, dropping the braces
+ */
+function indentBlockBody(code: string, body: ts.Block, indent: string): string[] {
+  const inner = code.slice(body.getStart() + 1, body.end - 1);
+  if (!inner.includes('\n')) {
+    return inner.trim() ? [indent + INDENT + INDENT + inner.trim()] : [];
+  }
+
+  const lines = inner.split('\n').map(line => line.trimEnd());
+  while (lines.length > 0 && lines[0] === '') lines.shift();
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines.map(line => line ? INDENT + line : line);
+}
+
+// === oauth-002: single-flight token refresh ===
+
+const TOKEN_REFRESH_NAME = /refresh[_-]?token|token[_-]?refresh/i;
+
+function isAsync(node: ts.FunctionLikeDeclaration): boolean {
+  return ts.getModifiers(node as ts.HasModifiers)?.some(m => m.kind === ts.SyntaxKind.AsyncKeyword) ?? false;
+}
+
+function isStatic(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node)?.some(m => m.kind === ts.SyntaxKind.StaticKeyword) ?? false);
+}
+
+/**
+ * Wrap an async token refresh function so concurrent callers share one
+ * in-flight refresh instead of each spending the refresh token. A refresh
+ * that takes arguments (a tenant, a user) gets one lock per distinct
+ * argument list, so callers never receive a token refreshed for someone
+ * else. TypeScript functions need a declared return type for the lock;
+ * without one the fixer declines rather than write `any`.
+ */
+function fixTokenRefreshRace(code: string, context: AnalysisContext): string | undefined {
+  let target: ts.FunctionDeclaration | ts.MethodDeclaration | undefined;
+  visit(context.sourceFile, node => {
+    if (target) return;
+    if ((ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) &&
+        node.name && ts.isIdentifier(node.name) && TOKEN_REFRESH_NAME.test(node.name.text) &&
+        node.body && isAsync(node) && !isStatic(node)) {
+      target = node;
+    }
+  });
+  if (!target || !target.body || !target.name) return undefined;
+
+  const typed = isTypeScriptFile(context.fileName);
+  if (typed && !target.type) return undefined;
+  // The lock key is built from the parameters by name
+  if (!target.parameters.every(param => ts.isIdentifier(param.name))) return undefined;
+
+  const name = (target.name as ts.Identifier).text;
+  const isMethod = ts.isMethodDeclaration(target);
+  const returnType = target.type?.getText() ?? '';
+  const params = target.parameters.map(param => (param.name as ts.Identifier).text);
+  const keyed = params.length > 0;
+  const lockName = keyed ? `${name}Locks` : `${name}Lock`;
+  const lock = isMethod ? `this.${lockName}` : lockName;
+  const indent = indentationAt(code, target.getStart());
+  const inner = indent + INDENT;
+
+  const initializer = keyed
+    ? `new Map${typed ? `<string, ${returnType}>` : ''}()`
+    : 'null';
+  const lockType = !typed || keyed ? '' : `: ${returnType} | null`;
+  const declaration = isMethod
+    ? `${indent}${typed ? (keyed ? 'private readonly ' : 'private ') : ''}${lockName}${lockType} = ${initializer};\n\n`
+    : `${indent}${keyed ? 'const' : 'let'} ${lockName}${lockType} = ${initializer};\n\n`;
+
+  const refresh = [
+    `${inner}const refresh = (async () => {`,
+    ...indentBlockBody(code, target.body, indent),
+    `${inner}})();`
+  ];
+  const body = keyed
+    ? [
+      '{',
+      `${inner}// Single-flight lock per argument list: concurrent callers with the same arguments share one refresh`,
+      `${inner}const lockKey = JSON.stringify([${params.join(', ')}]);`,
+      `${inner}const inFlight = ${lock}.get(lockKey);`,
+      `${inner}if (inFlight) return inFlight;`,
+      ...refresh,
+      `${inner}${lock}.set(lockKey, refresh);`,
+      `${inner}try {`,
+      `${inner}${INDENT}return await refresh;`,
+      `${inner}} finally {`,
+      `${inner}${INDENT}${lock}.delete(lockKey);`,
+      `${inner}}`,
+      `${indent}}`
+    ]
+    : [
+      '{',
+      `${inner}// Single-flight lock: concurrent callers share one in-flight refresh`,
+      `${inner}if (${lock}) return ${lock};`,
+      ...refresh,
+      `${inner}${lock} = refresh;`,
+      `${inner}try {`,
+      `${inner}${INDENT}return await refresh;`,
+      `${inner}} finally {`,
+      `${inner}${INDENT}${lock} = null;`,
+      `${inner}}`,
+      `${indent}}`
+    ];
+
+  const declarationAt = lineStartOf(code, startWithComments(code, target));
+  return code.slice(0, declarationAt) + declaration +
+    code.slice(declarationAt, target.body.getStart()) + body.join('\n') + code.slice(target.body.end);
+}
+
+// === rl-004: jitter on backoff delays ===
+
+const DELAY_NAME = /delay|backoff|wait/i;
+const EXPONENTIAL = /\*\*|Math\.pow|<<|attempt|retr/i;
+const SLEEP_CALL = /^(setTimeout|sleep|delay|wait)$/;
+
+const ARITHMETIC_OPERATORS = new Set([
+  ts.SyntaxKind.AsteriskToken,
+  ts.SyntaxKind.AsteriskAsteriskToken,
+  ts.SyntaxKind.SlashToken,
+  ts.SyntaxKind.PlusToken,
+  ts.SyntaxKind.MinusToken,
+  ts.SyntaxKind.LessThanLessThanToken
+]);
+
+/**
+ * A number-valued expression: a numeric literal, arithmetic on operands,
+ * or a Math call such as Math.min(cap, base * 2 ** attempt)
+ */
+function isArithmetic(expr: ts.Expression): boolean {
+  if (ts.isParenthesizedExpression(expr)) return isArithmetic(expr.expression);
+  if (ts.isNumericLiteral(expr)) return true;
+  if (ts.isBinaryExpression(expr)) return ARITHMETIC_OPERATORS.has(expr.operatorToken.kind);
+  return ts.isCallExpression(expr) && /^Math\.\w+$/.test(expr.expression.getText());
+}
+
+/**
+ * Whether a file declares or imports a name at its top level
+ */
+function declaresTopLevel(sourceFile: ts.SourceFile, name: string): boolean {
+  return sourceFile.statements.some(statement => {
+    if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+      return statement.name?.text === name;
+    }
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations.some(d => ts.isIdentifier(d.name) && d.name.text === name);
+    }
+    if (ts.isImportDeclaration(statement)) {
+      const clause = statement.importClause;
+      if (clause?.name?.text === name) return true;
+      const bindings = clause?.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) return bindings.name.text === name;
+      return bindings?.elements.some(element => element.name.text === name) ?? false;
+    }
+    return false;
+  });
+}
+
+/**
+ * Wrap the computed backoff delay in withJitter() and add the helper unless
+ * the file already declares one. Only numeric delays are wrapped - never an
+ * options object or a function that happens to live in a variable named like
+ * a delay.
+ */
+function fixBackoffJitter(code: string, context: AnalysisContext): string | undefined {
+  const candidates: ts.Expression[] = [];
+
+  visit(context.sourceFile, node => {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && DELAY_NAME.test(node.name.text) &&
+        node.initializer && isArithmetic(node.initializer)) {
+      candidates.push(node.initializer);
+    }
+  });
+  for (const call of context.calls) {
+    if (!SLEEP_CALL.test(call.name)) continue;
+    // A delay argument is a number whatever its form; a bare name is only wrapped if it looks exponential
+    const delayArg = call.name === 'setTimeout' ? call.node.arguments[1] : call.node.arguments[0];
+    if (delayArg && (isArithmetic(delayArg) || ts.isIdentifier(delayArg))) candidates.push(delayArg);
+  }
+
+  // Prefer the exponential term; a plain constant delay is the last resort
+  const target = candidates.find(expr => EXPONENTIAL.test(expr.getText())) ??
+    candidates.find(expr => !ts.isIdentifier(expr));
+  if (!target) return undefined;
+
+  const fixed = code.slice(0, target.getStart()) + `withJitter(${target.getText()})` + code.slice(target.end);
+  if (declaresTopLevel(context.sourceFile, 'withJitter')) return fixed;
+
+  const typed = isTypeScriptFile(context.fileName);
+  const helper = [
+    '',
+    '/**',
+    ' * Spread retries by ±30% so clients do not retry in lockstep',
+    ' */',
+    `function withJitter(delay${typed ? ': number' : ''})${typed ? ': number' : ''} {`,
+    `${INDENT}return delay * (1 + (Math.random() * 0.6 - 0.3));`,
+    '}',
+    ''
+  ].join('\n');
+
+  return fixed.replace(/\n*$/, '\n') + helper;
+}
+
+// === mcp-001/002/003: health endpoints ===
+
+const ROUTE_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'all']);
+
+/**
+ * Insert a route next to the server's existing routes, or before listen()
+ */
+function addRoute(code: string, context: AnalysisContext, route: (app: string) => string): string | undefined {
+  let anchor: ts.CallExpression | undefined;
+  let app: string | undefined;
+  let insertAfter = true;
+
+  for (const call of context.calls) {
+    const receiver = call.callee.slice(0, -(call.name.length + 1));
+    const firstArg = call.node.arguments[0];
+    if (ROUTE_METHODS.has(call.name) && /^[\w$]+$/.test(receiver) &&
+        firstArg && ts.isStringLiteralLike(firstArg) && firstArg.text.startsWith('/')) {
+      anchor = call.node;
+      app = receiver;
+    }
+  }
+
+  if (!anchor) {
+    const listen = context.calls.find(call => call.name === 'listen' && /^[\w$]+\.listen$/.test(call.callee));
+    if (!listen) return undefined;
+    anchor = listen.node;
+    app = listen.callee.slice(0, -'.listen'.length);
+    insertAfter = false;
+  }
+
+  const statement = enclosingStatement(anchor);
+  const indent = indentationAt(code, statement.getStart());
+  const block = route(app!).split('\n').map(line => line ? indent + line : line).join('\n');
+
+  if (insertAfter) {
+    return code.slice(0, statement.end) + '\n\n' + block + code.slice(statement.end);
+  }
+  const at = lineStartOf(code, startWithComments(code, statement));
+  return code.slice(0, at) + block + '\n\n' + code.slice(at);
+}
+
+export const AUTO_FIXERS: Record<string, AutoFixer> = {
+  'oauth-002': {
+    rule_id: 'oauth-002',
+    description: 'Wrap the token refresh function in a single-flight async lock',
+    apply: fixTokenRefreshRace
+  },
+  'rl-004': {
+    rule_id: 'rl-004',
+    description: 'Add ±30% jitter to the backoff delay',
+    apply: fixBackoffJitter
+  },
+  'mcp-001': {
+    rule_id: 'mcp-001',
+    description: 'Add a /health liveness endpoint',
+    apply: (code, context) => addRoute(code, context, app => [
+      `${app}.get('/health', (_req, res) => {`,
+      `${INDENT}res.status(200).json({`,
+      `${INDENT}${INDENT}status: 'healthy',`,
+      `${INDENT}${INDENT}timestamp: new Date().toISOString(),`,
+      `${INDENT}${INDENT}uptime: process.uptime()`,
+      `${INDENT}});`,
+      '});'
+    ].join('\n'))
+  },
+  'mcp-002': {
+    rule_id: 'mcp-002',
+    description: 'Add a /health/ready readiness endpoint',
+    apply: (code, context) => addRoute(code, context, app => [
+      `${app}.get('/health/ready', (_req, res) => {`,
+      `${INDENT}// Extend with dependency checks (database, upstream APIs) before reporting ready`,
+      `${INDENT}res.status(200).json({ ready: true, timestamp: new Date().toISOString() });`,
+      '});'
+    ].join('\n'))
+  },
+  'mcp-003': {
+    rule_id: 'mcp-003',
+    description: 'Add a /health/detailed diagnostics endpoint',
+    apply: (code, context) => addRoute(code, context, app => [
+      `${app}.get('/health/detailed', (_req, res) => {`,
+      `${INDENT}res.status(200).json({`,
+      `${INDENT}${INDENT}status: 'healthy',`,
+      `${INDENT}${INDENT}timestamp: new Date().toISOString(),`,
+      `${INDENT}${INDENT}uptime: process.uptime(),`,
+      `${INDENT}${INDENT}memory: process.memoryUsage()`,
+      `${INDENT}});`,
+      '});'
+    ].join('\n'))
+  }
+};
+
+/**
+ * Rule IDs that have an auto-fixer
+ */
+export function listAutoFixableRules(): string[] {
+  return Object.keys(AUTO_FIXERS);
+}
+
+/**
+ * Whether applyAutoFixes can fix a rule's violations
+ */
+export function hasAutoFixer(ruleId: string): boolean {
+  return Object.prototype.hasOwnProperty.call(AUTO_FIXERS, ruleId);
+}
@@ -0,0 +1,12 @@
+/**
+ * Fixes Module
+ *
+ * Exports the auto-fixers, the auto-fix engine, fix reverts and the
+ * diff/merge helpers they use.
+ */
+
+export * from './fixers.js';
+export * from './auto-fix.js';
+export * from './revert.js';
+export * from './unified-diff.js';
+export * from './three-way-merge.js';
@@ -0,0 +1,146 @@
+/**
+ * Auto-Fix Revert
+ *
+ * Restores the content a file had before an auto-fix, using the
+ * original_content and fixed_content recorded in auto_fixes. A file that
+ * still matches fixed_content is restored directly. A file edited since the
+ * fix is never overwritten blindly: the revert is three-way merged (base =
+ * fixed content, current = file on disk, incoming = original content) and
+ * only written when the caller opts into merging and the merge is clean.
+ * Otherwise a conflict report is returned.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import {
+  getAutoFix,
+  getAutoFixesByInspection,
+  markAutoFixReverted,
+  type AutoFixRecord
+} from '../database/index.js';
+import { resolveServerFile } from './auto-fix.js';
+import { threeWayMerge, type MergeConflict } from './three-way-merge.js';
+import { createUnifiedDiff } from './unified-diff.js';
+
+export interface RevertAutoFixOptions {
+  server_path: string;
+  fix_id?: string;
+  inspection_id?: string;
+  merge?: boolean;       // Write a clean three-way merge when the file changed since the fix
+}
+
+export type RevertStatus = 'reverted' | 'merged' | 'conflict' | 'changed' | 'skipped';
+
+export interface ConflictReport {
+  changes_since_fix: string;   // Unified diff from fixed_content to the file on disk
+  conflicts: MergeConflict[];
+  merged_preview: string;      // Merge result, with diff3 markers for conflicts
+}
+
+export interface RevertOutcome {
+  fix_id: string;
+  rule_id: string;
+  file?: string;
+  status: RevertStatus;
+  message: string;
+  report?: ConflictReport;
+}
+
+export interface RevertAutoFixResult {
+  outcomes: RevertOutcome[];
+  summary: Record<RevertStatus, number>;
+}
+
+/**
+ * Revert one recorded fix
+ */
+function revertOne(fix: AutoFixRecord, options: RevertAutoFixOptions): RevertOutcome {
+  const outcome = { fix_id: fix.id, rule_id: fix.fix_type, file: fix.file_path };
+
+  if (!fix.success || fix.original_content == null || fix.fixed_content == null || !fix.file_path) {
+    return { ...outcome, status: 'skipped', message: 'Fix was not applied; nothing to revert' };
+  }
+  if (fix.reverted_at) {
+    return { ...outcome, status: 'skipped', message: `Already reverted at ${fix.reverted_at}` };
+  }
+
+  const fullPath = resolveServerFile(options.server_path, fix.file_path);
+  if (!existsSync(fullPath)) {
+    return { ...outcome, status: 'skipped', message: `File not found: ${fix.file_path}` };
+  }
+
+  const current = readFileSync(fullPath, 'utf-8');
+  if (current === fix.original_content) {
+    markAutoFixReverted(fix.id);
+    return { ...outcome, status: 'reverted', message: 'File already matches its pre-fix content' };
+  }
+  if (current === fix.fixed_content) {
+    writeFileSync(fullPath, fix.original_content);
+    markAutoFixReverted(fix.id);
+    return { ...outcome, status: 'reverted', message: 'Restored pre-fix content' };
+  }
+
+  // Edited since the fix: merge the revert into the newer content
+  const merge = threeWayMerge(fix.fixed_content, current, fix.original_content, {
+    current: `${fix.file_path} (current)`,
+    base: `${fix.file_path} (after ${fix.fix_type} fix)`,
+    incoming: `${fix.file_path} (before ${fix.fix_type} fix)`
+  });
+  const report: ConflictReport = {
+    changes_since_fix: createUnifiedDiff(fix.fixed_content, current, fix.file_path),
+    conflicts: merge.conflicts,
+    merged_preview: merge.merged
+  };
+
+  if (!merge.clean) {
+    return {
+      ...outcome,
+      status: 'conflict',
+      message: `File changed since the fix and ${merge.conflicts.length} region(s) conflict with the revert; file left untouched`,
+      report
+    };
+  }
+  if (!options.merge) {
+    return {
+      ...outcome,
+      status: 'changed',
+      message: 'File changed since the fix; the revert merges cleanly - pass merge: true to write it',
+      report
+    };
+  }
+
+  writeFileSync(fullPath, merge.merged);
+  markAutoFixReverted(fix.id);
+  return { ...outcome, status: 'merged', message: 'Reverted the fix and kept later edits', report };
+}
+
+/**
+ * Revert a single fix, or every applied fix of an inspection (newest first,
+ * so stacked fixes on the same file unwind in order)
+ */
+export function revertAutoFix(options: RevertAutoFixOptions): RevertAutoFixResult {
+  if (!options.fix_id && !options.inspection_id) {
+    throw new Error('Either fix_id or inspection_id required');
+  }
+  if (!existsSync(options.server_path)) {
+    throw new Error(`server_path does not exist: ${options.server_path}`);
+  }
+
+  let fixes: AutoFixRecord[];
+  if (options.fix_id) {
+    const fix = getAutoFix(options.fix_id);
+    if (!fix) {
+      throw new Error(`Auto-fix not found: ${options.fix_id}`);
+    }
+    fixes = [fix];
+  } else {
+    fixes = getAutoFixesByInspection(options.inspection_id!)
+      .filter(fix => fix.success && !fix.reverted_at)
+      .reverse();
+  }
+
+  const outcomes = fixes.map(fix => revertOne(fix, options));
+  const summary: Record<RevertStatus, number> = { reverted: 0, merged: 0, conflict: 0, changed: 0, skipped: 0 };
+  for (const outcome of outcomes) summary[outcome.status]++;
+
+  return { outcomes, summary };
+}
@@ -0,0 +1,111 @@
+/**
+ * Three-Way Merge
+ *
+ * Line-based diff3 merge used when reverting an auto-fix from a file that
+ * was edited after the fix. The base is the content the fix produced, one
+ * side is the file as it is now and the other is the content before the
+ * fix. Changes on only one side merge cleanly; regions changed on both
+ * sides (or touching each other) become conflicts.
+ */
+
+import { diffHunks, splitLines, type DiffHunk } from './unified-diff.js';
+
+export interface MergeConflict {
+  base_line: number;     // 1-based first line of the region in the base
+  base: string[];
+  current: string[];
+  incoming: string[];
+}
+
+export interface MergeResult {
+  clean: boolean;
+  merged: string;        // With diff3-style markers around each conflict
+  conflicts: MergeConflict[];
+}
+
+export interface MergeLabels {
+  current: string;
+  base: string;
+  incoming: string;
+}
+
+type SideHunk = DiffHunk & { side: 'current' | 'incoming' };
+
+/**
+ * Rebuild base[start, end) with one side's hunks applied
+ */
+function applyHunks(base: string[], start: number, end: number, hunks: DiffHunk[]): string[] {
+  const output: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    output.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  output.push(...base.slice(position, end));
+  return output;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Merge `current` and `incoming`, both derived from `base`
+ */
+export function threeWayMerge(
+  baseText: string,
+  currentText: string,
+  incomingText: string,
+  labels: MergeLabels = { current: 'current', base: 'base', incoming: 'incoming' }
+): MergeResult {
+  const base = splitLines(baseText);
+  const hunks: SideHunk[] = [
+    ...diffHunks(base, splitLines(currentText)).map(h => ({ ...h, side: 'current' as const })),
+    ...diffHunks(base, splitLines(incomingText)).map(h => ({ ...h, side: 'incoming' as const }))
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const merged: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let position = 0;
+
+  for (let i = 0; i < hunks.length;) {
+    // Cluster hunks whose base regions overlap or touch
+    const cluster = [hunks[i]];
+    const start = hunks[i].start;
+    let end = hunks[i].end;
+    for (i++; i < hunks.length && hunks[i].start <= end; i++) {
+      cluster.push(hunks[i]);
+      end = Math.max(end, hunks[i].end);
+    }
+
+    merged.push(...base.slice(position, start));
+    position = end;
+
+    const currentHunks = cluster.filter(h => h.side === 'current');
+    const incomingHunks = cluster.filter(h => h.side === 'incoming');
+    const current = applyHunks(base, start, end, currentHunks);
+    const incoming = applyHunks(base, start, end, incomingHunks);
+
+    if (currentHunks.length === 0 || incomingHunks.length === 0 || sameLines(current, incoming)) {
+      merged.push(...(currentHunks.length > 0 ? current : incoming));
+      continue;
+    }
+
+    const baseRegion = base.slice(start, end);
+    conflicts.push({ base_line: start + 1, base: baseRegion, current, incoming });
+    merged.push(
+      `<<<<<<< ${labels.current}`, ...current,
+      `||||||| ${labels.base}`, ...baseRegion,
+      '=======', ...incoming,
+      `>>>>>>> ${labels.incoming}`
+    );
+  }
+  merged.push(...base.slice(position));
+
+  const trailingNewline = incomingText.endsWith('\n') || (incomingText === '' && currentText.endsWith('\n'));
+  return {
+    clean: conflicts.length === 0,
+    merged: merged.join('\n') + (merged.length > 0 && trailingNewline ? '\n' : ''),
+    conflicts
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Unified Diff
+ *
+ * Minimal line-based unified diff (the `diff -u` / `git diff` format) for
+ * showing auto-fix changes in dry-run mode. Fixes touch a small region of a
+ * file, so the common prefix and suffix are trimmed before running an LCS
+ * over the changed middle. The same edit script feeds the three-way merge
+ * used when reverting fixes.
+ */
+
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+/**
+ * Replace old lines [start, end) with `lines`
+ */
+export interface DiffHunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Split text into lines; a trailing newline does not add an empty line
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line-level edit script between two texts
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  // LCS lengths over the changed middle
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ op: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ op: '-', text: a[i++] });
+    } else {
+      middle.push({ op: '+', text: b[j++] });
+    }
+  }
+  while (i < a.length) middle.push({ op: '-', text: a[i++] });
+  while (j < b.length) middle.push({ op: '+', text: b[j++] });
+
+  return [
+    ...oldLines.slice(0, prefix).map(text => ({ op: ' ' as const, text })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ op: ' ' as const, text }))
+  ];
+}
+
+/**
+ * Changed regions between two line arrays, in old-line coordinates
+ */
+export function diffHunks(oldLines: string[], newLines: string[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let oldIndex = 0;
+  let open: DiffHunk | undefined;
+
+  for (const line of diffLines(oldLines, newLines)) {
+    if (line.op === ' ') {
+      if (open) hunks.push(open);
+      open = undefined;
+      oldIndex++;
+      continue;
+    }
+    open = open ?? { start: oldIndex, end: oldIndex, lines: [] };
+    if (line.op === '-') {
+      oldIndex++;
+      open.end = oldIndex;
+    } else {
+      open.lines.push(line.text);
+    }
+  }
+  if (open) hunks.push(open);
+
+  return hunks;
+}
+
+/**
+ * Render a unified diff of two versions of a file.
+ * Returns an empty string when the contents are identical.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  filePath: string,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): string {
+  if (oldText === newText) return '';
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const changed = lines.map((line, index) => line.op !== ' ' ? index : -1).filter(index => index >= 0);
+
+  // Group changes whose context windows overlap into hunks
+  const hunks: [number, number][] = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length, index + contextLines + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const output = [`--- a/${filePath}`, `+++ b/${filePath}`];
+  for (const [start, end] of hunks) {
+    const before = lines.slice(0, start);
+    const oldStart = before.filter(l => l.op !== '+').length + 1;
+    const newStart = before.filter(l => l.op !== '-').length + 1;
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(l => l.op !== '+').length;
+    const newCount = hunk.filter(l => l.op !== '-').length;
+
+    output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    output.push(...hunk.map(l => `${l.op}${l.text}`));
+  }
+
+  return output.join('\n') + '\n';
+}
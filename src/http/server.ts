@@ -11,14 +11,22 @@ import express, { type Request, type Response, type NextFunction } from 'express
 import { inspectCode } from '../inspectors/code-inspector.js';
 import { inspectPrompt } from '../inspectors/prompt-inspector.js';
 import { validateSkill } from '../inspectors/skill-validator.js';
-import { checkIntegration } from '../inspectors/integration-checker.js';
-import { runAllInspections, SUPPORTED_VENDORS, SUPPORTED_REGULATIONS } from '../rules/index.js';
+import { inspectIntegration } from '../inspectors/integration-checker.js';
+import {
+  runAllInspections,
+  RULE_CATEGORIES,
+  RULE_REGISTRY,
+  SUPPORTED_VENDORS,
+  SUPPORTED_REGULATIONS
+} from '../rules/index.js';
+import { RULE_APPLICABILITY } from '../profiler/index.js';
 import {
   getInspection,
   getInspectionsByBuild,
   getIssuesByInspection,
   getVendorConfig,
   getAllVendorConfigs,
+  getVendorFixtures,
   getComplianceRules
 } from '../database/index.js';
 import {
@@ -29,6 +37,8 @@ import {
   isClientError
 } from './middleware.js';
 import { inspectSelf } from '../tools/inspect-self.js';
+import { buildSarifLog } from '../reports/index.js';
+import { applyAutoFixes, revertAutoFix } from '../fixes/index.js';
 import { tools } from '../tools/index.js';
 
 export function createHttpServer(port: number): express.Application {
@@ -75,6 +85,20 @@ export function createHttpServer(port: number): express.Application {
     res.json(config);
   });
 
+  // Stored fixtures for a vendor (its replay regression suite)
+  app.get('/api/vendor/:vendor/fixtures', (req: Request, res: Response) => {
+    const vendor = req.params.vendor as string;
+    if (!getVendorConfig(vendor)) {
+      res.status(404).json({ error: `Vendor not found: ${vendor}`, supported: SUPPORTED_VENDORS });
+      return;
+    }
+
+    res.json({
+      vendor,
+      fixtures: getVendorFixtures(vendor).map(({ entries, ...fixture }) => ({ ...fixture, entries: entries.length }))
+    });
+  });
+
   // List all vendors
   app.get('/api/vendors', (_req: Request, res: Response) => {
     res.json({
@@ -128,9 +152,9 @@ export function createHttpServer(port: number): express.Application {
   });
 
   // Ecosystem integration check
-  app.post('/api/inspect/integration', (req: Request, res: Response) => {
+  app.post('/api/inspect/integration', async (req: Request, res: Response) => {
     try {
-      const result = checkIntegration(req.body);
+      const result = await inspectIntegration(req.body);
       res.json(result);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
@@ -155,6 +179,34 @@ export function createHttpServer(port: number): express.Application {
     res.json({ regulation, rules });
   });
 
+  // === Rule Catalog Endpoints ===
+
+  // List every built-in rule with its category and profile applicability
+  app.get('/api/rules', (req: Request, res: Response) => {
+    const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+
+    if (category && !RULE_CATEGORIES.some(c => c.category === category)) {
+      res.status(404).json({
+        error: `Rule category not found: ${category}`,
+        categories: RULE_CATEGORIES.map(c => c.category)
+      });
+      return;
+    }
+
+    const rules = category ? RULE_REGISTRY.filter(r => r.category === category) : RULE_REGISTRY;
+    res.json({
+      categories: RULE_CATEGORIES.map(c => ({
+        category: c.category,
+        prefixes: c.prefixes,
+        rule_count: c.rules.length,
+        skip_reason: c.skip_reason
+      })),
+      applicability: RULE_APPLICABILITY,
+      rules,
+      count: rules.length
+    });
+  });
+
   // === Inspection History Endpoints ===
 
   // Get inspection by ID
@@ -171,6 +223,42 @@ export function createHttpServer(port: number): express.Application {
     res.json({ inspection, issues });
   });
 
+  // Get inspection as a SARIF 2.1.0 log
+  app.get('/api/inspections/:id/sarif', (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const inspection = getInspection(id);
+
+    if (!inspection) {
+      res.status(404).json({ error: 'Inspection not found' });
+      return;
+    }
+
+    const issues = getIssuesByInspection(id);
+    res.type('application/sarif+json').send(JSON.stringify(buildSarifLog([{ inspection, issues }]), null, 2));
+  });
+
+  // Generate (dry_run, the default) or apply auto-fixes for an inspection
+  app.post('/api/inspections/:id/auto-fixes', (req: Request, res: Response) => {
+    try {
+      const result = applyAutoFixes({ ...req.body, inspection_id: req.params.id as string });
+      res.json(result);
+    } catch (error: any) {
+      const status = isClientError(error) ? 400 : 500;
+      res.status(status).json({ error: error.message });
+    }
+  });
+
+  // Revert one auto-fix (fix_id) or every fix of an inspection (inspection_id)
+  app.post('/api/auto-fixes/revert', (req: Request, res: Response) => {
+    try {
+      const result = revertAutoFix(req.body);
+      res.json(result);
+    } catch (error: any) {
+      const status = isClientError(error) ? 400 : 500;
+      res.status(status).json({ error: error.message });
+    }
+  });
+
   // Get inspections by build
   app.get('/api/builds/:buildId/inspections', (req: Request, res: Response) => {
     const buildId = req.params.buildId as string;
@@ -186,14 +274,7 @@ export function createHttpServer(port: number): express.Application {
       version: '1.0.0',
       supported_vendors: SUPPORTED_VENDORS,
       supported_regulations: SUPPORTED_REGULATIONS,
-      inspection_categories: [
-        'rate_limiting',
-        'oauth',
-        'error_handling',
-        'webhooks',
-        'compliance',
-        'data_integrity'
-      ]
+      inspection_categories: RULE_CATEGORIES.filter(c => c.check).map(c => c.category)
     });
   });
 
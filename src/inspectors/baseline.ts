@@ -0,0 +1,141 @@
+/**
+ * Inspection Baseline
+ *
+ * Records the findings a legacy server already has so later inspections can
+ * gate only on what changed. Each finding gets a fingerprint built from its
+ * rule ID, file and whitespace-normalized snippet - line numbers are left out
+ * so unrelated edits that shift code up or down do not turn existing findings
+ * into new ones.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { isAbsolute, join } from 'path';
+
+export const DEFAULT_BASELINE_FILE = '.linus-baseline.json';
+
+export type BaselineStatus = 'new' | 'existing';
+
+export interface BaselineIssue {
+  rule_id: string;
+  file: string;
+  snippet?: string;
+  severity: string;
+  issue: string;
+}
+
+export interface BaselineEntry extends BaselineIssue {
+  fingerprint: string;
+}
+
+export interface BaselineFile {
+  version: 1;
+  created_at: string;
+  server_name?: string;
+  entries: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+  statuses: BaselineStatus[];   // One per compared issue, in input order
+  fixed: BaselineEntry[];       // Baseline entries no longer reported
+}
+
+/**
+ * Collapse whitespace so reformatting does not change a fingerprint
+ */
+export function normalizeSnippet(snippet: string | undefined): string {
+  return (snippet ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Stable fingerprint for a finding: rule ID, file and normalized snippet
+ */
+export function fingerprintIssue(issue: Pick<BaselineIssue, 'rule_id' | 'file' | 'snippet'>): string {
+  return createHash('sha256')
+    .update(`${issue.rule_id}\0${issue.file.replace(/\\/g, '/')}\0${normalizeSnippet(issue.snippet)}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Resolve a baseline path against the inspected server's root
+ */
+export function resolveBaselinePath(serverPath: string, baselinePath?: string): string {
+  const path = baselinePath || DEFAULT_BASELINE_FILE;
+  return isAbsolute(path) ? path : join(serverPath, path);
+}
+
+/**
+ * Read and validate a baseline file
+ */
+export function readBaseline(path: string): BaselineFile {
+  if (!existsSync(path)) {
+    throw new Error(`Baseline file not found: ${path}`);
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid baseline file ${path}: ${error.message}`);
+  }
+
+  if (data?.version !== 1 || !Array.isArray(data.entries)) {
+    throw new Error(`Invalid baseline file ${path}: expected version 1 with an entries array`);
+  }
+
+  return data as BaselineFile;
+}
+
+/**
+ * Write the given findings as the new baseline
+ */
+export function writeBaseline(path: string, issues: BaselineIssue[], serverName?: string): BaselineFile {
+  const baseline: BaselineFile = {
+    version: 1,
+    created_at: new Date().toISOString(),
+    server_name: serverName,
+    entries: issues
+      .map(issue => ({
+        fingerprint: fingerprintIssue(issue),
+        rule_id: issue.rule_id,
+        file: issue.file,
+        snippet: issue.snippet,
+        severity: issue.severity,
+        issue: issue.issue
+      }))
+      .sort((a, b) => a.file.localeCompare(b.file) || a.rule_id.localeCompare(b.rule_id) ||
+        a.fingerprint.localeCompare(b.fingerprint))
+  };
+
+  writeFileSync(path, JSON.stringify(baseline, null, 2) + '\n');
+  return baseline;
+}
+
+/**
+ * Mark each finding as new or existing and list baseline entries that were fixed.
+ * Identical fingerprints are matched by count, so a second copy of a known
+ * finding in the same file still shows up as new.
+ */
+export function compareWithBaseline(issues: BaselineIssue[], baseline: BaselineFile): BaselineComparison {
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.entries) {
+    const matches = remaining.get(entry.fingerprint) ?? [];
+    matches.push(entry);
+    remaining.set(entry.fingerprint, matches);
+  }
+
+  const statuses = issues.map((issue): BaselineStatus => {
+    const matches = remaining.get(fingerprintIssue(issue));
+    if (matches && matches.length > 0) {
+      matches.shift();
+      return 'existing';
+    }
+    return 'new';
+  });
+
+  return {
+    statuses,
+    fixed: [...remaining.values()].flat()
+  };
+}
@@ -8,14 +8,16 @@
  */
 
 import { readFileSync, readdirSync, statSync } from 'fs';
-import { join, extname } from 'path';
+import { join, extname, relative, sep } from 'path';
 import { glob } from 'glob';
 import {
   runAllInspections,
-  runProfileAwareInspections,
+  runServerInspections,
   type FullInspectionResult,
-  type ProfileAwareInspectionResult,
   type AnyViolation,
+  type SuppressedViolation,
+  loadRulePacks,
+  getRegisteredRule,
   SUPPORTED_VENDORS,
   SUPPORTED_REGULATIONS
 } from '../rules/index.js';
@@ -29,6 +31,30 @@ import {
   detectServerProfile,
   type ServerProfile
 } from '../profiler/index.js';
+import { loadLinusConfig } from '../config/index.js';
+import { buildProjectGraph, type ProjectSource } from '../analysis/index.js';
+import {
+  compareWithBaseline,
+  readBaseline,
+  resolveBaselinePath,
+  writeBaseline,
+  type BaselineEntry,
+  type BaselineStatus
+} from './baseline.js';
+import { getDiffScope, isInChangedLines, type DiffScope } from './git-diff.js';
+import { inspectIntegration } from './integration-checker.js';
+import {
+  computeRulesetVersion,
+  hashContent,
+  profileCacheKey,
+  projectCacheKey,
+  readCachedFileResult,
+  writeCachedFileResult,
+  type CacheStats,
+  type FileCacheKey
+} from './result-cache.js';
+import { inspectFiles } from './worker-pool.js';
+import { healthProbeIssues, type HealthProbeResult } from '../runtime/index.js';
 
 export interface CodeInspectionOptions {
   server_path: string;
@@ -40,6 +66,13 @@ export interface CodeInspectionOptions {
   build_id?: string;
   use_profile?: boolean;  // Enable profile-aware inspection (default: true)
   show_skipped?: boolean; // Include skipped rules in output
+  baseline_path?: string; // Baseline file; only new issues affect the verdict
+  write_baseline?: boolean; // Record current issues as the baseline
+  probe_health?: boolean; // Start the server and call its health endpoints (mcp-001..003)
+  since?: string;         // Git ref; only files and lines changed since it are inspected
+  use_cache?: boolean;    // Reuse per-file results for unchanged files (default: true)
+  concurrency?: number;   // Worker threads running the rules (default: available cores; 0 = in-process)
+  file_timeout_ms?: number; // Per-file rule time limit in a worker (default: 30000)
 }
 
 export interface CodeInspectionResult {
@@ -55,17 +88,46 @@ export interface CodeInspectionResult {
     total_files: number;
     total_violations: number;
     auto_fixable: number;
+    suppressed: number;
   };
   issues: Array<{
-    severity: string;
+    rule_id: string;
+    severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
     category: string;
     file: string;
     location?: string;
+    line?: number;
+    column?: number;
+    end_line?: number;
+    snippet?: string;
     issue: string;
     remedy: string;
     auto_fixable: boolean;
+    baseline_status?: BaselineStatus;
   }>;
   duration_ms: number;
+  config_file?: string;   // Project config (.linusrc.json) that was applied
+  // Baseline comparison (present when baseline_path or write_baseline is set)
+  baseline?: {
+    path: string;
+    written: boolean;
+    new: number;
+    existing: number;
+    fixed: BaselineEntry[];
+  };
+  cache?: CacheStats;     // Per-file result cache hits and misses (absent with use_cache: false)
+  timed_out_files?: string[]; // Files whose rules hit file_timeout_ms; present only when there are any
+  // Diff scope (present when since is set)
+  diff?: {
+    since: string;
+    base_commit: string;
+    changed_files: number;        // Changed files of any kind under server_path
+    inspected_files: number;      // Changed code files the rules ran on
+    unchanged_line_issues: number; // Findings dropped because they sit on unchanged lines
+  };
+  // Runtime health probe (present when probe_health=true)
+  health_probe?: HealthProbeResult;
+  integration_check_id?: string;
   // Profile-aware fields (present when use_profile=true)
   profile?: ServerProfile;
   skipped_categories?: { category: string; reason: string }[];
@@ -141,7 +203,7 @@ function detectRegulation(code: string, configContent?: string): string | undefi
 /**
  * Get all code files from a directory
  */
-async function getCodeFiles(serverPath: string): Promise<string[]> {
+async function getCodeFiles(serverPath: string, ignore: string[] = []): Promise<string[]> {
   const patterns = [
     '**/*.ts',
     '**/*.js',
@@ -154,78 +216,26 @@ async function getCodeFiles(serverPath: string): Promise<string[]> {
   for (const pattern of patterns) {
     const matches = await glob(pattern, {
       cwd: serverPath,
-      ignore: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/*.test.*', '**/*.spec.*']
+      ignore: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/*.test.*', '**/*.spec.*', ...ignore]
     });
     files.push(...matches.map(f => join(serverPath, f)));
   }
 
-  return files;
+  // glob's order depends on the filesystem; sort so results are reproducible
+  return files.sort();
 }
 
 /**
- * Inspect a single code file (legacy - no profile filtering)
+ * Format an issue location as file:line:column when the rule reported a span
  */
-function inspectFile(
-  filePath: string,
-  vendor?: string,
-  regulation?: string
-): { violations: AnyViolation[]; category_results: Map<string, AnyViolation[]> } {
-  let code: string;
-  try {
-    code = readFileSync(filePath, 'utf-8');
-  } catch (error) {
-    return { violations: [], category_results: new Map() };
-  }
-
-  const result = runAllInspections(code, { vendor, regulation });
-
-  const categoryResults = new Map<string, AnyViolation[]>();
-  for (const categoryResult of result.results) {
-    categoryResults.set(categoryResult.category, categoryResult.violations);
+function formatIssueLocation(
+  relativePath: string,
+  violation: Pick<AnyViolation, 'line' | 'column' | 'location'>
+): string {
+  if (violation.line !== undefined) {
+    return `${relativePath}:${violation.line}:${violation.column}`;
   }
-
-  return {
-    violations: result.results.flatMap(r => r.violations),
-    category_results: categoryResults
-  };
-}
-
-/**
- * Inspect a single code file with profile-aware filtering
- */
-function inspectFileWithProfile(
-  filePath: string,
-  profile: ServerProfile,
-  vendor?: string,
-  regulation?: string
-): { violations: AnyViolation[]; category_results: Map<string, AnyViolation[]>; result: ProfileAwareInspectionResult } {
-  let code: string;
-  try {
-    code = readFileSync(filePath, 'utf-8');
-  } catch (error) {
-    const emptyResult: ProfileAwareInspectionResult = {
-      results: [],
-      summary: { total_violations: 0, critical: 0, high: 0, medium: 0, low: 0, auto_fixable: 0 },
-      verdict: 'PASSED',
-      profile,
-      skipped_categories: [],
-      applied_categories: []
-    };
-    return { violations: [], category_results: new Map(), result: emptyResult };
-  }
-
-  const result = runProfileAwareInspections(code, profile, { vendor, regulation });
-
-  const categoryResults = new Map<string, AnyViolation[]>();
-  for (const categoryResult of result.results) {
-    categoryResults.set(categoryResult.category, categoryResult.violations);
-  }
-
-  return {
-    violations: result.results.flatMap(r => r.violations),
-    category_results: categoryResults,
-    result
-  };
+  return `${relativePath}${violation.location ? ':' + violation.location : ''}`;
 }
 
 /**
@@ -242,6 +252,21 @@ export async function inspectCode(options: CodeInspectionOptions): Promise<CodeI
   // Get server name from path if not provided
   const serverName = options.server_name || options.server_path.split('/').pop() || 'unknown';
 
+  // Project config (.linusrc.json / linus.config.json), if the server has one
+  const projectConfig = loadLinusConfig(options.server_path);
+  const packs = await loadRulePacks(options.server_path, projectConfig.packs);
+
+  // Fail fast on a missing baseline before any work is recorded
+  if (options.since && options.write_baseline) {
+    throw new Error('write_baseline cannot be combined with since: a diff-scoped inspection would record a partial baseline');
+  }
+  const baselinePath = (options.baseline_path || options.write_baseline)
+    ? resolveBaselinePath(options.server_path, options.baseline_path)
+    : undefined;
+  if (baselinePath && !options.write_baseline) {
+    readBaseline(baselinePath);
+  }
+
   // Try to read config file for auto-detection
   let configContent: string | undefined;
   try {
@@ -252,7 +277,7 @@ export async function inspectCode(options: CodeInspectionOptions): Promise<CodeI
   }
 
   // Read a sample of code files for auto-detection
-  const codeFiles = await getCodeFiles(options.server_path);
+  const codeFiles = await getCodeFiles(options.server_path, projectConfig.ignore);
   let sampleCode = '';
   for (const file of codeFiles.slice(0, 5)) {
     try {
@@ -262,9 +287,28 @@ export async function inspectCode(options: CodeInspectionOptions): Promise<CodeI
     }
   }
 
-  // Auto-detect vendor and regulation if not provided
-  const vendor = options.vendor || detectVendor(sampleCode, configContent);
-  const regulation = options.regulation || detectRegulation(sampleCode, configContent);
+  // Every module of the server, so rules can follow imports across files
+  // and whole-server rules see all of it, even when only a diff is inspected
+  const sources: ProjectSource[] = [];
+  for (const file of codeFiles) {
+    try {
+      sources.push({ file_name: file, code: readFileSync(file, 'utf-8') });
+    } catch {
+      // File read failed, skip
+    }
+  }
+  const project = buildProjectGraph(sources);
+
+  // Per-file rules only run on changed files; detection still sees the whole server
+  const diffScope: DiffScope | undefined = options.since ? getDiffScope(options.server_path, options.since) : undefined;
+  const inspectedFiles = diffScope
+    ? codeFiles.filter(file => diffScope.files.has(relative(options.server_path, file).split(sep).join('/')))
+    : codeFiles;
+  let unchangedLineIssues = 0;
+
+  // Explicit options win, then project config, then auto-detection
+  const vendor = options.vendor || projectConfig.vendor || detectVendor(sampleCode, configContent);
+  const regulation = options.regulation || projectConfig.regulation || detectRegulation(sampleCode, configContent);
 
   // Detect server profile if using profile-aware mode
   let profile: ServerProfile | undefined;
@@ -272,7 +316,7 @@ export async function inspectCode(options: CodeInspectionOptions): Promise<CodeI
   let appliedCategories: string[] = [];
 
   if (useProfile) {
-    profile = await detectServerProfile(options.server_path);
+    profile = await detectServerProfile(options.server_path, projectConfig);
     console.error(`[Profile] Detected server type: ${profile.type}`);
     console.error(`[Profile] Capabilities: external_apis=${profile.hasExternalAPIs}, oauth=${profile.hasOAuth}, webhooks=${profile.hasWebhooks}, mcp=${profile.isMCPServer}, http=${profile.hasHTTPLayer}`);
     console.error(`[Profile] Confidence: ${(profile.confidence * 100).toFixed(0)}% (patterns: ${profile.detectedPatterns.length})`);
@@ -301,71 +345,244 @@ export async function inspectCode(options: CodeInspectionOptions): Promise<CodeI
   let totalMedium = 0;
   let totalLow = 0;
   let totalAutoFixable = 0;
+  let totalSuppressed = 0;
+
+  // Per-file results are cached unless use_cache is false
+  const rulesetVersion = options.use_cache !== false ? computeRulesetVersion(packs, projectConfig.rules) : undefined;
+  const profileKey = profileCacheKey(useProfile ? profile : undefined);
+  const cacheStats: CacheStats = { hits: 0, misses: 0 };
+
+  // Hash the contents already read for the project graph
+  const sourceCode = new Map(sources.map(source => [source.file_name, source.code]));
+
+  function fileCacheKey(filePath: string): FileCacheKey | undefined {
+    const content = sourceCode.get(filePath);
+    if (content === undefined) return undefined;
+    return {
+      file_path: filePath,
+      content_hash: hashContent(content),
+      ruleset_version: rulesetVersion!,
+      vendor,
+      regulation,
+      profile_key: profileKey,
+      project_key: projectCacheKey(project, filePath)
+    };
+  }
 
-  // Inspect each file
-  for (const filePath of codeFiles) {
-    const relativePath = filePath.replace(options.server_path, '').replace(/^\//, '');
+  // Unchanged files reuse the findings of an earlier inspection; the rest
+  // go to the worker pool and stream back in file order
+  const cacheKeys = inspectedFiles.map(filePath => rulesetVersion ? fileCacheKey(filePath) : undefined);
+  const cachedResults = cacheKeys.map(key => key ? readCachedFileResult(key) : undefined);
+  const fresh = inspectFiles(inspectedFiles.filter((_, i) => !cachedResults[i]), {
+    server_path: options.server_path,
+    pack_specs: projectConfig.packs ?? [],
+    packs,
+    inspection: { profile: useProfile ? profile : undefined, vendor, regulation, rules: projectConfig.rules, project },
+    concurrency: options.concurrency,
+    timeout_ms: options.file_timeout_ms
+  });
+  const timedOutFiles: string[] = [];
 
-    let violations: AnyViolation[];
+  // Whole-server rules run once here rather than on every file, on this
+  // thread and without the pool's per-file timeout
+  const serverFindings = new Map(
+    runServerInspections(sources, { vendor, regulation, rules: projectConfig.rules }, useProfile ? profile : undefined)
+      .map(findings => [findings.file_name, findings])
+  );
 
-    if (useProfile && profile) {
-      // Profile-aware inspection
-      const { violations: fileViolations, result } = inspectFileWithProfile(filePath, profile, vendor, regulation);
-      violations = fileViolations;
+  try {
+    // Inspect each file
+    for (const [index, filePath] of inspectedFiles.entries()) {
+      const relativePath = filePath.replace(options.server_path, '').replace(/^\//, '');
+
+      let fileResult = cachedResults[index];
+      if (fileResult) {
+        cacheStats.hits++;
+      } else {
+        const next = await fresh.next();
+        if (next.done) throw new Error(`No inspection result for ${relativePath}`);
+        const outcome = next.value;
+        if ('error' in outcome) {
+          if (!outcome.timed_out) throw new Error(`Inspection of ${relativePath} failed: ${outcome.error}`);
+          console.error(`[Inspect] ${relativePath}: ${outcome.error}, skipped`);
+          timedOutFiles.push(relativePath);
+          // Its whole-server findings are still reported
+          fileResult = { violations: [], suppressed: [], applied_categories: [], skipped_categories: [] };
+        } else {
+          fileResult = outcome.result;
+          const cacheKey = cacheKeys[index];
+          if (cacheKey) {
+            cacheStats.misses++;
+            writeCachedFileResult(cacheKey, fileResult);
+          }
+        }
+      }
+
+      const serverResult = serverFindings.get(filePath);
+      let violations: AnyViolation[] = [...fileResult.violations, ...(serverResult?.violations ?? [])];
+      let suppressed: SuppressedViolation[] = [...fileResult.suppressed, ...(serverResult?.suppressed ?? [])];
 
       // Track categories (only need to do once)
-      if (skippedCategories.length === 0) {
-        skippedCategories = result.skipped_categories;
-        appliedCategories = result.applied_categories;
+      if (useProfile && skippedCategories.length === 0) {
+        skippedCategories = fileResult.skipped_categories;
+        appliedCategories = fileResult.applied_categories;
       }
-    } else {
-      // Legacy inspection (all rules)
-      const { violations: fileViolations } = inspectFile(filePath, vendor, regulation);
-      violations = fileViolations;
-    }
 
-    for (const violation of violations) {
-      // Create issue record
-      createInspectionIssue({
-        inspection_id: inspection.id,
-        severity: violation.severity,
-        category: 'rule_id' in violation ? violation.rule_id.split('-')[0] : 'unknown',
-        location: `${relativePath}${violation.location ? ':' + violation.location : ''}`,
-        issue: violation.issue,
-        remedy: violation.remedy,
-        auto_fixable: violation.auto_fixable,
-        auto_fixed: false
-      });
+      // Keep only findings on lines changed since the ref (or that have no line)
+      if (diffScope) {
+        const ranges = diffScope.files.get(relative(options.server_path, filePath).split(sep).join('/'));
+        const kept = violations.filter(v => isInChangedLines(ranges, v));
+        unchangedLineIssues += violations.length - kept.length;
+        violations = kept;
+        suppressed = suppressed.filter(v => isInChangedLines(ranges, v));
+      }
+
+      // Waived findings are stored for audit but do not count toward the verdict
+      for (const violation of suppressed) {
+        createInspectionIssue({
+          inspection_id: inspection.id,
+          rule_id: violation.rule_id,
+          severity: violation.severity,
+          category: violation.rule_id.split('-')[0],
+          location: formatIssueLocation(relativePath, violation),
+          line: violation.line,
+          column: violation.column,
+          end_line: violation.end_line,
+          snippet: violation.snippet,
+          issue: violation.issue,
+          remedy: violation.remedy,
+          auto_fixable: violation.auto_fixable,
+          auto_fixed: false,
+          suppressed: true,
+          suppression_reason: violation.suppression_reason
+        });
+        totalSuppressed++;
+      }
+
+      for (const violation of violations) {
+        allIssues.push({
+          rule_id: violation.rule_id,
+          severity: violation.severity,
+          category: violation.rule_id.split('-')[0],
+          file: relativePath,
+          location: violation.location,
+          line: violation.line,
+          column: violation.column,
+          end_line: violation.end_line,
+          snippet: violation.snippet,
+          issue: violation.issue,
+          remedy: violation.remedy,
+          auto_fixable: violation.auto_fixable
+        });
+      }
+    }
+  } finally {
+    // Stops the pool's workers if an error ends the loop early
+    await fresh.return();
+  }
 
+  // Probe the running server: a working endpoint clears the string check
+  // for its rule, a failing one is reported against it
+  let healthProbe: HealthProbeResult | undefined;
+  let integrationCheckId: string | undefined;
+  if (options.probe_health) {
+    const integration = await inspectIntegration({
+      server_path: options.server_path,
+      probe_health: true,
+      vendor,
+      inspection_id: inspection.id
+    });
+    healthProbe = integration.checks.health_probe!;
+    integrationCheckId = integration.id;
+
+    const verified = new Set(healthProbe.tests
+      .filter(t => t.status === 'PASS' && ['health', 'readiness', 'detailed'].includes(t.name))
+      .flatMap(t => t.rule_ids ?? []));
+    for (let i = allIssues.length - 1; i >= 0; i--) {
+      if (verified.has(allIssues[i].rule_id)) allIssues.splice(i, 1);
+    }
+    for (const issue of healthProbeIssues(healthProbe)) {
+      const ruleId = issue.rule_id ?? 'mcp-001';
       allIssues.push({
-        severity: violation.severity,
-        category: 'rule_id' in violation ? violation.rule_id.split('-')[0] : 'unknown',
-        file: relativePath,
-        location: violation.location,
-        issue: violation.issue,
-        remedy: violation.remedy,
-        auto_fixable: violation.auto_fixable
+        rule_id: ruleId,
+        severity: getRegisteredRule(ruleId)?.severity ?? 'HIGH',
+        category: 'mcp',
+        file: healthProbe.url,
+        issue: issue.issue,
+        remedy: issue.remedy,
+        auto_fixable: false
       });
+    }
+  }
 
-      // Count by severity
-      switch (violation.severity) {
-        case 'CRITICAL':
-          totalCritical++;
-          break;
-        case 'HIGH':
-          totalHigh++;
-          break;
-        case 'MEDIUM':
-          totalMedium++;
-          break;
-        case 'LOW':
-          totalLow++;
-          break;
-      }
+  // Compare against the baseline (or record a new one) before storing issues
+  let baselineSummary: CodeInspectionResult['baseline'];
+  if (baselinePath) {
+    const baseline = options.write_baseline
+      ? writeBaseline(baselinePath, allIssues, serverName)
+      : readBaseline(baselinePath);
+    // Entries in files outside the diff were not inspected, so they are neither existing nor fixed
+    const scopedBaseline = diffScope
+      ? { ...baseline, entries: baseline.entries.filter(entry => diffScope.files.has(entry.file.replace(/\\/g, '/'))) }
+      : baseline;
+    const comparison = compareWithBaseline(allIssues, scopedBaseline);
+    allIssues.forEach((issue, i) => { issue.baseline_status = comparison.statuses[i]; });
+    baselineSummary = {
+      path: baselinePath,
+      written: options.write_baseline === true,
+      new: comparison.statuses.filter(s => s === 'new').length,
+      existing: comparison.statuses.filter(s => s === 'existing').length,
+      fixed: comparison.fixed
+    };
+  }
 
-      if (violation.auto_fixable) {
-        totalAutoFixable++;
-      }
+  // Only new issues count toward the verdict when a baseline is in use
+  let gateCritical = 0;
+  let gateHigh = 0;
+  let gateMedium = 0;
+
+  for (const issue of allIssues) {
+    // Create issue record
+    createInspectionIssue({
+      inspection_id: inspection.id,
+      rule_id: issue.rule_id,
+      severity: issue.severity,
+      category: issue.category,
+      location: formatIssueLocation(issue.file, issue),
+      line: issue.line,
+      column: issue.column,
+      end_line: issue.end_line,
+      snippet: issue.snippet,
+      issue: issue.issue,
+      remedy: issue.remedy,
+      auto_fixable: issue.auto_fixable,
+      auto_fixed: false,
+      baseline_status: issue.baseline_status
+    });
+
+    const gates = issue.baseline_status !== 'existing';
+
+    // Count by severity
+    switch (issue.severity) {
+      case 'CRITICAL':
+        totalCritical++;
+        if (gates) gateCritical++;
+        break;
+      case 'HIGH':
+        totalHigh++;
+        if (gates) gateHigh++;
+        break;
+      case 'MEDIUM':
+        totalMedium++;
+        if (gates) gateMedium++;
+        break;
+      case 'LOW':
+        totalLow++;
+        break;
+    }
+
+    if (issue.auto_fixable) {
+      totalAutoFixable++;
     }
   }
 
@@ -373,13 +590,17 @@ export async function inspectCode(options: CodeInspectionOptions): Promise<CodeI
 
   // Determine verdict
   let verdict: 'PASSED' | 'BLOCKED' | 'WARNING';
-  if (totalCritical > 0 || totalHigh > 0) {
+  if (gateCritical > 0 || gateHigh > 0) {
     verdict = 'BLOCKED';
-  } else if (totalMedium > 0) {
+  } else if (gateMedium > 0) {
     verdict = 'WARNING';
   } else {
     verdict = 'PASSED';
   }
+  // A file that was never fully checked cannot pass the gate
+  if (verdict === 'PASSED' && timedOutFiles.length > 0) {
+    verdict = 'WARNING';
+  }
 
   // Update inspection record
   updateInspectionVerdict(inspection.id, verdict, {
@@ -411,12 +632,27 @@ export async function inspectCode(options: CodeInspectionOptions): Promise<CodeI
       high: totalHigh,
       medium: totalMedium,
       low: totalLow,
-      total_files: codeFiles.length,
+      total_files: inspectedFiles.length,
       total_violations: allIssues.length,
-      auto_fixable: totalAutoFixable
+      auto_fixable: totalAutoFixable,
+      suppressed: totalSuppressed
     },
     issues: allIssues,
-    duration_ms: durationMs
+    duration_ms: durationMs,
+    config_file: projectConfig.source,
+    baseline: baselineSummary,
+    ...(rulesetVersion ? { cache: cacheStats } : {}),
+    ...(timedOutFiles.length > 0 ? { timed_out_files: timedOutFiles } : {}),
+    ...(diffScope ? {
+      diff: {
+        since: diffScope.since,
+        base_commit: diffScope.base_commit,
+        changed_files: diffScope.files.size,
+        inspected_files: inspectedFiles.length,
+        unchanged_line_issues: unchangedLineIssues
+      }
+    } : {}),
+    ...(healthProbe ? { health_probe: healthProbe, integration_check_id: integrationCheckId } : {})
   };
 
   // Add profile information if using profile-aware mode
@@ -446,6 +682,7 @@ export function quickInspect(
 
   return runAllInspections(code, {
     vendor: options.vendor,
-    regulation: options.regulation
+    regulation: options.regulation,
+    file_name: options.is_path ? codeOrPath : undefined
   });
 }
@@ -0,0 +1,73 @@
+/**
+ * Single-File Inspection
+ *
+ * Runs the rules on one source file. Shared by the in-process path of
+ * inspectCode and the worker threads, so it must not touch the database.
+ */
+
+import { readFileSync } from 'fs';
+import {
+  runAllInspections,
+  runProfileAwareInspections,
+  type AnyViolation,
+  type RulePack,
+  type SuppressedViolation
+} from '../rules/index.js';
+import type { ProjectGraph } from '../analysis/index.js';
+import type { RuleOverrides } from '../config/index.js';
+import type { ServerProfile } from '../profiler/index.js';
+
+export interface FileInspectionOptions {
+  profile?: ServerProfile;      // Profile-aware inspection; omit for legacy mode (all rules)
+  vendor?: string;
+  regulation?: string;
+  rules?: RuleOverrides;
+  packs?: RulePack[];
+  project?: ProjectGraph;       // Server import graph; filePath must be one of its files
+}
+
+export interface FileInspectionResult {
+  violations: AnyViolation[];
+  suppressed: SuppressedViolation[];
+  applied_categories: string[];
+  skipped_categories: { category: string; reason: string }[];
+}
+
+/**
+ * Inspect one file; an unreadable file has no findings
+ */
+export function inspectSourceFile(filePath: string, options: FileInspectionOptions): FileInspectionResult {
+  let code: string;
+  try {
+    code = readFileSync(filePath, 'utf-8');
+  } catch {
+    return { violations: [], suppressed: [], applied_categories: [], skipped_categories: [] };
+  }
+
+  const inspectionOptions = {
+    vendor: options.vendor,
+    regulation: options.regulation,
+    file_name: filePath,
+    rules: options.rules,
+    packs: options.packs,
+    project: options.project
+  };
+
+  if (options.profile) {
+    const result = runProfileAwareInspections(code, options.profile, inspectionOptions);
+    return {
+      violations: result.results.flatMap(r => r.violations),
+      suppressed: result.results.flatMap(r => r.suppressed ?? []),
+      applied_categories: result.applied_categories,
+      skipped_categories: result.skipped_categories
+    };
+  }
+
+  const result = runAllInspections(code, inspectionOptions);
+  return {
+    violations: result.results.flatMap(r => r.violations),
+    suppressed: result.results.flatMap(r => r.suppressed ?? []),
+    applied_categories: [],
+    skipped_categories: []
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * File Inspection Worker
+ *
+ * Worker thread entry for the file inspection pool. Rule packs hold
+ * functions, which cannot cross a thread boundary, so each worker loads
+ * the server's packs itself before taking work.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { loadRulePacks } from '../rules/index.js';
+import { inspectSourceFile } from './file-inspection.js';
+import type { FileWorkerData, FileWorkerRequest, FileWorkerResponse } from './worker-pool.js';
+
+const data = workerData as FileWorkerData;
+const ready = loadRulePacks(data.server_path, data.pack_specs);
+
+parentPort!.on('message', async (request: FileWorkerRequest) => {
+  let response: FileWorkerResponse;
+  try {
+    const packs = await ready;
+    response = { id: request.id, result: inspectSourceFile(request.file_path, { ...data.inspection, packs }) };
+  } catch (error: any) {
+    response = { id: request.id, error: error?.message || String(error) };
+  }
+  parentPort!.postMessage(response);
+});
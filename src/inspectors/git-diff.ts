@@ -0,0 +1,97 @@
+/**
+ * Git Diff Scope
+ *
+ * Works out which files and lines of a server changed since a git ref, so a
+ * build inspection can run the per-file rules on the changed files only and
+ * report findings on the lines the build actually touched. Untracked files
+ * count as changed in full; deleted files are not inspected.
+ */
+
+import { execFileSync } from 'child_process';
+
+export interface LineRange {
+  start: number;
+  end: number;                  // Inclusive
+}
+
+export interface DiffScope {
+  since: string;
+  base_commit: string;          // The ref resolved to a commit hash
+  // Changed files relative to the server path; undefined ranges = whole file
+  files: Map<string, LineRange[] | undefined>;
+}
+
+function git(serverPath: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, { cwd: serverPath, encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error: any) {
+    const stderr = error.stderr?.toString().trim();
+    throw new Error(`git ${args[0]} failed in ${serverPath}: ${stderr || error.message}`);
+  }
+}
+
+/**
+ * Parse `git diff -U0` output into the added/modified line ranges per file
+ */
+export function parseChangedLines(diff: string): Map<string, LineRange[]> {
+  const files = new Map<string, LineRange[]>();
+  let current: LineRange[] | undefined;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim();
+      if (target === '/dev/null') {
+        current = undefined;
+        continue;
+      }
+      const file = target.replace(/^b\//, '');
+      current = files.get(file) ?? [];
+      files.set(file, current);
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && current) {
+      const start = parseInt(hunk[1], 10);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      // Pure deletions have no lines left in the new file
+      if (count > 0) current.push({ start, end: start + count - 1 });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Files and lines changed in the working tree of serverPath since a git ref
+ */
+export function getDiffScope(serverPath: string, since: string): DiffScope {
+  let baseCommit: string;
+  try {
+    baseCommit = git(serverPath, ['rev-parse', '--verify', '--quiet', `${since}^{commit}`]).trim();
+  } catch {
+    throw new Error(`Unknown git ref "${since}" in ${serverPath}`);
+  }
+  const diff = git(serverPath, ['diff', '--relative', '--no-color', '--no-ext-diff', '-U0', '--diff-filter=ACMR', baseCommit, '--', '.']);
+  const untracked = git(serverPath, ['ls-files', '--others', '--exclude-standard', '--', '.']);
+
+  const files = new Map<string, LineRange[] | undefined>(parseChangedLines(diff));
+  for (const file of untracked.split('\n').filter(Boolean)) {
+    files.set(file, undefined);
+  }
+
+  return { since, base_commit: baseCommit, files };
+}
+
+/**
+ * Whether a finding touches a changed line; findings without a line number
+ * cannot be mapped and are kept
+ */
+export function isInChangedLines(
+  ranges: LineRange[] | undefined,
+  issue: { line?: number; end_line?: number }
+): boolean {
+  if (!ranges || issue.line === undefined) return true;
+  const end = issue.end_line ?? issue.line;
+  return ranges.some(range => issue.line! <= range.end && end >= range.start);
+}
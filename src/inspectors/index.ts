@@ -6,6 +6,10 @@
  * - Prompt Inspector (pre-build mode)
  * - Skill Validator (pre-build mode)
  * - Integration Checker (build mode)
+ * - Baseline (gate only on new findings)
+ * - Git Diff Scope (inspect only what changed since a ref)
+ * - Result Cache (reuse findings for unchanged files)
+ * - File Inspection Pool (rules on worker threads, per-file timeout)
  * - Server Profiler (profile detection)
  */
 
@@ -13,6 +17,11 @@ export * from './code-inspector.js';
 export * from './prompt-inspector.js';
 export * from './skill-validator.js';
 export * from './integration-checker.js';
+export * from './baseline.js';
+export * from './git-diff.js';
+export * from './result-cache.js';
+export * from './file-inspection.js';
+export * from './worker-pool.js';
 
 // Re-export profiler
 export { detectServerProfile, detectProfileFromCode } from '../profiler/index.js';
@@ -3,17 +3,23 @@
  *
  * Verifies new servers integrate properly with existing BOP ecosystem.
  * Checks InterLock config, peer connectivity, signal compatibility,
- * health endpoints, MCP protocol, and dependencies.
+ * health endpoints, MCP protocol, and dependencies. With probe_health the
+ * server is started and its health endpoints called (health-probe.ts).
  */
 
 import { readFileSync, existsSync, readdirSync } from 'fs';
 import { join } from 'path';
-import { generateId } from '../database/index.js';
+import { generateId, saveIntegrationCheck } from '../database/index.js';
+import { getRegisteredRule } from '../rules/index.js';
+import { healthProbeIssues, probeHealthEndpoints, type HealthProbeResult } from '../runtime/index.js';
 
 export interface IntegrationCheckOptions {
   server_path: string;
   check_connectivity?: boolean;
   timeout_ms?: number;
+  probe_health?: boolean;   // Start the server and call its health endpoints
+  vendor?: string;          // Dependency to take down while probing readiness
+  inspection_id?: string;
 }
 
 export interface IntegrationIssue {
@@ -24,6 +30,7 @@ export interface IntegrationIssue {
 }
 
 export interface IntegrationCheckResult {
+  id?: string;              // integration_checks record, once saved
   server_path: string;
   verdict: 'PASS' | 'FAIL' | 'PARTIAL';
   checks: {
@@ -42,6 +49,7 @@ export interface IntegrationCheckResult {
       expected_port: number;
     };
     dependencies_valid: boolean;
+    health_probe?: HealthProbeResult;
   };
   issues: IntegrationIssue[];
 }
@@ -365,6 +373,12 @@ function checkSignalOrphans(
   return { orphans, issues };
 }
 
+function integrationVerdict(issues: IntegrationIssue[]): IntegrationCheckResult['verdict'] {
+  if (issues.some(i => i.severity === 'CRITICAL')) return 'FAIL';
+  if (issues.some(i => i.severity === 'HIGH')) return 'PARTIAL';
+  return 'PASS';
+}
+
 /**
  * Main integration check function
  */
@@ -418,22 +432,9 @@ export function checkIntegration(options: IntegrationCheckOptions): IntegrationC
     }
   }
 
-  // Determine verdict
-  let verdict: 'PASS' | 'FAIL' | 'PARTIAL';
-  const criticalCount = allIssues.filter(i => i.severity === 'CRITICAL').length;
-  const highCount = allIssues.filter(i => i.severity === 'HIGH').length;
-
-  if (criticalCount > 0) {
-    verdict = 'FAIL';
-  } else if (highCount > 0) {
-    verdict = 'PARTIAL';
-  } else {
-    verdict = 'PASS';
-  }
-
   return {
     server_path: options.server_path,
-    verdict,
+    verdict: integrationVerdict(allIssues),
     checks: {
       interlock_valid: interlockCheck.valid,
       interlock_port: interlockCheck.port,
@@ -454,3 +455,47 @@ export function checkIntegration(options: IntegrationCheckOptions): IntegrationC
     issues: allIssues
   };
 }
+
+/**
+ * Run the integration checks, probe the health endpoints if asked, and
+ * save the result to integration_checks
+ */
+export async function inspectIntegration(options: IntegrationCheckOptions): Promise<IntegrationCheckResult> {
+  const result = checkIntegration(options);
+
+  if (options.probe_health) {
+    const probe = await probeHealthEndpoints({ server_path: options.server_path, vendor: options.vendor });
+    result.checks.health_probe = probe;
+    for (const issue of healthProbeIssues(probe)) {
+      result.issues.push({
+        severity: issue.rule_id ? getRegisteredRule(issue.rule_id)?.severity ?? 'HIGH' : 'HIGH',
+        category: 'health',
+        issue: issue.issue,
+        remedy: issue.remedy
+      });
+    }
+    result.verdict = integrationVerdict(result.issues);
+  }
+
+  const probe = result.checks.health_probe;
+  const record = saveIntegrationCheck({
+    inspection_id: options.inspection_id,
+    server_path: options.server_path,
+    verdict: result.verdict,
+    interlock_valid: result.checks.interlock_valid,
+    interlock_port: result.checks.interlock_port,
+    signal_health: result.checks.signal_health,
+    mcp_tools: result.checks.mcp_tools,
+    health_endpoint_status: probe ? probe.endpoints.find(e => e.path === '/health')?.status ?? 0 : undefined,
+    health_probe: probe && {
+      url: probe.url,
+      verdict: probe.verdict,
+      endpoints: probe.endpoints.map(({ path, status, latency_p95_ms }) => ({ path, status, latency_p95_ms })),
+      readiness_flip: probe.readiness_flip,
+      tests: probe.tests
+    },
+    issues: result.issues
+  });
+
+  return { id: record.id, ...result };
+}
@@ -0,0 +1,126 @@
+/**
+ * Inspection Result Cache
+ *
+ * Per-file rule results stored in SQLite so repeated inspections of the same
+ * build only re-run rules on files that changed. An entry is keyed by
+ * everything that can change a file's findings: its path and content hash,
+ * the rule-set version, vendor, regulation, the profile flags that decide
+ * which rules apply and what the file reaches through its local imports.
+ *
+ * The rule-set version hashes the built-in rule, analysis and fixer modules
+ * as loaded, the project's rule overrides and every rule pack's checks, so
+ * editing a rule invalidates the cache without a manual version bump.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { dirname, extname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { reachableFiles, type ProjectGraph } from '../analysis/index.js';
+import type { RulePack } from '../rules/index.js';
+import type { RuleOverrides } from '../config/index.js';
+import type { ServerProfile } from '../profiler/index.js';
+import { getInspectionCacheEntry, saveInspectionCacheEntry } from '../database/index.js';
+import type { FileInspectionResult } from './file-inspection.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Modules whose code decides what a file's findings are (the fixers decide which are auto_fixable)
+const RULE_SOURCE_DIRS = [join(__dirname, '..', 'rules'), join(__dirname, '..', 'analysis'), join(__dirname, '..', 'fixes')];
+const RULE_SOURCE_EXTENSIONS = new Set(['.ts', '.js']);
+
+export type CachedFileResult = FileInspectionResult;
+
+export interface FileCacheKey {
+  file_path: string;            // Absolute, as rules see it in their analysis context
+  content_hash: string;
+  ruleset_version: string;
+  vendor?: string;
+  regulation?: string;
+  profile_key: string;
+  project_key?: string;         // Part of the key hash only; see projectCacheKey
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+let builtinRulesHash: string | undefined;
+
+function sha256(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Hash of the built-in rule sources, computed once per process
+ */
+function hashBuiltinRules(): string {
+  if (builtinRulesHash) return builtinRulesHash;
+
+  const hash = createHash('sha256');
+  for (const dir of RULE_SOURCE_DIRS) {
+    if (!existsSync(dir)) continue;
+    for (const name of readdirSync(dir).sort()) {
+      if (!RULE_SOURCE_EXTENSIONS.has(extname(name)) || name.endsWith('.d.ts')) continue;
+      hash.update(name).update('\0').update(readFileSync(join(dir, name))).update('\0');
+    }
+  }
+  builtinRulesHash = hash.digest('hex');
+  return builtinRulesHash;
+}
+
+/**
+ * Version of the rules a file is checked against: built-in rules, project
+ * rule overrides and loaded rule packs
+ */
+export function computeRulesetVersion(packs: RulePack[] = [], rules?: RuleOverrides): string {
+  const packSignature = packs.map(pack => ({
+    name: pack.name,
+    version: pack.version,
+    rules: pack.rules.map(rule => [rule.id, rule.severity, rule.category, rule.requires, rule.check.toString()])
+  }));
+  return sha256(JSON.stringify([hashBuiltinRules(), rules ?? {}, packSignature])).slice(0, 32);
+}
+
+/**
+ * The part of a profile that decides which rules run ('legacy' without one)
+ */
+export function profileCacheKey(profile?: ServerProfile): string {
+  if (!profile) return 'legacy';
+  const flags = Object.entries(profile)
+    .filter(([key, value]) => typeof value === 'boolean' && /^(has|is)[A-Z]/.test(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value ? 1 : 0}`);
+  return [profile.type, ...flags].join(';');
+}
+
+/**
+ * What a file's cross-file checks see: the capabilities and exports of every
+ * module it reaches, so editing a helper invalidates the files importing it
+ */
+export function projectCacheKey(graph: ProjectGraph, filePath: string): string {
+  const reached = reachableFiles(graph, filePath)
+    .sort()
+    .map(file => [file, graph.files[file].capabilities, graph.files[file].exports]);
+  return sha256(JSON.stringify(reached)).slice(0, 32);
+}
+
+export function hashContent(content: string): string {
+  return sha256(content);
+}
+
+function cacheKey(key: FileCacheKey): string {
+  return sha256(JSON.stringify([
+    key.file_path, key.content_hash, key.ruleset_version, key.vendor ?? null, key.regulation ?? null, key.profile_key,
+    key.project_key ?? null
+  ]));
+}
+
+export function readCachedFileResult(key: FileCacheKey): CachedFileResult | undefined {
+  return getInspectionCacheEntry(cacheKey(key))?.result;
+}
+
+export function writeCachedFileResult(key: FileCacheKey, result: CachedFileResult): void {
+  saveInspectionCacheEntry({ cache_key: cacheKey(key), ...key, result });
+}
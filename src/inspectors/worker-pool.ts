@@ -0,0 +1,184 @@
+/**
+ * File Inspection Pool
+ *
+ * Spreads per-file rule execution over worker threads. Results come back in
+ * input order no matter which worker finishes first, so issue lists and
+ * stored inspections stay deterministic. A file that runs past its timeout
+ * (a catastrophic regex, say) has its worker terminated and replaced; the
+ * file is reported as timed out and the rest of the server is still
+ * inspected.
+ *
+ * concurrency 0 runs every file in-process without timeouts.
+ */
+
+import { availableParallelism } from 'os';
+import { Worker } from 'worker_threads';
+import type { ProjectGraph } from '../analysis/index.js';
+import type { RuleOverrides } from '../config/index.js';
+import type { ServerProfile } from '../profiler/index.js';
+import type { RulePack } from '../rules/index.js';
+import { inspectSourceFile, type FileInspectionResult } from './file-inspection.js';
+
+export const DEFAULT_FILE_TIMEOUT_MS = 30000;
+const MAX_DEFAULT_CONCURRENCY = 8;
+
+// Under tsx/vitest this module is TypeScript and so is its worker
+const IS_TYPESCRIPT = import.meta.url.endsWith('.ts');
+const WORKER_URL = new URL(IS_TYPESCRIPT ? './file-worker.ts' : './file-worker.js', import.meta.url);
+
+export interface FileWorkerData {
+  server_path: string;          // Rule packs are resolved relative to it
+  pack_specs: string[];
+  inspection: {
+    profile?: ServerProfile;
+    vendor?: string;
+    regulation?: string;
+    rules?: RuleOverrides;
+    project?: ProjectGraph;     // Plain data, cloned into each worker
+  };
+}
+
+export interface FileWorkerRequest {
+  id: number;
+  file_path: string;
+}
+
+export type FileWorkerResponse =
+  | { id: number; result: FileInspectionResult }
+  | { id: number; error: string };
+
+export interface FilePoolOptions extends FileWorkerData {
+  packs: RulePack[];            // Already loaded, for the in-process path
+  concurrency?: number;         // Worker threads (default: available cores, at most 8; 0 = in-process)
+  timeout_ms?: number;          // Per-file limit (default 30s)
+}
+
+export type FileOutcome =
+  | { file_path: string; result: FileInspectionResult }
+  | { file_path: string; error: string; timed_out: boolean };
+
+export function defaultConcurrency(): number {
+  return Math.max(1, Math.min(availableParallelism(), MAX_DEFAULT_CONCURRENCY));
+}
+
+/**
+ * A TypeScript worker entry needs tsx registered inside the worker first;
+ * loader flags in execArgv do not reach a worker's own entry module
+ */
+function workerEntry(): { entry: string | URL; eval: boolean } {
+  if (!IS_TYPESCRIPT) return { entry: WORKER_URL, eval: false };
+  let tsxApi = 'tsx/esm/api';
+  try {
+    tsxApi = import.meta.resolve(tsxApi);
+  } catch {
+    // Left bare; resolved from the working directory
+  }
+  const entry = `import(${JSON.stringify(tsxApi)})` +
+    `.then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`;
+  return { entry, eval: true };
+}
+
+/**
+ * Inspect files and yield one outcome per file, in input order
+ */
+export async function* inspectFiles(files: string[], options: FilePoolOptions): AsyncGenerator<FileOutcome, void> {
+  const concurrency = options.concurrency ?? defaultConcurrency();
+
+  if (concurrency <= 0) {
+    for (const filePath of files) {
+      yield {
+        file_path: filePath,
+        result: inspectSourceFile(filePath, { ...options.inspection, packs: options.packs })
+      };
+    }
+    return;
+  }
+
+  const workerData: FileWorkerData = {
+    server_path: options.server_path,
+    pack_specs: options.pack_specs,
+    inspection: options.inspection
+  };
+  const timeoutMs = options.timeout_ms ?? DEFAULT_FILE_TIMEOUT_MS;
+  const { entry, eval: evalEntry } = workerEntry();
+
+  const outcomes: (FileOutcome | undefined)[] = new Array(files.length);
+  const workers = new Set<Worker>();
+  let nextIndex = 0;
+  let nextId = 0;
+  let stopped = false;
+  let wake: (() => void) | undefined;
+
+  function settle(index: number, outcome: FileOutcome): void {
+    outcomes[index] = outcome;
+    wake?.();
+  }
+
+  function startWorker(): Worker {
+    const worker = new Worker(entry, { workerData, eval: evalEntry });
+    workers.add(worker);
+    worker.once('exit', () => workers.delete(worker));
+    return worker;
+  }
+
+  function runOn(worker: Worker, filePath: string): Promise<{ outcome: FileOutcome; healthy: boolean }> {
+    const id = nextId++;
+    return new Promise(resolve => {
+      const finish = (outcome: FileOutcome, healthy: boolean) => {
+        clearTimeout(timer);
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+        resolve({ outcome, healthy });
+      };
+      const onMessage = (response: FileWorkerResponse) => {
+        if (response.id !== id) return;
+        finish('result' in response
+          ? { file_path: filePath, result: response.result }
+          : { file_path: filePath, error: response.error, timed_out: false }, true);
+      };
+      const onError = (error: Error) => finish({ file_path: filePath, error: error.message, timed_out: false }, false);
+      const onExit = (code: number) => finish({ file_path: filePath, error: `Worker exited with code ${code}`, timed_out: false }, false);
+      const timer = setTimeout(() => {
+        finish({ file_path: filePath, error: `Timed out after ${timeoutMs}ms`, timed_out: true }, false);
+        void worker.terminate();
+      }, timeoutMs);
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      worker.postMessage({ id, file_path: filePath } satisfies FileWorkerRequest);
+    });
+  }
+
+  // Each lane owns at most one worker and replaces it after a timeout or crash
+  async function lane(): Promise<void> {
+    let worker: Worker | undefined;
+    while (!stopped && nextIndex < files.length) {
+      const index = nextIndex++;
+      worker ??= startWorker();
+      const { outcome, healthy } = await runOn(worker, files[index]);
+      if (!healthy) {
+        void worker.terminate();
+        worker = undefined;
+      }
+      settle(index, outcome);
+    }
+    if (worker) await worker.terminate();
+  }
+
+  const lanes = Array.from({ length: Math.min(concurrency, files.length) }, () => lane());
+
+  try {
+    for (let index = 0; index < files.length; index++) {
+      while (outcomes[index] === undefined) {
+        await new Promise<void>(resolve => { wake = resolve; });
+      }
+      yield outcomes[index]!;
+    }
+    await Promise.all(lanes);
+  } finally {
+    stopped = true;
+    await Promise.all([...workers].map(worker => worker.terminate()));
+  }
+}
@@ -14,6 +14,7 @@ import {
   classifyServerType,
   calculateConfidence
 } from './server-profile.js';
+import { loadLinusConfig, type LinusConfig, type ProfileFlags } from '../config/index.js';
 
 // Known external API domains (not localhost/internal)
 const EXTERNAL_DOMAINS = [
@@ -61,15 +62,17 @@ interface DetectionContext {
 }
 
 /**
- * Detect server profile from a server directory
+ * Detect server profile from a server directory.
+ * Project config (.linusrc.json) is loaded from the server root unless given.
  */
-export async function detectServerProfile(serverPath: string): Promise<ServerProfile> {
+export async function detectServerProfile(serverPath: string, config?: LinusConfig): Promise<ServerProfile> {
   const profile = createEmptyProfile();
   const patterns: string[] = [];
   const vendors: string[] = [];
+  const projectConfig = config ?? loadLinusConfig(serverPath);
 
   // Gather context
-  const context = await gatherContext(serverPath);
+  const context = await gatherContext(serverPath, projectConfig);
 
   // Run all detectors
   detectExternalAPIs(context, profile, patterns, vendors);
@@ -83,6 +86,13 @@ export async function detectServerProfile(serverPath: string): Promise<ServerPro
   detectWebSocketLayer(context, profile, patterns);
   detectInterLock(context, profile, patterns);
 
+  // Flags pinned in project config override detection
+  const pinned = Object.entries(projectConfig.profile?.flags ?? {}) as [keyof ProfileFlags, boolean][];
+  for (const [flag, value] of pinned) {
+    profile[flag] = value;
+    patterns.push(`pinned:${flag}=${value}`);
+  }
+
   // Set detected patterns and vendors
   profile.detectedPatterns = [...new Set(patterns)];
   profile.detectedVendors = [...new Set(vendors)];
@@ -99,7 +109,7 @@ export async function detectServerProfile(serverPath: string): Promise<ServerPro
 /**
  * Gather all context needed for detection
  */
-async function gatherContext(serverPath: string): Promise<DetectionContext> {
+async function gatherContext(serverPath: string, config: LinusConfig): Promise<DetectionContext> {
   // Default ignore patterns
   const ignorePatterns = [
     '**/node_modules/**',
@@ -109,16 +119,8 @@ async function gatherContext(serverPath: string): Promise<DetectionContext> {
     '**/*.spec.*'
   ];
 
-  // Read config for additional exclusions (profiling.exclude_paths)
-  try {
-    const configPath = join(serverPath, 'config', 'interlock.json');
-    const configData = JSON.parse(readFileSync(configPath, 'utf-8'));
-    if (configData.profiling?.exclude_paths && Array.isArray(configData.profiling.exclude_paths)) {
-      ignorePatterns.push(...configData.profiling.exclude_paths);
-    }
-  } catch {
-    // No config or no profiling section - use defaults only
-  }
+  // Project config: ignored files and files excluded from capability detection
+  ignorePatterns.push(...(config.ignore ?? []), ...(config.profile?.exclude_paths ?? []));
 
   // Get all source files
   const patterns = ['**/*.ts', '**/*.js', '**/*.tsx', '**/*.jsx'];
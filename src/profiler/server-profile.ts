@@ -47,7 +47,8 @@ export interface ServerProfile {
  */
 export interface RuleApplicability {
   category: string;
-  requires: Partial<ServerProfile>;
+  requires: Partial<ServerProfile>;       // Every flag must be set
+  requiresAny?: Partial<ServerProfile>;   // At least one flag must be set
   description: string;
 }
 
@@ -98,6 +99,11 @@ export const RULE_APPLICABILITY: RuleApplicability[] = [
     requires: { hasOAuth: true },
     description: 'Token expiry handling only needed for OAuth integrations'
   },
+  {
+    category: 'oauth-credentials',
+    requires: { hasOAuth: true },
+    description: 'Credential, scope and tenant isolation checks only for OAuth integrations'
+  },
 
   // Webhooks
   {
@@ -110,6 +116,11 @@ export const RULE_APPLICABILITY: RuleApplicability[] = [
     requires: { hasWebhooks: true },
     description: 'Replay protection only for webhook receivers'
   },
+  {
+    category: 'webhook-delivery',
+    requires: { hasWebhooks: true },
+    description: 'Delivery timeouts, retries and fallbacks only for webhook receivers'
+  },
 
   // Data integrity
   {
@@ -117,6 +128,12 @@ export const RULE_APPLICABILITY: RuleApplicability[] = [
     requires: { hasDatabaseWrites: true, hasExternalAPIs: true },
     description: 'Idempotency needed when combining DB writes with external APIs'
   },
+  {
+    category: 'data-sync',
+    requires: {},
+    requiresAny: { hasExternalAPIs: true, hasDatabaseWrites: true },
+    description: 'Sync integrity checks only for servers with external APIs or database writes'
+  },
   {
     category: 'dead-letter-queue',
     requires: { hasMessageQueue: true },
@@ -139,6 +156,11 @@ export const RULE_APPLICABILITY: RuleApplicability[] = [
     requires: { isMCPServer: true },
     description: 'Structured logging for MCP servers'
   },
+  {
+    category: 'mcp-operations',
+    requires: { isMCPServer: true },
+    description: 'Inbound rate limits and graceful shutdown for MCP servers'
+  },
 
   // HTTP layer
   {
@@ -0,0 +1,7 @@
+/**
+ * Reports Module
+ *
+ * Exports report formats for stored inspection results.
+ */
+
+export * from './sarif.js';
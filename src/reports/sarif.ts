@@ -0,0 +1,212 @@
+/**
+ * SARIF 2.1.0 Export
+ *
+ * Converts stored inspections into a Static Analysis Results Interchange
+ * Format log so findings open in code-scanning viewers and IDE SARIF
+ * plugins. Rule metadata comes from the built-in rule arrays; each
+ * inspection_issues row becomes a result with a physical location.
+ */
+
+import { listRuleMetadata, type RuleMetadata } from '../rules/index.js';
+import { fingerprintIssue } from '../inspectors/baseline.js';
+import type { InspectionIssue, InspectionRecord } from '../database/index.js';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+export const SARIF_VERSION = '2.1.0';
+
+const TOOL_NAME = 'linus-inspector';
+const TOOL_VERSION = '1.0.0';
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { severity: string; category: string; regulation?: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex?: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations?: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: {
+        startLine: number;
+        startColumn?: number;
+        endLine?: number;
+        snippet?: { text: string };
+      };
+    };
+  }>;
+  partialFingerprints?: Record<string, string>;
+  baselineState?: 'new' | 'unchanged';
+  suppressions?: Array<{ kind: 'inSource'; justification?: string }>;
+  properties: {
+    severity: string;
+    category: string;
+    remedy?: string;
+    auto_fixable: boolean;
+  };
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      rules: SarifReportingDescriptor[];
+    };
+  };
+  automationDetails: { id: string };
+  invocations: Array<{ executionSuccessful: boolean; endTimeUtc?: string }>;
+  results: SarifResult[];
+  properties: { inspection_id: string; build_id: string; server_name: string; verdict: string };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: SarifRun[];
+}
+
+/**
+ * Map linus severities onto SARIF levels
+ */
+export function severityToLevel(severity: string): SarifLevel {
+  switch (severity) {
+    case 'CRITICAL':
+    case 'HIGH':
+      return 'error';
+    case 'MEDIUM':
+      return 'warning';
+    case 'LOW':
+      return 'note';
+    default:
+      return 'none';
+  }
+}
+
+function toReportingDescriptor(rule: RuleMetadata): SarifReportingDescriptor {
+  return {
+    id: rule.id,
+    name: rule.name,
+    shortDescription: { text: rule.name },
+    fullDescription: { text: rule.description },
+    defaultConfiguration: { level: severityToLevel(rule.severity) },
+    properties: {
+      severity: rule.severity,
+      category: rule.category,
+      ...(rule.regulation ? { regulation: rule.regulation } : {})
+    }
+  };
+}
+
+/**
+ * Recover the file path from a stored issue location
+ * ("src/a.ts:12:5", "src/a.ts", or "self" for meta-inspection)
+ */
+function issueFile(issue: InspectionIssue): string | undefined {
+  if (!issue.location || issue.location === 'self') return undefined;
+  if (issue.line !== undefined && issue.line !== null) {
+    return issue.location.replace(/:\d+:\d+$/, '');
+  }
+  const pathMatch = issue.location.match(/^[^:\s]+\.[A-Za-z]+/);
+  return pathMatch ? pathMatch[0] : issue.location;
+}
+
+function toResult(issue: InspectionIssue, ruleIndexes: Map<string, number>): SarifResult {
+  const ruleId = issue.rule_id || issue.category;
+  const file = issueFile(issue);
+  const result: SarifResult = {
+    ruleId,
+    level: severityToLevel(issue.severity),
+    message: { text: issue.issue },
+    properties: {
+      severity: issue.severity,
+      category: issue.category,
+      remedy: issue.remedy || undefined,
+      auto_fixable: Boolean(issue.auto_fixable)
+    }
+  };
+
+  const ruleIndex = ruleIndexes.get(ruleId);
+  if (ruleIndex !== undefined) result.ruleIndex = ruleIndex;
+
+  if (file) {
+    result.locations = [{
+      physicalLocation: {
+        artifactLocation: { uri: file, uriBaseId: 'SRCROOT' },
+        ...(issue.line ? {
+          region: {
+            startLine: issue.line,
+            ...(issue.column ? { startColumn: issue.column } : {}),
+            ...(issue.end_line ? { endLine: issue.end_line } : {}),
+            ...(issue.snippet ? { snippet: { text: issue.snippet } } : {})
+          }
+        } : {})
+      }
+    }];
+    if (issue.rule_id) {
+      result.partialFingerprints = {
+        'linusBaseline/v1': fingerprintIssue({ rule_id: issue.rule_id, file, snippet: issue.snippet })
+      };
+    }
+  }
+
+  if (issue.baseline_status) {
+    result.baselineState = issue.baseline_status === 'existing' ? 'unchanged' : 'new';
+  }
+
+  if (issue.suppressed) {
+    result.suppressions = [{ kind: 'inSource', justification: issue.suppression_reason || undefined }];
+  }
+
+  return result;
+}
+
+/**
+ * Build one SARIF run for a stored inspection
+ */
+export function inspectionToSarifRun(inspection: InspectionRecord, issues: InspectionIssue[]): SarifRun {
+  const rules = listRuleMetadata().map(toReportingDescriptor);
+  const ruleIndexes = new Map(rules.map((rule, index) => [rule.id, index]));
+
+  return {
+    tool: {
+      driver: {
+        name: TOOL_NAME,
+        version: TOOL_VERSION,
+        rules
+      }
+    },
+    automationDetails: { id: `${inspection.build_id}/${inspection.id}` },
+    invocations: [{
+      executionSuccessful: true,
+      ...(inspection.completed_at ? { endTimeUtc: new Date(inspection.completed_at).toISOString() } : {})
+    }],
+    results: issues.map(issue => toResult(issue, ruleIndexes)),
+    properties: {
+      inspection_id: inspection.id,
+      build_id: inspection.build_id,
+      server_name: inspection.server_name,
+      verdict: inspection.verdict
+    }
+  };
+}
+
+/**
+ * Build a SARIF 2.1.0 log with one run per inspection
+ */
+export function buildSarifLog(reports: Array<{ inspection: InspectionRecord; issues: InspectionIssue[] }>): SarifLog {
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: reports.map(({ inspection, issues }) => inspectionToSarifRun(inspection, issues))
+  };
+}
@@ -19,6 +19,8 @@
  * - NEVER store CVV, tokenization required
  */
 
+import { locateMatch, type AnalysisContext } from '../analysis/index.js';
+
 export interface ComplianceConfig {
   regulation: 'HIPAA' | 'GDPR' | 'SOC2' | 'PCI-DSS';
   requirements: {
@@ -85,7 +87,7 @@ export interface ComplianceRule {
   regulation: string;
   description: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
-  check: (code: string, regulation?: string) => ComplianceViolation[];
+  check: (code: string, regulation?: string, context?: AnalysisContext) => ComplianceViolation[];
 }
 
 export interface ComplianceViolation {
@@ -93,6 +95,10 @@ export interface ComplianceViolation {
   regulation: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
   location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
   issue: string;
   remedy: string;
   penalty: string;
@@ -111,12 +117,13 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'HIPAA') return [];
       const violations: ComplianceViolation[] = [];
 
-      const hasOldTLS = /tls.*1\.[01]|ssl.*3|tlsv1\.[01]/i.test(code);
-      if (hasOldTLS) {
+      const oldTLSAt = locateMatch(code, /tls.*1\.[01]|ssl.*3|tlsv1\.[01]/i);
+      if (oldTLSAt) {
         violations.push({
           rule_id: 'hipaa-001',
           regulation: 'HIPAA',
           severity: 'CRITICAL',
+          ...oldTLSAt,
           issue: 'TLS 1.0/1.1 or SSL 3.0 detected - forbidden under HIPAA',
           remedy: 'Use TLS 1.2 or higher for all connections',
           penalty: '$100-$50K per violation',
@@ -137,14 +144,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'HIPAA') return [];
       const violations: ComplianceViolation[] = [];
 
-      const storesPHI = /phi|patient|medical|health|diagnosis|treatment/i.test(code);
+      const phiAt = locateMatch(code, /phi|patient|medical|health|diagnosis|treatment/i);
       const hasEncryption = /aes[_-]?256|encrypt.*rest|crypto/i.test(code);
 
-      if (storesPHI && !hasEncryption) {
+      if (phiAt && !hasEncryption) {
         violations.push({
           rule_id: 'hipaa-002',
           regulation: 'HIPAA',
           severity: 'CRITICAL',
+          ...phiAt,
           issue: 'PHI detected but no AES-256 encryption at rest',
           remedy: 'Encrypt all PHI with AES-256 before storing in database',
           penalty: '$100-$50K per violation',
@@ -165,14 +173,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'HIPAA') return [];
       const violations: ComplianceViolation[] = [];
 
-      const hasAuditLogs = /audit|log.*access|access.*log/i.test(code);
+      const auditLogsAt = locateMatch(code, /audit|log.*access|access.*log/i);
       const hasRetention = /6.*year|retention|archive|immutable/i.test(code);
 
-      if (hasAuditLogs && !hasRetention) {
+      if (auditLogsAt && !hasRetention) {
         violations.push({
           rule_id: 'hipaa-003',
           regulation: 'HIPAA',
           severity: 'HIGH',
+          ...auditLogsAt,
           issue: 'Audit logging without 6-year retention configuration',
           remedy: 'Configure audit logs with 6-year retention and immutable storage',
           penalty: '$25K+ per violation',
@@ -196,14 +205,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       const violations: ComplianceViolation[] = [];
 
       const hasEUData = /eu|europe|gdpr|personal.*data/i.test(code);
-      const transfersToUS = /us-east|us-west|america|\.com.*aws|azure.*us/i.test(code);
+      const usTransferAt = locateMatch(code, /us-east|us-west|america|\.com.*aws|azure.*us/i);
       const hasTransferMechanism = /scc|standard.*contract|adequacy|binding.*corporate|bcr/i.test(code);
 
-      if (hasEUData && transfersToUS && !hasTransferMechanism) {
+      if (hasEUData && usTransferAt && !hasTransferMechanism) {
         violations.push({
           rule_id: 'gdpr-001',
           regulation: 'GDPR',
           severity: 'CRITICAL',
+          ...usTransferAt,
           issue: 'EU data transferred to US without legal transfer mechanism',
           remedy: 'Sign Standard Contractual Clauses (SCCs) with US data processors',
           penalty: 'Up to €20M or 4% of global revenue',
@@ -224,14 +234,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'GDPR') return [];
       const violations: ComplianceViolation[] = [];
 
-      const hasBreachHandling = /breach|incident|security.*event/i.test(code);
+      const breachHandlingAt = locateMatch(code, /breach|incident|security.*event/i);
       const has72HourNotification = /72.*hour|notification.*dpa|notify.*author/i.test(code);
 
-      if (hasBreachHandling && !has72HourNotification) {
+      if (breachHandlingAt && !has72HourNotification) {
         violations.push({
           rule_id: 'gdpr-002',
           regulation: 'GDPR',
           severity: 'HIGH',
+          ...breachHandlingAt,
           issue: 'Breach handling without 72-hour DPA notification workflow',
           remedy: 'Implement breach notification workflow with 72-hour SLA to DPA',
           penalty: '€10M or 2% of global revenue',
@@ -252,14 +263,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'GDPR') return [];
       const violations: ComplianceViolation[] = [];
 
-      const hasDeletion = /delete|erase|remove.*user|gdpr.*request/i.test(code);
+      const deletionAt = locateMatch(code, /delete|erase|remove.*user|gdpr.*request/i);
       const cascadesToBackups = /backup.*delete|delete.*backup|cascade.*backup/i.test(code);
 
-      if (hasDeletion && !cascadesToBackups) {
+      if (deletionAt && !cascadesToBackups) {
         violations.push({
           rule_id: 'gdpr-003',
           regulation: 'GDPR',
           severity: 'HIGH',
+          ...deletionAt,
           issue: 'Data deletion does not cascade to backups',
           remedy: 'Implement deletion that propagates to all backup systems',
           penalty: '€20M or 4% of global revenue',
@@ -282,14 +294,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'SOC2') return [];
       const violations: ComplianceViolation[] = [];
 
-      const hasAuth = /auth|login|signin|password/i.test(code);
+      const authAt = locateMatch(code, /auth|login|signin|password/i);
       const hasMFA = /mfa|2fa|two[_-]?factor|totp|authenticator/i.test(code);
 
-      if (hasAuth && !hasMFA) {
+      if (authAt && !hasMFA) {
         violations.push({
           rule_id: 'soc2-001',
           regulation: 'SOC2',
           severity: 'HIGH',
+          ...authAt,
           issue: 'Authentication without MFA enforcement',
           remedy: 'Enforce MFA for all users, no exceptions for admins',
           penalty: 'Critical finding, audit failure',
@@ -310,14 +323,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'SOC2') return [];
       const violations: ComplianceViolation[] = [];
 
-      const hasDeployment = /deploy|release|production|ci.*cd/i.test(code);
+      const deploymentAt = locateMatch(code, /deploy|release|production|ci.*cd/i);
       const hasApproval = /approv|review|ticket|jira|pr.*review/i.test(code);
 
-      if (hasDeployment && !hasApproval) {
+      if (deploymentAt && !hasApproval) {
         violations.push({
           rule_id: 'soc2-002',
           regulation: 'SOC2',
           severity: 'MEDIUM',
+          ...deploymentAt,
           issue: 'Deployment without change approval workflow',
           remedy: 'Require ticket/PR approval before production deployment',
           penalty: 'Control gap finding',
@@ -340,14 +354,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'PCI-DSS') return [];
       const violations: ComplianceViolation[] = [];
 
-      const storesCVV = /cvv|cvc|security.*code|card.*code/i.test(code);
+      const cvvAt = locateMatch(code, /cvv|cvc|security.*code|card.*code/i);
       const stores = /save|store|insert|database|persist/i.test(code);
 
-      if (storesCVV && stores) {
+      if (cvvAt && stores) {
         violations.push({
           rule_id: 'pci-001',
           regulation: 'PCI-DSS',
           severity: 'CRITICAL',
+          ...cvvAt,
           issue: 'CVV/CVC storage detected - STRICTLY FORBIDDEN',
           remedy: 'NEVER store CVV after authorization - use tokenization',
           penalty: '$5K-$100K monthly fines',
@@ -368,14 +383,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'PCI-DSS') return [];
       const violations: ComplianceViolation[] = [];
 
-      const handlesCardData = /card.*number|pan|credit.*card/i.test(code);
+      const cardDataAt = locateMatch(code, /card.*number|pan|credit.*card/i);
       const usesTokenization = /token|stripe|braintree|square|adyen/i.test(code);
 
-      if (handlesCardData && !usesTokenization) {
+      if (cardDataAt && !usesTokenization) {
         violations.push({
           rule_id: 'pci-002',
           regulation: 'PCI-DSS',
           severity: 'HIGH',
+          ...cardDataAt,
           issue: 'Card data handling without tokenization',
           remedy: 'Use Stripe/Braintree tokenization - let them handle PCI compliance',
           penalty: '$5K-$100K monthly fines',
@@ -396,14 +412,15 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
       if (regulation && regulation.toUpperCase() !== 'PCI-DSS') return [];
       const violations: ComplianceViolation[] = [];
 
-      const handlesCDE = /payment|card|pan|checkout/i.test(code);
+      const cdeAt = locateMatch(code, /payment|card|pan|checkout/i);
       const hasSegmentation = /vpc|subnet|firewall|isolated|segmented|cde/i.test(code);
 
-      if (handlesCDE && !hasSegmentation) {
+      if (cdeAt && !hasSegmentation) {
         violations.push({
           rule_id: 'pci-003',
           regulation: 'PCI-DSS',
           severity: 'HIGH',
+          ...cdeAt,
           issue: 'Payment handling without network segmentation',
           remedy: 'Isolate CDE in separate VPC with firewall rules',
           penalty: 'Full infrastructure in PCI scope',
@@ -416,11 +433,11 @@ export const COMPLIANCE_RULES: ComplianceRule[] = [
   }
 ];
 
-export function checkComplianceRules(code: string, regulation?: string): ComplianceViolation[] {
+export function checkComplianceRules(code: string, regulation?: string, context?: AnalysisContext): ComplianceViolation[] {
   const violations: ComplianceViolation[] = [];
 
   for (const rule of COMPLIANCE_RULES) {
-    violations.push(...rule.check(code, regulation));
+    violations.push(...rule.check(code, regulation, context));
   }
 
   return violations;
@@ -18,6 +18,8 @@
  * - Reconciliation jobs
  */
 
+import { locateMatch, type AnalysisContext } from '../analysis/index.js';
+
 export interface DataIntegrityConfig {
   eventual_consistency: {
     read_after_write_buffer_ms: number;
@@ -61,13 +63,17 @@ export interface DataIntegrityRule {
   name: string;
   description: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
-  check: (code: string, vendor?: string) => DataIntegrityViolation[];
+  check: (code: string, vendor?: string, context?: AnalysisContext) => DataIntegrityViolation[];
 }
 
 export interface DataIntegrityViolation {
   rule_id: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
   location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
   issue: string;
   remedy: string;
   auto_fixable: boolean;
@@ -82,13 +88,14 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
     check: (code: string): DataIntegrityViolation[] => {
       const violations: DataIntegrityViolation[] = [];
 
-      const hasWriteOps = /post|put|patch|create|update|insert/i.test(code);
+      const writeOpsAt = locateMatch(code, /post|put|patch|create|update|insert/i);
       const hasIdempotency = /idempoten|request[_-]?id|transaction[_-]?id|unique.*key/i.test(code);
 
-      if (hasWriteOps && !hasIdempotency) {
+      if (writeOpsAt && !hasIdempotency) {
         violations.push({
           rule_id: 'di-001',
           severity: 'CRITICAL',
+          ...writeOpsAt,
           issue: 'Write operations without idempotency keys - duplicates possible',
           remedy: 'Generate UUID idempotency key per operation, store in DB with 24-hour TTL',
           auto_fixable: true
@@ -106,13 +113,14 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
     check: (code: string): DataIntegrityViolation[] => {
       const violations: DataIntegrityViolation[] = [];
 
-      const hasSyncing = /sync|integration|webhook|event/i.test(code);
+      const syncingAt = locateMatch(code, /sync|integration|webhook|event/i);
       const hasReconciliation = /reconcil|verify|check.*consistency|hourly.*job|cron/i.test(code);
 
-      if (hasSyncing && !hasReconciliation) {
+      if (syncingAt && !hasReconciliation) {
         violations.push({
           rule_id: 'di-002',
           severity: 'HIGH',
+          ...syncingAt,
           issue: 'Data syncing without reconciliation job - drift undetected for 24+ hours',
           remedy: 'Implement hourly reconciliation job to detect and fix drift',
           auto_fixable: true
@@ -132,13 +140,14 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
 
       if (vendor !== 'hubspot') return violations;
 
-      const hasPagination = /page|offset|cursor|next|after/i.test(code);
+      const paginationAt = locateMatch(code, /page|offset|cursor|next|after/i);
       const hasDeduplication = /dedup|unique|set|seen|already.*processed/i.test(code);
 
-      if (hasPagination && !hasDeduplication) {
+      if (paginationAt && !hasDeduplication) {
         violations.push({
           rule_id: 'di-003',
           severity: 'CRITICAL',
+          ...paginationAt,
           issue: 'HubSpot pagination returns duplicates - no deduplication detected',
           remedy: 'Track seen record IDs and filter duplicates from paginated results',
           auto_fixable: true
@@ -156,12 +165,13 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
     check: (code: string, vendor?: string): DataIntegrityViolation[] => {
       const violations: DataIntegrityViolation[] = [];
 
-      const usesOffset = /offset|skip|page[_-]?num/i.test(code);
+      const offsetAt = locateMatch(code, /offset|skip|page[_-]?num/i);
 
-      if (usesOffset) {
+      if (offsetAt) {
         violations.push({
           rule_id: 'di-004',
           severity: 'MEDIUM',
+          ...offsetAt,
           issue: 'Offset pagination detected - may cause duplicates/missed records',
           remedy: 'Use cursor-based pagination (after/cursor parameter) where available',
           auto_fixable: true
@@ -179,13 +189,14 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
     check: (code: string): DataIntegrityViolation[] => {
       const violations: DataIntegrityViolation[] = [];
 
-      const hasWriteThenRead = /create.*then.*get|post.*get|update.*fetch/i.test(code);
+      const writeThenReadAt = locateMatch(code, /create.*then.*get|post.*get|update.*fetch/i);
       const hasBuffer = /wait|delay|timeout|setTimeout|eventual/i.test(code);
 
-      if (hasWriteThenRead && !hasBuffer) {
+      if (writeThenReadAt && !hasBuffer) {
         violations.push({
           rule_id: 'di-005',
           severity: 'MEDIUM',
+          ...writeThenReadAt,
           issue: 'Read immediately after write - may get stale data',
           remedy: 'Add 5-second buffer after writes before reading (eventual consistency)',
           auto_fixable: true
@@ -203,13 +214,14 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
     check: (code: string): DataIntegrityViolation[] => {
       const violations: DataIntegrityViolation[] = [];
 
-      const hasBidirectionalSync = /bidirectional|two[_-]?way|sync.*both/i.test(code);
+      const bidirectionalSyncAt = locateMatch(code, /bidirectional|two[_-]?way|sync.*both/i);
       const hasConflictResolution = /conflict|merge|resolution|last[_-]?write|source.*win/i.test(code);
 
-      if (hasBidirectionalSync && !hasConflictResolution) {
+      if (bidirectionalSyncAt && !hasConflictResolution) {
         violations.push({
           rule_id: 'di-006',
           severity: 'HIGH',
+          ...bidirectionalSyncAt,
           issue: 'Bidirectional sync without conflict resolution strategy',
           remedy: 'Implement conflict resolution: source_wins, latest_wins, or manual merge',
           auto_fixable: false
@@ -227,13 +239,14 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
     check: (code: string): DataIntegrityViolation[] => {
       const violations: DataIntegrityViolation[] = [];
 
-      const hasTransformation = /transform|map|convert|parse/i.test(code);
+      const transformationAt = locateMatch(code, /transform|map|convert|parse/i);
       const hasTypeValidation = /typeof|instanceof|schema|validate|zod|yup/i.test(code);
 
-      if (hasTransformation && !hasTypeValidation) {
+      if (transformationAt && !hasTypeValidation) {
         violations.push({
           rule_id: 'di-007',
           severity: 'MEDIUM',
+          ...transformationAt,
           issue: 'Data transformation without type validation',
           remedy: 'Add type validation (Zod, Yup) to transformations to prevent data loss',
           auto_fixable: true
@@ -251,13 +264,14 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
     check: (code: string): DataIntegrityViolation[] => {
       const violations: DataIntegrityViolation[] = [];
 
-      const hasDataProcessing = /map|filter|reduce|forEach|\.data/i.test(code);
+      const dataProcessingAt = locateMatch(code, /map|filter|reduce|forEach|\.data/i);
       const hasNullHandling = /null|undefined|\?\.|optional|default|fallback/i.test(code);
 
-      if (hasDataProcessing && !hasNullHandling) {
+      if (dataProcessingAt && !hasNullHandling) {
         violations.push({
           rule_id: 'di-008',
           severity: 'MEDIUM',
+          ...dataProcessingAt,
           issue: 'Data processing without null/empty value handling',
           remedy: 'Add explicit null checks, optional chaining (?.), and default values',
           auto_fixable: true
@@ -278,11 +292,12 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
       if (vendor !== 'salesforce') return violations;
 
       // Check for SOQL in loops (very common mistake)
-      const soqlInLoop = /for.*soql|while.*query|loop.*select/i.test(code);
-      if (soqlInLoop) {
+      const soqlInLoopAt = locateMatch(code, /for.*soql|while.*query|loop.*select/i);
+      if (soqlInLoopAt) {
         violations.push({
           rule_id: 'di-009',
           severity: 'CRITICAL',
+          ...soqlInLoopAt,
           location: 'SOQL query in loop',
           issue: 'SOQL query inside loop will hit 100-query governor limit',
           remedy: 'Move SOQL query OUTSIDE loop, query all records first, then iterate',
@@ -291,11 +306,12 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
       }
 
       // Check for unbatched DML
-      const unbatchedDML = /for.*insert|for.*update|while.*save/i.test(code);
-      if (unbatchedDML) {
+      const unbatchedDMLAt = locateMatch(code, /for.*insert|for.*update|while.*save/i);
+      if (unbatchedDMLAt) {
         violations.push({
           rule_id: 'di-009',
           severity: 'CRITICAL',
+          ...unbatchedDMLAt,
           location: 'DML in loop',
           issue: 'DML operation inside loop will hit 150-statement governor limit',
           remedy: 'Collect records in list, then batch insert/update outside loop',
@@ -314,13 +330,14 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
     check: (code: string): DataIntegrityViolation[] => {
       const violations: DataIntegrityViolation[] = [];
 
-      const hasDataChanges = /create|update|delete|insert|modify/i.test(code);
+      const dataChangesAt = locateMatch(code, /create|update|delete|insert|modify/i);
       const hasAuditLog = /audit|log.*change|history|track.*change/i.test(code);
 
-      if (hasDataChanges && !hasAuditLog) {
+      if (dataChangesAt && !hasAuditLog) {
         violations.push({
           rule_id: 'di-010',
           severity: 'LOW',
+          ...dataChangesAt,
           issue: 'Data changes without audit logging',
           remedy: 'Log before/after values for all data changes (aids debugging)',
           auto_fixable: true
@@ -332,11 +349,11 @@ export const DATA_INTEGRITY_RULES: DataIntegrityRule[] = [
   }
 ];
 
-export function checkDataIntegrityRules(code: string, vendor?: string): DataIntegrityViolation[] {
+export function checkDataIntegrityRules(code: string, vendor?: string, context?: AnalysisContext): DataIntegrityViolation[] {
   const violations: DataIntegrityViolation[] = [];
 
   for (const rule of DATA_INTEGRITY_RULES) {
-    violations.push(...rule.check(code, vendor));
+    violations.push(...rule.check(code, vendor, context));
   }
 
   return violations;
@@ -13,6 +13,8 @@
  * - Retryable vs non-retryable errors
  */
 
+import { createAnalysisContext, locateMatch, locateNode, type AnalysisContext } from '../analysis/index.js';
+
 export interface ErrorHandlingConfig {
   retryable_codes: number[];
   non_retryable_codes: number[];
@@ -62,13 +64,17 @@ export interface ErrorRule {
   name: string;
   description: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
-  check: (code: string) => ErrorViolation[];
+  check: (code: string, context?: AnalysisContext) => ErrorViolation[];
 }
 
 export interface ErrorViolation {
   rule_id: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
   location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
   issue: string;
   remedy: string;
   auto_fixable: boolean;
@@ -83,13 +89,14 @@ export const ERROR_RULES: ErrorRule[] = [
     check: (code: string): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
 
-      const hasApiCalls = /fetch|axios|http|request|api/i.test(code);
+      const apiCallsAt = locateMatch(code, /fetch|axios|http|request|api/i);
       const has4xxHandling = /400|401|403|404|bad.*request|unauthorized|forbidden|not.*found/i.test(code);
 
-      if (hasApiCalls && !has4xxHandling) {
+      if (apiCallsAt && !has4xxHandling) {
         violations.push({
           rule_id: 'err-001',
           severity: 'CRITICAL',
+          ...apiCallsAt,
           issue: 'No handlers for 4xx errors (400, 401, 403, 404)',
           remedy: 'Add handlers: 400=bad request (fix payload), 401=refresh token, 403=check permissions, 404=resource missing',
           auto_fixable: true
@@ -107,13 +114,14 @@ export const ERROR_RULES: ErrorRule[] = [
     check: (code: string): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
 
-      const hasApiCalls = /fetch|axios|http|request|api/i.test(code);
+      const apiCallsAt = locateMatch(code, /fetch|axios|http|request|api/i);
       const has5xxHandling = /500|502|503|504|server.*error|bad.*gateway|unavailable|timeout/i.test(code);
 
-      if (hasApiCalls && !has5xxHandling) {
+      if (apiCallsAt && !has5xxHandling) {
         violations.push({
           rule_id: 'err-002',
           severity: 'CRITICAL',
+          ...apiCallsAt,
           issue: 'No handlers for 5xx errors (500, 502, 503, 504)',
           remedy: 'Add retry logic with exponential backoff for 5xx errors (these are transient)',
           auto_fixable: true
@@ -131,13 +139,14 @@ export const ERROR_RULES: ErrorRule[] = [
     check: (code: string): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
 
-      const hasRetries = /retry|attempt|retries/i.test(code);
+      const retriesAt = locateMatch(code, /retry|attempt|retries/i);
       const hasDLQ = /dead[_-]?letter|dlq|failed[_-]?queue|error[_-]?queue/i.test(code);
 
-      if (hasRetries && !hasDLQ) {
+      if (retriesAt && !hasDLQ) {
         violations.push({
           rule_id: 'err-003',
           severity: 'HIGH',
+          ...retriesAt,
           issue: 'Retry logic without Dead Letter Queue - failed messages lost forever',
           remedy: 'Store failed messages in DLQ after 5 retries for manual review/replay',
           auto_fixable: true
@@ -155,13 +164,14 @@ export const ERROR_RULES: ErrorRule[] = [
     check: (code: string): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
 
-      const hasRetries = /retry|attempt/i.test(code);
+      const retriesAt = locateMatch(code, /retry|attempt/i);
       const hasMaxRetries = /max[_-]?retr|retry.*limit|limit.*retry|\<\s*5|\<\s*3|\<\=\s*5/i.test(code);
 
-      if (hasRetries && !hasMaxRetries) {
+      if (retriesAt && !hasMaxRetries) {
         violations.push({
           rule_id: 'err-004',
           severity: 'CRITICAL',
+          ...retriesAt,
           issue: 'Retry logic without maximum retry limit - risk of infinite loop',
           remedy: 'Add max retry limit (recommended: 5 attempts)',
           auto_fixable: true
@@ -179,13 +189,14 @@ export const ERROR_RULES: ErrorRule[] = [
     check: (code: string): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
 
-      const hasApiCalls = /fetch|axios|http|request/i.test(code);
+      const apiCallsAt = locateMatch(code, /fetch|axios|http|request/i);
       const hasTimeout = /timeout|abort|signal/i.test(code);
 
-      if (hasApiCalls && !hasTimeout) {
+      if (apiCallsAt && !hasTimeout) {
         violations.push({
           rule_id: 'err-005',
           severity: 'HIGH',
+          ...apiCallsAt,
           issue: 'API calls without timeout configuration',
           remedy: 'Add timeout (recommended: 30 seconds for most APIs, 10 seconds for webhooks)',
           auto_fixable: true
@@ -200,27 +211,30 @@ export const ERROR_RULES: ErrorRule[] = [
     name: 'Swallowed Errors',
     description: 'Errors must not be silently swallowed',
     severity: 'HIGH',
-    check: (code: string): ErrorViolation[] => {
+    check: (code: string, context?: AnalysisContext): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
+      const ast = context ?? createAnalysisContext(code);
 
-      // Look for empty catch blocks (multiline-aware)
-      const emptyCatch = /catch\s*\([^)]*\)\s*\{[\s\n]*\}/m;
-      if (emptyCatch.test(code)) {
+      // Look for empty catch clauses (a comment inside documents intent and is allowed)
+      const emptyCatch = ast.catchClauses.find(c => c.isEmpty);
+      if (emptyCatch) {
         violations.push({
           rule_id: 'err-006',
           severity: 'HIGH',
+          ...locateNode(ast, emptyCatch.node),
           issue: 'Empty catch block - errors are being swallowed silently',
           remedy: 'Log error and either rethrow, handle appropriately, or send to monitoring',
           auto_fixable: true
         });
       }
 
-      // Look for catch that only logs (multiline-aware)
-      const catchOnlyLog = /catch\s*\([^)]*\)\s*\{[\s\n]*(console\.log|logger\.info)/m;
-      if (catchOnlyLog.test(code)) {
+      // Look for catch clauses whose only statements are log calls
+      const loggingCatch = ast.catchClauses.find(c => c.onlyLogs);
+      if (loggingCatch) {
         violations.push({
           rule_id: 'err-006',
           severity: 'MEDIUM',
+          ...locateNode(ast, loggingCatch.node),
           issue: 'Catch block only logs - error not properly handled',
           remedy: 'After logging, either rethrow, return error state, or implement recovery',
           auto_fixable: false
@@ -238,13 +252,14 @@ export const ERROR_RULES: ErrorRule[] = [
     check: (code: string): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
 
-      const hasErrorHandling = /catch|error|exception/i.test(code);
+      const errorHandlingAt = locateMatch(code, /catch|error|exception/i);
       const hasClassification = /retryable|non[_-]?retryable|transient|permanent/i.test(code);
 
-      if (hasErrorHandling && !hasClassification) {
+      if (errorHandlingAt && !hasClassification) {
         violations.push({
           rule_id: 'err-007',
           severity: 'MEDIUM',
+          ...errorHandlingAt,
           issue: 'No error classification (retryable vs non-retryable)',
           remedy: 'Classify errors: retryable (429, 5xx) vs non-retryable (400, 401, 403, 404)',
           auto_fixable: true
@@ -262,13 +277,14 @@ export const ERROR_RULES: ErrorRule[] = [
     check: (code: string): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
 
-      const hasErrorHandling = /catch|error|exception/i.test(code);
+      const errorHandlingAt = locateMatch(code, /catch|error|exception/i);
       const hasMonitoring = /sentry|datadog|newrelic|monitor|alert|metric|track/i.test(code);
 
-      if (hasErrorHandling && !hasMonitoring) {
+      if (errorHandlingAt && !hasMonitoring) {
         violations.push({
           rule_id: 'err-008',
           severity: 'MEDIUM',
+          ...errorHandlingAt,
           issue: 'No error monitoring/alerting integration',
           remedy: 'Send errors to monitoring system (Sentry, Datadog, etc.) for observability',
           auto_fixable: false
@@ -287,12 +303,13 @@ export const ERROR_RULES: ErrorRule[] = [
       const violations: ErrorViolation[] = [];
 
       // Check if retry logic includes 4xx codes
-      const retries4xx = /retry.*400|retry.*401|retry.*403|retry.*404|4\d\d.*retry/i.test(code);
+      const retry4xxAt = locateMatch(code, /retry.*400|retry.*401|retry.*403|retry.*404|4\d\d.*retry/i);
 
-      if (retries4xx) {
+      if (retry4xxAt) {
         violations.push({
           rule_id: 'err-009',
           severity: 'HIGH',
+          ...retry4xxAt,
           issue: 'Retrying 4xx errors wastes resources - these are not transient',
           remedy: 'Only retry 429 and 5xx. For 4xx: 400=fix request, 401=refresh token, 403=check perms, 404=stop',
           auto_fixable: true
@@ -310,13 +327,14 @@ export const ERROR_RULES: ErrorRule[] = [
     check: (code: string): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
 
-      const hasApiDependency = /fetch|axios|http|api/i.test(code);
+      const apiDependencyAt = locateMatch(code, /fetch|axios|http|api/i);
       const hasGracefulDegradation = /fallback|cache|stale|degrad|offline|default/i.test(code);
 
-      if (hasApiDependency && !hasGracefulDegradation) {
+      if (apiDependencyAt && !hasGracefulDegradation) {
         violations.push({
           rule_id: 'err-010',
           severity: 'MEDIUM',
+          ...apiDependencyAt,
           issue: 'No graceful degradation when API is unavailable',
           remedy: 'Implement fallback: serve cached data, use default values, or queue for later',
           auto_fixable: false
@@ -334,13 +352,14 @@ export const ERROR_RULES: ErrorRule[] = [
     check: (code: string): ErrorViolation[] => {
       const violations: ErrorViolation[] = [];
 
-      const hasApiCalls = /fetch|axios|http|request/i.test(code);
+      const apiCallsAt = locateMatch(code, /fetch|axios|http|request/i);
       const hasRequestId = /request[_-]?id|correlation[_-]?id|trace[_-]?id|x-request-id/i.test(code);
 
-      if (hasApiCalls && !hasRequestId) {
+      if (apiCallsAt && !hasRequestId) {
         violations.push({
           rule_id: 'err-011',
           severity: 'LOW',
+          ...apiCallsAt,
           issue: 'No request/correlation ID for tracing',
           remedy: 'Add X-Request-ID header for request tracing and debugging',
           auto_fixable: true
@@ -352,11 +371,11 @@ export const ERROR_RULES: ErrorRule[] = [
   }
 ];
 
-export function checkErrorRules(code: string): ErrorViolation[] {
+export function checkErrorRules(code: string, context?: AnalysisContext): ErrorViolation[] {
   const violations: ErrorViolation[] = [];
 
   for (const rule of ERROR_RULES) {
-    violations.push(...rule.check(code));
+    violations.push(...rule.check(code, context));
   }
 
   return violations;
@@ -0,0 +1,51 @@
+/**
+ * Fuzzing Rules
+ *
+ * Failures inspect_tool_fuzzing observes while calling a running server's
+ * tools with generated inputs. They describe behavior, not code, so there
+ * is no static check: each finding carries the seed and case number that
+ * reproduce it.
+ */
+
+export interface FuzzingRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  remedy: string;
+}
+
+export const FUZZING_RULES: FuzzingRule[] = [
+  {
+    id: 'fuzz-001',
+    name: 'Crash on Tool Input',
+    description: 'The server process exited while handling a tool call',
+    severity: 'CRITICAL',
+    remedy: 'Validate arguments against the tool schema before using them and catch errors in every tool handler'
+  },
+  {
+    id: 'fuzz-002',
+    name: 'Hang on Tool Input',
+    description: 'A tool call got no response within the timeout',
+    severity: 'HIGH',
+    remedy: 'Bound input sizes, put timeouts on outbound calls and reject inputs the tool cannot process'
+  },
+  {
+    id: 'fuzz-003',
+    name: 'Unhandled Promise Rejection',
+    description: 'A tool call left a rejected promise nobody awaited',
+    severity: 'HIGH',
+    remedy: 'Await or .catch() every promise a tool handler starts; return errors as isError results'
+  },
+  {
+    id: 'fuzz-004',
+    name: 'Stack Trace in Error Response',
+    description: 'An error returned to the client includes a stack trace or internal file paths',
+    severity: 'MEDIUM',
+    remedy: 'Return a short, client-safe message and log the stack to stderr instead'
+  }
+];
+
+export function getFuzzingRule(id: string): FuzzingRule | undefined {
+  return FUZZING_RULES.find(rule => rule.id === id);
+}
@@ -9,6 +9,9 @@
  * - Compliance (HIPAA, GDPR, SOC 2, PCI-DSS)
  * - Data Integrity (8-10% but highest cost)
  * - MCP Standards (health, error codes, logging)
+ * - Suppressions (linus-ignore directives need a justification)
+ * - Fuzzing (crashes, hangs and leaks seen while fuzzing a running server)
+ * - Rule packs (organization-specific rules loaded from .linusrc.json)
  *
  * Supports profile-aware inspection to reduce false positives.
  */
@@ -21,29 +24,48 @@ export * from './compliance-rules.js';
 export * from './data-integrity-rules.js';
 export * from './meta-rules.js';
 export * from './mcp-standards.js';
-
-import { checkRateLimitRules, type RateLimitViolation, RATE_LIMIT_RULES } from './rate-limit-rules.js';
-import { checkOAuthRules, type OAuthViolation } from './oauth-rules.js';
-import { checkErrorRules, type ErrorViolation } from './error-rules.js';
-import { checkWebhookRules, type WebhookViolation } from './webhook-rules.js';
-import { checkComplianceRules, type ComplianceViolation } from './compliance-rules.js';
-import { checkDataIntegrityRules, type DataIntegrityViolation } from './data-integrity-rules.js';
-import { checkMCPStandardRules, type MCPViolation } from './mcp-standards.js';
+export * from './suppression-rules.js';
+export * from './fuzzing-rules.js';
+export * from './rule-packs.js';
+export * from './registry.js';
+
+import { checkSuppressionRules } from './suppression-rules.js';
+import { runRulePacks, type RulePack } from './rule-packs.js';
+import {
+  RULE_CATEGORIES,
+  RULE_PREFIX_CATEGORIES,
+  RULE_REGISTRY,
+  serverScopedRules,
+  type AnyViolation
+} from './registry.js';
+import { shouldApplyRule } from '../profiler/rule-filter.js';
+import { hasAutoFixer } from '../fixes/fixers.js';
 import type { ServerProfile } from '../profiler/server-profile.js';
+import type { RuleOverrides } from '../config/index.js';
+import {
+  createAnalysisContext,
+  createProjectScope,
+  findSuppression,
+  parseSuppressions,
+  spanFromOffsets,
+  type AnalysisContext,
+  type ProjectGraph,
+  type ProjectSource
+} from '../analysis/index.js';
 
-export type AnyViolation =
-  | RateLimitViolation
-  | OAuthViolation
-  | ErrorViolation
-  | WebhookViolation
-  | ComplianceViolation
-  | DataIntegrityViolation
-  | MCPViolation;
+/**
+ * A finding waived by a justified linus-ignore directive
+ */
+export type SuppressedViolation = AnyViolation & {
+  suppressed: true;
+  suppression_reason: string;
+};
 
 export interface InspectionResult {
   category: string;
   violations: AnyViolation[];
   passed: boolean;
+  suppressed?: SuppressedViolation[];
 }
 
 export interface FullInspectionResult {
@@ -55,71 +77,229 @@ export interface FullInspectionResult {
     medium: number;
     low: number;
     auto_fixable: number;
+    suppressed: number;
   };
   verdict: 'PASSED' | 'BLOCKED' | 'WARNING';
 }
 
 /**
- * Run all inspection rules against code
+ * Give file-level violations (rules with no specific trigger site) a span
+ * anchored at the first line of code, so every violation carries a location.
+ * Runs after suppressions: a file-level finding is waived only by a
+ * linus-ignore-file directive, never by a line directive that happens to
+ * sit where the finding gets anchored.
  */
-export function runAllInspections(
-  code: string,
-  options: {
-    vendor?: string;
-    regulation?: string;
-  } = {}
-): FullInspectionResult {
-  const results: InspectionResult[] = [];
-
-  // Rate Limiting
-  const rateLimitViolations = checkRateLimitRules(code, options.vendor);
-  results.push({
-    category: 'rate_limiting',
-    violations: rateLimitViolations,
-    passed: rateLimitViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-  });
+function anchorFileLevelViolations(results: InspectionResult[], code: string): void {
+  const firstCode = code.search(/\S/);
+  const start = firstCode === -1 ? 0 : firstCode;
+  const lineEnd = code.indexOf('\n', start);
+  const fileSpan = spanFromOffsets(code, start, lineEnd === -1 ? code.length : lineEnd);
+
+  for (const result of results) {
+    for (const violation of [...result.violations, ...(result.suppressed ?? [])]) {
+      if (violation.line === undefined) {
+        Object.assign(violation, fileSpan);
+      }
+    }
+  }
+}
 
-  // OAuth
-  const oauthViolations = checkOAuthRules(code, options.vendor);
-  results.push({
-    category: 'oauth',
-    violations: oauthViolations,
-    passed: oauthViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-  });
+/**
+ * Report malformed directives, then move findings waived by a justified
+ * directive out of each category's violations into its suppressed list.
+ */
+function applySuppressions(results: InspectionResult[], code: string, context: AnalysisContext): void {
+  const suppressionViolations = checkSuppressionRules(code, context);
+  if (suppressionViolations.length > 0) {
+    results.push({
+      category: 'suppressions',
+      violations: suppressionViolations,
+      passed: true
+    });
+  }
 
-  // Error Handling
-  const errorViolations = checkErrorRules(code);
-  results.push({
-    category: 'error_handling',
-    violations: errorViolations,
-    passed: errorViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-  });
+  waiveSuppressedViolations(results, context);
+}
 
-  // Webhooks
-  const webhookViolations = checkWebhookRules(code, options.vendor);
-  results.push({
-    category: 'webhooks',
-    violations: webhookViolations,
-    passed: webhookViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-  });
+/**
+ * Move findings waived by a justified directive into the suppressed lists
+ */
+function waiveSuppressedViolations(results: InspectionResult[], context: AnalysisContext): void {
+  const directives = parseSuppressions(context);
+  if (directives.length === 0) return;
+
+  for (const result of results) {
+    const kept: AnyViolation[] = [];
+    for (const violation of result.violations) {
+      const directive = findSuppression(directives, violation.rule_id, violation.line);
+      if (directive && directive.reason) {
+        result.suppressed = result.suppressed ?? [];
+        result.suppressed.push({ ...violation, suppressed: true, suppression_reason: directive.reason });
+      } else {
+        kept.push(violation);
+      }
+    }
+    result.violations = kept;
+    result.passed = kept.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0;
+  }
+}
 
-  // Compliance
-  const complianceViolations = checkComplianceRules(code, options.regulation);
-  results.push({
-    category: 'compliance',
-    violations: complianceViolations,
-    passed: complianceViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-  });
+/**
+ * A finding is auto-fixable only when its rule has an auto-fixer
+ */
+function markAutoFixable(results: InspectionResult[]): void {
+  for (const result of results) {
+    for (const violation of [...result.violations, ...(result.suppressed ?? [])]) {
+      violation.auto_fixable = hasAutoFixer(violation.rule_id);
+    }
+  }
+}
 
-  // Data Integrity
-  const dataIntegrityViolations = checkDataIntegrityRules(code, options.vendor);
-  results.push({
-    category: 'data_integrity',
-    violations: dataIntegrityViolations,
-    passed: dataIntegrityViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-  });
+/**
+ * Rule IDs in a category that project config turns on explicitly
+ * (a severity override also counts as turning the rule on)
+ */
+function forcedRules(overrides: RuleOverrides | undefined, category: string): string[] {
+  return Object.entries(overrides ?? {})
+    .filter(([ruleId, setting]) =>
+      setting !== 'off' && RULE_PREFIX_CATEGORIES[ruleId.split('-')[0]] === category)
+    .map(([ruleId]) => ruleId);
+}
 
-  // Calculate summary
+/**
+ * Keep only the given rules' violations (all of them when no list is given)
+ */
+function onlyRules<T extends AnyViolation>(violations: T[], ruleIds?: string[]): T[] {
+  return ruleIds ? violations.filter(v => ruleIds.includes(v.rule_id)) : violations;
+}
+
+/**
+ * Drop disabled rules and apply severity overrides from project config
+ */
+function applyRuleOverrides(results: InspectionResult[], overrides: RuleOverrides | undefined): void {
+  if (!overrides || Object.keys(overrides).length === 0) return;
+
+  const override = <T extends AnyViolation>(violations: T[]): T[] =>
+    violations
+      .filter(v => overrides[v.rule_id] !== 'off')
+      .map(v => {
+        const setting = overrides[v.rule_id];
+        return setting && setting !== 'on' ? { ...v, severity: setting } : v;
+      });
+
+  for (const result of results) {
+    result.violations = override(result.violations);
+    if (result.suppressed) {
+      result.suppressed = override(result.suppressed);
+    }
+    result.passed = result.violations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0;
+  }
+}
+
+/**
+ * Options accepted by both inspection pipelines
+ */
+export interface InspectionOptions {
+  vendor?: string;
+  regulation?: string;
+  file_name?: string;
+  rules?: RuleOverrides;
+  packs?: RulePack[];
+  project?: ProjectGraph;  // Server the file belongs to; whole-server rules are then left to runServerInspections
+}
+
+interface CategoryRun {
+  results: InspectionResult[];
+  applied_categories: string[];
+  skipped_categories: { category: string; reason: string }[];
+}
+
+/**
+ * Run every registered category (and any rule packs) against code.
+ * With a profile, a rule runs only when the profile meets its registry
+ * applicability or project config turns it on; a category with no such
+ * rule is skipped. Without a profile every rule runs, except categories
+ * that only make sense for a known profile.
+ */
+function runCategoryChecks(
+  code: string,
+  context: AnalysisContext,
+  options: InspectionOptions,
+  profile?: ServerProfile
+): CategoryRun {
+  const run: CategoryRun = { results: [], applied_categories: [], skipped_categories: [] };
+  const checkOptions = { vendor: options.vendor, regulation: options.regulation };
+
+  for (const definition of RULE_CATEGORIES) {
+    if (!definition.check) continue;
+    if (!profile && definition.requires_profile) continue;
+
+    let ruleIds: string[] | undefined;
+    if (profile) {
+      const applicable = definition.rules
+        .filter(rule => shouldApplyRule(rule.id, profile).shouldApply)
+        .map(rule => rule.id);
+      const forced = forcedRules(options.rules, definition.category);
+
+      if (applicable.length === 0 && forced.length === 0) {
+        run.skipped_categories.push({
+          category: definition.category,
+          reason: definition.skip_reason ?? 'No rules apply to this server profile'
+        });
+        continue;
+      }
+      ruleIds = applicable.length === definition.rules.length ? undefined : [...applicable, ...forced];
+    }
+
+    // Within a server, whole-server rules run once in runServerInspections
+    const serverRules = options.project ? serverScopedRules(definition) : [];
+    if (serverRules.length > 0) {
+      ruleIds = (ruleIds ?? definition.rules.map(rule => rule.id)).filter(id => !serverRules.includes(id));
+    }
+
+    const violations = onlyRules(definition.check(code, checkOptions, context), ruleIds);
+    run.results.push({
+      category: definition.category,
+      violations,
+      passed: violations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
+    });
+    run.applied_categories.push(definition.category);
+  }
+
+  // Rule packs - each rule applies when the profile meets its requirements
+  const packs = runRulePacks(options.packs ?? [], code, context, profile, options.rules);
+  for (const packResult of packs.results) {
+    run.results.push({
+      ...packResult,
+      passed: packResult.violations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
+    });
+    run.applied_categories.push(packResult.category);
+  }
+  run.skipped_categories.push(...packs.skipped);
+
+  applySuppressions(run.results, code, context);
+  anchorFileLevelViolations(run.results, code);
+  applyRuleOverrides(run.results, options.rules);
+  markAutoFixable(run.results);
+
+  return run;
+}
+
+/**
+ * Parse a file, giving it a view of the server's other modules when it has one
+ */
+function createFileContext(code: string, options: InspectionOptions): AnalysisContext {
+  const context = createAnalysisContext(code, options.file_name);
+  if (options.project && options.file_name) {
+    context.project = createProjectScope(options.project, options.file_name);
+  }
+  return context;
+}
+
+/**
+ * Summarize category results and derive the verdict
+ */
+function summarize(results: InspectionResult[]): FullInspectionResult {
   const allViolations = results.flatMap(r => r.violations);
   const summary = {
     total_violations: allViolations.length,
@@ -127,7 +307,8 @@ export function runAllInspections(
     high: allViolations.filter(v => v.severity === 'HIGH').length,
     medium: allViolations.filter(v => v.severity === 'MEDIUM').length,
     low: allViolations.filter(v => v.severity === 'LOW').length,
-    auto_fixable: allViolations.filter(v => v.auto_fixable).length
+    auto_fixable: allViolations.filter(v => v.auto_fixable).length,
+    suppressed: results.reduce((count, r) => count + (r.suppressed?.length ?? 0), 0)
   };
 
   // Determine verdict
@@ -143,6 +324,56 @@ export function runAllInspections(
   return { results, summary, verdict };
 }
 
+/**
+ * Run all inspection rules against code
+ */
+export function runAllInspections(
+  code: string,
+  options: InspectionOptions = {}
+): FullInspectionResult {
+  // Parse once; every category queries the same syntax tree
+  const context = createFileContext(code, options);
+  return summarize(runCategoryChecks(code, context, options).results);
+}
+
+/**
+ * Descriptive metadata for a rule, independent of its check function
+ */
+export interface RuleMetadata {
+  id: string;
+  name: string;
+  description: string;
+  severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  category: string;
+  regulation?: string;
+}
+
+/**
+ * List metadata for every built-in rule (plus any loaded pack rules),
+ * grouped by result category
+ */
+export function listRuleMetadata(packs: RulePack[] = []): RuleMetadata[] {
+  const builtIn: RuleMetadata[] = RULE_REGISTRY.map(rule => ({
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    severity: rule.severity,
+    category: rule.category,
+    ...(rule.regulation ? { regulation: rule.regulation } : {})
+  }));
+  const packRules: RuleMetadata[] = packs.flatMap(pack =>
+    pack.rules.map(rule => ({
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      severity: rule.severity,
+      category: rule.category
+    }))
+  );
+
+  return [...builtIn, ...packRules];
+}
+
 /**
  * Get vendor-specific rule configuration
  */
@@ -208,140 +439,109 @@ export interface ProfileAwareInspectionResult extends FullInspectionResult {
 export function runProfileAwareInspections(
   code: string,
   profile: ServerProfile,
-  options: {
-    vendor?: string;
-    regulation?: string;
-  } = {}
+  options: InspectionOptions = {}
 ): ProfileAwareInspectionResult {
-  const results: InspectionResult[] = [];
-  const skippedCategories: { category: string; reason: string }[] = [];
-  const appliedCategories: string[] = [];
+  // Parse once; every applied category queries the same syntax tree
+  const context = createFileContext(code, options);
+  const run = runCategoryChecks(code, context, options, profile);
 
-  // Rate Limiting - only if server makes external API calls
-  if (profile.hasExternalAPIs) {
-    const rateLimitViolations = checkRateLimitRules(code, options.vendor);
-    results.push({
-      category: 'rate_limiting',
-      violations: rateLimitViolations,
-      passed: rateLimitViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-    });
-    appliedCategories.push('rate_limiting');
-  } else {
-    skippedCategories.push({
-      category: 'rate_limiting',
-      reason: 'Server does not make external API calls'
-    });
-  }
+  return {
+    ...summarize(run.results),
+    profile,
+    skipped_categories: run.skipped_categories,
+    applied_categories: run.applied_categories
+  };
+}
 
-  // OAuth - only if server uses OAuth
-  if (profile.hasOAuth) {
-    const oauthViolations = checkOAuthRules(code, options.vendor);
-    results.push({
-      category: 'oauth',
-      violations: oauthViolations,
-      passed: oauthViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-    });
-    appliedCategories.push('oauth');
-  } else {
-    skippedCategories.push({
-      category: 'oauth',
-      reason: 'Server does not use OAuth'
-    });
-  }
+/**
+ * Whole-server rule findings that point into one file of the server
+ */
+export interface ServerRuleFindings {
+  file_name: string;
+  violations: AnyViolation[];
+  suppressed: SuppressedViolation[];
+}
 
-  // Error Handling - always apply (universal)
-  const errorViolations = checkErrorRules(code);
-  results.push({
-    category: 'error_handling',
-    violations: errorViolations,
-    passed: errorViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-  });
-  appliedCategories.push('error_handling');
+/**
+ * Run the whole-server rules (scope 'server') once against all of a
+ * server's sources. Each source is checked on its own and the per-file facts
+ * are combined, so a /health route in one module satisfies the rule for the
+ * app.listen in another, and a file that does not parse cannot hide the
+ * rest of the server. A finding points at the first file the rule applies
+ * to; that file's linus-ignore directives and the rule overrides are then
+ * applied.
+ *
+ * These rules run on the calling thread, outside the worker pool, so they
+ * are not subject to its per-file timeout.
+ */
+export function runServerInspections(
+  sources: ProjectSource[],
+  options: InspectionOptions = {},
+  profile?: ServerProfile
+): ServerRuleFindings[] {
+  if (sources.length === 0) return [];
+
+  const checkOptions = { vendor: options.vendor, regulation: options.regulation };
+  const contexts = new Map<number, AnalysisContext>();
+  const contextOf = (index: number): AnalysisContext => {
+    let context = contexts.get(index);
+    if (!context) {
+      context = createAnalysisContext(sources[index].code, sources[index].file_name);
+      contexts.set(index, context);
+    }
+    return context;
+  };
 
-  // Webhooks - only if server handles webhooks
-  if (profile.hasWebhooks) {
-    const webhookViolations = checkWebhookRules(code, options.vendor);
-    results.push({
-      category: 'webhooks',
-      violations: webhookViolations,
-      passed: webhookViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-    });
-    appliedCategories.push('webhooks');
-  } else {
-    skippedCategories.push({
-      category: 'webhooks',
-      reason: 'Server does not handle webhooks'
-    });
+  // Category results per source
+  const perSource: InspectionResult[][] = sources.map(() => []);
+
+  for (const definition of RULE_CATEGORIES) {
+    const serverRules = serverScopedRules(definition);
+    if (!definition.check || serverRules.length === 0) continue;
+    if (!profile && definition.requires_profile) continue;
+
+    const forced = forcedRules(options.rules, definition.category);
+    const ruleIds = profile
+      ? serverRules.filter(id => shouldApplyRule(id, profile).shouldApply || forced.includes(id))
+      : serverRules;
+
+    for (const rule of definition.rules) {
+      if (!rule.server || !ruleIds.includes(rule.id)) continue;
+      const { applies, requires } = rule.server;
+
+      const index = sources.findIndex(source => applies.test(source.code));
+      if (index === -1) continue;
+      if (requires.every(pattern => sources.some(source => pattern.test(source.code)))) continue;
+
+      // A requirement no file meets is unmet in this file too, so its own check reports the rule
+      const violations = onlyRules(definition.check(sources[index].code, checkOptions, contextOf(index)), [rule.id]);
+      if (violations.length === 0) continue;
+
+      let result = perSource[index].find(r => r.category === definition.category);
+      if (!result) {
+        result = { category: definition.category, violations: [], passed: true };
+        perSource[index].push(result);
+      }
+      result.violations.push(...violations);
+    }
   }
 
-  // Compliance - always apply (security checks)
-  const complianceViolations = checkComplianceRules(code, options.regulation);
-  results.push({
-    category: 'compliance',
-    violations: complianceViolations,
-    passed: complianceViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-  });
-  appliedCategories.push('compliance');
+  const findings: ServerRuleFindings[] = [];
+  sources.forEach((source, index) => {
+    const results = perSource[index];
+    if (results.length === 0) return;
 
-  // Data Integrity - apply if has external APIs or database writes
-  if (profile.hasExternalAPIs || profile.hasDatabaseWrites) {
-    const dataIntegrityViolations = checkDataIntegrityRules(code, options.vendor);
-    results.push({
-      category: 'data_integrity',
-      violations: dataIntegrityViolations,
-      passed: dataIntegrityViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-    });
-    appliedCategories.push('data_integrity');
-  } else {
-    skippedCategories.push({
-      category: 'data_integrity',
-      reason: 'Server does not have external APIs or database writes requiring idempotency'
-    });
-  }
+    waiveSuppressedViolations(results, contextOf(index));
+    anchorFileLevelViolations(results, source.code);
+    applyRuleOverrides(results, options.rules);
+    markAutoFixable(results);
 
-  // MCP Standards - apply if is MCP server
-  if (profile.isMCPServer) {
-    const mcpViolations = checkMCPStandardRules(code);
-    results.push({
-      category: 'mcp_standards',
-      violations: mcpViolations,
-      passed: mcpViolations.filter(v => v.severity === 'CRITICAL' || v.severity === 'HIGH').length === 0
-    });
-    appliedCategories.push('mcp_standards');
-  } else {
-    skippedCategories.push({
-      category: 'mcp_standards',
-      reason: 'Server is not an MCP server'
+    findings.push({
+      file_name: source.file_name,
+      violations: results.flatMap(r => r.violations),
+      suppressed: results.flatMap(r => r.suppressed ?? [])
     });
-  }
-
-  // Calculate summary
-  const allViolations = results.flatMap(r => r.violations);
-  const summary = {
-    total_violations: allViolations.length,
-    critical: allViolations.filter(v => v.severity === 'CRITICAL').length,
-    high: allViolations.filter(v => v.severity === 'HIGH').length,
-    medium: allViolations.filter(v => v.severity === 'MEDIUM').length,
-    low: allViolations.filter(v => v.severity === 'LOW').length,
-    auto_fixable: allViolations.filter(v => v.auto_fixable).length
-  };
-
-  // Determine verdict
-  let verdict: 'PASSED' | 'BLOCKED' | 'WARNING';
-  if (summary.critical > 0 || summary.high > 0) {
-    verdict = 'BLOCKED';
-  } else if (summary.medium > 0) {
-    verdict = 'WARNING';
-  } else {
-    verdict = 'PASSED';
-  }
+  });
 
-  return {
-    results,
-    summary,
-    verdict,
-    profile,
-    skipped_categories: skippedCategories,
-    applied_categories: appliedCategories
-  };
+  return findings;
 }
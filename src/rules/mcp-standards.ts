@@ -11,25 +11,42 @@
  * - Structured logging with correlation IDs
  */
 
+import { locateMatch, type AnalysisContext } from '../analysis/index.js';
+import type { ServerRequirement } from './registry.js';
+
 export interface MCPStandardRule {
   id: string;
   name: string;
   description: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
   category: 'mcp-health-checks' | 'mcp-error-codes' | 'mcp-rate-limit' | 'mcp-logging';
-  check: (code: string) => MCPViolation[];
+  server?: ServerRequirement;   // Set for rules checked once against all of a server's files
+  check: (code: string, context?: AnalysisContext) => MCPViolation[];
 }
 
 export interface MCPViolation {
   rule_id: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
   location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
   issue: string;
   remedy: string;
   auto_fixable: boolean;
   fix_template?: string;
 }
 
+// Patterns the whole-server rules share between check() and their server requirement
+const HTTP_LAYER = /express|fastify|koa|app\.listen|http\.createServer/i;
+const HEALTH_ENDPOINT = /['"](\/health|\/api\/health)['"]|\.get\s*\(\s*['"]\/?health/i;
+const READY_ENDPOINT = /['"](\/health\/ready|\/ready)['"]/i;
+const DETAILED_ENDPOINT = /['"](\/health\/detailed|\/health\/detail)['"]/i;
+const INBOUND_RATE_LIMIT = /rate[_-]?limit|express-rate-limit|ratelimit/i;
+const SIGINT_HANDLER = /process\.on\s*\(\s*['"]SIGINT['"]/i;
+const SERVER_CLOSE = /server\.close|\.close\s*\(\s*\)/i;
+
 /**
  * MCP Quality Standard Rules
  */
@@ -41,20 +58,21 @@ export const MCP_STANDARD_RULES: MCPStandardRule[] = [
     description: 'MCP servers must have a /health endpoint for liveness checks',
     severity: 'HIGH',
     category: 'mcp-health-checks',
+    server: { applies: HTTP_LAYER, requires: [HEALTH_ENDPOINT] },
     check: (code: string): MCPViolation[] => {
       const violations: MCPViolation[] = [];
 
       // Check for health endpoint
-      const hasHealthEndpoint = /['"](\/health|\/api\/health)['"]/i.test(code) ||
-                                /\.get\s*\(\s*['"]\/?health/i.test(code);
+      const hasHealthEndpoint = HEALTH_ENDPOINT.test(code);
 
       // Must have HTTP layer for health endpoints
-      const hasHTTPLayer = /express|fastify|koa|app\.listen|http\.createServer/i.test(code);
+      const httpLayerAt = locateMatch(code, HTTP_LAYER);
 
-      if (hasHTTPLayer && !hasHealthEndpoint) {
+      if (httpLayerAt && !hasHealthEndpoint) {
         violations.push({
           rule_id: 'mcp-001',
           severity: 'HIGH',
+          ...httpLayerAt,
           issue: 'MCP server with HTTP layer missing /health endpoint',
           remedy: 'Add /health endpoint for liveness checks',
           auto_fixable: true,
@@ -78,16 +96,18 @@ export const MCP_STANDARD_RULES: MCPStandardRule[] = [
     description: 'MCP servers should have a /health/ready endpoint for readiness checks',
     severity: 'MEDIUM',
     category: 'mcp-health-checks',
+    server: { applies: HTTP_LAYER, requires: [READY_ENDPOINT] },
     check: (code: string): MCPViolation[] => {
       const violations: MCPViolation[] = [];
 
-      const hasHTTPLayer = /express|fastify|koa|app\.listen|http\.createServer/i.test(code);
-      const hasReadyEndpoint = /['"](\/health\/ready|\/ready)['"]/i.test(code);
+      const httpLayerAt = locateMatch(code, HTTP_LAYER);
+      const hasReadyEndpoint = READY_ENDPOINT.test(code);
 
-      if (hasHTTPLayer && !hasReadyEndpoint) {
+      if (httpLayerAt && !hasReadyEndpoint) {
         violations.push({
           rule_id: 'mcp-002',
           severity: 'MEDIUM',
+          ...httpLayerAt,
           issue: 'Missing /health/ready endpoint for readiness checks',
           remedy: 'Add /health/ready endpoint for Kubernetes/load balancer routing',
           auto_fixable: true,
@@ -111,16 +131,18 @@ export const MCP_STANDARD_RULES: MCPStandardRule[] = [
     description: 'MCP servers should have a /health/detailed endpoint for debugging',
     severity: 'LOW',
     category: 'mcp-health-checks',
+    server: { applies: HTTP_LAYER, requires: [DETAILED_ENDPOINT] },
     check: (code: string): MCPViolation[] => {
       const violations: MCPViolation[] = [];
 
-      const hasHTTPLayer = /express|fastify|koa|app\.listen|http\.createServer/i.test(code);
-      const hasDetailedEndpoint = /['"](\/health\/detailed|\/health\/detail)['"]/i.test(code);
+      const httpLayerAt = locateMatch(code, HTTP_LAYER);
+      const hasDetailedEndpoint = DETAILED_ENDPOINT.test(code);
 
-      if (hasHTTPLayer && !hasDetailedEndpoint) {
+      if (httpLayerAt && !hasDetailedEndpoint) {
         violations.push({
           rule_id: 'mcp-003',
           severity: 'LOW',
+          ...httpLayerAt,
           issue: 'Missing /health/detailed endpoint for debugging',
           remedy: 'Add /health/detailed endpoint for detailed diagnostics',
           auto_fixable: true
@@ -142,16 +164,17 @@ export const MCP_STANDARD_RULES: MCPStandardRule[] = [
       const violations: MCPViolation[] = [];
 
       // Check if error responses use non-standard codes
-      const hasCustomErrorCode = /error.*code.*[^-]32[0-9]{3}/.test(code);
+      const customErrorCodeAt = locateMatch(code, /error.*code.*[^-]32[0-9]{3}/);
       const hasStandardCodes = /-32700|-32600|-32601|-32602|-32603/.test(code);
 
       // Only flag if using MCP patterns but not standard codes
       const usesMCPPatterns = /@modelcontextprotocol|McpServer|mcp\.Server/i.test(code);
 
-      if (usesMCPPatterns && hasCustomErrorCode && !hasStandardCodes) {
+      if (usesMCPPatterns && customErrorCodeAt && !hasStandardCodes) {
         violations.push({
           rule_id: 'mcp-004',
           severity: 'MEDIUM',
+          ...customErrorCodeAt,
           issue: 'Custom error codes detected - consider using standard JSON-RPC codes',
           remedy: 'Use standard codes: -32700 (parse), -32600 (invalid), -32601 (method not found), -32602 (params), -32603 (internal)',
           auto_fixable: false
@@ -171,13 +194,14 @@ export const MCP_STANDARD_RULES: MCPStandardRule[] = [
       const violations: MCPViolation[] = [];
 
       // Check for error responses without retryable field
-      const hasErrorResponse = /status\s*\(\s*[45]\d{2}\s*\).*json/i.test(code);
+      const errorResponseAt = locateMatch(code, /status\s*\(\s*[45]\d{2}\s*\).*json/i);
       const hasRetryable = /retryable/i.test(code);
 
-      if (hasErrorResponse && !hasRetryable) {
+      if (errorResponseAt && !hasRetryable) {
         violations.push({
           rule_id: 'mcp-005',
           severity: 'LOW',
+          ...errorResponseAt,
           issue: 'Error responses do not indicate retryability',
           remedy: 'Include retryable: boolean in error responses for client retry logic',
           auto_fixable: true
@@ -195,16 +219,18 @@ export const MCP_STANDARD_RULES: MCPStandardRule[] = [
     description: 'HTTP servers should implement inbound rate limiting',
     severity: 'MEDIUM',
     category: 'mcp-rate-limit',
+    server: { applies: HTTP_LAYER, requires: [INBOUND_RATE_LIMIT] },
     check: (code: string): MCPViolation[] => {
       const violations: MCPViolation[] = [];
 
-      const hasHTTPLayer = /express|fastify|koa|app\.listen|http\.createServer/i.test(code);
-      const hasRateLimit = /rate[_-]?limit|express-rate-limit|ratelimit/i.test(code);
+      const httpLayerAt = locateMatch(code, HTTP_LAYER);
+      const hasRateLimit = INBOUND_RATE_LIMIT.test(code);
 
-      if (hasHTTPLayer && !hasRateLimit) {
+      if (httpLayerAt && !hasRateLimit) {
         violations.push({
           rule_id: 'mcp-006',
           severity: 'MEDIUM',
+          ...httpLayerAt,
           issue: 'HTTP server missing inbound rate limiting',
           remedy: 'Add rate limiting middleware to protect against abuse',
           auto_fixable: true,
@@ -249,14 +275,15 @@ app.use((req, res, next) => {
     check: (code: string): MCPViolation[] => {
       const violations: MCPViolation[] = [];
 
-      const has429Response = /status\s*\(\s*429\s*\)/i.test(code);
+      const tooManyRequestsAt = locateMatch(code, /status\s*\(\s*429\s*\)/i);
       const hasLimitHeader = /X-RateLimit-Limit/i.test(code);
       const hasRemainingHeader = /X-RateLimit-Remaining/i.test(code);
 
-      if (has429Response && (!hasLimitHeader || !hasRemainingHeader)) {
+      if (tooManyRequestsAt && (!hasLimitHeader || !hasRemainingHeader)) {
         violations.push({
           rule_id: 'mcp-007',
           severity: 'LOW',
+          ...tooManyRequestsAt,
           issue: 'Rate limit responses missing standard headers',
           remedy: 'Add X-RateLimit-Limit, X-RateLimit-Remaining, and Retry-After headers',
           auto_fixable: true
@@ -278,16 +305,17 @@ app.use((req, res, next) => {
       const violations: MCPViolation[] = [];
 
       // Check for console.log with string template (unstructured)
-      const hasUnstructuredLogs = /console\.(log|error)\s*\(\s*[`'"]/.test(code);
+      const unstructuredLogsAt = locateMatch(code, /console\.(log|error)\s*\(\s*[`'"]/);
       const hasStructuredLogs = /console\.(log|error)\s*\(\s*JSON\.stringify|winston|pino|bunyan/i.test(code);
 
       // Only flag if using MCP patterns
       const usesMCPPatterns = /@modelcontextprotocol|McpServer/i.test(code);
 
-      if (usesMCPPatterns && hasUnstructuredLogs && !hasStructuredLogs) {
+      if (usesMCPPatterns && unstructuredLogsAt && !hasStructuredLogs) {
         violations.push({
           rule_id: 'mcp-008',
           severity: 'LOW',
+          ...unstructuredLogsAt,
           issue: 'Unstructured logging detected - consider structured JSON logging',
           remedy: 'Use structured logging (JSON) for better log aggregation',
           auto_fixable: false
@@ -306,13 +334,14 @@ app.use((req, res, next) => {
     check: (code: string): MCPViolation[] => {
       const violations: MCPViolation[] = [];
 
-      const hasHTTPLayer = /express|fastify|koa|app\.listen|http\.createServer/i.test(code);
+      const httpLayerAt = locateMatch(code, HTTP_LAYER);
       const hasRequestId = /requestId|request_id|correlationId|correlation_id|x-request-id/i.test(code);
 
-      if (hasHTTPLayer && !hasRequestId) {
+      if (httpLayerAt && !hasRequestId) {
         violations.push({
           rule_id: 'mcp-009',
           severity: 'MEDIUM',
+          ...httpLayerAt,
           issue: 'HTTP server missing request ID tracing',
           remedy: 'Add request ID middleware for distributed tracing',
           auto_fixable: true,
@@ -337,17 +366,19 @@ app.use((req, res, next) => {
     description: 'MCP servers should implement graceful shutdown',
     severity: 'MEDIUM',
     category: 'mcp-health-checks',
+    server: { applies: HTTP_LAYER, requires: [SIGINT_HANDLER, SERVER_CLOSE] },
     check: (code: string): MCPViolation[] => {
       const violations: MCPViolation[] = [];
 
-      const hasHTTPLayer = /express|fastify|koa|app\.listen|http\.createServer/i.test(code);
-      const hasSigintHandler = /process\.on\s*\(\s*['"]SIGINT['"]/i.test(code);
-      const hasGracefulShutdown = /server\.close|\.close\s*\(\s*\)/i.test(code);
+      const httpLayerAt = locateMatch(code, HTTP_LAYER);
+      const hasSigintHandler = SIGINT_HANDLER.test(code);
+      const hasGracefulShutdown = SERVER_CLOSE.test(code);
 
-      if (hasHTTPLayer && (!hasSigintHandler || !hasGracefulShutdown)) {
+      if (httpLayerAt && (!hasSigintHandler || !hasGracefulShutdown)) {
         violations.push({
           rule_id: 'mcp-010',
           severity: 'MEDIUM',
+          ...httpLayerAt,
           issue: 'Missing graceful shutdown handling',
           remedy: 'Implement SIGINT/SIGTERM handlers that close connections gracefully',
           auto_fixable: true,
@@ -377,11 +408,11 @@ app.use((req, res, next) => {
 /**
  * Check all MCP standard rules
  */
-export function checkMCPStandardRules(code: string): MCPViolation[] {
+export function checkMCPStandardRules(code: string, context?: AnalysisContext): MCPViolation[] {
   const violations: MCPViolation[] = [];
 
   for (const rule of MCP_STANDARD_RULES) {
-    violations.push(...rule.check(code));
+    violations.push(...rule.check(code, context));
   }
 
   return violations;
@@ -392,13 +423,14 @@ export function checkMCPStandardRules(code: string): MCPViolation[] {
  */
 export function checkMCPStandardRulesByCategory(
   code: string,
-  category: MCPStandardRule['category']
+  category: MCPStandardRule['category'],
+  context?: AnalysisContext
 ): MCPViolation[] {
   const violations: MCPViolation[] = [];
 
   for (const rule of MCP_STANDARD_RULES) {
     if (rule.category === category) {
-      violations.push(...rule.check(code));
+      violations.push(...rule.check(code, context));
     }
   }
 
@@ -13,6 +13,18 @@
  * - Scope validation
  */
 
+import {
+  createAnalysisContext,
+  findIdentifier,
+  hasIdentifier,
+  hasImport,
+  locateMatch,
+  locateNode,
+  reachesCapability,
+  spanFromOffsets,
+  type AnalysisContext
+} from '../analysis/index.js';
+
 export interface OAuthConfig {
   auth_type: 'oauth2' | 'api_key' | 'jwt' | 'api_token' | 'private_app' | 'smart_on_fhir' | 'x509';
   token_expiry_minutes?: number;
@@ -78,13 +90,17 @@ export interface OAuthRule {
   name: string;
   description: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
-  check: (code: string, vendor?: string) => OAuthViolation[];
+  check: (code: string, vendor?: string, context?: AnalysisContext) => OAuthViolation[];
 }
 
 export interface OAuthViolation {
   rule_id: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
   location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
   issue: string;
   remedy: string;
   auto_fixable: boolean;
@@ -99,14 +115,15 @@ export const OAUTH_RULES: OAuthRule[] = [
     check: (code: string, vendor?: string): OAuthViolation[] => {
       const violations: OAuthViolation[] = [];
 
-      const hasTokenRefresh = /refresh[_-]?token|token[_-]?refresh/i.test(code);
+      const tokenRefreshAt = locateMatch(code, /refresh[_-]?token|token[_-]?refresh/i);
       const hasPreemptiveRefresh = /buffer|before.*expir|expir.*before|pre.*refresh|early.*refresh/i.test(code);
 
-      if (hasTokenRefresh && !hasPreemptiveRefresh) {
+      if (tokenRefreshAt && !hasPreemptiveRefresh) {
         const config = vendor ? VENDOR_OAUTH_CONFIGS[vendor] : null;
         violations.push({
           rule_id: 'oauth-001',
           severity: 'CRITICAL',
+          ...tokenRefreshAt,
           issue: 'Token refresh detected but no pre-emptive refresh before expiry',
           remedy: config
             ? `Refresh token ${config.refresh_buffer_minutes} minutes BEFORE expiry for ${vendor}`
@@ -123,16 +140,24 @@ export const OAUTH_RULES: OAuthRule[] = [
     name: 'Token Refresh Race Condition',
     description: 'Must use async lock to prevent concurrent refresh calls',
     severity: 'CRITICAL',
-    check: (code: string): OAuthViolation[] => {
+    check: (code: string, _vendor?: string, context?: AnalysisContext): OAuthViolation[] => {
       const violations: OAuthViolation[] = [];
+      const ast = context ?? createAnalysisContext(code);
 
-      const hasTokenRefresh = /refresh[_-]?token|token[_-]?refresh/i.test(code);
-      const hasAsyncLock = /lock|mutex|semaphore|atomic|synchronized/i.test(code);
+      // AST-based: comments and string literals no longer count as refresh or lock usage
+      const hasTokenRefresh = hasIdentifier(ast, /refresh[_-]?token|token[_-]?refresh/i);
+      // A lock may come from a helper module, e.g. singleFlight() built on a mutex in utils/
+      // Case-sensitive word starts, so block, clock or blockSize do not count as a lock
+      const hasAsyncLock = hasIdentifier(ast, /(^|_)(lock|mutex|semaphore|LOCK|MUTEX|SEMAPHORE)|Lock|Mutex|Semaphore|[Aa]tomic|synchronized/) ||
+                           hasImport(ast, /mutex|semaphore|(^|[-/@])lock/i) ||
+                           reachesCapability(ast, 'async-lock');
 
       if (hasTokenRefresh && !hasAsyncLock) {
+        const refreshNode = findIdentifier(ast, /refresh[_-]?token|token[_-]?refresh/i);
         violations.push({
           rule_id: 'oauth-002',
           severity: 'CRITICAL',
+          ...(refreshNode ? locateNode(ast, refreshNode) : {}),
           issue: 'Token refresh without async lock - risk of race condition',
           remedy: 'Implement async lock: only first caller refreshes, others wait for result',
           auto_fixable: true
@@ -150,13 +175,14 @@ export const OAUTH_RULES: OAuthRule[] = [
     check: (code: string): OAuthViolation[] => {
       const violations: OAuthViolation[] = [];
 
-      const hasOAuth = /oauth|token|access[_-]?token/i.test(code);
+      const oauthAt = locateMatch(code, /oauth|token|access[_-]?token/i);
       const hasRevocationHandling = /invalid[_-]?grant|revok|password.*change|re-?auth/i.test(code);
 
-      if (hasOAuth && !hasRevocationHandling) {
+      if (oauthAt && !hasRevocationHandling) {
         violations.push({
           rule_id: 'oauth-003',
           severity: 'HIGH',
+          ...oauthAt,
           issue: 'No token revocation detection (password change invalidates all tokens)',
           remedy: 'Handle invalid_grant errors: pause sync, alert user to re-authenticate',
           auto_fixable: true
@@ -174,15 +200,16 @@ export const OAUTH_RULES: OAuthRule[] = [
     check: (code: string): OAuthViolation[] => {
       const violations: OAuthViolation[] = [];
 
-      const hasTokenStorage = /token.*storage|store.*token|cache.*token|token.*cache/i.test(code);
+      const tokenStorageAt = locateMatch(code, /token.*storage|store.*token|cache.*token|token.*cache/i);
       const hasTenantIsolation = /tenant[_-]?id|organization[_-]?id|org[_-]?id/i.test(code);
-      const hasMultiTenant = /multi[_-]?tenant|tenants?/i.test(code);
+      const multiTenantAt = locateMatch(code, /multi[_-]?tenant|tenants?/i);
 
       // If multi-tenant but no tenant isolation in token handling
-      if ((hasTokenStorage || hasMultiTenant) && !hasTenantIsolation) {
+      if ((tokenStorageAt || multiTenantAt) && !hasTenantIsolation) {
         violations.push({
           rule_id: 'oauth-004',
           severity: 'CRITICAL',
+          ...(tokenStorageAt ?? multiTenantAt),
           issue: 'Multi-tenant token handling without tenant_id isolation - SECURITY RISK',
           remedy: 'Add tenant_id to ALL queries (WHERE tenant_id = ?) and cache keys (oauth_token:{tenant_id}:{provider})',
           auto_fixable: false
@@ -250,13 +277,14 @@ export const OAUTH_RULES: OAuthRule[] = [
     check: (code: string): OAuthViolation[] => {
       const violations: OAuthViolation[] = [];
 
-      const hasOAuth = /oauth|scope|permission/i.test(code);
+      const oauthAt = locateMatch(code, /oauth|scope|permission/i);
       const hasScopeCheck = /scope.*check|check.*scope|has.*scope|scope.*valid/i.test(code);
 
-      if (hasOAuth && !hasScopeCheck) {
+      if (oauthAt && !hasScopeCheck) {
         violations.push({
           rule_id: 'oauth-007',
           severity: 'MEDIUM',
+          ...oauthAt,
           issue: 'OAuth detected but no scope validation before API calls',
           remedy: 'Validate required scopes before making API calls to prevent partial failures',
           auto_fixable: true
@@ -287,10 +315,14 @@ export const OAUTH_RULES: OAuthRule[] = [
       for (const pattern of patterns) {
         const match = code.match(pattern);
         if (match) {
+          const span = spanFromOffsets(code, match.index ?? 0, (match.index ?? 0) + match[0].length);
           violations.push({
             rule_id: 'oauth-008',
             severity: 'CRITICAL',
             location: match[0].substring(0, 30) + '...',
+            ...span,
+            // Never echo the credential itself into reports
+            snippet: span.snippet.split(match[0]).join('[REDACTED]'),
             issue: 'Hardcoded credential detected in source code',
             remedy: 'Move credential to environment variable (e.g., process.env.API_KEY)',
             auto_fixable: true
@@ -334,13 +366,14 @@ export const OAUTH_RULES: OAuthRule[] = [
     check: (code: string): OAuthViolation[] => {
       const violations: OAuthViolation[] = [];
 
-      const hasApiCalls = /fetch|axios|http|request|api/i.test(code);
+      const apiCallsAt = locateMatch(code, /fetch|axios|http|request|api/i);
       const has401Handler = /401|unauthorized|auth.*fail|token.*expir/i.test(code);
 
-      if (hasApiCalls && !has401Handler) {
+      if (apiCallsAt && !has401Handler) {
         violations.push({
           rule_id: 'oauth-010',
           severity: 'CRITICAL',
+          ...apiCallsAt,
           issue: 'No handler for 401 Unauthorized responses',
           remedy: 'Add 401 handler: attempt token refresh, then retry request',
           auto_fixable: true
@@ -352,11 +385,11 @@ export const OAUTH_RULES: OAuthRule[] = [
   }
 ];
 
-export function checkOAuthRules(code: string, vendor?: string): OAuthViolation[] {
+export function checkOAuthRules(code: string, vendor?: string, context?: AnalysisContext): OAuthViolation[] {
   const violations: OAuthViolation[] = [];
 
   for (const rule of OAUTH_RULES) {
-    violations.push(...rule.check(code, vendor));
+    violations.push(...rule.check(code, vendor, context));
   }
 
   return violations;
@@ -7,6 +7,8 @@
  * Revenue impact: $5K-$50K per incident
  */
 
+import { locateMatch, reachesCapability, spanFromOffsets, type AnalysisContext } from '../analysis/index.js';
+
 export interface RateLimitConfig {
   limit: number;
   window_ms: number;
@@ -85,13 +87,17 @@ export interface RateLimitRule {
   name: string;
   description: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
-  check: (code: string, vendor?: string) => RateLimitViolation[];
+  check: (code: string, vendor?: string, context?: AnalysisContext) => RateLimitViolation[];
 }
 
 export interface RateLimitViolation {
   rule_id: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
   location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
   issue: string;
   remedy: string;
   auto_fixable: boolean;
@@ -103,17 +109,19 @@ export const RATE_LIMIT_RULES: RateLimitRule[] = [
     name: 'No Rate Limiter',
     description: 'Code must implement rate limiting for API calls',
     severity: 'CRITICAL',
-    check: (code: string, vendor?: string): RateLimitViolation[] => {
+    check: (code: string, vendor?: string, context?: AnalysisContext): RateLimitViolation[] => {
       const violations: RateLimitViolation[] = [];
 
-      // Check for rate limiting patterns
-      const hasRateLimiter = /rate[_-]?limit|throttle|backoff|delay|queue/i.test(code);
-      const hasApiCalls = /fetch|axios|http|request|api/i.test(code);
+      // Check for rate limiting patterns, here or in an imported module
+      const hasRateLimiter = /rate[_-]?limit|throttle|backoff|delay|queue/i.test(code) ||
+                             reachesCapability(context, 'rate-limiter');
+      const apiCallsAt = locateMatch(code, /fetch|axios|http|request|api/i);
 
-      if (hasApiCalls && !hasRateLimiter) {
+      if (apiCallsAt && !hasRateLimiter) {
         violations.push({
           rule_id: 'rl-001',
           severity: 'CRITICAL',
+          ...apiCallsAt,
           issue: 'No rate limiting implementation detected',
           remedy: vendor
             ? `Add rate limiter with ${VENDOR_RATE_LIMITS[vendor]?.limit || 100} req/${VENDOR_RATE_LIMITS[vendor]?.window_ms || 1000}ms for ${vendor}`
@@ -148,6 +156,7 @@ export const RATE_LIMIT_RULES: RateLimitRule[] = [
             rule_id: 'rl-002',
             severity: 'HIGH',
             location: `Rate limit value: ${codeLimit}`,
+            ...spanFromOffsets(code, limitMatch.index ?? 0, (limitMatch.index ?? 0) + limitMatch[0].length),
             issue: `Rate limit ${codeLimit} exceeds ${vendor} limit of ${config.limit}`,
             remedy: `Change rate limit to ${config.limit} requests per ${config.window_ms}ms`,
             auto_fixable: true
@@ -163,16 +172,19 @@ export const RATE_LIMIT_RULES: RateLimitRule[] = [
     name: 'No Exponential Backoff',
     description: 'Must implement exponential backoff for retries',
     severity: 'CRITICAL',
-    check: (code: string): RateLimitViolation[] => {
+    check: (code: string, _vendor?: string, context?: AnalysisContext): RateLimitViolation[] => {
       const violations: RateLimitViolation[] = [];
 
-      const hasRetry = /retry|attempt|retries/i.test(code);
-      const hasExponentialBackoff = /exponential|backoff|\*\s*2|\*=\s*2|Math\.pow.*2|2\s*\*\*/i.test(code);
+      // Callers of a shared retry helper get its backoff through the import
+      const retryAt = locateMatch(code, /retry|attempt|retries/i);
+      const hasExponentialBackoff = /exponential|backoff|\*\s*2|\*=\s*2|Math\.pow.*2|2\s*\*\*/i.test(code) ||
+                                    reachesCapability(context, 'exponential-backoff');
 
-      if (hasRetry && !hasExponentialBackoff) {
+      if (retryAt && !hasExponentialBackoff) {
         violations.push({
           rule_id: 'rl-003',
           severity: 'CRITICAL',
+          ...retryAt,
           issue: 'Retry logic without exponential backoff detected',
           remedy: 'Implement exponential backoff: delay = base * (2 ** attempt)',
           auto_fixable: true
@@ -187,16 +199,17 @@ export const RATE_LIMIT_RULES: RateLimitRule[] = [
     name: 'No Jitter',
     description: 'Backoff must include jitter to prevent thundering herd',
     severity: 'HIGH',
-    check: (code: string): RateLimitViolation[] => {
+    check: (code: string, _vendor?: string, context?: AnalysisContext): RateLimitViolation[] => {
       const violations: RateLimitViolation[] = [];
 
-      const hasBackoff = /backoff|delay.*retry/i.test(code);
-      const hasJitter = /jitter|random|Math\.random/i.test(code);
+      const backoffAt = locateMatch(code, /backoff|delay.*retry/i);
+      const hasJitter = /jitter|random|Math\.random/i.test(code) || reachesCapability(context, 'jitter');
 
-      if (hasBackoff && !hasJitter) {
+      if (backoffAt && !hasJitter) {
         violations.push({
           rule_id: 'rl-004',
           severity: 'HIGH',
+          ...backoffAt,
           issue: 'Backoff without jitter detected - risk of thundering herd',
           remedy: 'Add ±30% jitter: delay = delay * (1 + (Math.random() * 0.6 - 0.3))',
           auto_fixable: true
@@ -211,16 +224,18 @@ export const RATE_LIMIT_RULES: RateLimitRule[] = [
     name: 'No Circuit Breaker',
     description: 'Must implement circuit breaker pattern',
     severity: 'CRITICAL',
-    check: (code: string): RateLimitViolation[] => {
+    check: (code: string, _vendor?: string, context?: AnalysisContext): RateLimitViolation[] => {
       const violations: RateLimitViolation[] = [];
 
-      const hasApiCalls = /fetch|axios|http|request|api/i.test(code);
-      const hasCircuitBreaker = /circuit[_-]?breaker|OPEN|CLOSED|HALF[_-]?OPEN/i.test(code);
+      const apiCallsAt = locateMatch(code, /fetch|axios|http|request|api/i);
+      const hasCircuitBreaker = /circuit[_-]?breaker|OPEN|CLOSED|HALF[_-]?OPEN/i.test(code) ||
+                                reachesCapability(context, 'circuit-breaker');
 
-      if (hasApiCalls && !hasCircuitBreaker) {
+      if (apiCallsAt && !hasCircuitBreaker) {
         violations.push({
           rule_id: 'rl-005',
           severity: 'CRITICAL',
+          ...apiCallsAt,
           issue: 'No circuit breaker pattern detected',
           remedy: 'Implement circuit breaker: CLOSED → OPEN (5 failures) → HALF-OPEN (60s) → test → CLOSED/OPEN',
           auto_fixable: true
@@ -238,13 +253,14 @@ export const RATE_LIMIT_RULES: RateLimitRule[] = [
     check: (code: string): RateLimitViolation[] => {
       const violations: RateLimitViolation[] = [];
 
-      const handles429 = /429|too.?many.?requests|rate.?limit/i.test(code);
+      const rateLimitResponseAt = locateMatch(code, /429|too.?many.?requests|rate.?limit/i);
       const readsRetryAfter = /retry-after|retryafter/i.test(code);
 
-      if (handles429 && !readsRetryAfter) {
+      if (rateLimitResponseAt && !readsRetryAfter) {
         violations.push({
           rule_id: 'rl-006',
           severity: 'MEDIUM',
+          ...rateLimitResponseAt,
           issue: 'Handles 429 but does not read Retry-After header',
           remedy: 'Read and respect Retry-After header value when present',
           auto_fixable: true
@@ -289,13 +305,14 @@ export const RATE_LIMIT_RULES: RateLimitRule[] = [
 
       if (vendor !== 'shopify') return violations;
 
-      const usesGraphQL = /graphql|query\s*{|mutation\s*{/i.test(code);
+      const graphQLAt = locateMatch(code, /graphql|query\s*{|mutation\s*{/i);
       const tracksPoints = /point|cost|throttle/i.test(code);
 
-      if (usesGraphQL && !tracksPoints) {
+      if (graphQLAt && !tracksPoints) {
         violations.push({
           rule_id: 'rl-008',
           severity: 'HIGH',
+          ...graphQLAt,
           issue: 'Shopify GraphQL detected but no point tracking',
           remedy: 'Track GraphQL query cost points - costs vary by query complexity',
           auto_fixable: false
@@ -315,13 +332,14 @@ export const RATE_LIMIT_RULES: RateLimitRule[] = [
 
       if (vendor !== 'zendesk') return violations;
 
-      const usesPagination = /page|offset|cursor|next/i.test(code);
+      const paginationAt = locateMatch(code, /page|offset|cursor|next/i);
       const hasDeepPaginationHandling = /deep.?pagination|pagination.?limit|10.?req/i.test(code);
 
-      if (usesPagination && !hasDeepPaginationHandling) {
+      if (paginationAt && !hasDeepPaginationHandling) {
         violations.push({
           rule_id: 'rl-009',
           severity: 'MEDIUM',
+          ...paginationAt,
           issue: 'Zendesk deep pagination throttled to 10 req/min - not handled',
           remedy: 'Add special handling for deep pagination (>1000 records)',
           auto_fixable: true
@@ -358,11 +376,11 @@ export const RATE_LIMIT_RULES: RateLimitRule[] = [
   }
 ];
 
-export function checkRateLimitRules(code: string, vendor?: string): RateLimitViolation[] {
+export function checkRateLimitRules(code: string, vendor?: string, context?: AnalysisContext): RateLimitViolation[] {
   const violations: RateLimitViolation[] = [];
 
   for (const rule of RATE_LIMIT_RULES) {
-    violations.push(...rule.check(code, vendor));
+    violations.push(...rule.check(code, vendor, context));
   }
 
   return violations;
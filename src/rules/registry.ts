@@ -0,0 +1,248 @@
+/**
+ * Rule Registry
+ *
+ * Single source of truth for every built-in rule: which result category it
+ * reports under, which server capabilities it needs (RULE_APPLICABILITY
+ * categories), and its metadata. The inspection pipelines, the profile rule
+ * filter (RULE_CATEGORY_MAP) and the GET /api/rules catalog are all
+ * generated from it, so adding a rule means adding it here once.
+ */
+
+import { checkRateLimitRules, type RateLimitViolation, RATE_LIMIT_RULES } from './rate-limit-rules.js';
+import { checkOAuthRules, type OAuthViolation, OAUTH_RULES } from './oauth-rules.js';
+import { checkErrorRules, type ErrorViolation, ERROR_RULES } from './error-rules.js';
+import { checkWebhookRules, type WebhookViolation, WEBHOOK_RULES } from './webhook-rules.js';
+import { checkComplianceRules, type ComplianceViolation, COMPLIANCE_RULES } from './compliance-rules.js';
+import { checkDataIntegrityRules, type DataIntegrityViolation, DATA_INTEGRITY_RULES } from './data-integrity-rules.js';
+import { checkMCPStandardRules, type MCPViolation, MCP_STANDARD_RULES } from './mcp-standards.js';
+import { type SuppressionViolation, SUPPRESSION_RULES } from './suppression-rules.js';
+import { META_RULES } from './meta-rules.js';
+import { FUZZING_RULES } from './fuzzing-rules.js';
+import type { PackViolation } from './rule-packs.js';
+import type { AnalysisContext } from '../analysis/index.js';
+
+export type AnyViolation =
+  | RateLimitViolation
+  | OAuthViolation
+  | ErrorViolation
+  | WebhookViolation
+  | ComplianceViolation
+  | DataIntegrityViolation
+  | MCPViolation
+  | SuppressionViolation
+  | PackViolation;
+
+type Severity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+/**
+ * 'file' rules run on each file; 'server' rules need the whole server in view
+ * (a /health route and app.listen often live in different modules) and run
+ * once per server
+ */
+export type RuleScope = 'file' | 'server';
+
+/**
+ * What a whole-server rule needs from the server as a whole. Each pattern is
+ * tested against one file at a time: the rule applies when some file matches
+ * `applies`, and is satisfied when every `requires` pattern matches in some
+ * file, not necessarily the same one.
+ */
+export interface ServerRequirement {
+  applies: RegExp;              // e.g. an HTTP framework that needs a /health route
+  requires: RegExp[];
+}
+
+/**
+ * Options every category check receives
+ */
+export interface CategoryCheckOptions {
+  vendor?: string;
+  regulation?: string;
+}
+
+/**
+ * A result category: its rules, their applicability and how to check them
+ */
+export interface RuleCategoryDefinition {
+  category: string;
+  prefixes: string[];                           // Rule ID prefixes, e.g. "rl" for rl-001
+  rules: { id: string; name: string; description: string; severity: Severity; regulation?: string; server?: ServerRequirement }[];
+  applicability: Record<string, string[]>;      // Rule ID -> RULE_APPLICABILITY categories ([] = universal)
+  skip_reason?: string;                         // Shown when no rule in the category applies
+  requires_profile?: boolean;                   // Only run by profile-aware inspection
+  check?: (code: string, options: CategoryCheckOptions, context: AnalysisContext) => AnyViolation[];
+}
+
+/**
+ * A registered rule with its category and applicability
+ */
+export interface RegisteredRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: Severity;
+  category: string;
+  applicability: string[];
+  regulation?: string;
+  scope?: RuleScope;            // Present for whole-server rules only
+}
+
+export const RULE_CATEGORIES: RuleCategoryDefinition[] = [
+  {
+    category: 'rate_limiting',
+    prefixes: ['rl'],
+    rules: RATE_LIMIT_RULES,
+    applicability: {
+      'rl-001': ['rate-limit-outbound'],           // No Rate Limiter
+      'rl-002': ['rate-limit-outbound'],           // Wrong Rate Limit Values
+      'rl-003': ['exponential-backoff'],           // No Exponential Backoff
+      'rl-004': ['jitter'],                        // No Jitter
+      'rl-005': ['circuit-breaker'],               // No Circuit Breaker
+      'rl-006': ['retry-logic'],                   // No Retry-After Header Handling
+      'rl-007': ['rate-limit-outbound'],           // ServiceNow No Rate Limit Config
+      'rl-008': ['rate-limit-outbound'],           // Shopify GraphQL Points Not Tracked
+      'rl-009': ['rate-limit-outbound'],           // Zendesk Deep Pagination
+      'rl-010': ['rate-limit-outbound']            // Microsoft 365 Multi-Layer Throttling
+    },
+    skip_reason: 'Server does not make external API calls',
+    check: (code, options, context) => checkRateLimitRules(code, options.vendor, context)
+  },
+  {
+    category: 'oauth',
+    prefixes: ['oauth'],
+    rules: OAUTH_RULES,
+    applicability: {
+      'oauth-001': ['oauth-token-refresh'],        // No Pre-emptive Token Refresh
+      'oauth-002': ['oauth-token-refresh'],        // Token Refresh Race Condition
+      'oauth-003': ['token-expiry'],               // No Token Revocation Detection
+      'oauth-004': ['oauth-credentials'],          // Multi-Tenant Token Isolation
+      'oauth-005': ['token-expiry'],               // Snowflake JWT Expiry
+      'oauth-006': ['token-expiry'],               // QuickBooks 100-Day Re-authentication
+      'oauth-007': ['oauth-credentials'],          // No Scope Validation
+      'oauth-008': ['oauth-credentials'],          // Hardcoded Credentials
+      'oauth-009': ['oauth-credentials'],          // Slack Non-Marketplace Limits
+      'oauth-010': ['token-expiry']                // No 401 Handler
+    },
+    skip_reason: 'Server does not use OAuth',
+    check: (code, options, context) => checkOAuthRules(code, options.vendor, context)
+  },
+  {
+    category: 'error_handling',
+    prefixes: ['err'],
+    rules: ERROR_RULES,
+    applicability: Object.fromEntries(ERROR_RULES.map(rule => [rule.id, []])),
+    check: (code, _options, context) => checkErrorRules(code, context)
+  },
+  {
+    category: 'webhooks',
+    prefixes: ['wh'],
+    rules: WEBHOOK_RULES,
+    applicability: {
+      'wh-001': ['webhook-delivery'],              // No Polling Fallback
+      'wh-002': ['webhook-signature'],             // No Signature Validation
+      'wh-003': ['webhook-signature'],             // Trusting Webhook Payload
+      'wh-004': ['replay-protection'],             // No Idempotency/Deduplication
+      'wh-005': ['replay-protection'],             // No Out-of-Order Handling
+      'wh-006': ['webhook-delivery'],              // Slack Timeout
+      'wh-007': ['webhook-delivery'],              // No Retry Handling
+      'wh-008': ['webhook-delivery'],              // No Webhook Timeout
+      'wh-009': ['webhook-delivery'],              // HubSpot Webhook Delays
+      'wh-010': ['webhook-delivery']               // No Dead Letter Queue for Webhooks
+    },
+    skip_reason: 'Server does not handle webhooks',
+    check: (code, options, context) => checkWebhookRules(code, options.vendor, context)
+  },
+  {
+    category: 'compliance',
+    prefixes: ['hipaa', 'gdpr', 'soc2', 'pci'],
+    rules: COMPLIANCE_RULES,
+    applicability: Object.fromEntries(COMPLIANCE_RULES.map(rule => [rule.id, []])),
+    check: (code, options, context) => checkComplianceRules(code, options.regulation, context)
+  },
+  {
+    category: 'data_integrity',
+    prefixes: ['di'],
+    rules: DATA_INTEGRITY_RULES,
+    applicability: Object.fromEntries(DATA_INTEGRITY_RULES.map(rule => [rule.id, ['data-sync']])),
+    skip_reason: 'Server does not have external APIs or database writes requiring idempotency',
+    check: (code, options, context) => checkDataIntegrityRules(code, options.vendor, context)
+  },
+  {
+    category: 'mcp_standards',
+    prefixes: ['mcp'],
+    rules: MCP_STANDARD_RULES,
+    applicability: {
+      'mcp-001': ['mcp-health-checks'],            // MCP Health Endpoint
+      'mcp-002': ['mcp-health-checks'],            // MCP Readiness Endpoint
+      'mcp-003': ['mcp-health-checks'],            // MCP Detailed Health Endpoint
+      'mcp-004': ['mcp-error-codes'],              // JSON-RPC Error Codes
+      'mcp-005': ['mcp-error-codes'],              // Error Retryability
+      'mcp-006': ['mcp-operations'],               // Inbound Rate Limiting
+      'mcp-007': ['mcp-operations'],               // Rate Limit Headers
+      'mcp-008': ['mcp-logging'],                  // Structured Logging
+      'mcp-009': ['mcp-logging'],                  // Request ID Tracing
+      'mcp-010': ['mcp-operations']                // Graceful Shutdown
+    },
+    skip_reason: 'Server is not an MCP server',
+    requires_profile: true,
+    check: (code, _options, context) => checkMCPStandardRules(code, context)
+  },
+  {
+    // Reported while applying linus-ignore directives, not by a category check
+    category: 'suppressions',
+    prefixes: ['sup'],
+    rules: SUPPRESSION_RULES,
+    applicability: { 'sup-001': [] }
+  },
+  {
+    // Run by inspect_self against linus-inspector's own code
+    category: 'meta_inspection',
+    prefixes: ['meta'],
+    rules: META_RULES,
+    applicability: Object.fromEntries(META_RULES.map(rule => [rule.id, []]))
+  },
+  {
+    // Reported by inspect_tool_fuzzing against a running server, not by a category check
+    category: 'fuzzing',
+    prefixes: ['fuzz'],
+    rules: FUZZING_RULES,
+    applicability: Object.fromEntries(FUZZING_RULES.map(rule => [rule.id, []]))
+  }
+];
+
+/**
+ * Every built-in rule, in category order
+ */
+export const RULE_REGISTRY: RegisteredRule[] = RULE_CATEGORIES.flatMap(definition =>
+  definition.rules.map(rule => ({
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    severity: rule.severity,
+    category: definition.category,
+    applicability: definition.applicability[rule.id] ?? [],
+    ...(rule.regulation ? { regulation: rule.regulation } : {}),
+    ...(rule.server ? { scope: 'server' as const } : {})
+  }))
+);
+
+/**
+ * Result category for each rule ID prefix
+ */
+export const RULE_PREFIX_CATEGORIES: Record<string, string> = Object.fromEntries(
+  RULE_CATEGORIES.flatMap(definition => definition.prefixes.map(prefix => [prefix, definition.category]))
+);
+
+/**
+ * Look up a built-in rule by ID
+ */
+export function getRegisteredRule(ruleId: string): RegisteredRule | undefined {
+  return RULE_REGISTRY.find(rule => rule.id === ruleId);
+}
+
+/**
+ * IDs of the rules in a category that run once per server
+ */
+export function serverScopedRules(definition: RuleCategoryDefinition): string[] {
+  return definition.rules.filter(rule => rule.server).map(rule => rule.id);
+}
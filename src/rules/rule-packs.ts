@@ -0,0 +1,237 @@
+/**
+ * Rule Packs
+ *
+ * Organization-specific rules that run alongside the built-in categories
+ * without forking src/rules. A pack is an ES module whose default export
+ * (or `pack` export) looks like:
+ *
+ *   export default {
+ *     name: 'acme-rules',
+ *     rules: [{
+ *       id: 'acme-001',
+ *       name: 'Raw fetch',
+ *       description: 'Outbound calls must go through the Acme HTTP client',
+ *       severity: 'HIGH',
+ *       category: 'acme_http',                 // Result category
+ *       requires: ['rate-limit-outbound'],     // RULE_APPLICABILITY categories
+ *       check: (code, context) => context.calls
+ *         .filter(c => c.callee === 'fetch')
+ *         .map(c => ({ issue: 'Raw fetch()', remedy: 'Use acmeHttp()', node: c.node }))
+ *     }]
+ *   };
+ *
+ * Packs are listed in .linusrc.json `packs`: a path (file or directory of
+ * modules, relative to the server root) or an npm package name resolved
+ * from the server's node_modules. `requires` is handed to the profile rule
+ * filter with each check, so pack rules are skipped for servers that lack
+ * the capability just like built-in rules, without leaking into later
+ * inspections of other servers.
+ */
+
+import type ts from 'typescript';
+import { existsSync, readdirSync, statSync } from 'fs';
+import { createRequire } from 'module';
+import { extname, isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { locateNode, type AnalysisContext } from '../analysis/index.js';
+import { RULE_APPLICABILITY, type ServerProfile } from '../profiler/server-profile.js';
+import { shouldApplyRule } from '../profiler/rule-filter.js';
+import type { RuleOverrides } from '../config/index.js';
+import { RULE_REGISTRY } from './registry.js';
+
+export type PackSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+/**
+ * A finding returned by a pack rule's check function.
+ * Rule ID and severity are filled in from the rule definition; a syntax
+ * node (e.g. CallSite.node) is turned into line, column and snippet.
+ */
+export interface PackFinding {
+  issue: string;
+  remedy?: string;
+  severity?: PackSeverity;
+  location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
+  node?: ts.Node;
+}
+
+export interface PackRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: PackSeverity;
+  category: string;
+  requires?: string[];
+  check: (code: string, context: AnalysisContext) => PackFinding[];
+}
+
+export interface RulePack {
+  name: string;
+  version?: string;
+  rules: PackRule[];
+  source?: string;  // Path or package name the pack was loaded from
+}
+
+export interface PackViolation {
+  rule_id: string;
+  severity: PackSeverity;
+  location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
+  issue: string;
+  remedy: string;
+  auto_fixable: boolean;
+}
+
+export interface PackCategoryResult {
+  category: string;
+  violations: PackViolation[];
+}
+
+const PACK_MODULE_EXTENSIONS = new Set(['.js', '.mjs', '.cjs']);
+const SEVERITIES: PackSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+/**
+ * Validate a module's export as a rule pack
+ */
+function validatePack(value: any, source: string, reservedIds: Set<string>): RulePack {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid rule pack ${source}: ${message}`);
+  };
+
+  if (!value || typeof value !== 'object') fail('expected a default export with name and rules');
+  if (typeof value.name !== 'string' || value.name.length === 0) fail('name must be a non-empty string');
+  if (!Array.isArray(value.rules)) fail('rules must be an array');
+
+  const knownCategories = new Set(RULE_APPLICABILITY.map(a => a.category));
+
+  value.rules.forEach((rule: any, index: number) => {
+    const where = `rules[${index}]`;
+    if (typeof rule?.id !== 'string' || !/^[a-z][a-z0-9]*-\w+$/.test(rule.id)) {
+      fail(`${where}.id must look like "prefix-001"`);
+    }
+    if (reservedIds.has(rule.id)) fail(`${where}.id ${rule.id} is already defined`);
+    if (typeof rule.name !== 'string') fail(`${where}.name must be a string`);
+    if (typeof rule.description !== 'string') fail(`${where}.description must be a string`);
+    if (!SEVERITIES.includes(rule.severity)) fail(`${where}.severity must be one of ${SEVERITIES.join(', ')}`);
+    if (typeof rule.category !== 'string' || rule.category.length === 0) fail(`${where}.category must be a non-empty string`);
+    if (typeof rule.check !== 'function') fail(`${where}.check must be a function`);
+    for (const requirement of rule.requires ?? []) {
+      if (!knownCategories.has(requirement)) fail(`${where}.requires has unknown category "${requirement}"`);
+    }
+    reservedIds.add(rule.id);
+  });
+
+  return { name: value.name, version: value.version, rules: value.rules, source };
+}
+
+/**
+ * Resolve a pack spec to the module files that define it
+ */
+function resolvePackModules(serverPath: string, spec: string): string[] {
+  const isPath = spec.startsWith('.') || isAbsolute(spec);
+
+  if (!isPath) {
+    try {
+      return [createRequire(join(serverPath, 'package.json')).resolve(spec)];
+    } catch {
+      throw new Error(`Rule pack package not found: ${spec}`);
+    }
+  }
+
+  const path = resolve(serverPath, spec);
+  if (!existsSync(path)) {
+    throw new Error(`Rule pack not found: ${path}`);
+  }
+  if (!statSync(path).isDirectory()) {
+    return [path];
+  }
+
+  return readdirSync(path)
+    .filter(name => PACK_MODULE_EXTENSIONS.has(extname(name)))
+    .sort()
+    .map(name => join(path, name));
+}
+
+/**
+ * Load the rule packs listed in project config
+ */
+export async function loadRulePacks(serverPath: string, specs: string[] = []): Promise<RulePack[]> {
+  const packs: RulePack[] = [];
+  const reservedIds = new Set(RULE_REGISTRY.map(rule => rule.id));
+
+  for (const spec of specs) {
+    for (const modulePath of resolvePackModules(serverPath, spec)) {
+      const mod = await import(pathToFileURL(modulePath).href);
+      const pack = validatePack(mod.default ?? mod.pack, modulePath, reservedIds);
+      packs.push(pack);
+    }
+  }
+
+  return packs;
+}
+
+/**
+ * Run pack rules against code, grouped by result category.
+ * With a profile, rules whose requirements the profile does not meet are
+ * skipped unless project config turns them on; the reasons are returned.
+ */
+export function runRulePacks(
+  packs: RulePack[],
+  code: string,
+  context: AnalysisContext,
+  profile?: ServerProfile,
+  overrides?: RuleOverrides
+): { results: PackCategoryResult[]; skipped: { category: string; reason: string }[] } {
+  const byCategory = new Map<string, PackViolation[]>();
+  const skipped = new Map<string, string>();
+
+  for (const pack of packs) {
+    for (const rule of pack.rules) {
+      if (profile) {
+        const filter = shouldApplyRule(rule.id, profile, rule.requires ?? []);
+        const forced = overrides?.[rule.id] !== undefined && overrides[rule.id] !== 'off';
+        if (!filter.shouldApply && !forced) {
+          if (!byCategory.has(rule.category)) skipped.set(rule.category, filter.reason);
+          continue;
+        }
+      }
+
+      let findings: PackFinding[];
+      try {
+        findings = rule.check(code, context) ?? [];
+      } catch (error: any) {
+        throw new Error(`Rule ${rule.id} from pack ${pack.name} failed: ${error.message}`);
+      }
+
+      const violations = byCategory.get(rule.category) ?? [];
+      for (const finding of findings) {
+        const span = finding.node ? locateNode(context, finding.node) : undefined;
+        violations.push({
+          rule_id: rule.id,
+          severity: finding.severity ?? rule.severity,
+          location: finding.location,
+          line: finding.line ?? span?.line,
+          column: finding.column ?? span?.column,
+          end_line: finding.end_line ?? span?.end_line,
+          snippet: finding.snippet ?? span?.snippet,
+          issue: finding.issue,
+          remedy: finding.remedy ?? rule.description,
+          auto_fixable: false  // Pack rules have no auto-fixers
+        });
+      }
+      byCategory.set(rule.category, violations);
+      skipped.delete(rule.category);
+    }
+  }
+
+  return {
+    results: [...byCategory].map(([category, violations]) => ({ category, violations })),
+    skipped: [...skipped].map(([category, reason]) => ({ category, reason }))
+  };
+}
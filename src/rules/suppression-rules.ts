@@ -0,0 +1,74 @@
+/**
+ * Suppression Rules
+ *
+ * `// linus-ignore rule-id: reason` waives a finding at a specific spot.
+ * A waiver is only honored with a written justification; directives
+ * without one are ignored and reported here so audits never find a
+ * silent exemption.
+ */
+
+import { createAnalysisContext, parseSuppressions, type AnalysisContext } from '../analysis/index.js';
+
+export interface SuppressionRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  check: (code: string, context?: AnalysisContext) => SuppressionViolation[];
+}
+
+export interface SuppressionViolation {
+  rule_id: string;
+  severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
+  issue: string;
+  remedy: string;
+  auto_fixable: boolean;
+}
+
+export const SUPPRESSION_RULES: SuppressionRule[] = [
+  {
+    id: 'sup-001',
+    name: 'Unjustified Suppression',
+    description: 'linus-ignore directives must name the rules they waive and give a reason',
+    severity: 'MEDIUM',
+    check: (code: string, context?: AnalysisContext): SuppressionViolation[] => {
+      const violations: SuppressionViolation[] = [];
+      const ast = context ?? createAnalysisContext(code);
+
+      for (const directive of parseSuppressions(ast)) {
+        if (directive.rule_ids.length > 0 && directive.reason !== undefined) continue;
+
+        violations.push({
+          rule_id: 'sup-001',
+          severity: 'MEDIUM',
+          line: directive.line,
+          column: directive.column,
+          end_line: directive.line,
+          snippet: directive.snippet,
+          issue: directive.rule_ids.length === 0
+            ? 'linus-ignore directive does not name any rule - it has no effect'
+            : `linus-ignore for ${directive.rule_ids.join(', ')} has no justification - it has no effect`,
+          remedy: 'Write the directive as "// linus-ignore <rule-id>: <why this finding does not apply>"',
+          auto_fixable: false
+        });
+      }
+
+      return violations;
+    }
+  }
+];
+
+export function checkSuppressionRules(code: string, context?: AnalysisContext): SuppressionViolation[] {
+  const violations: SuppressionViolation[] = [];
+
+  for (const rule of SUPPRESSION_RULES) {
+    violations.push(...rule.check(code, context));
+  }
+
+  return violations;
+}
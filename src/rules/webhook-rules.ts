@@ -17,6 +17,8 @@
  * - Never trust webhook payload - always fetch fresh data
  */
 
+import { locateMatch, type AnalysisContext } from '../analysis/index.js';
+
 export interface WebhookConfig {
   timeout_ms: number;
   signature_validation: boolean;
@@ -87,13 +89,17 @@ export interface WebhookRule {
   name: string;
   description: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
-  check: (code: string, vendor?: string) => WebhookViolation[];
+  check: (code: string, vendor?: string, context?: AnalysisContext) => WebhookViolation[];
 }
 
 export interface WebhookViolation {
   rule_id: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
   location?: string;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  snippet?: string;
   issue: string;
   remedy: string;
   auto_fixable: boolean;
@@ -108,13 +114,14 @@ export const WEBHOOK_RULES: WebhookRule[] = [
     check: (code: string): WebhookViolation[] => {
       const violations: WebhookViolation[] = [];
 
-      const hasWebhook = /webhook|event|notification|subscribe/i.test(code);
+      const webhookAt = locateMatch(code, /webhook|event|notification|subscribe/i);
       const hasPolling = /poll|interval|cron|schedule|setInterval|periodic/i.test(code);
 
-      if (hasWebhook && !hasPolling) {
+      if (webhookAt && !hasPolling) {
         violations.push({
           rule_id: 'wh-001',
           severity: 'CRITICAL',
+          ...webhookAt,
           issue: 'Webhook-only architecture without polling fallback - 20-30% of events may be lost',
           remedy: 'Implement webhook + polling hybrid: webhooks as hints, polling every 5 minutes as backup',
           auto_fixable: true
@@ -132,14 +139,15 @@ export const WEBHOOK_RULES: WebhookRule[] = [
     check: (code: string, vendor?: string): WebhookViolation[] => {
       const violations: WebhookViolation[] = [];
 
-      const hasWebhook = /webhook|event.*handler|notification.*handler/i.test(code);
+      const webhookAt = locateMatch(code, /webhook|event.*handler|notification.*handler/i);
       const hasSignatureValidation = /signature|hmac|verify|validate.*header|crypto/i.test(code);
 
-      if (hasWebhook && !hasSignatureValidation) {
+      if (webhookAt && !hasSignatureValidation) {
         const config = vendor ? VENDOR_WEBHOOK_CONFIGS[vendor] : null;
         violations.push({
           rule_id: 'wh-002',
           severity: 'CRITICAL',
+          ...webhookAt,
           issue: 'Webhook handler without signature validation - vulnerable to spoofing',
           remedy: config?.signature_header
             ? `Validate ${config.signature_header} header using vendor secret`
@@ -159,16 +167,17 @@ export const WEBHOOK_RULES: WebhookRule[] = [
     check: (code: string, vendor?: string): WebhookViolation[] => {
       const violations: WebhookViolation[] = [];
 
-      const hasWebhook = /webhook|event.*handler/i.test(code);
+      const webhookAt = locateMatch(code, /webhook|event.*handler/i);
       const fetchesOnWebhook = /webhook.*fetch|event.*get|fetch.*after|refresh|reload/i.test(code);
 
-      if (hasWebhook && !fetchesOnWebhook) {
+      if (webhookAt && !fetchesOnWebhook) {
         const config = vendor ? VENDOR_WEBHOOK_CONFIGS[vendor] : null;
         const severity = config?.thin_events ? 'CRITICAL' : 'HIGH';
 
         violations.push({
           rule_id: 'wh-003',
           severity,
+          ...webhookAt,
           issue: config?.thin_events
             ? `${vendor} uses thin events - payload is just notification, MUST fetch fresh data`
             : 'Webhook payload may be stale or incomplete - always fetch fresh data from API',
@@ -188,13 +197,14 @@ export const WEBHOOK_RULES: WebhookRule[] = [
     check: (code: string): WebhookViolation[] => {
       const violations: WebhookViolation[] = [];
 
-      const hasWebhook = /webhook|event.*handler/i.test(code);
+      const webhookAt = locateMatch(code, /webhook|event.*handler/i);
       const hasDedup = /idempoten|dedup|event[_-]?id|already.*processed|seen|unique/i.test(code);
 
-      if (hasWebhook && !hasDedup) {
+      if (webhookAt && !hasDedup) {
         violations.push({
           rule_id: 'wh-004',
           severity: 'HIGH',
+          ...webhookAt,
           issue: 'No webhook deduplication - events can be delivered multiple times',
           remedy: 'Track processed events by event_id + timestamp + payload_hash (24-hour window)',
           auto_fixable: true
@@ -212,13 +222,14 @@ export const WEBHOOK_RULES: WebhookRule[] = [
     check: (code: string): WebhookViolation[] => {
       const violations: WebhookViolation[] = [];
 
-      const hasWebhook = /webhook|event.*handler/i.test(code);
+      const webhookAt = locateMatch(code, /webhook|event.*handler/i);
       const hasOrderHandling = /timestamp|sequence|version|order|latest/i.test(code);
 
-      if (hasWebhook && !hasOrderHandling) {
+      if (webhookAt && !hasOrderHandling) {
         violations.push({
           rule_id: 'wh-005',
           severity: 'MEDIUM',
+          ...webhookAt,
           issue: 'Webhooks can arrive out of order - no handling detected',
           remedy: 'Compare event timestamp with current record timestamp, only process if newer',
           auto_fixable: true
@@ -262,13 +273,14 @@ export const WEBHOOK_RULES: WebhookRule[] = [
     check: (code: string): WebhookViolation[] => {
       const violations: WebhookViolation[] = [];
 
-      const hasWebhook = /webhook|event.*handler/i.test(code);
+      const webhookAt = locateMatch(code, /webhook|event.*handler/i);
       const hasRetryHandling = /retry|attempt|x-.*-retry|delivery.*attempt/i.test(code);
 
-      if (hasWebhook && !hasRetryHandling) {
+      if (webhookAt && !hasRetryHandling) {
         violations.push({
           rule_id: 'wh-007',
           severity: 'MEDIUM',
+          ...webhookAt,
           issue: 'No handling for vendor retry attempts',
           remedy: 'Track delivery attempt count, implement idempotency to handle retried events',
           auto_fixable: true
@@ -286,13 +298,14 @@ export const WEBHOOK_RULES: WebhookRule[] = [
     check: (code: string): WebhookViolation[] => {
       const violations: WebhookViolation[] = [];
 
-      const hasWebhook = /webhook|event.*handler/i.test(code);
+      const webhookAt = locateMatch(code, /webhook|event.*handler/i);
       const hasTimeout = /timeout|abort|signal|deadline/i.test(code);
 
-      if (hasWebhook && !hasTimeout) {
+      if (webhookAt && !hasTimeout) {
         violations.push({
           rule_id: 'wh-008',
           severity: 'HIGH',
+          ...webhookAt,
           issue: 'No timeout for webhook processing - can hang indefinitely',
           remedy: 'Add 10-second timeout (3 seconds for Slack) to webhook handler',
           auto_fixable: true
@@ -335,13 +348,14 @@ export const WEBHOOK_RULES: WebhookRule[] = [
     check: (code: string): WebhookViolation[] => {
       const violations: WebhookViolation[] = [];
 
-      const hasWebhook = /webhook|event.*handler/i.test(code);
+      const webhookAt = locateMatch(code, /webhook|event.*handler/i);
       const hasDLQ = /dead[_-]?letter|dlq|failed[_-]?queue/i.test(code);
 
-      if (hasWebhook && !hasDLQ) {
+      if (webhookAt && !hasDLQ) {
         violations.push({
           rule_id: 'wh-010',
           severity: 'MEDIUM',
+          ...webhookAt,
           issue: 'No DLQ for failed webhook processing',
           remedy: 'Store failed webhook events in DLQ for manual review and replay',
           auto_fixable: true
@@ -353,11 +367,11 @@ export const WEBHOOK_RULES: WebhookRule[] = [
   }
 ];
 
-export function checkWebhookRules(code: string, vendor?: string): WebhookViolation[] {
+export function checkWebhookRules(code: string, vendor?: string, context?: AnalysisContext): WebhookViolation[] {
   const violations: WebhookViolation[] = [];
 
   for (const rule of WEBHOOK_RULES) {
-    violations.push(...rule.check(code, vendor));
+    violations.push(...rule.check(code, vendor, context));
   }
 
   return violations;
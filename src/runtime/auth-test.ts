@@ -0,0 +1,293 @@
+/**
+ * Auth Test
+ *
+ * Runs the server under test against the mock vendor's OAuth authority with
+ * token lifetimes compressed from VENDOR_OAUTH_CONFIGS (a minute of vendor
+ * time becomes 25ms, so a 60 minute Snowflake token lives 2s), then watches
+ * it through several token lifetimes:
+ *
+ *   token_expiry       never presents an expired token (oauth-001)
+ *   concurrent_refresh never has two token requests in flight for one tenant (oauth-002)
+ *   revocation         mid-test every live token is revoked; the server must
+ *                      re-authenticate rather than keep sending it (oauth-003, oauth-010)
+ *   tenant_isolation   every tenant in <VENDOR>_TENANTS gets and uses its own token (oauth-004)
+ *   scopes             stays within the granted scopes (oauth-007)
+ *
+ * Token responses are delayed slightly so overlapping refreshes show up.
+ */
+
+import { saveConnectionTest } from '../database/index.js';
+import { SUPPORTED_VENDORS, getVendorOAuthConfig } from '../rules/index.js';
+import type { OAuthConfig } from '../rules/oauth-rules.js';
+import { runtimeVerdict, serverStartTest, type ConnectionVerdict, type RuntimeTestResult } from './connection-test.js';
+import { startMockVendor, mockVendorEnv, type MockRequestLog } from './mock-vendor.js';
+import { createOAuthAuthority, type OAuthAuthority, type TokenRequestLog } from './oauth-authority.js';
+import { startTargetServer, targetRun, type TargetRun } from './target-server.js';
+
+const TOKEN_MS_PER_MINUTE = 25;
+const DEFAULT_SETTLE_MS = 6000;          // For vendors whose tokens never expire
+const DEFAULT_TENANTS = 2;
+const TOKEN_LATENCY_MS = 200;
+const MAX_REVOKED_RETRIES = 2;           // Requests already in flight when the token was revoked
+
+export interface AuthTestOptions {
+  vendor: string;
+  fixture?: string;
+  server_path: string;
+  inspection_id?: string;
+  token_ttl_ms?: number;       // Default: the vendor's expiry, compressed
+  settle_ms?: number;          // Default: three token lifetimes
+  revoke_after_ms?: number;    // Default: one and a half token lifetimes
+  tenants?: number;            // Tenants besides the default client (default 2)
+  scopes?: string[];           // Default: the vendor's scopes_required, if any
+}
+
+export interface AuthTestResult {
+  id: string;
+  vendor: string;
+  server_path: string;
+  token_ttl_ms?: number;
+  revoked_after_ms?: number;
+  verdict: ConnectionVerdict;
+  tests: RuntimeTestResult[];
+  token_requests: TokenRequestLog[];
+  server: { command: string; exit_code: number | null; stderr: string };
+}
+
+/**
+ * The vendor's token lifetime on the test clock, in whole seconds since
+ * expires_in is
+ */
+export function compressedTokenTtl(oauth: OAuthConfig): number | undefined {
+  if (!oauth.token_expiry_minutes) return undefined;
+  return Math.ceil(oauth.token_expiry_minutes * TOKEN_MS_PER_MINUTE / 1000) * 1000;
+}
+
+function checkTokenExpiry(authority: OAuthAuthority, apiRequests: MockRequestLog[]): RuntimeTestResult {
+  const base = { name: 'token_expiry', rule_ids: authority.vendor === 'snowflake' ? ['oauth-001', 'oauth-005'] : ['oauth-001'] };
+  if (authority.static_key) {
+    return { ...base, status: 'SKIP', message: `${authority.vendor} authenticates with a static API key` };
+  }
+  if (authority.token_ttl_ms === undefined) {
+    return { ...base, status: 'SKIP', message: `${authority.vendor} access tokens do not expire` };
+  }
+
+  const expired = apiRequests.filter(r => r.auth_error === 'Access token expired');
+  if (expired.length > 0) {
+    const buffer = authority.oauth?.refresh_buffer_minutes;
+    return {
+      ...base,
+      status: 'FAIL',
+      message: `Sent ${expired.length} request(s) with an expired token` +
+        (buffer ? `; refresh ${buffer} minutes before expiry` : '; refresh before expiry'),
+      details: { token_ttl_ms: authority.token_ttl_ms }
+    };
+  }
+
+  const firstExpiry = Math.min(...authority.issued.map(t => t.expires_at ?? Infinity));
+  const afterExpiry = apiRequests.filter(r => r.at >= firstExpiry).length;
+  return afterExpiry > 0
+    ? { ...base, status: 'PASS', message: `Renewed tokens before they expired (${authority.issued.length} issued)` }
+    : { ...base, status: 'SKIP', message: 'Server made no API calls after its first token expired' };
+}
+
+function checkConcurrentRefresh(authority: OAuthAuthority): RuntimeTestResult {
+  const base = { name: 'concurrent_refresh', rule_ids: ['oauth-002'] };
+  if (authority.static_key) {
+    return { ...base, status: 'SKIP', message: `${authority.vendor} authenticates with a static API key` };
+  }
+  const requests = authority.token_requests;
+  if (requests.length <= 1) {
+    return { ...base, status: 'SKIP', message: `Server made ${requests.length} token request(s); nothing to race` };
+  }
+
+  const overlapping = requests.filter((request, i) => request.tenant_id !== undefined && requests.slice(0, i).some(earlier =>
+    earlier.tenant_id === request.tenant_id && request.at < earlier.finished_at));
+  const presented = requests.map(r => r.refresh_token).filter(Boolean);
+  const reused = [...new Set(presented.filter((token, i) => presented.indexOf(token) !== i))];
+
+  if (overlapping.length > 0 || reused.length > 0) {
+    return {
+      ...base,
+      status: 'FAIL',
+      message: `${overlapping.length} token request(s) overlapped another for the same tenant` +
+        (reused.length > 0 ? `, ${reused.length} refresh token(s) presented twice` : '') +
+        '; share one in-flight refresh',
+      details: { overlapping: overlapping.map(r => ({ at: r.at, grant_type: r.grant_type, tenant_id: r.tenant_id, status: r.status })) }
+    };
+  }
+  return { ...base, status: 'PASS', message: `${requests.length} token requests, none concurrent for the same tenant` };
+}
+
+function checkRevocation(
+  authority: OAuthAuthority,
+  apiRequests: MockRequestLog[],
+  revocation: { at?: number; revoked: number }
+): RuntimeTestResult {
+  const base = { name: 'revocation', rule_ids: ['oauth-003', 'oauth-010'] };
+  if (authority.static_key) {
+    return { ...base, status: 'SKIP', message: `${authority.vendor} authenticates with a static API key` };
+  }
+  if (revocation.at === undefined) {
+    return { ...base, status: 'SKIP', message: 'Server exited before tokens were revoked' };
+  }
+  if (revocation.revoked === 0) {
+    return { ...base, status: 'SKIP', message: 'Server held no live token when tokens were revoked' };
+  }
+
+  const after = apiRequests.filter(r => r.at >= revocation.at!);
+  if (after.length === 0) {
+    return { ...base, status: 'SKIP', message: 'Server made no API calls after its tokens were revoked' };
+  }
+
+  const rejected = after.filter(r => r.auth_error === 'Access token revoked');
+  const reauth = authority.token_requests.find(r => r.at >= revocation.at! && r.status === 200);
+  const details = { revoked_tokens: revocation.revoked, rejected_requests: rejected.length };
+
+  if (!reauth) {
+    return { ...base, status: 'FAIL', message: `Got ${rejected.length} 401 response(s) for a revoked token and never re-authenticated`, details };
+  }
+  const stale = rejected.filter(r => r.at > reauth.finished_at);
+  if (stale.length > MAX_REVOKED_RETRIES) {
+    return { ...base, status: 'FAIL', message: `Kept sending the revoked token ${stale.length} time(s) after re-authenticating`, details };
+  }
+  return after.some(r => r.at > reauth.finished_at && r.status < 400)
+    ? { ...base, status: 'PASS', message: 'Re-authenticated after revocation and resumed', details }
+    : { ...base, status: 'PASS', message: 'Re-authenticated after revocation', details };
+}
+
+function checkTenantIsolation(authority: OAuthAuthority, apiRequests: MockRequestLog[]): RuntimeTestResult {
+  const base = { name: 'tenant_isolation', rule_ids: ['oauth-004'] };
+  const tenants = authority.tenants.slice(1);
+  if (tenants.length === 0) {
+    return { ...base, status: 'SKIP', message: 'No extra tenants configured' };
+  }
+
+  const crossTenant = authority.token_requests.filter(r => r.cross_tenant);
+  if (crossTenant.length > 0) {
+    return { ...base, status: 'FAIL', message: `Presented a refresh token with another tenant's client ${crossTenant.length} time(s)` };
+  }
+
+  const used = new Set([
+    ...apiRequests.filter(r => r.status < 400).map(r => r.tenant_id),
+    ...authority.token_requests.filter(r => r.status === 200).map(r => r.tenant_id)
+  ]);
+  const usedTenants = tenants.filter(t => used.has(t.tenant_id)).map(t => t.tenant_id);
+  const prefix = authority.vendor.toUpperCase();
+  if (usedTenants.length === 0) {
+    return { ...base, status: 'SKIP', message: `Server did not use the tenant credentials in ${prefix}_TENANTS` };
+  }
+  if (usedTenants.length < tenants.length) {
+    return {
+      ...base,
+      status: 'FAIL',
+      message: `Only ${usedTenants.join(', ')} of ${tenants.length} tenants authenticated; the others share their token`,
+      details: { unused: tenants.map(t => t.tenant_id).filter(id => !usedTenants.includes(id)) }
+    };
+  }
+  return { ...base, status: 'PASS', message: `Each of the ${tenants.length} tenants authenticated with its own credentials` };
+}
+
+function checkScopes(authority: OAuthAuthority, apiRequests: MockRequestLog[]): RuntimeTestResult {
+  const base = { name: 'scopes', rule_ids: ['oauth-007'] };
+  if (!authority.scopes) {
+    return { ...base, status: 'SKIP', message: 'No scopes to enforce; pass scopes to test them' };
+  }
+  if (authority.static_key) {
+    return { ...base, status: 'SKIP', message: `${authority.vendor} API keys are not scoped` };
+  }
+
+  const invalid = authority.token_requests.filter(r => r.error === 'invalid_scope');
+  const insufficient = apiRequests.filter(r => r.status === 403 && r.auth_error?.startsWith('Token lacks scope'));
+  if (invalid.length > 0 || insufficient.length > 0) {
+    return {
+      ...base,
+      status: 'FAIL',
+      message: `${invalid.length} token request(s) asked for ungranted scopes, ${insufficient.length} API call(s) lacked a scope`,
+      details: { granted: authority.scopes, missing: [...new Set(insufficient.map(r => r.auth_error))] }
+    };
+  }
+  if (apiRequests.length === 0) {
+    return { ...base, status: 'SKIP', message: 'Server made no API calls' };
+  }
+  return { ...base, status: 'PASS', message: `All API calls were within the granted scopes (${authority.scopes.join(' ')})` };
+}
+
+/**
+ * Run the server through token expiry, revocation and multiple tenants
+ */
+export async function testAuth(options: AuthTestOptions): Promise<AuthTestResult> {
+  const vendor = options.vendor.toLowerCase();
+  const oauth = getVendorOAuthConfig(vendor);
+  if (!oauth || !SUPPORTED_VENDORS.includes(vendor as any)) {
+    throw new Error(`Unsupported vendor: ${options.vendor}. Supported: ${SUPPORTED_VENDORS.join(', ')}`);
+  }
+
+  const tokenTtlMs = options.token_ttl_ms ?? compressedTokenTtl(oauth);
+  const settleMs = options.settle_ms ?? (tokenTtlMs ? tokenTtlMs * 3 : DEFAULT_SETTLE_MS);
+  const revokeAfterMs = Math.min(options.revoke_after_ms ?? (tokenTtlMs ? tokenTtlMs * 1.5 : settleMs / 2), settleMs);
+  const authority = createOAuthAuthority({
+    vendor,
+    token_ttl_ms: tokenTtlMs,
+    tenants: options.tenants ?? DEFAULT_TENANTS,
+    scopes: options.scopes ?? oauth.scopes_required,
+    token_latency_ms: TOKEN_LATENCY_MS
+  });
+
+  const mock = await startMockVendor({ vendor, authority, fixture: options.fixture });
+  const revocation: { at?: number; revoked: number } = { revoked: 0 };
+  let run: TargetRun;
+  try {
+    const target = startTargetServer({ server_path: options.server_path, env: mockVendorEnv(mock) });
+    try {
+      if (await target.waitForExit(revokeAfterMs) === null) {
+        revocation.at = Date.now();
+        revocation.revoked = authority.static_key ? 0 : authority.revokeAll();
+        await target.waitForExit(settleMs - revokeAfterMs);
+      }
+      run = targetRun(target);
+    } finally {
+      await target.stop();
+    }
+  } finally {
+    await mock.close();
+  }
+
+  const apiRequests = mock.requests.filter(r => r.path.startsWith('/api/'));
+  const tests: RuntimeTestResult[] = [
+    serverStartTest(run),
+    checkTokenExpiry(authority, apiRequests),
+    checkConcurrentRefresh(authority),
+    checkRevocation(authority, apiRequests, revocation),
+    checkTenantIsolation(authority, apiRequests),
+    checkScopes(authority, apiRequests)
+  ];
+
+  const verdict = runtimeVerdict(tests);
+  const record = saveConnectionTest({
+    inspection_id: options.inspection_id,
+    server_path: options.server_path,
+    test_mode: 'auth',
+    use_sandbox: true,
+    verdict,
+    tests,
+    performance: {
+      token_ttl_ms: tokenTtlMs,
+      token_requests: authority.token_requests.length,
+      api_requests: apiRequests.length,
+      revoked_tokens: revocation.revoked
+    }
+  });
+
+  return {
+    id: record.id,
+    vendor,
+    server_path: options.server_path,
+    token_ttl_ms: tokenTtlMs,
+    revoked_after_ms: revocation.at !== undefined ? revocation.at - run.started_at : undefined,
+    verdict,
+    tests,
+    token_requests: authority.token_requests,
+    server: { command: run.command, exit_code: run.exit_code, stderr: run.stderr }
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Rate Limit Backoff Test
+ *
+ * Measures how the server under test retries throttled requests. The server
+ * is started twice with its API base URL pointed at a throttling proxy in
+ * front of the mock vendor, using the vendor's own algorithm (leaky bucket
+ * for Salesforce, sliding window for HubSpot, token bucket for Stripe...)
+ * at a deliberately tiny limit so any server that makes more than one call
+ * is throttled:
+ *
+ *   1. retry_after - 429s carry Retry-After; every retry must wait for it (rl-006)
+ *   2. backoff     - 429s without Retry-After, and the proxy never lets up;
+ *                    the retry schedule shows whether delays grow
+ *                    exponentially (rl-003), vary with jitter (rl-004) and
+ *                    whether the server eventually stops (no static rule
+ *                    covers retry limits, so max_retries backs none)
+ */
+
+import { saveConnectionTest } from '../database/index.js';
+import { SUPPORTED_VENDORS, getVendorRateLimitConfig } from '../rules/index.js';
+import type { RateLimitConfig } from '../rules/rate-limit-rules.js';
+import { runtimeVerdict, serverStartTest, type ConnectionVerdict, type RuntimeTestResult } from './connection-test.js';
+import { startMockVendor, mockVendorEnv } from './mock-vendor.js';
+import { runTargetServer, type TargetRun } from './target-server.js';
+import { startThrottlingProxy, type ProxyAttempt, type ThrottleMode } from './throttling-proxy.js';
+
+const DEFAULT_SETTLE_MS = 15000;
+const DEFAULT_MAX_RETRIES = 10;
+const TEST_RATE_LIMIT: Partial<RateLimitConfig> = { limit: 1, burst_limit: 1, window_ms: 1000 };
+const TIMING_TOLERANCE_MS = 10;
+const MIN_EXPONENTIAL_GROWTH = 1.5;   // Median ratio between consecutive delays
+const MIN_JITTER_DEVIATION = 0.1;     // Relative deviation from a fixed schedule
+const TIMING_NOISE_MS = 15;           // Deviations below this are request latency, not jitter
+
+export interface BackoffTestOptions {
+  vendor: string;
+  fixture?: string;
+  server_path: string;
+  inspection_id?: string;
+  settle_ms?: number;                     // Per scenario; the server is stopped after this
+  rate_limit?: Partial<RateLimitConfig>;  // Override the tiny test limit
+  max_retries?: number;                   // More retries than this counts as unbounded
+}
+
+export interface RetryChain {
+  method: string;
+  path: string;
+  attempts: ProxyAttempt[];
+  delays_ms: number[];                    // Time between consecutive attempts
+}
+
+export interface BackoffScenario {
+  name: 'retry_after' | 'backoff';
+  run: TargetRun;
+  attempts: number;
+  chains: RetryChain[];
+}
+
+export interface BackoffTestResult {
+  id: string;
+  vendor: string;
+  server_path: string;
+  rate_limit: RateLimitConfig;
+  verdict: ConnectionVerdict;
+  tests: RuntimeTestResult[];
+  scenarios: Array<Omit<BackoffScenario, 'run'> & { exit_code: number | null }>;
+}
+
+/**
+ * Group attempts into retry chains: repeated requests to the same endpoint,
+ * each following a 429 on the previous one
+ */
+export function retryChains(attempts: ProxyAttempt[]): RetryChain[] {
+  const chains: RetryChain[] = [];
+  const open = new Map<string, RetryChain>();
+
+  for (const attempt of attempts) {
+    const key = `${attempt.method} ${attempt.path}`;
+    const chain = open.get(key);
+    const previous = chain?.attempts[chain.attempts.length - 1];
+
+    if (chain && previous?.status === 429) {
+      chain.attempts.push(attempt);
+      chain.delays_ms.push(attempt.at - previous.at);
+    } else {
+      const fresh: RetryChain = { method: attempt.method, path: attempt.path, attempts: [attempt], delays_ms: [] };
+      chains.push(fresh);
+      open.set(key, fresh);
+    }
+  }
+
+  return chains;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function checkRetryAfter(scenario: BackoffScenario): RuntimeTestResult {
+  const base = { name: 'retry_after', rule_ids: ['rl-006'] };
+  const retries = scenario.chains.flatMap(chain => chain.delays_ms.map((delay, i) => ({
+    delay,
+    retry_after_ms: chain.attempts[i].retry_after_ms
+  }))).filter(r => r.retry_after_ms !== undefined);
+
+  if (retries.length === 0) {
+    return { ...base, status: 'SKIP', message: 'Server never retried a 429 that carried Retry-After' };
+  }
+
+  const early = retries.filter(r => r.delay + TIMING_TOLERANCE_MS < r.retry_after_ms!);
+  return early.length > 0
+    ? {
+      ...base,
+      status: 'FAIL',
+      message: `${early.length} of ${retries.length} retries came before Retry-After elapsed`,
+      details: { early: early.map(r => ({ waited_ms: r.delay, retry_after_ms: r.retry_after_ms })) }
+    }
+    : { ...base, status: 'PASS', message: `All ${retries.length} retries waited for Retry-After` };
+}
+
+function checkBackoff(scenario: BackoffScenario, maxRetries: number): RuntimeTestResult[] {
+  const throttled = scenario.chains.filter(chain => chain.attempts.some(a => a.throttled));
+  if (throttled.length === 0) {
+    const message = scenario.attempts === 0
+      ? 'Server made no API requests through the throttling proxy'
+      : `Server made ${scenario.attempts} API request(s) but was never throttled`;
+    return [
+      { name: 'exponential_backoff', rule_ids: ['rl-003'], status: 'SKIP', message },
+      { name: 'jitter', rule_ids: ['rl-004'], status: 'SKIP', message },
+      { name: 'max_retries', status: 'SKIP', message }
+    ];
+  }
+
+  const longest = throttled.reduce((a, b) => (b.attempts.length > a.attempts.length ? b : a));
+  const delays = longest.delays_ms;
+  const ratios = delays.slice(1).map((delay, i) => delay / Math.max(delays[i], 1));
+  const details = { endpoint: `${longest.method} ${longest.path}`, delays_ms: delays };
+  const tests: RuntimeTestResult[] = [];
+
+  // rl-003: delays must grow
+  if (delays.length === 0) {
+    tests.push({ name: 'exponential_backoff', rule_ids: ['rl-003'], status: 'FAIL', message: 'Gave up on the first 429 without retrying', details });
+  } else if (ratios.length === 0) {
+    tests.push({ name: 'exponential_backoff', rule_ids: ['rl-003'], status: 'SKIP', message: 'Only one retry observed; need two to measure growth', details });
+  } else {
+    const growth = median(ratios);
+    tests.push(growth >= MIN_EXPONENTIAL_GROWTH
+      ? { name: 'exponential_backoff', rule_ids: ['rl-003'], status: 'PASS', message: `Retry delays grow ${growth.toFixed(2)}x per attempt`, details }
+      : { name: 'exponential_backoff', rule_ids: ['rl-003'], status: 'FAIL', message: `Retry delays grow only ${growth.toFixed(2)}x per attempt`, details });
+  }
+
+  // rl-004: delays must deviate from a fixed schedule by more than timing noise
+  if (ratios.length < 2) {
+    tests.push({ name: 'jitter', rule_ids: ['rl-004'], status: 'SKIP', message: 'Need at least three retries to detect jitter', details });
+  } else {
+    const growth = median(ratios);
+    const deviations = delays.slice(1).map((delay, i) => {
+      const expected = delays[i] * growth;
+      return Math.abs(delay - expected) > Math.max(expected * MIN_JITTER_DEVIATION, TIMING_NOISE_MS)
+        ? Math.abs(delay - expected) / expected
+        : 0;
+    });
+    const largest = Math.max(...deviations);
+    tests.push(largest > 0
+      ? { name: 'jitter', rule_ids: ['rl-004'], status: 'PASS', message: `Retry delays deviate up to ${(largest * 100).toFixed(0)}% from a fixed schedule`, details }
+      : { name: 'jitter', rule_ids: ['rl-004'], status: 'FAIL', message: 'Retry delays follow a fixed schedule - clients will retry in lockstep', details });
+  }
+
+  // The server must stop retrying
+  const retries = delays.length;
+  const lastAttempt = longest.attempts[longest.attempts.length - 1];
+  const quietFor = scenario.run.ended_at - lastAttempt.at;
+  const stopped = scenario.run.exit_code !== null || quietFor > Math.max(2 * (delays[delays.length - 1] ?? 0), 1000);
+  if (retries > maxRetries) {
+    tests.push({ name: 'max_retries', status: 'FAIL', message: `Retried ${retries} times against a persistent 429 (limit ${maxRetries})`, details });
+  } else if (stopped) {
+    tests.push({ name: 'max_retries', status: 'PASS', message: `Stopped after ${retries} retries`, details });
+  } else {
+    tests.push({ name: 'max_retries', status: 'SKIP', message: `Still retrying after ${retries} retries when observation ended; raise settle_ms`, details });
+  }
+
+  return tests;
+}
+
+/**
+ * Run the server once behind a throttling proxy
+ */
+async function runScenario(
+  name: BackoffScenario['name'],
+  options: BackoffTestOptions,
+  rateLimit: RateLimitConfig,
+  proxyOptions: { retry_after: boolean; mode: ThrottleMode }
+): Promise<BackoffScenario> {
+  const mock = await startMockVendor({ vendor: options.vendor, fixture: options.fixture });
+  try {
+    const proxy = await startThrottlingProxy({ upstream: mock.url, rate_limit: rateLimit, ...proxyOptions });
+    try {
+      const run = await runTargetServer({
+        server_path: options.server_path,
+        env: mockVendorEnv(mock, proxy.url),
+        settle_ms: options.settle_ms ?? DEFAULT_SETTLE_MS
+      });
+      return { name, run, attempts: proxy.attempts.length, chains: retryChains(proxy.attempts) };
+    } finally {
+      await proxy.close();
+    }
+  } finally {
+    await mock.close();
+  }
+}
+
+/**
+ * Measure the server's retry behavior against the vendor's throttling
+ */
+export async function testRateLimitBackoff(options: BackoffTestOptions): Promise<BackoffTestResult> {
+  const vendorLimits = getVendorRateLimitConfig(options.vendor);
+  if (!vendorLimits) {
+    throw new Error(`Unsupported vendor: ${options.vendor}. Supported: ${SUPPORTED_VENDORS.join(', ')}`);
+  }
+  const rateLimit: RateLimitConfig = { ...vendorLimits, ...TEST_RATE_LIMIT, ...options.rate_limit };
+
+  const retryAfter = await runScenario('retry_after', options, rateLimit, { retry_after: true, mode: 'algorithm' });
+  const backoff = await runScenario('backoff', options, rateLimit, { retry_after: false, mode: 'persistent' });
+
+  const startTests = [serverStartTest(retryAfter.run), serverStartTest(backoff.run)];
+  const tests: RuntimeTestResult[] = [
+    startTests.find(t => t.status === 'FAIL') ?? startTests[0],
+    checkRetryAfter(retryAfter),
+    ...checkBackoff(backoff, options.max_retries ?? DEFAULT_MAX_RETRIES)
+  ];
+
+  const scenarios = [retryAfter, backoff].map(({ run, ...scenario }) => ({ ...scenario, exit_code: run.exit_code }));
+  const verdict = runtimeVerdict(tests);
+  const record = saveConnectionTest({
+    inspection_id: options.inspection_id,
+    server_path: options.server_path,
+    test_mode: 'full',
+    use_sandbox: true,
+    verdict,
+    tests,
+    performance: {
+      rate_limit: rateLimit,
+      attempts: Object.fromEntries(scenarios.map(s => [s.name, s.attempts])),
+      retry_delays_ms: Object.fromEntries(scenarios.map(s => [s.name, s.chains.flatMap(c => c.delays_ms)]))
+    }
+  });
+
+  return {
+    id: record.id,
+    vendor: options.vendor.toLowerCase(),
+    server_path: options.server_path,
+    rate_limit: rateLimit,
+    verdict,
+    tests,
+    scenarios
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Chaos Proxy
+ *
+ * An HTTP proxy placed between the server under test and one of its
+ * upstreams - the mock vendor or a mesh peer - that injects a fault into
+ * every request while the fault is set:
+ *
+ *   latency         hold the request for delay_ms, then forward it
+ *   reset           destroy the connection without answering
+ *   error_burst     answer with a 5xx instead of forwarding (count requests, or all)
+ *   malformed_json  forward, then answer with a body that is not valid JSON
+ *   truncated_body  forward, then cut the body off halfway and close the connection
+ *   slow_drip       forward, send headers, then drip whitespace for delay_ms before the body
+ *
+ * Every attempt is recorded with how it ended, so a runtime test can tell a
+ * server that gave up on a slow response from one that waited it out.
+ */
+
+import { createServer, request as httpRequest, type IncomingHttpHeaders, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+const DEFAULT_DELAY_MS = 5000;
+const DEFAULT_ERROR_STATUS = 503;
+const DRIP_INTERVAL_MS = 100;
+
+// Hop-by-hop and length headers that no longer describe a rewritten body
+const DROPPED_HEADERS = ['connection', 'content-length', 'transfer-encoding', 'keep-alive'];
+
+export type ChaosFaultType = 'latency' | 'reset' | 'error_burst' | 'malformed_json' | 'truncated_body' | 'slow_drip';
+
+export const CHAOS_FAULTS: ChaosFaultType[] = ['latency', 'reset', 'error_burst', 'malformed_json', 'truncated_body', 'slow_drip'];
+
+export interface ChaosFault {
+  type: ChaosFaultType;
+  delay_ms?: number;           // latency and slow_drip (default 5000)
+  status?: number;             // error_burst (default 503)
+  count?: number;              // error_burst: requests to fail before passing through again (default: all)
+}
+
+export interface ChaosAttempt {
+  at: number;                  // Epoch ms when the attempt arrived
+  method: string;
+  path: string;
+  fault?: ChaosFaultType;
+  status: number;              // 0 when the connection was reset
+  duration_ms?: number;        // Set once the exchange ended
+  aborted: boolean;            // The server under test closed the connection before the response finished
+}
+
+export interface ChaosProxyOptions {
+  upstream: string;            // Origin that requests are forwarded to
+  fault?: ChaosFault;
+}
+
+export interface ChaosProxy {
+  url: string;
+  upstream: string;
+  attempts: ChaosAttempt[];
+  setFault(fault?: ChaosFault): void;  // undefined passes everything through
+  close(): Promise<void>;
+}
+
+interface UpstreamResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * A body that still looks like JSON to a Content-Type check but fails to parse
+ */
+export function malformJson(body: string): string {
+  return `{"data": ${body || 'null'},`;
+}
+
+function rewrittenHeaders(headers: IncomingHttpHeaders): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && !DROPPED_HEADERS.includes(name)) result[name] = value;
+  }
+  return result;
+}
+
+/**
+ * Start a chaos proxy on localhost
+ */
+export async function startChaosProxy(options: ChaosProxyOptions): Promise<ChaosProxy> {
+  const upstream = new URL(options.upstream);
+  const attempts: ChaosAttempt[] = [];
+  let fault: ChaosFault | undefined = options.fault && { ...options.fault };
+
+  function forward(req: IncomingMessage, body: Buffer): Promise<UpstreamResponse> {
+    return new Promise((resolve, reject) => {
+      const proxied = httpRequest({
+        hostname: upstream.hostname,
+        port: upstream.port,
+        method: req.method,
+        path: req.url,
+        headers: { ...req.headers, host: upstream.host }
+      }, (upstreamRes) => {
+        const chunks: Buffer[] = [];
+        upstreamRes.on('data', (chunk: Buffer) => chunks.push(chunk));
+        upstreamRes.on('end', () => resolve({ status: upstreamRes.statusCode ?? 502, headers: upstreamRes.headers, body: Buffer.concat(chunks) }));
+        upstreamRes.on('error', reject);
+      });
+      proxied.on('error', reject);
+      proxied.end(body);
+    });
+  }
+
+  function send(res: ServerResponse, attempt: ChaosAttempt, upstreamRes: UpstreamResponse, body: Buffer = upstreamRes.body): void {
+    attempt.status = upstreamRes.status;
+    res.writeHead(upstreamRes.status, { ...rewrittenHeaders(upstreamRes.headers), 'Content-Length': body.length });
+    res.end(body);
+  }
+
+  function drip(res: ServerResponse, attempt: ChaosAttempt, upstreamRes: UpstreamResponse, delayMs: number): void {
+    attempt.status = upstreamRes.status;
+    res.writeHead(upstreamRes.status, rewrittenHeaders(upstreamRes.headers));
+    const until = Date.now() + delayMs;
+    const timer = setInterval(() => {
+      if (res.destroyed) return clearInterval(timer);
+      if (Date.now() < until) {
+        res.write(' ');
+        return;
+      }
+      clearInterval(timer);
+      res.end(upstreamRes.body);
+    }, DRIP_INTERVAL_MS);
+  }
+
+  /**
+   * Pick the fault for one request; a counted burst passes through once spent
+   */
+  function take(): ChaosFault | undefined {
+    if (!fault) return undefined;
+    const current = fault;
+    if (current.type === 'error_burst' && current.count !== undefined) {
+      current.count--;
+      if (current.count <= 0) fault = undefined;
+    }
+    return current;
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse, attempt: ChaosAttempt, body: Buffer): Promise<void> {
+    const current = take();
+    attempt.fault = current?.type;
+    const delayMs = current?.delay_ms ?? DEFAULT_DELAY_MS;
+
+    switch (current?.type) {
+      case 'reset':
+        req.socket.destroy();
+        return;
+      case 'error_burst': {
+        const status = current.status ?? DEFAULT_ERROR_STATUS;
+        attempt.status = status;
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'injected_fault', message: `Injected ${status}` }));
+        return;
+      }
+      case 'latency':
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        if (res.destroyed) return;
+        break;
+    }
+
+    const upstreamRes = await forward(req, body);
+    if (res.destroyed) return;
+
+    switch (current?.type) {
+      case 'malformed_json':
+        return send(res, attempt, { ...upstreamRes, headers: { ...upstreamRes.headers, 'content-type': 'application/json' } },
+          Buffer.from(malformJson(upstreamRes.body.toString('utf-8'))));
+      case 'truncated_body':
+        // Promise the whole body, deliver half of it
+        attempt.status = upstreamRes.status;
+        res.writeHead(upstreamRes.status, { ...rewrittenHeaders(upstreamRes.headers), 'Content-Length': upstreamRes.body.length });
+        res.write(upstreamRes.body.subarray(0, Math.floor(upstreamRes.body.length / 2)));
+        setTimeout(() => res.destroy(), DRIP_INTERVAL_MS);
+        return;
+      case 'slow_drip':
+        return drip(res, attempt, upstreamRes, delayMs);
+      default:
+        return send(res, attempt, upstreamRes);
+    }
+  }
+
+  const server = createServer((req, res) => {
+    const attempt: ChaosAttempt = {
+      at: Date.now(),
+      method: req.method ?? 'GET',
+      path: (req.url ?? '/').split('?')[0],
+      status: 0,
+      aborted: false
+    };
+    attempts.push(attempt);
+
+    res.on('close', () => {
+      attempt.duration_ms = Date.now() - attempt.at;
+      attempt.aborted = !res.writableFinished && attempt.fault !== 'reset' && attempt.fault !== 'truncated_body';
+    });
+
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      handle(req, res, attempt, Buffer.concat(chunks)).catch((error: Error) => {
+        attempt.status = 502;
+        if (res.destroyed) return;
+        if (!res.headersSent) res.writeHead(502, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'bad_gateway', message: error.message }));
+      });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    upstream: upstream.origin,
+    attempts,
+    setFault: (next?: ChaosFault) => {
+      fault = next && { ...next };
+    },
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
@@ -0,0 +1,352 @@
+/**
+ * Chaos Test
+ *
+ * Puts a chaos proxy (chaos-proxy.ts) in front of each upstream of the
+ * server under test - the mock vendor, and any mesh peers whose URLs it
+ * reads from the environment - and drives one of its MCP tools while the
+ * proxy injects faults. The server is restarted for every fault so a
+ * breaker opened by one fault does not hide the next.
+ *
+ *   1. baseline       no fault; picks a tool whose call reaches an upstream
+ *   2. latency        the response is held for delay_ms;
+ *      slow_drip      headers arrive at once, the body after delay_ms
+ *                     -> the call must end before the fault does (err-005)
+ *   3. error_burst    every request gets a 5xx for breaker_calls calls
+ *                     -> later calls must stop reaching the upstream (rl-005)
+ *   4. every fault    reset, malformed_json and truncated_body included
+ *                     -> each call answers with a result (fallback data or a
+ *                        handled error), the server stays up (err-010)
+ *
+ * A tool error whose text is a raw transport or parse error ("fetch failed",
+ * "Unexpected end of JSON input") counts as not handled.
+ */
+
+import { ErrorCode, McpError, type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { saveConnectionTest } from '../database/index.js';
+import { SUPPORTED_VENDORS } from '../rules/index.js';
+import { CHAOS_FAULTS, startChaosProxy, type ChaosAttempt, type ChaosFaultType, type ChaosProxy } from './chaos-proxy.js';
+import { runtimeVerdict, type ConnectionVerdict, type RuntimeTestResult } from './connection-test.js';
+import { connectTargetMcp, type TargetMcpClient } from './mcp-client.js';
+import { startMockVendor, mockVendorEnv, type MockVendorServer } from './mock-vendor.js';
+import { sampleArguments } from './protocol-test.js';
+
+const DEFAULT_DELAY_MS = 5000;
+const DEFAULT_BREAKER_CALLS = 8;
+const MIN_TIMEOUT_MS = 10000;
+const CALL_SETTLE_MS = 50;          // Let the proxy see connections the server closed on its way out
+const PING_TIMEOUT_MS = 2000;
+
+const READ_TOOL = /(^|_)(get|list|search|fetch|read|find|query|show)(_|$)/i;
+const RAW_FAILURE = /SyntaxError|Unexpected (token|end of JSON)|in JSON at position|is not valid JSON|fetch failed|\bterminated\b|ECONNRESET|socket hang up|other side closed|operation was aborted/i;
+
+export type ChaosCallStatus = 'ok' | 'is_error' | 'raw_error' | 'rpc_error' | 'timeout' | 'closed';
+
+export interface ChaosTestOptions {
+  server_path: string;
+  vendor?: string;                       // Mock vendor to put behind a proxy
+  fixture?: string;                      // Recorded exchanges served behind the proxy
+  upstreams?: Record<string, string>;    // Env var -> mesh peer origin; the var is pointed at a proxy in front of it
+  inspection_id?: string;
+  tool?: string;                         // Tool to drive (default: the first that reaches an upstream)
+  arguments?: Record<string, unknown>;   // Default: sample arguments from its schema
+  faults?: ChaosFaultType[];             // Default: all
+  delay_ms?: number;                     // latency and slow_drip hold (default 5000)
+  error_status?: number;                 // error_burst status (default 503)
+  breaker_calls?: number;                // Calls during the error burst (default 8)
+  timeout_ms?: number;                   // Per MCP request (default: four fault delays, at least 10000)
+}
+
+export interface ChaosCall {
+  status: ChaosCallStatus;
+  message: string;
+  duration_ms: number;
+  upstream_attempts: number;             // Requests the proxies saw during the call
+}
+
+export interface ChaosScenario {
+  fault: ChaosFaultType | 'baseline';
+  calls: ChaosCall[];
+  attempts: ChaosAttempt[];
+  server_alive: boolean;                 // Answered a ping after the calls
+}
+
+export interface ChaosTestResult {
+  id: string;
+  server_path: string;
+  vendor?: string;
+  verdict: ConnectionVerdict;
+  tests: RuntimeTestResult[];
+  tool?: string;
+  upstreams: Array<{ name: string; upstream: string; proxy: string }>;
+  delay_ms: number;
+  scenarios: ChaosScenario[];
+  server: { command?: string; stderr: string };
+}
+
+interface Upstream {
+  name: string;                          // Vendor or env var
+  proxy: ChaosProxy;
+}
+
+interface ToolChoice {
+  tool: string;
+  args: Record<string, unknown>;
+  first?: ChaosCall;                     // Already made while choosing
+}
+
+interface ChaosRun {
+  options: ChaosTestOptions;
+  upstreams: Upstream[];
+  env: Record<string, string>;
+  timeout: number;
+  server: ChaosTestResult['server'];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function attemptCount(upstreams: Upstream[]): number {
+  return upstreams.reduce((sum, u) => sum + u.proxy.attempts.length, 0);
+}
+
+/**
+ * Call a tool and sort the outcome into a result, a handled or raw tool
+ * error, a protocol error, a client-side timeout or a dead connection
+ */
+async function callTool(target: TargetMcpClient, run: ChaosRun, tool: string, args: Record<string, unknown>, closed: () => boolean): Promise<ChaosCall> {
+  const before = attemptCount(run.upstreams);
+  const started = Date.now();
+  let call: Omit<ChaosCall, 'upstream_attempts'>;
+  try {
+    const outcome = await target.call(tool, args);
+    const status: ChaosCallStatus = !outcome.is_error ? 'ok' : RAW_FAILURE.test(outcome.text) ? 'raw_error' : 'is_error';
+    call = { status, message: outcome.text.slice(0, 200), duration_ms: outcome.duration_ms };
+  } catch (error) {
+    const message = errorMessage(error);
+    const status: ChaosCallStatus = error instanceof McpError && error.code === ErrorCode.RequestTimeout ? 'timeout'
+      : closed() || (error instanceof McpError && error.code === ErrorCode.ConnectionClosed) ? 'closed'
+        : 'rpc_error';
+    call = { status, message, duration_ms: Date.now() - started };
+  }
+  await new Promise(resolve => setTimeout(resolve, CALL_SETTLE_MS));
+  return { ...call, upstream_attempts: attemptCount(run.upstreams) - before };
+}
+
+/**
+ * Start the server, inject one fault and call the tool `calls` times
+ */
+async function runScenario(
+  run: ChaosRun,
+  fault: ChaosScenario['fault'],
+  pick: (target: TargetMcpClient, call: (tool: string, args: Record<string, unknown>) => Promise<ChaosCall>) => Promise<ToolChoice | undefined>,
+  calls: number
+): Promise<{ scenario: ChaosScenario; chosen?: ToolChoice }> {
+  for (const upstream of run.upstreams) upstream.proxy.setFault(undefined);
+  const target = await connectTargetMcp({ server_path: run.options.server_path, env: run.env, timeout_ms: run.timeout });
+  let closed = false;
+  target.client.onclose = () => { closed = true; };
+
+  const marks = run.upstreams.map(u => u.proxy.attempts.length);
+  const scenario: ChaosScenario = { fault, calls: [], attempts: [], server_alive: false };
+  let chosen: ToolChoice | undefined;
+  try {
+    const call = (tool: string, args: Record<string, unknown>) => callTool(target, run, tool, args, () => closed);
+    if (fault !== 'baseline') {
+      for (const upstream of run.upstreams) {
+        upstream.proxy.setFault({ type: fault, delay_ms: run.options.delay_ms ?? DEFAULT_DELAY_MS, status: run.options.error_status });
+      }
+    }
+
+    chosen = await pick(target, call);
+    if (chosen) {
+      if (chosen.first) scenario.calls.push(chosen.first);
+      while (scenario.calls.length < calls && !closed) {
+        scenario.calls.push(await call(chosen.tool, chosen.args));
+      }
+    }
+
+    scenario.server_alive = !closed && await target.client.ping({ timeout: PING_TIMEOUT_MS }).then(() => true, () => false);
+  } finally {
+    for (const upstream of run.upstreams) upstream.proxy.setFault(undefined);
+    scenario.attempts = run.upstreams.flatMap((u, i) => u.proxy.attempts.slice(marks[i])).sort((a, b) => a.at - b.at);
+    run.server = { command: target.command, stderr: target.stderr().slice(-2000) };
+    await target.close();
+  }
+  return { scenario, chosen };
+}
+
+/**
+ * Tools to try for the baseline: reads first, so picking one is unlikely to write
+ */
+function candidateTools(tools: Tool[], requested?: string): Tool[] {
+  if (requested) return tools.filter(t => t.name === requested);
+  return [...tools.filter(t => READ_TOOL.test(t.name)), ...tools.filter(t => !READ_TOOL.test(t.name))];
+}
+
+function checkTimeouts(scenarios: ChaosScenario[], delayMs: number): RuntimeTestResult {
+  const base = { name: 'timeouts', rule_ids: ['err-005'] };
+  const observed = scenarios
+    .filter(s => (s.fault === 'latency' || s.fault === 'slow_drip') && s.calls[0]?.upstream_attempts)
+    .map(s => ({ fault: s.fault, duration_ms: s.calls[0].duration_ms, status: s.calls[0].status, aborted: s.attempts.filter(a => a.aborted).length }));
+
+  if (observed.length === 0) {
+    return { ...base, status: 'SKIP', message: 'No latency or slow_drip call reached an upstream' };
+  }
+
+  const waited = observed.filter(o => o.duration_ms >= delayMs || o.status === 'timeout' || o.status === 'closed');
+  const details = { delay_ms: delayMs, calls: observed };
+  return waited.length > 0
+    ? { ...base, status: 'FAIL', message: `Waited out ${waited.map(o => `${o.fault} (${o.duration_ms}ms)`).join(', ')} against a ${delayMs}ms fault - no request timeout`, details }
+    : { ...base, status: 'PASS', message: `Gave up on held responses after ${observed.map(o => `${o.duration_ms}ms (${o.fault})`).join(', ')}`, details };
+}
+
+function checkCircuitBreaker(scenarios: ChaosScenario[]): RuntimeTestResult {
+  const base = { name: 'circuit_breaker', rule_ids: ['rl-005'] };
+  const burst = scenarios.find(s => s.fault === 'error_burst');
+  if (!burst) return { ...base, status: 'SKIP', message: 'error_burst was not injected' };
+
+  const perCall = burst.calls.map(c => c.upstream_attempts);
+  const details = { upstream_attempts_per_call: perCall };
+  if (!perCall[0]) return { ...base, status: 'SKIP', message: 'The first call during the burst never reached the upstream', details };
+  if (perCall.length < 2) return { ...base, status: 'SKIP', message: 'Need at least two calls during the burst', details };
+
+  const opened = perCall.findIndex((attempts, i) => i > 0 && attempts === 0);
+  return opened > 0
+    ? { ...base, status: 'PASS', message: `Stopped calling the failing upstream after ${opened} failing call(s)`, details }
+    : { ...base, status: 'FAIL', message: `Called the failing upstream on all ${perCall.length} calls (${perCall.reduce((a, b) => a + b, 0)} requests)`, details };
+}
+
+function checkDegradation(scenarios: ChaosScenario[]): RuntimeTestResult {
+  const base = { name: 'graceful_degradation', rule_ids: ['err-010'] };
+  const faulted = scenarios.filter(s => s.fault !== 'baseline');
+  if (faulted.length === 0) return { ...base, status: 'SKIP', message: 'No faults were injected' };
+
+  const failures = faulted.flatMap(s => [
+    ...s.calls.filter(c => !['ok', 'is_error'].includes(c.status)).map(c => `${s.fault}: ${c.status} (${c.message.slice(0, 80)})`),
+    ...(s.server_alive ? [] : [`${s.fault}: server stopped answering`])
+  ]);
+  const details = { outcomes: Object.fromEntries(faulted.map(s => [s.fault, s.calls.map(c => c.status)])) };
+  const calls = faulted.reduce((sum, s) => sum + s.calls.length, 0);
+  return failures.length > 0
+    ? { ...base, status: 'FAIL', message: `${failures.length} unhandled failure(s): ${failures.slice(0, 3).join('; ')}`, details: { ...details, failures } }
+    : { ...base, status: 'PASS', message: `Answered all ${calls} faulted call(s) with a result or a handled error and stayed up`, details };
+}
+
+/**
+ * Inject faults between the server and its upstreams and check that its
+ * timeouts, circuit breaker and fallbacks engage
+ */
+export async function testChaos(options: ChaosTestOptions): Promise<ChaosTestResult> {
+  const vendor = options.vendor?.toLowerCase();
+  if (vendor && !SUPPORTED_VENDORS.includes(vendor as any)) {
+    throw new Error(`Unsupported vendor: ${options.vendor}. Supported: ${SUPPORTED_VENDORS.join(', ')}`);
+  }
+  if (!vendor && Object.keys(options.upstreams ?? {}).length === 0) {
+    throw new Error('testChaos needs a vendor or at least one upstream to put the proxy in front of');
+  }
+
+  const delayMs = options.delay_ms ?? DEFAULT_DELAY_MS;
+  const faults = options.faults ?? CHAOS_FAULTS;
+  const mock: MockVendorServer | undefined = vendor ? await startMockVendor({ vendor, fixture: options.fixture }) : undefined;
+  const run: ChaosRun = {
+    options,
+    upstreams: [],
+    env: {},
+    timeout: options.timeout_ms ?? Math.max(MIN_TIMEOUT_MS, delayMs * 4),
+    server: { stderr: '' }
+  };
+  const scenarios: ChaosScenario[] = [];
+  const tests: RuntimeTestResult[] = [];
+  let tool: string | undefined;
+
+  try {
+    if (mock) {
+      const proxy = await startChaosProxy({ upstream: mock.url });
+      run.upstreams.push({ name: mock.vendor, proxy });
+      Object.assign(run.env, mockVendorEnv(mock, proxy.url));
+    }
+    for (const [name, upstream] of Object.entries(options.upstreams ?? {})) {
+      const proxy = await startChaosProxy({ upstream });
+      run.upstreams.push({ name, proxy });
+      run.env[name] = proxy.url;
+    }
+
+    let baseline: { scenario: ChaosScenario; chosen?: ToolChoice };
+    try {
+      baseline = await runScenario(run, 'baseline', async (target, call) => {
+        for (const candidate of candidateTools(target.tools, options.tool)) {
+          const args = options.arguments ?? sampleArguments(candidate.inputSchema);
+          const first = await call(candidate.name, args);
+          if (first.upstream_attempts > 0) return { tool: candidate.name, args, first };
+        }
+        return undefined;
+      }, 1);
+    } catch (error) {
+      tests.push({ name: 'server_start', status: 'FAIL', message: errorMessage(error) });
+      return finish();
+    }
+    scenarios.push(baseline.scenario);
+    tests.push({ name: 'server_start', status: 'PASS', message: `MCP server started with ${run.upstreams.length} proxied upstream(s)` });
+
+    const chosen = baseline.chosen;
+    if (!chosen) {
+      tests.push({
+        name: 'target_tool',
+        status: 'SKIP',
+        message: options.tool ? `Tool ${options.tool} not found or never reached an upstream` : 'No tool reached an upstream; pass tool and arguments to choose one'
+      });
+      return finish();
+    }
+    tool = chosen.tool;
+    tests.push({ name: 'target_tool', status: 'PASS', message: `Driving ${tool}, which made ${chosen.first!.upstream_attempts} upstream request(s)` });
+
+    for (const fault of faults) {
+      const calls = fault === 'error_burst' ? options.breaker_calls ?? DEFAULT_BREAKER_CALLS : 1;
+      try {
+        scenarios.push((await runScenario(run, fault, async () => ({ tool: chosen.tool, args: chosen.args }), calls)).scenario);
+      } catch (error) {
+        // The server would not even start again
+        scenarios.push({ fault, calls: [], attempts: [], server_alive: false });
+        tests.push({ name: 'server_start', status: 'FAIL', message: `Restart before ${fault} failed: ${errorMessage(error)}` });
+      }
+    }
+
+    tests.push(checkTimeouts(scenarios, delayMs), checkCircuitBreaker(scenarios), checkDegradation(scenarios));
+    return finish();
+  } finally {
+    for (const upstream of run.upstreams) await upstream.proxy.close();
+    await mock?.close();
+  }
+
+  function finish(): ChaosTestResult {
+    const verdict = runtimeVerdict(tests);
+    const record = saveConnectionTest({
+      inspection_id: options.inspection_id,
+      server_path: options.server_path,
+      test_mode: 'full',
+      use_sandbox: true,
+      verdict,
+      tests,
+      performance: {
+        tool,
+        delay_ms: delayMs,
+        attempts: Object.fromEntries(scenarios.map(s => [s.fault, s.attempts.length])),
+        call_ms: Object.fromEntries(scenarios.map(s => [s.fault, s.calls.map(c => c.duration_ms)]))
+      }
+    });
+
+    return {
+      id: record.id,
+      server_path: options.server_path,
+      vendor,
+      verdict,
+      tests,
+      tool,
+      upstreams: run.upstreams.map(u => ({ name: u.name, upstream: u.proxy.upstream, proxy: u.proxy.url })),
+      delay_ms: delayMs,
+      scenarios: scenarios.map(({ fault, calls, attempts, server_alive }) => ({ fault, calls, attempts, server_alive })),
+      server: run.server
+    };
+  }
+}
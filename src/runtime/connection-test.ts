@@ -0,0 +1,228 @@
+/**
+ * Connection Test
+ *
+ * Runs the server under test against a mock vendor and judges what it
+ * actually did: whether it started, reached the vendor, authenticated,
+ * wrote data and respected 429s. Tests the server never exercised are
+ * SKIPped rather than passed, so a server that makes no vendor calls at
+ * startup gets PARTIAL, not PASS. Results are stored in connection_tests.
+ */
+
+import { saveConnectionTest } from '../database/index.js';
+import type { RateLimitConfig } from '../rules/rate-limit-rules.js';
+import { startMockVendor, mockVendorEnv, type MockRequestLog, type MockVendorServer } from './mock-vendor.js';
+import { runTargetServer, type TargetRun } from './target-server.js';
+
+const DEFAULT_SETTLE_MS = 2000;
+
+export type RuntimeTestStatus = 'PASS' | 'FAIL' | 'SKIP';
+export type ConnectionVerdict = 'PASS' | 'FAIL' | 'PARTIAL';
+export type ConnectionTestMode = 'auth' | 'full' | 'quick';
+
+export interface RuntimeTestResult {
+  name: string;
+  status: RuntimeTestStatus;
+  message: string;
+  rule_ids?: string[];                // Static rules this test backs with observed behavior
+  details?: Record<string, unknown>;
+}
+
+export interface ConnectionTestOptions {
+  vendor: string;
+  fixture?: string;
+  server_path: string;
+  test_mode?: ConnectionTestMode;
+  inspection_id?: string;
+  settle_ms?: number;                       // How long to observe the server after start
+  rate_limit?: Partial<RateLimitConfig>;    // Passed through to the mock vendor
+  token_ttl_ms?: number;
+}
+
+export interface ConnectionTestResult {
+  id: string;
+  vendor: string;
+  server_path: string;
+  test_mode: ConnectionTestMode;
+  verdict: ConnectionVerdict;
+  tests: RuntimeTestResult[];
+  performance: {
+    startup_ms?: number;      // Spawn to first vendor request
+    requests: number;
+    by_status: Record<string, number>;
+  };
+  server: { command: string; exit_code: number | null; stderr: string };
+}
+
+/**
+ * FAIL if anything failed, PASS only if everything ran and passed
+ */
+export function runtimeVerdict(tests: RuntimeTestResult[]): ConnectionVerdict {
+  if (tests.some(t => t.status === 'FAIL')) return 'FAIL';
+  if (tests.length > 0 && tests.every(t => t.status === 'PASS')) return 'PASS';
+  return 'PARTIAL';
+}
+
+/**
+ * Did the server stay up (or finish cleanly) while it was observed
+ */
+export function serverStartTest(run: TargetRun): RuntimeTestResult {
+  if (run.exit_code === null || run.exit_code === 0) {
+    return { name: 'server_start', status: 'PASS', message: run.exit_code === null ? 'Server is running' : 'Server exited cleanly' };
+  }
+  return { name: 'server_start', status: 'FAIL', message: `Server exited with code ${run.exit_code}`, details: { stderr: run.stderr } };
+}
+
+function isApiRequest(request: MockRequestLog): boolean {
+  return request.path.startsWith('/api/') || request.path.startsWith('/webhooks');
+}
+
+function checkAuth(mock: MockVendorServer): RuntimeTestResult {
+  const tokenRequests = mock.requests.filter(r => r.path === '/oauth/token');
+  const apiRequests = mock.requests.filter(isApiRequest);
+  const base = { name: 'auth', rule_ids: ['oauth-003', 'oauth-010'] };
+
+  if (apiRequests.length === 0 && tokenRequests.length === 0) {
+    return { ...base, status: 'SKIP', message: 'Server made no authenticated vendor calls' };
+  }
+
+  const failedGrants = tokenRequests.filter(r => r.status >= 400);
+  if (failedGrants.length > 0 && !tokenRequests.some(r => r.status < 400)) {
+    return { ...base, status: 'FAIL', message: `Token requests rejected (${failedGrants.map(r => r.status).join(', ')})` };
+  }
+
+  // A 401 is only acceptable if the server recovered and later succeeded
+  const unauthorized = apiRequests.filter(r => r.status === 401);
+  const lastUnauthorized = unauthorized[unauthorized.length - 1];
+  const recovered = lastUnauthorized && apiRequests.some(r => r.at > lastUnauthorized.at && r.status < 400);
+  if (lastUnauthorized && !recovered) {
+    return {
+      ...base,
+      status: 'FAIL',
+      message: `${unauthorized.length} API request(s) rejected with 401 and the server never recovered`,
+      details: { schemes: [...new Set(unauthorized.map(r => r.authorization))] }
+    };
+  }
+
+  return {
+    ...base,
+    status: 'PASS',
+    message: unauthorized.length > 0
+      ? `Recovered from ${unauthorized.length} 401 response(s)`
+      : `${apiRequests.length} authenticated request(s) accepted`,
+    details: { token_requests: tokenRequests.length, api_requests: apiRequests.length }
+  };
+}
+
+function checkRateLimit(mock: MockVendorServer): RuntimeTestResult {
+  const apiRequests = mock.requests.filter(isApiRequest);
+  const base = { name: 'rate_limit', rule_ids: ['rl-001', 'rl-003'] };
+  const throttled = apiRequests.filter(r => r.status === 429);
+
+  if (throttled.length === 0) {
+    return {
+      ...base,
+      status: 'SKIP',
+      message: `Server never hit the ${mock.vendor} limit (${mock.rate_limits.limit} req/${mock.rate_limits.window_ms}ms)`
+    };
+  }
+
+  // Each 429 must be followed by a pause of at least Retry-After
+  const early = throttled.filter(r => {
+    const next = apiRequests.find(other => other.at > r.at);
+    return next && r.retry_after_ms !== undefined && next.at - r.at < r.retry_after_ms;
+  });
+
+  return early.length > 0
+    ? { ...base, status: 'FAIL', message: `Retried ${early.length} time(s) before Retry-After elapsed`, details: { throttled: throttled.length } }
+    : { ...base, status: 'PASS', message: `Waited for Retry-After after ${throttled.length} 429 response(s)`, details: { throttled: throttled.length } };
+}
+
+function checkWrites(mock: MockVendorServer): RuntimeTestResult {
+  const writes = mock.requests.filter(r => r.path.startsWith('/api/') && ['POST', 'PATCH', 'PUT', 'DELETE'].includes(r.method));
+  const base = { name: 'data_writes', rule_ids: ['di-001'] };
+
+  if (writes.length === 0) {
+    return { ...base, status: 'SKIP', message: 'Server made no write requests' };
+  }
+  const failed = writes.filter(r => r.status >= 400 && r.status !== 429);
+  if (failed.length > 0) {
+    return { ...base, status: 'FAIL', message: `${failed.length} of ${writes.length} write(s) rejected`, details: { statuses: failed.map(r => r.status) } };
+  }
+
+  const unkeyedCreates = writes.filter(r => r.method === 'POST' && !r.idempotency_key).length;
+  return {
+    ...base,
+    status: 'PASS',
+    message: `${writes.length} write(s) accepted`,
+    details: { creates_without_idempotency_key: unkeyedCreates }
+  };
+}
+
+/**
+ * Start the server against a mock vendor, observe it and record the verdict
+ */
+export async function inspectConnection(options: ConnectionTestOptions): Promise<ConnectionTestResult> {
+  const testMode = options.test_mode ?? 'quick';
+  const mock = await startMockVendor({
+    vendor: options.vendor,
+    fixture: options.fixture,
+    rate_limit: options.rate_limit,
+    token_ttl_ms: options.token_ttl_ms
+  });
+
+  let run: TargetRun;
+  try {
+    run = await runTargetServer({
+      server_path: options.server_path,
+      env: mockVendorEnv(mock),
+      settle_ms: options.settle_ms ?? DEFAULT_SETTLE_MS
+    });
+  } finally {
+    await mock.close();
+  }
+
+  const tests: RuntimeTestResult[] = [serverStartTest(run)];
+  const vendorRequests = mock.requests.filter(r => r.path !== '/health');
+  tests.push(vendorRequests.length > 0
+    ? { name: 'vendor_reachable', status: 'PASS', message: `Server sent ${vendorRequests.length} request(s) to the ${mock.vendor} mock` }
+    : { name: 'vendor_reachable', status: 'SKIP', message: `Server sent no requests to the ${mock.vendor} mock; is its base URL configurable via ${mock.vendor.toUpperCase()}_API_URL?` });
+
+  if (testMode === 'auth' || testMode === 'full') {
+    tests.push(checkAuth(mock));
+  }
+  if (testMode === 'full') {
+    tests.push(checkRateLimit(mock), checkWrites(mock));
+  }
+
+  const byStatus: Record<string, number> = {};
+  for (const request of vendorRequests) {
+    byStatus[request.status] = (byStatus[request.status] ?? 0) + 1;
+  }
+  const performance = {
+    startup_ms: vendorRequests.length > 0 ? vendorRequests[0].at - run.started_at : undefined,
+    requests: vendorRequests.length,
+    by_status: byStatus
+  };
+
+  const verdict = runtimeVerdict(tests);
+  const record = saveConnectionTest({
+    inspection_id: options.inspection_id,
+    server_path: options.server_path,
+    test_mode: testMode,
+    use_sandbox: true,
+    verdict,
+    tests,
+    performance
+  });
+
+  return {
+    id: record.id,
+    vendor: mock.vendor,
+    server_path: options.server_path,
+    test_mode: testMode,
+    verdict,
+    tests,
+    performance,
+    server: { command: run.command, exit_code: run.exit_code, stderr: run.stderr }
+  };
+}
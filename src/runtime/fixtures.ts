@@ -0,0 +1,491 @@
+/**
+ * Vendor Fixtures
+ *
+ * Recorded exchanges with a real vendor API. The mock vendor replays them
+ * so runtime tests see real response shapes without network access.
+ *
+ * Fixtures come from:
+ *   - HAR files exported from a browser or proxy (log.entries)
+ *   - JSON files: an array of entries, or { entries: [...] }
+ *   - record mode: on a machine with credentials, the server under test runs
+ *     against the real API through a recording proxy
+ *
+ * Entries are redacted before they are stored: credential headers, and any
+ * query parameter or JSON/form field named like a secret, become [REDACTED].
+ * Paths are stored relative to the API base, the way generated servers
+ * append them to <VENDOR>_API_URL, so they replay under the mock's /api.
+ *
+ * Stored fixtures are keyed by vendor_configs.vendor; all of a vendor's
+ * fixtures together ('*') are its regression suite.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { createServer, type IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import { basename, extname } from 'path';
+import { getVendorFixture, getVendorFixtures, saveVendorFixture, type VendorFixtureRecord } from '../database/index.js';
+import { SUPPORTED_VENDORS } from '../rules/index.js';
+import { runTargetServer, type TargetRun } from './target-server.js';
+
+const REDACTED = '[REDACTED]';
+const DEFAULT_RECORD_SETTLE_MS = 10000;
+const ALL_FIXTURES = '*';
+
+const SECRET_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'api-key'];
+const SECRET_FIELD = /^(access_token|refresh_token|id_token|token|auth_token|session_token|bearer_token|authorization|credentials?)$|secret|password|passwd|api_?key|private_key/i;
+
+// Describe the stored body, not the original transfer
+const UNREPLAYED_HEADERS = ['connection', 'content-encoding', 'content-length', 'keep-alive', 'transfer-encoding', 'date'];
+const FORWARD_SKIPPED_HEADERS = ['host', 'connection', 'content-length', 'accept-encoding'];
+
+export interface FixtureEntry {
+  method: string;
+  path: string;                        // Relative to the API base, without the query
+  query?: string;                      // Parameters sorted by name
+  request_body?: string;
+  status: number;
+  headers: Record<string, string>;     // Response headers
+  body: string;                        // Response body
+}
+
+export interface ParsedFixture {
+  source: 'har' | 'json';
+  entries: FixtureEntry[];
+}
+
+export interface ImportFixtureOptions {
+  vendor: string;
+  file: string;                        // HAR or JSON
+  name?: string;                       // Default: the file name
+  base_path?: string;                  // Prefix to strip from recorded paths, e.g. /v1
+  redact_fields?: string[];            // Extra field names to redact, e.g. email
+}
+
+export interface RecordFixtureOptions {
+  vendor: string;
+  server_path: string;
+  upstream: string;                    // Real API base URL, e.g. https://api.stripe.com/v1
+  name?: string;                       // Default: recorded-<timestamp>
+  settle_ms?: number;                  // How long to let the server run (default 10000)
+  redact_fields?: string[];
+  output?: string;                     // Also write the redacted exchanges as a HAR file
+}
+
+export interface RecordFixtureResult {
+  fixture: VendorFixtureRecord;
+  run: TargetRun;
+  output?: string;
+}
+
+export interface RecordingProxy {
+  url: string;
+  entries: FixtureEntry[];
+  close(): Promise<void>;
+}
+
+export interface FixtureReplayer {
+  entries: number;
+  match(method: string, path: string, query?: string): FixtureEntry | undefined;
+}
+
+/**
+ * Sort query parameters so the same request always has the same key
+ */
+export function normalizeQuery(search: string): string | undefined {
+  const params = [...new URLSearchParams(search)].sort(([a], [b]) => a.localeCompare(b));
+  return params.length > 0 ? new URLSearchParams(params).toString() : undefined;
+}
+
+function relativePath(pathname: string, basePath?: string): string {
+  const base = basePath?.replace(/\/+$/, '');
+  if (base && (pathname === base || pathname.startsWith(`${base}/`))) {
+    return pathname.slice(base.length) || '/';
+  }
+  return pathname;
+}
+
+function splitUrl(url: string, basePath?: string): { path: string; query?: string } {
+  const parsed = new URL(url, 'http://fixture.invalid');
+  return { path: relativePath(parsed.pathname, basePath), query: normalizeQuery(parsed.search) };
+}
+
+function harEntry(entry: any, basePath?: string): FixtureEntry {
+  const request = entry?.request;
+  const response = entry?.response;
+  if (typeof request?.method !== 'string' || typeof request?.url !== 'string' || typeof response?.status !== 'number') {
+    throw new Error('HAR entry without request.method, request.url or response.status');
+  }
+
+  const content = response.content ?? {};
+  const text: string = typeof content.text === 'string' ? content.text : '';
+  const headers: Record<string, string> = {};
+  for (const header of Array.isArray(response.headers) ? response.headers : []) {
+    if (typeof header?.name === 'string') headers[header.name.toLowerCase()] = String(header.value ?? '');
+  }
+  if (content.mimeType && !headers['content-type']) headers['content-type'] = content.mimeType;
+
+  return {
+    method: request.method.toUpperCase(),
+    ...splitUrl(request.url, basePath),
+    request_body: typeof request.postData?.text === 'string' ? request.postData.text : undefined,
+    status: response.status,
+    headers,
+    body: content.encoding === 'base64' ? Buffer.from(text, 'base64').toString('utf-8') : text
+  };
+}
+
+function jsonEntry(entry: any, basePath?: string): FixtureEntry {
+  if (typeof entry?.method !== 'string' || typeof entry?.path !== 'string') {
+    throw new Error('Fixture entry without method and path');
+  }
+  const { path, query } = splitUrl(entry.path, basePath);
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(entry.headers ?? {})) headers[name.toLowerCase()] = String(value);
+
+  return {
+    method: entry.method.toUpperCase(),
+    path,
+    query: entry.query !== undefined ? normalizeQuery(String(entry.query)) : query,
+    request_body: entry.request_body === undefined ? undefined
+      : typeof entry.request_body === 'string' ? entry.request_body : JSON.stringify(entry.request_body),
+    status: typeof entry.status === 'number' ? entry.status : 200,
+    headers,
+    body: typeof entry.body === 'string' ? entry.body : JSON.stringify(entry.body ?? null)
+  };
+}
+
+/**
+ * Read a HAR or JSON fixture file into entries
+ */
+export function parseFixtureFile(content: string, basePath?: string): ParsedFixture {
+  let document: any;
+  try {
+    document = JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Fixture is not valid JSON: ${error.message}`);
+  }
+
+  if (Array.isArray(document?.log?.entries)) {
+    return { source: 'har', entries: document.log.entries.map((entry: any) => harEntry(entry, basePath)) };
+  }
+  const entries = Array.isArray(document) ? document : document?.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error('Fixture must be a HAR file (log.entries) or a JSON array of entries');
+  }
+  return { source: 'json', entries: entries.map((entry: any) => jsonEntry(entry, basePath)) };
+}
+
+function isSecret(name: string, extra: Set<string>): boolean {
+  return SECRET_FIELD.test(name) || extra.has(name.toLowerCase());
+}
+
+function redactValue(value: unknown, extra: Set<string>, count: { n: number }): unknown {
+  if (Array.isArray(value)) return value.map(item => redactValue(item, extra, count));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => {
+      if (isSecret(key, extra) && inner !== null && typeof inner !== 'object') {
+        count.n++;
+        return [key, REDACTED];
+      }
+      return [key, redactValue(inner, extra, count)];
+    }));
+  }
+  return value;
+}
+
+function redactParams(text: string, extra: Set<string>, count: { n: number }): string {
+  const params = new URLSearchParams(text);
+  for (const key of new Set(params.keys())) {
+    if (isSecret(key, extra)) {
+      params.set(key, REDACTED);
+      count.n++;
+    }
+  }
+  return params.toString();
+}
+
+function redactBody(body: string, extra: Set<string>, count: { n: number }): string {
+  try {
+    const parsed = JSON.parse(body);
+    const before = count.n;
+    const redacted = redactValue(parsed, extra, count);
+    return count.n > before ? JSON.stringify(redacted) : body;
+  } catch {
+    // Form bodies (token requests) carry secrets as parameters
+    return /^[\w.%-]+=[^\s]*$/.test(body) ? redactParams(body, extra, count) : body;
+  }
+}
+
+/**
+ * Replace credentials in one entry; returns how many values were redacted
+ */
+export function redactFixtureEntry(entry: FixtureEntry, redactFields: string[] = []): { entry: FixtureEntry; redactions: number } {
+  const extra = new Set(redactFields.map(field => field.toLowerCase()));
+  const count = { n: 0 };
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(entry.headers)) {
+    if (SECRET_HEADERS.includes(name.toLowerCase())) {
+      headers[name] = REDACTED;
+      count.n++;
+    } else {
+      headers[name] = value;
+    }
+  }
+
+  const redacted: FixtureEntry = {
+    ...entry,
+    query: entry.query && redactParams(entry.query, extra, count),
+    request_body: entry.request_body && redactBody(entry.request_body, extra, count),
+    headers,
+    body: redactBody(entry.body, extra, count)
+  };
+  return { entry: redacted, redactions: count.n };
+}
+
+function redactAll(entries: FixtureEntry[], redactFields?: string[]): { entries: FixtureEntry[]; redactions: number } {
+  const results = entries.map(entry => redactFixtureEntry(entry, redactFields));
+  return { entries: results.map(r => r.entry), redactions: results.reduce((sum, r) => sum + r.redactions, 0) };
+}
+
+function requireVendor(vendor: string): string {
+  const normalized = vendor.toLowerCase();
+  if (!SUPPORTED_VENDORS.includes(normalized as any)) {
+    throw new Error(`Unsupported vendor: ${vendor}. Supported: ${SUPPORTED_VENDORS.join(', ')}`);
+  }
+  return normalized;
+}
+
+/**
+ * Entries to replay for a vendor: a HAR/JSON file path, a stored fixture
+ * ID or name, or '*' for every stored fixture of the vendor
+ */
+export function loadFixture(vendor: string, ref: string): FixtureEntry[] {
+  const normalized = requireVendor(vendor);
+
+  if (ref === ALL_FIXTURES) {
+    const suite = getVendorFixtures(normalized);
+    if (suite.length === 0) throw new Error(`No stored fixtures for ${normalized}`);
+    return suite.flatMap(fixture => fixture.entries as FixtureEntry[]);
+  }
+  if (existsSync(ref)) {
+    return redactAll(parseFixtureFile(readFileSync(ref, 'utf-8')).entries).entries;
+  }
+
+  const stored = getVendorFixture(ref);
+  if (stored && stored.vendor === normalized) return stored.entries as FixtureEntry[];
+  const named = getVendorFixtures(normalized).find(fixture => fixture.name === ref);
+  if (named) return named.entries as FixtureEntry[];
+
+  throw new Error(`Fixture not found for ${normalized}: ${ref} (expected a file, a fixture ID or name, or '*')`);
+}
+
+/**
+ * Answer requests from fixture entries. Repeated requests to the same
+ * endpoint get the recorded responses in order; the last one repeats.
+ * An entry recorded with the same query is preferred, then any entry for
+ * the path.
+ */
+export function createFixtureReplayer(entries: FixtureEntry[]): FixtureReplayer {
+  const recorded = new Map<string, FixtureEntry[]>();
+  const add = (key: string, entry: FixtureEntry) => recorded.set(key, [...(recorded.get(key) ?? []), entry]);
+  for (const entry of entries) {
+    add(`${entry.method} ${entry.path}`, entry);
+    if (entry.query) add(`${entry.method} ${entry.path}?${entry.query}`, entry);
+  }
+  const served = new Map<string, number>();
+
+  function next(key: string): FixtureEntry | undefined {
+    const candidates = recorded.get(key);
+    if (!candidates) return undefined;
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+    return candidates[Math.min(index, candidates.length - 1)];
+  }
+
+  return {
+    entries: entries.length,
+    match(method: string, path: string, query?: string) {
+      const base = `${method.toUpperCase()} ${path}`;
+      const normalized = query ? normalizeQuery(query) : undefined;
+      return (normalized && recorded.has(`${base}?${normalized}`) ? next(`${base}?${normalized}`) : undefined) ?? next(base);
+    }
+  };
+}
+
+/**
+ * Recorded response headers that still apply when the body is resent
+ */
+export function replayHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).filter(([name]) => !UNREPLAYED_HEADERS.includes(name.toLowerCase())));
+}
+
+/**
+ * Import a HAR or JSON file as a stored fixture
+ */
+export function importVendorFixture(options: ImportFixtureOptions): VendorFixtureRecord {
+  const vendor = requireVendor(options.vendor);
+  if (!existsSync(options.file)) throw new Error(`Fixture file not found: ${options.file}`);
+
+  const parsed = parseFixtureFile(readFileSync(options.file, 'utf-8'), options.base_path);
+  const { entries, redactions } = redactAll(parsed.entries, options.redact_fields);
+  return saveVendorFixture({
+    vendor,
+    name: options.name ?? basename(options.file, extname(options.file)),
+    source: parsed.source,
+    base_path: options.base_path,
+    entries,
+    redactions
+  });
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Start a proxy on localhost that forwards to the real API and records
+ * every exchange. Its root stands for the API base URL.
+ */
+export async function startRecordingProxy(options: { upstream: string }): Promise<RecordingProxy> {
+  const upstream = options.upstream.replace(/\/+$/, '');
+  const entries: FixtureEntry[] = [];
+
+  const server = createServer(async (req, res) => {
+    try {
+      const body = await readBody(req);
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (value !== undefined && !FORWARD_SKIPPED_HEADERS.includes(name)) headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+
+      const method = req.method ?? 'GET';
+      const response = await fetch(`${upstream}${req.url ?? '/'}`, {
+        method,
+        headers,
+        body: body.length > 0 && method !== 'GET' && method !== 'HEAD' ? body : undefined
+      });
+      const text = await response.text();
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => { responseHeaders[name] = value; });
+
+      entries.push({
+        method,
+        ...splitUrl(req.url ?? '/'),
+        request_body: body.length > 0 ? body.toString('utf-8') : undefined,
+        status: response.status,
+        headers: responseHeaders,
+        body: text
+      });
+
+      res.writeHead(response.status, replayHeaders(responseHeaders));
+      res.end(text);
+    } catch (error: any) {
+      res.writeHead(502, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'bad_gateway', message: error.message }));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    entries,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+/**
+ * Write entries as a HAR 1.2 log against an API base URL
+ */
+export function toHar(entries: FixtureEntry[], baseUrl: string): Record<string, unknown> {
+  const base = baseUrl.replace(/\/+$/, '');
+  const now = new Date().toISOString();
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'linus-inspector', version: '1.0.0' },
+      entries: entries.map(entry => ({
+        startedDateTime: now,
+        time: 0,
+        request: {
+          method: entry.method,
+          url: `${base}${entry.path}${entry.query ? `?${entry.query}` : ''}`,
+          httpVersion: 'HTTP/1.1',
+          headers: [],
+          queryString: [...new URLSearchParams(entry.query ?? '')].map(([name, value]) => ({ name, value })),
+          cookies: [],
+          headersSize: -1,
+          bodySize: entry.request_body?.length ?? 0,
+          ...(entry.request_body !== undefined && { postData: { mimeType: 'application/json', text: entry.request_body } })
+        },
+        response: {
+          status: entry.status,
+          statusText: '',
+          httpVersion: 'HTTP/1.1',
+          headers: Object.entries(entry.headers).map(([name, value]) => ({ name, value })),
+          cookies: [],
+          content: { size: entry.body.length, mimeType: entry.headers['content-type'] ?? 'application/json', text: entry.body },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: entry.body.length
+        },
+        cache: {},
+        timings: { send: 0, wait: 0, receive: 0 }
+      }))
+    }
+  };
+}
+
+/**
+ * Run the server against the real API through a recording proxy and store
+ * the redacted exchanges. Needs network access and the vendor credentials
+ * the server reads from the environment.
+ */
+export async function recordVendorFixture(options: RecordFixtureOptions): Promise<RecordFixtureResult> {
+  const vendor = requireVendor(options.vendor);
+  const prefix = vendor.toUpperCase();
+  const proxy = await startRecordingProxy({ upstream: options.upstream });
+
+  let run: TargetRun;
+  try {
+    run = await runTargetServer({
+      server_path: options.server_path,
+      env: { [`${prefix}_API_URL`]: proxy.url, [`${prefix}_BASE_URL`]: proxy.url, API_BASE_URL: proxy.url },
+      settle_ms: options.settle_ms ?? DEFAULT_RECORD_SETTLE_MS
+    });
+  } finally {
+    await proxy.close();
+  }
+
+  if (proxy.entries.length === 0) {
+    throw new Error(`Server made no requests to ${options.upstream}; nothing recorded${run.stderr ? `\n${run.stderr}` : ''}`);
+  }
+
+  const { entries, redactions } = redactAll(proxy.entries, options.redact_fields);
+  const fixture = saveVendorFixture({
+    vendor,
+    name: options.name ?? `recorded-${new Date().toISOString().replace(/[:.]/g, '-')}`,
+    source: 'recorded',
+    base_path: new URL(options.upstream).pathname.replace(/\/+$/, '') || undefined,
+    entries,
+    redactions
+  });
+
+  if (options.output) {
+    writeFileSync(options.output, JSON.stringify(toHar(entries, options.upstream), null, 2));
+  }
+  return { fixture, run, output: options.output };
+}
@@ -0,0 +1,517 @@
+/**
+ * Tool Fuzzing
+ *
+ * Calls each of the server's tools with inputs generated from its declared
+ * input schema. Every case mutates one argument of an otherwise valid call
+ * with one strategy:
+ *
+ *   boundary          0, -1, MAX_SAFE_INTEGER, 1e308, "", limits ± 1
+ *   wrong_type        null, arrays, objects, booleans where the schema says otherwise
+ *   huge_string       64 KB to 1 MB strings
+ *   unicode           NUL, RTL override, lone surrogates, ZWJ emoji, combining marks
+ *   path_traversal    ../../etc/passwd and its encoded variants
+ *   missing_required  a required argument left out
+ *
+ * and watches for crashes (fuzz-001), hangs (fuzz-002), unhandled promise
+ * rejections (fuzz-003) and stack traces in error responses (fuzz-004).
+ * Node servers run with --unhandled-rejections=warn-with-error-code so a
+ * rejection is reported on stderr instead of ending the run; a crashed or
+ * wedged server is restarted and fuzzing continues.
+ *
+ * Cases are derived from (seed, tool, case number) alone, so any finding
+ * can be replayed exactly by passing the same seed with replay.
+ */
+
+import { basename } from 'path';
+import { ErrorCode, McpError, type CallToolResult, type Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  createInspection,
+  createInspectionIssue,
+  updateInspectionVerdict,
+  type InspectionRecord
+} from '../database/index.js';
+import { getFuzzingRule, SUPPORTED_VENDORS } from '../rules/index.js';
+import { connectTargetMcp, toolResultValue, type TargetMcpClient } from './mcp-client.js';
+import { startMockVendor, mockVendorEnv, type MockVendorServer } from './mock-vendor.js';
+import { sampleArguments, sampleValue } from './protocol-test.js';
+
+const DEFAULT_CASES_PER_TOOL = 24;
+const DEFAULT_TIMEOUT_MS = 5000;
+const SETTLE_MS = 50;                  // Let rejections and crashes reach stderr
+const MAX_RESTARTS = 5;
+const PING_TIMEOUT_MS = 1000;
+
+export type FuzzStrategy = 'boundary' | 'wrong_type' | 'huge_string' | 'unicode' | 'path_traversal' | 'missing_required';
+
+export const FUZZ_STRATEGIES: FuzzStrategy[] = [
+  'boundary', 'wrong_type', 'huge_string', 'unicode', 'path_traversal', 'missing_required'
+];
+
+export type FuzzFindingKind = 'crash' | 'hang' | 'unhandled_rejection' | 'stack_leak';
+
+const FINDING_RULES: Record<FuzzFindingKind, string> = {
+  crash: 'fuzz-001',
+  hang: 'fuzz-002',
+  unhandled_rejection: 'fuzz-003',
+  stack_leak: 'fuzz-004'
+};
+
+const HUGE_STRING_LENGTHS = [64 * 1024, 256 * 1024, 1024 * 1024];
+
+const UNICODE_STRINGS = [
+  '\u0000',
+  'nul\u0000byte',
+  '\u202Egnp.exe',
+  '\uD800',
+  '\uFEFF',
+  '👨‍👩‍👧‍👦',
+  'Z̴̡̪a̷̘̓l̶͇̇g̷̙̈́o̵̖͌',
+  'İıſK',
+  '𝕳𝖊𝖑𝖑𝖔',
+  'ｆｕｌｌｗｉｄｔｈ',
+  'مرحبا',
+  '日本語テキスト',
+  '\r\n\t\u2028'
+];
+
+const PATH_TRAVERSALS = [
+  '../../../../etc/passwd',
+  '..\\..\\..\\windows\\win.ini',
+  '%2e%2e%2f%2e%2e%2fetc%2fpasswd',
+  '....//....//etc/passwd',
+  '..%c0%af..%c0%afetc/passwd',
+  '/etc/passwd',
+  'file:///etc/passwd',
+  '/proc/self/environ',
+  '~/.ssh/id_rsa',
+  'C:\\Windows\\System32\\drivers\\etc\\hosts'
+];
+
+const WRONG_TYPE_VALUES: unknown[] = [null, 0, -1.5, true, 'string', [], {}, [null], { nested: {} }];
+
+const UNHANDLED_REJECTION = /UnhandledPromiseRejection|unhandled (?:promise )?rejection|ERR_UNHANDLED_REJECTION/i;
+const STACK_TRACE = /\n\s*at (?:async )?[^\n]*?\(?(?:file:\/\/|node:|\/|[A-Za-z]:\\)[^)\n]*:\d+:\d+\)?/;
+
+export interface FuzzTestOptions {
+  server_path: string;
+  inspection_id?: string;              // Add findings to this inspection instead of creating one
+  build_id?: string;
+  vendor?: string;                     // Point the server at the mock vendor
+  fixture?: string;                    // Replay recorded exchanges instead of the emulation
+  seed?: number;                       // Default: random, reported in the result
+  cases_per_tool?: number;             // Default 24 (four per strategy)
+  tools?: string[];                    // Only fuzz these tools
+  replay?: { tool: string; case: number };
+  timeout_ms?: number;                 // Per tool call; longer is a hang (default 5000)
+}
+
+export interface FuzzCase {
+  tool: string;
+  case: number;
+  seed: number;
+  strategy: FuzzStrategy;
+  field?: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface FuzzFinding {
+  rule_id: string;
+  kind: FuzzFindingKind;
+  severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  tool: string;
+  case: number;                        // First case that triggered it
+  strategy: FuzzStrategy;
+  field?: string;
+  arguments: string;                   // Preview, long strings elided
+  evidence: string;
+  occurrences: number;
+}
+
+export interface FuzzTestResult {
+  inspection_id: string;
+  server_path: string;
+  seed: number;
+  verdict: InspectionRecord['verdict'];
+  tools: string[];
+  cases_run: number;
+  restarts: number;
+  aborted?: string;                    // Why fuzzing stopped early
+  findings: FuzzFinding[];
+  server: { command?: string; stderr: string };
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  maxItems?: number;
+};
+
+/**
+ * mulberry32: small, fast and the same on every platform
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a, so each case's generator depends only on its own coordinates
+function caseSeed(seed: number, tool: string, index: number): number {
+  let hash = 0x811C9DC5;
+  for (const char of `${seed}:${tool}:${index}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(rng: () => number, values: T[]): T {
+  return values[Math.floor(rng() * values.length)];
+}
+
+function schemaTypes(schema: JsonSchema): string[] {
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) return variants.flatMap(schemaTypes);
+  return Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function boundaryValue(schema: JsonSchema, rng: () => number): unknown {
+  const types = schemaTypes(schema);
+  if (types.includes('number') || types.includes('integer')) {
+    const values = [0, -1, Number.MAX_SAFE_INTEGER, -Number.MAX_SAFE_INTEGER, 1e308, -1e308, 2 ** 31, -(2 ** 31) - 1, 0.5];
+    if (schema.minimum !== undefined) values.push(schema.minimum - 1);
+    if (schema.maximum !== undefined) values.push(schema.maximum + 1);
+    return pick(rng, values);
+  }
+  if (types.includes('string')) {
+    const values = ['', ' ', '0', '-1', 'null', 'undefined', 'NaN', 'true'];
+    if (schema.minLength) values.push('a'.repeat(schema.minLength - 1));
+    if (schema.maxLength !== undefined) values.push('a'.repeat(schema.maxLength + 1));
+    return pick(rng, values);
+  }
+  if (types.includes('array')) {
+    const item = sampleValue(schema.items ?? {});
+    return pick(rng, [[], Array.from({ length: (schema.maxItems ?? 1000) + 1 }, () => item)]);
+  }
+  if (types.includes('boolean')) return pick(rng, [false, true]);
+  if (types.includes('object')) return {};
+  return null;
+}
+
+function wrongTypeValue(schema: JsonSchema, rng: () => number): unknown {
+  const types = schemaTypes(schema);
+  const allowed = (value: unknown) => {
+    const type = typeOf(value);
+    return types.includes(type) || (type === 'integer' && types.includes('number'));
+  };
+  const candidates = WRONG_TYPE_VALUES.filter(value => !allowed(value));
+  return pick(rng, candidates.length > 0 ? candidates : WRONG_TYPE_VALUES);
+}
+
+/**
+ * The arguments for one case; the same (tool schema, seed, index) always
+ * gives the same arguments
+ */
+export function fuzzCase(tool: Tool, seed: number, index: number): FuzzCase {
+  const rng = createRng(caseSeed(seed, tool.name, index));
+  const schema = tool.inputSchema as JsonSchema;
+  const properties = schema.properties ?? {};
+  const names = Object.keys(properties);
+  const required = (schema.required ?? []).filter(name => name in properties);
+  const strategy = FUZZ_STRATEGIES[index % FUZZ_STRATEGIES.length];
+  const args = sampleArguments(schema);
+
+  if (strategy === 'missing_required' && required.length > 0) {
+    const field = pick(rng, required);
+    delete args[field];
+    return { tool: tool.name, case: index, seed, strategy, field, arguments: args };
+  }
+
+  // String payloads go to string arguments when the tool has any
+  const stringNames = names.filter(name => schemaTypes(properties[name]).includes('string'));
+  const targets = ['huge_string', 'unicode', 'path_traversal'].includes(strategy) && stringNames.length > 0 ? stringNames : names;
+  const field = targets.length > 0 ? pick(rng, targets) : '_fuzz';
+  const fieldSchema = properties[field] ?? {};
+
+  switch (strategy) {
+    case 'boundary':
+      args[field] = boundaryValue(fieldSchema, rng);
+      break;
+    case 'huge_string':
+      args[field] = 'A'.repeat(pick(rng, HUGE_STRING_LENGTHS));
+      break;
+    case 'unicode':
+      args[field] = pick(rng, UNICODE_STRINGS);
+      break;
+    case 'path_traversal':
+      args[field] = pick(rng, PATH_TRAVERSALS);
+      break;
+    default:
+      // wrong_type, and missing_required for tools without required arguments
+      args[field] = wrongTypeValue(fieldSchema, rng);
+  }
+  return { tool: tool.name, case: index, seed, strategy, field, arguments: args };
+}
+
+function previewArguments(args: Record<string, unknown>): string {
+  const preview = JSON.stringify(args, (_key, value) =>
+    typeof value === 'string' && value.length > 80 ? `${value.slice(0, 20)}... (${value.length} chars)` : value);
+  return preview.length > 500 ? `${preview.slice(0, 500)}...` : preview;
+}
+
+function excerpt(text: string, pattern: RegExp): string {
+  const match = pattern.exec(text);
+  const start = Math.max(0, (match?.index ?? 0) - 200);
+  return text.slice(start, start + 600).trim();
+}
+
+function inspectionVerdict(findings: FuzzFinding[]): InspectionRecord['verdict'] {
+  if (findings.some(f => f.severity === 'CRITICAL' || f.severity === 'HIGH')) return 'BLOCKED';
+  return findings.length > 0 ? 'WARNING' : 'PASSED';
+}
+
+class FuzzSession {
+  target?: TargetMcpClient;
+  closed = false;
+  caseStderr = '';
+  restarts = 0;
+  command?: string;
+  stderr = '';
+
+  constructor(private connect: (onStderr: (chunk: string) => void) => Promise<TargetMcpClient>) {}
+
+  async start(): Promise<TargetMcpClient> {
+    const target = await this.connect(chunk => { this.caseStderr += chunk; });
+    this.closed = false;
+    target.client.onclose = () => { this.closed = true; };
+    this.target = target;
+    this.command = target.command;
+    return target;
+  }
+
+  async restart(): Promise<void> {
+    await this.stop();
+    this.restarts++;
+    await this.start();
+  }
+
+  async responsive(): Promise<boolean> {
+    if (this.closed || !this.target) return false;
+    return this.target.client.ping({ timeout: PING_TIMEOUT_MS }).then(() => true, () => false);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.target) return;
+    this.stderr = this.target.stderr().slice(-2000);
+    await this.target.close().catch(() => {});
+    this.target = undefined;
+  }
+}
+
+/**
+ * Run one case and classify what went wrong, if anything
+ */
+async function runCase(
+  session: FuzzSession,
+  fuzz: FuzzCase,
+  timeout: number
+): Promise<Array<{ kind: FuzzFindingKind; evidence: string }>> {
+  const client = session.target!.client;
+  session.caseStderr = '';
+  let errorText: string | undefined;
+  let hung = false;
+
+  try {
+    const result = await client.callTool({ name: fuzz.tool, arguments: fuzz.arguments }, undefined, { timeout }) as CallToolResult;
+    if (result.isError) errorText = toolResultValue(result).text;
+  } catch (error) {
+    if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+      hung = true;
+    } else if (error instanceof McpError && error.code !== ErrorCode.ConnectionClosed) {
+      errorText = `${error.message}${error.data !== undefined ? `\n${JSON.stringify(error.data)}` : ''}`;
+    }
+  }
+  await new Promise(resolve => setTimeout(resolve, SETTLE_MS));
+
+  const findings: Array<{ kind: FuzzFindingKind; evidence: string }> = [];
+  if (session.closed) {
+    findings.push({ kind: 'crash', evidence: session.caseStderr.trim().slice(-600) || 'Server exited without output' });
+  } else if (hung) {
+    findings.push({ kind: 'hang', evidence: `No response within ${timeout}ms` });
+  }
+  if (UNHANDLED_REJECTION.test(session.caseStderr)) {
+    findings.push({ kind: 'unhandled_rejection', evidence: excerpt(session.caseStderr, UNHANDLED_REJECTION) });
+  }
+  if (errorText && STACK_TRACE.test(errorText)) {
+    findings.push({ kind: 'stack_leak', evidence: excerpt(errorText, STACK_TRACE) });
+  }
+  return findings;
+}
+
+function storeFindings(inspectionId: string, seed: number, findings: FuzzFinding[]): void {
+  for (const finding of findings) {
+    const rule = getFuzzingRule(finding.rule_id)!;
+    createInspectionIssue({
+      inspection_id: inspectionId,
+      rule_id: finding.rule_id,
+      severity: finding.severity,
+      category: 'fuzzing',
+      location: `tool:${finding.tool}`,
+      snippet: finding.arguments,
+      issue: `${rule.name}: ${finding.tool} (${finding.strategy}${finding.field ? ` on ${finding.field}` : ''})`
+        + `${finding.occurrences > 1 ? `, ${finding.occurrences} cases` : ''}. Replay with seed ${seed}, case ${finding.case}.`
+        + `\n${finding.evidence}`,
+      remedy: rule.remedy,
+      auto_fixable: false,
+      auto_fixed: false
+    });
+  }
+}
+
+/**
+ * Fuzz every tool the server lists and record what broke as inspection issues
+ */
+export async function fuzzTools(options: FuzzTestOptions): Promise<FuzzTestResult> {
+  const vendor = options.vendor?.toLowerCase();
+  if (vendor && !SUPPORTED_VENDORS.includes(vendor as any)) {
+    throw new Error(`Unsupported vendor: ${options.vendor}. Supported: ${SUPPORTED_VENDORS.join(', ')}`);
+  }
+
+  const startTime = Date.now();
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const timeout = options.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+  const casesPerTool = options.cases_per_tool ?? DEFAULT_CASES_PER_TOOL;
+  const mock: MockVendorServer | undefined = vendor ? await startMockVendor({ vendor, fixture: options.fixture }) : undefined;
+
+  const nodeOptions = [process.env.NODE_OPTIONS, '--unhandled-rejections=warn-with-error-code'].filter(Boolean).join(' ');
+  const session = new FuzzSession(onStderr => connectTargetMcp({
+    server_path: options.server_path,
+    env: { ...(mock ? mockVendorEnv(mock) : {}), NODE_OPTIONS: nodeOptions },
+    timeout_ms: timeout,
+    on_stderr: onStderr
+  }));
+
+  const findings = new Map<string, FuzzFinding>();
+  let tools: Tool[] = [];
+  let casesRun = 0;
+  let aborted: string | undefined;
+
+  try {
+    const target = await session.start();
+    const only = options.replay ? [options.replay.tool] : options.tools;
+    tools = target.tools.filter(tool => !only || only.includes(tool.name));
+    const missing = (only ?? []).filter(name => !tools.some(tool => tool.name === name));
+    if (missing.length > 0) throw new Error(`Tool not found: ${missing.join(', ')}`);
+
+    fuzzing:
+    for (const tool of tools) {
+      const indices = options.replay ? [options.replay.case] : Array.from({ length: casesPerTool }, (_, i) => i);
+      for (const index of indices) {
+        const fuzz = fuzzCase(tool, seed, index);
+        const observed = await runCase(session, fuzz, timeout);
+        casesRun++;
+
+        for (const { kind, evidence } of observed) {
+          const key = `${tool.name}:${kind}`;
+          const existing = findings.get(key);
+          if (existing) {
+            existing.occurrences++;
+            continue;
+          }
+          const rule = getFuzzingRule(FINDING_RULES[kind])!;
+          findings.set(key, {
+            rule_id: rule.id,
+            kind,
+            severity: rule.severity,
+            tool: tool.name,
+            case: index,
+            strategy: fuzz.strategy,
+            field: fuzz.field,
+            arguments: previewArguments(fuzz.arguments),
+            evidence,
+            occurrences: 1
+          });
+        }
+
+        if (await session.responsive()) continue;
+        if (session.restarts >= MAX_RESTARTS) {
+          aborted = `Server restarted ${MAX_RESTARTS} times; stopped at ${tool.name} case ${index}`;
+          break fuzzing;
+        }
+        try {
+          await session.restart();
+        } catch (error: any) {
+          aborted = `Could not restart the server: ${error.message}`;
+          break fuzzing;
+        }
+      }
+    }
+  } finally {
+    await session.stop();
+    await mock?.close();
+  }
+
+  const results = [...findings.values()];
+  const verdict = inspectionVerdict(results);
+  const count = (severity: FuzzFinding['severity']) => results.filter(f => f.severity === severity).length;
+
+  let inspectionId = options.inspection_id;
+  if (!inspectionId) {
+    const inspection = createInspection({
+      build_id: options.build_id ?? `fuzz-${seed}`,
+      server_name: basename(options.server_path),
+      mode: 'runtime',
+      verdict,
+      summary_critical: 0,
+      summary_high: 0,
+      summary_medium: 0,
+      summary_low: 0,
+      auto_fixes_available: 0,
+      auto_fixes_applied: 0
+    });
+    inspectionId = inspection.id;
+    updateInspectionVerdict(inspectionId, verdict, {
+      critical: count('CRITICAL'),
+      high: count('HIGH'),
+      medium: count('MEDIUM'),
+      low: count('LOW'),
+      auto_fixes_available: 0,
+      auto_fixes_applied: 0,
+      duration_ms: Date.now() - startTime
+    });
+  }
+  storeFindings(inspectionId, seed, results);
+
+  return {
+    inspection_id: inspectionId,
+    server_path: options.server_path,
+    seed,
+    verdict,
+    tools: tools.map(tool => tool.name),
+    cases_run: casesRun,
+    restarts: session.restarts,
+    ...(aborted ? { aborted } : {}),
+    findings: results,
+    server: { command: session.command, stderr: session.stderr }
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * Health Endpoint Probe
+ *
+ * Starts the server's HTTP layer and calls the endpoints mcp-001..003 look
+ * for in code:
+ *
+ *   /health           200 with a JSON status (mcp-001)
+ *   /health/ready     200 while dependencies are up, 503 while the mock
+ *                     vendor is down, and 200 again once it is back (mcp-002)
+ *   /health/detailed  200 with a JSON status and a per-dependency breakdown (mcp-003)
+ *
+ * Each endpoint is sampled several times and its p95 latency compared with
+ * a budget: orchestrators call these every few seconds with short timeouts.
+ * /health must stay 200 during the outage; a liveness check that follows
+ * dependencies gets healthy pods restarted.
+ */
+
+import { runtimeVerdict, type ConnectionVerdict, type RuntimeTestResult } from './connection-test.js';
+import { startMockVendor, mockVendorEnv, type MockVendorServer } from './mock-vendor.js';
+import {
+  configuredHttpPort,
+  findFreePort,
+  startTargetServer,
+  targetRun,
+  waitForPort,
+  type TargetRun
+} from './target-server.js';
+import { SUPPORTED_VENDORS } from '../rules/index.js';
+
+const DEFAULT_STARTUP_TIMEOUT_MS = 10000;
+const DEFAULT_LATENCY_BUDGET_MS = 500;
+const DEFAULT_SAMPLES = 5;
+const DEFAULT_FLIP_TIMEOUT_MS = 5000;
+const REQUEST_TIMEOUT_MS = 2000;
+const POLL_MS = 200;
+
+const HEALTHY_STATUSES = ['ok', 'healthy', 'up', 'pass', 'ready'];
+const BREAKDOWN_FIELDS = ['checks', 'dependencies', 'components', 'details', 'services'];
+
+export const HEALTH_PATHS = ['/health', '/health/ready', '/health/detailed'] as const;
+export type HealthPath = typeof HEALTH_PATHS[number];
+
+export interface HealthProbeOptions {
+  server_path: string;
+  vendor?: string;                     // Dependency to take down for the readiness flip
+  fixture?: string;                    // Recorded exchanges the mock vendor replays
+  port?: number;                       // Default: ports.http from config/interlock.json, else a free port passed as PORT
+  startup_timeout_ms?: number;
+  latency_budget_ms?: number;          // p95 per endpoint (default 500)
+  samples?: number;                    // Requests per endpoint (default 5)
+  flip_timeout_ms?: number;            // How long readiness may take to follow the dependency (default 5000)
+}
+
+export interface HealthResponse {
+  status: number;                      // 0 when the request failed
+  body?: unknown;
+  error?: string;
+  latency_ms: number;
+}
+
+export interface HealthEndpointStatus {
+  path: HealthPath;
+  status: number;                      // Status of the first sample
+  body?: unknown;
+  latency_p95_ms: number;
+}
+
+export interface ReadinessFlip {
+  while_down?: number;                 // Last /health/ready status during the outage
+  liveness_while_down?: number;        // /health status during the outage
+  after_recovery?: number;
+  flip_ms?: number;                    // Outage start until readiness went 503
+  recovery_ms?: number;
+}
+
+export interface HealthProbeResult {
+  server_path: string;
+  url: string;
+  verdict: ConnectionVerdict;
+  tests: RuntimeTestResult[];
+  endpoints: HealthEndpointStatus[];
+  readiness_flip?: ReadinessFlip;
+  server: TargetRun;
+}
+
+/**
+ * GET one endpoint; never throws
+ */
+export async function fetchHealth(url: string): Promise<HealthResponse> {
+  const started = Date.now();
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    const text = await res.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Plain-text bodies are reported as-is
+    }
+    return { status: res.status, body, latency_ms: Date.now() - started };
+  } catch (error: any) {
+    return { status: 0, error: error.message, latency_ms: Date.now() - started };
+  }
+}
+
+function p95(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)] ?? 0;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Problems with a health response body; readiness may report `ready: true`
+ * instead of a status string
+ */
+export function healthBodyProblems(path: HealthPath, body: unknown): string[] {
+  if (!isObject(body)) return ['body is not a JSON object'];
+  const problems: string[] = [];
+  const status = typeof body.status === 'string' ? body.status.toLowerCase() : undefined;
+
+  if (path === '/health/ready' && typeof body.ready === 'boolean') {
+    if (!body.ready) problems.push('ready is false while dependencies are up');
+  } else if (!status) {
+    problems.push(path === '/health/ready' ? 'no status string or ready boolean' : 'no status string');
+  } else if (!HEALTHY_STATUSES.includes(status)) {
+    problems.push(`status is "${body.status}" while dependencies are up`);
+  }
+
+  if (path === '/health/detailed' && !BREAKDOWN_FIELDS.some(field => isObject(body[field]) || Array.isArray(body[field]))) {
+    problems.push(`no per-dependency breakdown (${BREAKDOWN_FIELDS.join(', ')})`);
+  }
+  return problems;
+}
+
+const ENDPOINT_TESTS: Record<HealthPath, { name: string; rule_id: string }> = {
+  '/health': { name: 'health', rule_id: 'mcp-001' },
+  '/health/ready': { name: 'readiness', rule_id: 'mcp-002' },
+  '/health/detailed': { name: 'detailed', rule_id: 'mcp-003' }
+};
+
+function endpointTest(path: HealthPath, samples: HealthResponse[]): RuntimeTestResult {
+  const { name, rule_id } = ENDPOINT_TESTS[path];
+  const first = samples[0];
+  if (first.status === 0) {
+    return { name, rule_ids: [rule_id], status: 'FAIL', message: `GET ${path} failed: ${first.error}` };
+  }
+  if (first.status !== 200) {
+    return { name, rule_ids: [rule_id], status: 'FAIL', message: `GET ${path} answered ${first.status}`, details: { body: first.body } };
+  }
+  const problems = healthBodyProblems(path, first.body);
+  return problems.length > 0
+    ? { name, rule_ids: [rule_id], status: 'FAIL', message: `GET ${path}: ${problems.join('; ')}`, details: { body: first.body } }
+    : { name, rule_ids: [rule_id], status: 'PASS', message: `GET ${path} answered 200 with a valid body` };
+}
+
+/**
+ * Poll until the status matches or the timeout passes; returns the last response
+ */
+async function pollUntil(url: string, done: (status: number) => boolean, timeoutMs: number): Promise<{ response: HealthResponse; elapsed_ms: number }> {
+  const started = Date.now();
+  let response = await fetchHealth(url);
+  while (!done(response.status) && Date.now() - started < timeoutMs) {
+    await new Promise(resolve => setTimeout(resolve, POLL_MS));
+    response = await fetchHealth(url);
+  }
+  return { response, elapsed_ms: Date.now() - started };
+}
+
+async function readinessFlipTest(
+  base: string,
+  mock: MockVendorServer,
+  timeoutMs: number,
+  flip: ReadinessFlip
+): Promise<RuntimeTestResult> {
+  const name = 'readiness_flip';
+  mock.setAvailable(false);
+  let down: { response: HealthResponse; elapsed_ms: number };
+  let liveness: HealthResponse;
+  try {
+    down = await pollUntil(`${base}/health/ready`, status => status === 503, timeoutMs);
+    liveness = await fetchHealth(`${base}/health`);
+  } finally {
+    mock.setAvailable(true);
+  }
+  const up = await pollUntil(`${base}/health/ready`, status => status === 200, timeoutMs);
+
+  Object.assign(flip, {
+    while_down: down.response.status,
+    liveness_while_down: liveness.status,
+    after_recovery: up.response.status,
+    flip_ms: down.response.status === 503 ? down.elapsed_ms : undefined,
+    recovery_ms: up.response.status === 200 ? up.elapsed_ms : undefined
+  });
+
+  const failures: string[] = [];
+  if (down.response.status !== 503) {
+    failures.push(`/health/ready answered ${down.response.status || down.response.error} after ${timeoutMs}ms of ${mock.vendor} being down (expected 503)`);
+  }
+  if (liveness.status !== 200) {
+    failures.push(`/health answered ${liveness.status || liveness.error} during the outage; liveness must not follow dependencies`);
+  }
+  if (up.response.status !== 200) {
+    failures.push(`/health/ready did not return to 200 within ${timeoutMs}ms of ${mock.vendor} recovering`);
+  }
+  return failures.length > 0
+    ? { name, rule_ids: ['mcp-002'], status: 'FAIL', message: failures.join('; '), details: flip as Record<string, unknown> }
+    : { name, rule_ids: ['mcp-002'], status: 'PASS', message: `Readiness went 503 ${flip.flip_ms}ms into the ${mock.vendor} outage and recovered in ${flip.recovery_ms}ms; /health stayed 200` };
+}
+
+/**
+ * Start the server and check its health endpoints over HTTP
+ */
+export async function probeHealthEndpoints(options: HealthProbeOptions): Promise<HealthProbeResult> {
+  const vendor = options.vendor?.toLowerCase();
+  if (vendor && !SUPPORTED_VENDORS.includes(vendor as any)) {
+    throw new Error(`Unsupported vendor: ${options.vendor}. Supported: ${SUPPORTED_VENDORS.join(', ')}`);
+  }
+
+  const port = options.port ?? configuredHttpPort(options.server_path) ?? await findFreePort();
+  const base = `http://127.0.0.1:${port}`;
+  const startupTimeout = options.startup_timeout_ms ?? DEFAULT_STARTUP_TIMEOUT_MS;
+  const budget = options.latency_budget_ms ?? DEFAULT_LATENCY_BUDGET_MS;
+  const sampleCount = Math.max(1, options.samples ?? DEFAULT_SAMPLES);
+  const mock: MockVendorServer | undefined = vendor ? await startMockVendor({ vendor, fixture: options.fixture }) : undefined;
+
+  const endpoints: HealthEndpointStatus[] = [];
+  const flip: ReadinessFlip = {};
+  let tests: RuntimeTestResult[];
+  let server: TargetRun;
+
+  try {
+    const target = startTargetServer({
+      server_path: options.server_path,
+      env: { ...(mock ? mockVendorEnv(mock) : {}), PORT: String(port), HTTP_PORT: String(port) }
+    });
+
+    try {
+      if (!await waitForPort(target, port, startupTimeout)) {
+        const exitCode = target.exitCode();
+        tests = [{
+          name: 'server_start',
+          status: 'FAIL',
+          message: exitCode !== null
+            ? `Server exited with code ${exitCode} before listening on port ${port}`
+            : `Server did not listen on port ${port} within ${startupTimeout}ms`,
+          details: { stderr: target.stderr().slice(-2000) }
+        }];
+      } else {
+        tests = [{ name: 'server_start', status: 'PASS', message: `Server listening on port ${port}` }];
+
+        const slow: string[] = [];
+        for (const path of HEALTH_PATHS) {
+          const samples: HealthResponse[] = [];
+          for (let i = 0; i < sampleCount; i++) samples.push(await fetchHealth(`${base}${path}`));
+          const latency = p95(samples.map(s => s.latency_ms));
+          endpoints.push({ path, status: samples[0].status, body: samples[0].body, latency_p95_ms: latency });
+          tests.push(endpointTest(path, samples));
+          if (samples[0].status === 200 && latency > budget) slow.push(`${path} ${latency}ms`);
+        }
+
+        tests.push(slow.length > 0
+          ? { name: 'latency', rule_ids: ['mcp-001'], status: 'FAIL', message: `p95 over the ${budget}ms budget: ${slow.join(', ')}` }
+          : { name: 'latency', rule_ids: ['mcp-001'], status: 'PASS', message: `p95 within ${budget}ms: ${endpoints.map(e => `${e.path} ${e.latency_p95_ms}ms`).join(', ')}` });
+
+        const ready = endpoints.find(e => e.path === '/health/ready')!;
+        if (!mock) {
+          tests.push({ name: 'readiness_flip', rule_ids: ['mcp-002'], status: 'SKIP', message: 'Pass vendor to take a dependency down' });
+        } else if (ready.status !== 200) {
+          tests.push({ name: 'readiness_flip', rule_ids: ['mcp-002'], status: 'SKIP', message: '/health/ready is not 200 with dependencies up' });
+        } else {
+          tests.push(await readinessFlipTest(base, mock, options.flip_timeout_ms ?? DEFAULT_FLIP_TIMEOUT_MS, flip));
+        }
+      }
+    } finally {
+      await target.stop();
+      server = targetRun(target);
+    }
+  } finally {
+    await mock?.close();
+  }
+
+  return {
+    server_path: options.server_path,
+    url: base,
+    verdict: runtimeVerdict(tests),
+    tests,
+    endpoints,
+    ...(Object.keys(flip).length > 0 ? { readiness_flip: flip } : {}),
+    server
+  };
+}
+
+const PROBE_REMEDIES: Record<string, string> = {
+  server_start: 'Make the start script bring up the HTTP layer on PORT (or ports.http) without external setup',
+  health: 'Serve GET /health with 200 and {"status":"healthy"} whenever the process can take requests',
+  readiness: 'Serve GET /health/ready with 200 and {"ready":true} when dependencies are reachable, 503 otherwise',
+  detailed: 'Serve GET /health/detailed with a status and a checks/dependencies object per dependency',
+  latency: 'Keep health handlers cheap: cache dependency checks instead of calling them on every request',
+  readiness_flip: 'Base /health/ready on a recent dependency check and keep /health independent of dependencies'
+};
+
+/**
+ * Failed probe tests as issues, tagged with the rule each one backs
+ */
+export function healthProbeIssues(result: HealthProbeResult): Array<{ rule_id?: string; test: string; issue: string; remedy: string }> {
+  return result.tests
+    .filter(test => test.status === 'FAIL')
+    .map(test => ({
+      rule_id: test.rule_ids?.[0],
+      test: test.name,
+      issue: `Health probe ${test.name}: ${test.message}`,
+      remedy: PROBE_REMEDIES[test.name]
+    }));
+}
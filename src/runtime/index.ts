@@ -0,0 +1,26 @@
+/**
+ * Runtime Module
+ *
+ * Exports the mock vendor server and its recorded fixtures, the throttling
+ * and chaos proxies, the target server launcher and the runtime tests that
+ * run a generated server against them.
+ */
+
+export * from './rate-limiters.js';
+export * from './oauth-authority.js';
+export * from './fixtures.js';
+export * from './mock-vendor.js';
+export * from './target-server.js';
+export * from './connection-test.js';
+export * from './mcp-client.js';
+export * from './throttling-proxy.js';
+export * from './chaos-proxy.js';
+export * from './backoff-test.js';
+export * from './auth-test.js';
+export * from './roundtrip-test.js';
+export * from './protocol-test.js';
+export * from './fuzz-test.js';
+export * from './health-probe.js';
+export * from './chaos-test.js';
+export * from './webhook-schemes.js';
+export * from './webhook-test.js';
@@ -0,0 +1,110 @@
+/**
+ * Target MCP Client
+ *
+ * Connects to the server under test over stdio with the MCP SDK client,
+ * spawning it with the same start command as startTargetServer, so runtime
+ * tests can drive its tools the way an MCP host would.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { existsSync } from 'fs';
+import { resolveStartCommand } from './target-server.js';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const STDERR_LIMIT = 64 * 1024;
+
+export interface TargetMcpOptions {
+  server_path: string;
+  env?: Record<string, string>;
+  timeout_ms?: number;                 // Per request, including initialize
+  on_stderr?: (chunk: string) => void; // Sees all output, past the kept tail
+}
+
+export interface ToolCallOutcome {
+  is_error: boolean;
+  value: unknown;                      // structuredContent, else the parsed (or raw) first text block
+  text: string;
+  duration_ms: number;
+}
+
+export interface TargetMcpClient {
+  client: Client;
+  command: string;
+  tools: Tool[];
+  stderr(): string;
+  call(name: string, args: Record<string, unknown>): Promise<ToolCallOutcome>;
+  close(): Promise<void>;
+}
+
+/**
+ * Parse a tool result into a value: structured content if the server sent
+ * it, else the first text block as JSON when it parses
+ */
+export function toolResultValue(result: { content?: unknown; structuredContent?: unknown }): { value: unknown; text: string } {
+  const blocks = Array.isArray(result.content) ? result.content : [];
+  const text = blocks
+    .filter((block: any) => block?.type === 'text' && typeof block.text === 'string')
+    .map((block: any) => block.text as string)
+    .join('\n');
+
+  if (result.structuredContent !== undefined) return { value: result.structuredContent, text };
+  try {
+    return { value: JSON.parse(text), text };
+  } catch {
+    return { value: text, text };
+  }
+}
+
+/**
+ * Start the server under test and complete the MCP handshake
+ */
+export async function connectTargetMcp(options: TargetMcpOptions): Promise<TargetMcpClient> {
+  if (!existsSync(options.server_path)) {
+    throw new Error(`server_path does not exist: ${options.server_path}`);
+  }
+
+  const start = resolveStartCommand(options.server_path);
+  const timeout = options.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+  const transport = new StdioClientTransport({
+    command: start.command,
+    args: start.args,
+    cwd: options.server_path,
+    env: { ...process.env as Record<string, string>, ...options.env },
+    stderr: 'pipe'
+  });
+
+  let stderr = '';
+  transport.stderr?.on('data', (chunk: Buffer) => {
+    const text = chunk.toString('utf-8');
+    if (stderr.length < STDERR_LIMIT) stderr += text;
+    options.on_stderr?.(text);
+  });
+
+  const client = new Client({ name: 'linus-inspector', version: '1.0.0' }, { capabilities: {} });
+  try {
+    await client.connect(transport, { timeout });
+  } catch (error: any) {
+    await client.close().catch(() => {});
+    const output = stderr.trim();
+    throw new Error(`MCP initialize failed: ${error.message}${output ? `\n${output.slice(-2000)}` : ''}`);
+  }
+
+  const tools = client.getServerCapabilities()?.tools
+    ? (await client.listTools(undefined, { timeout })).tools
+    : [];
+
+  return {
+    client,
+    command: [start.command === process.execPath ? 'node' : start.command, ...start.args].join(' '),
+    tools,
+    stderr: () => stderr,
+    async call(name: string, args: Record<string, unknown>): Promise<ToolCallOutcome> {
+      const started = Date.now();
+      const result = await client.callTool({ name, arguments: args }, undefined, { timeout }) as CallToolResult;
+      return { is_error: result.isError === true, ...toolResultValue(result), duration_ms: Date.now() - started };
+    },
+    close: () => client.close()
+  };
+}
@@ -0,0 +1,511 @@
+/**
+ * Mock Vendor Server
+ *
+ * A local, offline stand-in for each SaaS API in SUPPORTED_VENDORS, driven
+ * by the same numbers the static rules use (VENDOR_RATE_LIMITS,
+ * VENDOR_OAUTH_CONFIGS, VENDOR_WEBHOOK_CONFIGS). Generated servers are
+ * pointed at it during runtime inspection so their behavior can be observed
+ * without credentials or network access.
+ *
+ * Endpoints:
+ *   /oauth/*, /.well-known/*         Token endpoints of the OAuth authority (oauth-authority.ts)
+ *   GET    /api/:collection          List records          (auth + rate limited)
+ *   POST   /api/:collection          Create (honors Idempotency-Key)
+ *   GET    /api/:collection/:id      Read
+ *   PATCH  /api/:collection/:id      Update
+ *   DELETE /api/:collection/:id      Delete
+ *   POST   /webhooks                 Subscribe a URL to record events
+ *   DELETE /webhooks/:id             Unsubscribe
+ *
+ * When the authority enforces scopes, API calls without the collection's
+ * scope get 403 insufficient_scope. Injected faults fail API calls with a
+ * chosen status, optionally after applying the write, to simulate a
+ * response lost on the way back. setAvailable(false) takes the whole
+ * vendor down, for readiness checks.
+ *
+ * Given a fixture (fixtures.ts), API calls that match a recorded exchange
+ * are answered with the recorded response instead of the emulation, after
+ * the same authentication, rate limiting and faults.
+ *
+ * Every request is logged so runtime tests can inspect what the server
+ * under test actually sent and how it reacted to 401s and 429s. Webhook
+ * deliveries are signed with the vendor's scheme (see webhook-schemes.ts).
+ */
+
+import express, { type Request, type Response, type NextFunction } from 'express';
+import { createHmac, randomBytes } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  SUPPORTED_VENDORS,
+  getVendorRateLimitConfig,
+  getVendorWebhookConfig
+} from '../rules/index.js';
+import type { RateLimitConfig } from '../rules/rate-limit-rules.js';
+import type { OAuthConfig } from '../rules/oauth-rules.js';
+import type { WebhookConfig } from '../rules/webhook-rules.js';
+import { MOCK_CREDENTIALS, createOAuthAuthority, requiredScope, type OAuthAuthority } from './oauth-authority.js';
+import { createVendorRateLimiter, type VendorRateLimiter } from './rate-limiters.js';
+import { createFixtureReplayer, loadFixture, replayHeaders, type FixtureReplayer } from './fixtures.js';
+import { getWebhookScheme } from './webhook-schemes.js';
+
+const DEFAULT_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export interface MockVendorOptions {
+  vendor: string;
+  port?: number;                          // 0 (default) picks a free port
+  rate_limit?: Partial<RateLimitConfig>;  // Override the vendor's limits, e.g. shorter windows for tests
+  token_ttl_ms?: number;                  // Override token_expiry_minutes
+  authority?: OAuthAuthority;             // Share a configured authority (tenants, scopes); default is a fresh one
+  webhook_secret?: string;
+  fixture?: string;                       // Replay recorded exchanges: file path, fixture ID or name, or '*'
+}
+
+export interface MockRequestLog {
+  at: number;                  // Epoch ms when the request arrived
+  method: string;
+  path: string;
+  status: number;
+  authorization?: string;      // 'bearer' | 'basic' | 'none'
+  token?: string;              // Access token or API key presented
+  tenant_id?: string;          // Tenant the credential belongs to, once verified
+  auth_error?: string;         // Why a 401/403 was returned
+  idempotency_key?: string;
+  retry_after_ms?: number;     // Set on 429 responses
+  replayed?: boolean;          // Answered from the fixture
+}
+
+export interface MockWebhookDelivery {
+  event_id: string;
+  event_type: string;
+  subscription_id: string;
+  url: string;
+  status?: number;
+  error?: string;
+  duration_ms: number;
+}
+
+export interface MockFault {
+  method?: string;             // Default: any method
+  collection?: string;         // Default: any collection
+  status: number;
+  commit?: boolean;            // Apply the write, then answer with the error (a lost response)
+  count?: number;              // How many requests to fail (default 1)
+}
+
+interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: string[];
+  secret: string;
+}
+
+export interface MockVendorServer {
+  vendor: string;
+  url: string;
+  port: number;
+  rate_limits: RateLimitConfig;
+  fixture_entries: number;           // Recorded exchanges available for replay
+  oauth: OAuthConfig | null;
+  authority: OAuthAuthority;
+  webhooks: WebhookConfig | null;
+  requests: MockRequestLog[];
+  deliveries: MockWebhookDelivery[];
+  records(collection: string): Record<string, unknown>[];
+  seed(collection: string, record: Record<string, unknown> & { id: string }): void;
+  setLatency(ms: number): void;       // Delay every API response, e.g. to make webhook handlers slow
+  injectFault(fault: MockFault): void;
+  setAvailable(available: boolean): void; // false answers every request with 503, as an outage
+  revokeToken(token: string): boolean;
+  close(): Promise<void>;
+}
+
+type MockRequest = Request & { mockToken?: string; mockAuthorization?: string; mockTenant?: string; mockAuthError?: string; mockReplayed?: boolean };
+
+/**
+ * Split an Authorization header into its scheme and credential
+ */
+function splitAuthorization(header: string | undefined): { scheme: string; value: string } {
+  if (!header) return { scheme: 'none', value: '' };
+  const [scheme, value = ''] = header.split(' ', 2);
+  return { scheme: scheme.toLowerCase(), value };
+}
+
+function decodeBasic(value: string): string[] {
+  return Buffer.from(value, 'base64').toString('utf-8').split(':');
+}
+
+/**
+ * Pull the presented access token or API key out of an Authorization header
+ */
+function parseAuthorization(header: string | undefined, isApiKey: (value: string) => boolean): { scheme: string; token?: string } {
+  const { scheme, value } = splitAuthorization(header);
+  if (scheme === 'none') return { scheme };
+  if (scheme === 'basic') {
+    // Zendesk-style "email/token:<key>" and Stripe-style "<key>:" both carry the key
+    const parts = decodeBasic(value);
+    return { scheme, token: parts.find(isApiKey) ?? parts[parts.length - 1] };
+  }
+  return { scheme, token: value };
+}
+
+/**
+ * Sign a delivery the way the vendor does; vendors without a scheme get a
+ * hex HMAC of the body in the generic header
+ */
+function signDelivery(vendor: string, body: string, secret: string, url: string): Record<string, string> {
+  const scheme = getWebhookScheme(vendor);
+  if (scheme) return scheme.sign(body, secret, { timestamp: Date.now(), method: 'POST', url });
+  return { [DEFAULT_SIGNATURE_HEADER]: createHmac('sha256', secret).update(body).digest('hex') };
+}
+
+/**
+ * Start a mock API for one vendor on localhost
+ */
+export async function startMockVendor(options: MockVendorOptions): Promise<MockVendorServer> {
+  const vendor = options.vendor.toLowerCase();
+  if (!SUPPORTED_VENDORS.includes(vendor as any)) {
+    throw new Error(`Unsupported vendor: ${vendor}. Supported: ${SUPPORTED_VENDORS.join(', ')}`);
+  }
+
+  const rateLimits: RateLimitConfig = { ...getVendorRateLimitConfig(vendor)!, ...options.rate_limit };
+  const authority = options.authority ?? createOAuthAuthority({ vendor, token_ttl_ms: options.token_ttl_ms });
+  const webhookConfig = getVendorWebhookConfig(vendor);
+  const limiter: VendorRateLimiter = createVendorRateLimiter(rateLimits);
+  const webhookSecret = options.webhook_secret ?? `whsec_${randomBytes(12).toString('hex')}`;
+  const replayer: FixtureReplayer | undefined = options.fixture ? createFixtureReplayer(loadFixture(vendor, options.fixture)) : undefined;
+
+  const requests: MockRequestLog[] = [];
+  const deliveries: MockWebhookDelivery[] = [];
+  const collections = new Map<string, Map<string, Record<string, unknown>>>();
+  const idempotentResponses = new Map<string, Record<string, unknown>>();
+  const subscriptions = new Map<string, WebhookSubscription>();
+  let sequence = 0;
+  let latencyMs = 0;
+  let available = true;
+  const faults: MockFault[] = [];
+
+  const nextId = (prefix: string) => `${prefix}_${(++sequence).toString().padStart(6, '0')}`;
+
+  function collection(name: string): Map<string, Record<string, unknown>> {
+    let records = collections.get(name);
+    if (!records) {
+      records = new Map();
+      collections.set(name, records);
+    }
+    return records;
+  }
+
+  function emit(type: string, object: Record<string, unknown>): void {
+    const event = {
+      id: nextId('evt'),
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object }
+    };
+    const body = JSON.stringify(event);
+
+    for (const subscription of subscriptions.values()) {
+      if (subscription.events.length > 0 && !subscription.events.includes(type)) continue;
+
+      const started = Date.now();
+      const delivery: MockWebhookDelivery = {
+        event_id: event.id,
+        event_type: type,
+        subscription_id: subscription.id,
+        url: subscription.url,
+        duration_ms: 0
+      };
+      deliveries.push(delivery);
+
+      fetch(subscription.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...signDelivery(vendor, body, subscription.secret, subscription.url) },
+        body,
+        signal: AbortSignal.timeout(webhookConfig?.timeout_ms ?? 10000)
+      }).then(res => {
+        delivery.status = res.status;
+      }).catch((error: Error) => {
+        delivery.error = error.message;
+      }).finally(() => {
+        delivery.duration_ms = Date.now() - started;
+      });
+    }
+  }
+
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.urlencoded({ extended: false }));
+
+  // Request log
+  app.use((req: MockRequest, res: Response, next: NextFunction) => {
+    const entry: MockRequestLog = { at: Date.now(), method: req.method, path: req.path, status: 0 };
+    requests.push(entry);
+    res.on('finish', () => {
+      entry.status = res.statusCode;
+      entry.authorization = req.mockAuthorization;
+      entry.token = req.mockToken;
+      entry.tenant_id = req.mockTenant;
+      entry.auth_error = req.mockAuthError;
+      entry.idempotency_key = req.header('Idempotency-Key');
+      entry.replayed = req.mockReplayed;
+      const retryAfter = res.getHeader('Retry-After');
+      if (res.statusCode === 429 && retryAfter !== undefined) {
+        entry.retry_after_ms = Number(retryAfter) * 1000;
+      }
+    });
+    next();
+  });
+
+  // Outage: everything, including tokens and /health, is unavailable
+  app.use((_req: Request, res: Response, next: NextFunction) => {
+    if (available) return next();
+    res.status(503).json({ error: 'service_unavailable', message: `${vendor} is unavailable` });
+  });
+
+  app.get('/health', (_req: Request, res: Response) => {
+    res.json({ status: 'ok', vendor, mock: true });
+  });
+
+  // === OAuth ===
+
+  app.use(authority.router);
+
+  // === Authenticated, rate-limited API ===
+
+  function authenticate(req: MockRequest, res: Response, next: NextFunction): void {
+    const { scheme, token } = parseAuthorization(req.header('Authorization'), authority.isApiKey);
+    req.mockAuthorization = scheme;
+    req.mockToken = token;
+
+    // Mounted on /api, so the first path segment is the collection
+    const collectionName = req.baseUrl === '/api' ? req.path.split('/')[1] : undefined;
+    const check = authority.verify(token, collectionName ? requiredScope(collectionName, req.method) : undefined);
+    if (check.valid) {
+      req.mockTenant = check.tenant_id;
+      return next();
+    }
+
+    req.mockAuthError = check.description;
+    const scope = check.error === 'insufficient_scope' ? `, scope="${requiredScope(collectionName!, req.method)}"` : '';
+    res.setHeader('WWW-Authenticate', `Bearer error="${check.error}", error_description="${check.description}"${scope}`);
+    res.status(check.error === 'insufficient_scope' ? 403 : 401).json({ error: check.error, error_description: check.description });
+  }
+
+  function rateLimit(_req: Request, res: Response, next: NextFunction): void {
+    const decision = limiter.take();
+    if (Number.isFinite(decision.limit)) {
+      res.setHeader('X-RateLimit-Limit', decision.limit);
+      res.setHeader('X-RateLimit-Remaining', decision.remaining);
+    }
+    if (!decision.allowed) {
+      res.setHeader('Retry-After', Math.max(1, Math.ceil(decision.retry_after_ms / 1000)));
+      res.status(429).json({ error: 'rate_limited', message: `${vendor} rate limit exceeded`, retry_after_ms: decision.retry_after_ms });
+      return;
+    }
+    next();
+  }
+
+  function delay(_req: Request, _res: Response, next: NextFunction): void {
+    if (latencyMs > 0) {
+      setTimeout(next, latencyMs);
+    } else {
+      next();
+    }
+  }
+
+  function injectFaults(req: Request, res: Response, next: NextFunction): void {
+    const collectionName = req.path.split('/')[1];
+    const index = faults.findIndex(f =>
+      (!f.method || f.method === req.method) && (!f.collection || f.collection === collectionName));
+    if (index === -1) return next();
+
+    const fault = faults[index];
+    fault.count = (fault.count ?? 1) - 1;
+    if (fault.count <= 0) faults.splice(index, 1);
+
+    const body = { error: 'injected_fault', message: `Injected ${fault.status}` };
+    if (!fault.commit) {
+      res.status(fault.status).json(body);
+      return;
+    }
+    // Let the handler apply the write, but replace its response
+    const json = res.json.bind(res);
+    res.json = () => {
+      res.status(fault.status);
+      return json(body);
+    };
+    next();
+  }
+
+  function replay(req: MockRequest, res: Response, next: NextFunction): void {
+    const query = req.originalUrl.split('?')[1];
+    const recorded = replayer?.match(req.method, req.path, query);
+    if (!recorded) return next();
+
+    req.mockReplayed = true;
+    res.status(recorded.status).set(replayHeaders(recorded.headers)).send(recorded.body);
+  }
+
+  app.use('/api', authenticate, rateLimit, delay, injectFaults, replay);
+
+  const notFound = (res: Response, name: string, id: string) => {
+    res.status(404).json({ error: 'not_found', message: `${name} ${id} not found` });
+  };
+
+  app.get('/api/:collection', (req: Request, res: Response) => {
+    res.json({ data: [...collection(req.params.collection as string).values()] });
+  });
+
+  app.post('/api/:collection', (req: Request, res: Response) => {
+    const name = req.params.collection as string;
+    const idempotencyKey = req.header('Idempotency-Key');
+    if (idempotencyKey && idempotentResponses.has(idempotencyKey)) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(201).json(idempotentResponses.get(idempotencyKey));
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const record = { ...req.body, id: nextId(name), created_at: now, updated_at: now };
+    collection(name).set(record.id, record);
+    if (idempotencyKey) idempotentResponses.set(idempotencyKey, record);
+
+    emit(`${name}.created`, record);
+    res.status(201).json(record);
+  });
+
+  app.get('/api/:collection/:id', (req: Request, res: Response) => {
+    const name = req.params.collection as string;
+    const id = req.params.id as string;
+    const record = collection(name).get(id);
+    if (!record) return notFound(res, name, id);
+    res.json(record);
+  });
+
+  app.patch('/api/:collection/:id', (req: Request, res: Response) => {
+    const name = req.params.collection as string;
+    const id = req.params.id as string;
+    const records = collection(name);
+    const existing = records.get(id);
+    if (!existing) return notFound(res, name, id);
+
+    const record = { ...existing, ...req.body, id, updated_at: new Date().toISOString() };
+    records.set(id, record);
+
+    emit(`${name}.updated`, record);
+    res.json(record);
+  });
+
+  app.delete('/api/:collection/:id', (req: Request, res: Response) => {
+    const name = req.params.collection as string;
+    const id = req.params.id as string;
+    const records = collection(name);
+    const existing = records.get(id);
+    if (!existing) return notFound(res, name, id);
+
+    records.delete(id);
+    emit(`${name}.deleted`, existing);
+    res.json({ id, deleted: true });
+  });
+
+  // === Webhook subscriptions ===
+
+  app.post('/webhooks', authenticate, (req: Request, res: Response) => {
+    if (typeof req.body?.url !== 'string') {
+      res.status(400).json({ error: 'invalid_request', message: 'url required' });
+      return;
+    }
+    const subscription: WebhookSubscription = {
+      id: nextId('wh'),
+      url: req.body.url,
+      events: Array.isArray(req.body.events) ? req.body.events : [],
+      secret: webhookSecret
+    };
+    subscriptions.set(subscription.id, subscription);
+    res.status(201).json(subscription);
+  });
+
+  app.delete('/webhooks/:id', authenticate, (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    if (!subscriptions.delete(id)) return notFound(res, 'Webhook', id);
+    res.json({ id, deleted: true });
+  });
+
+  const server: Server = await new Promise((resolve, reject) => {
+    const listening = app.listen(options.port ?? 0, '127.0.0.1', () => resolve(listening));
+    listening.on('error', reject);
+  });
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    vendor,
+    url: `http://127.0.0.1:${port}`,
+    port,
+    rate_limits: rateLimits,
+    fixture_entries: replayer?.entries ?? 0,
+    oauth: authority.oauth,
+    authority,
+    webhooks: webhookConfig,
+    requests,
+    deliveries,
+    records: (name: string) => [...collection(name).values()],
+    seed: (name: string, record: Record<string, unknown> & { id: string }) => {
+      const now = new Date().toISOString();
+      collection(name).set(record.id, { created_at: now, updated_at: now, ...record });
+    },
+    setLatency: (ms: number) => {
+      latencyMs = ms;
+    },
+    injectFault: (fault: MockFault) => {
+      faults.push({ ...fault });
+    },
+    setAvailable: (value: boolean) => {
+      available = value;
+    },
+    revokeToken: authority.revokeToken,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+/**
+ * Environment that points a generated server at the mock vendor.
+ * Covers the `<VENDOR>_*` names generated servers read, plus generic
+ * fallbacks for servers that only talk to one API. `apiOrigin` routes API
+ * calls (but not token requests) through a proxy in front of the mock.
+ * Extra tenants are listed as JSON in `<VENDOR>_TENANTS`, granted scopes
+ * space-separated in `<VENDOR>_SCOPES`.
+ */
+export function mockVendorEnv(mock: MockVendorServer, apiOrigin: string = mock.url): Record<string, string> {
+  const prefix = mock.vendor.toUpperCase();
+  const { authority } = mock;
+  const values: Record<string, string> = {
+    API_URL: `${apiOrigin}/api`,
+    BASE_URL: `${apiOrigin}/api`,
+    TOKEN_URL: `${mock.url}/oauth/token`,
+    ISSUER_URL: mock.url,
+    CLIENT_ID: MOCK_CREDENTIALS.client_id,
+    CLIENT_SECRET: MOCK_CREDENTIALS.client_secret,
+    API_KEY: MOCK_CREDENTIALS.api_key
+  };
+  if (authority.tenants.length > 1) {
+    values.TENANTS = JSON.stringify(authority.tenants.filter(t => t.client_id !== MOCK_CREDENTIALS.client_id));
+  }
+  if (authority.scopes) {
+    values.SCOPES = authority.scopes.join(' ');
+  }
+
+  const env: Record<string, string> = {
+    LINUS_RUNTIME_TEST: '1',
+    LINUS_MOCK_VENDOR: mock.vendor,
+    LINUS_MOCK_VENDOR_URL: apiOrigin,
+    API_BASE_URL: values.API_URL
+  };
+  for (const [key, value] of Object.entries(values)) {
+    env[`${prefix}_${key}`] = value;
+  }
+  return env;
+}
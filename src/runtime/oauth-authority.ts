@@ -0,0 +1,335 @@
+/**
+ * OAuth Authority
+ *
+ * The local OAuth2/OIDC stand-in behind the mock vendor. It issues opaque
+ * access and refresh tokens with the vendor's expiry (VENDOR_OAUTH_CONFIGS,
+ * or a shortened TTL for tests), rotates refresh tokens, revokes on demand
+ * and can enforce scopes per collection (`<collection>.read` for GET,
+ * `<collection>.write` otherwise). Each tenant gets its own client
+ * credentials and API key, so runtime tests can tell whose token was used.
+ *
+ * Endpoints (mounted on the mock vendor):
+ *   GET  /.well-known/openid-configuration   Discovery document
+ *   POST /oauth/token                        client_credentials, authorization_code,
+ *                                            refresh_token and jwt-bearer grants
+ *   POST /oauth/revoke                       Revoke an access or refresh token
+ *   POST /oauth/introspect                   RFC 7662 token introspection
+ *
+ * Every token request is logged with when it arrived and when it was
+ * answered, so overlapping refreshes can be detected.
+ */
+
+import express, { type Request, type Response, type Router } from 'express';
+import { randomBytes } from 'crypto';
+import { getVendorOAuthConfig } from '../rules/index.js';
+import type { OAuthConfig } from '../rules/oauth-rules.js';
+
+export const MOCK_CREDENTIALS = {
+  client_id: 'linus-mock-client',
+  client_secret: 'linus-mock-secret',
+  api_key: 'linus-mock-api-key'
+} as const;
+
+const DEFAULT_TENANT = 'default';
+const JWT_BEARER_GRANT = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+
+export interface OAuthTenant {
+  tenant_id: string;
+  client_id: string;
+  client_secret: string;
+  api_key: string;
+}
+
+export interface OAuthAuthorityOptions {
+  vendor: string;
+  token_ttl_ms?: number;        // Override token_expiry_minutes
+  tenants?: number;             // Tenants besides the default MOCK_CREDENTIALS client (default 0)
+  scopes?: string[];            // Scopes clients are granted; unset means scopes are not enforced
+  token_latency_ms?: number;    // Delay token responses so overlapping refreshes are observable
+}
+
+export interface IssuedToken {
+  access_token: string;
+  refresh_token?: string;
+  tenant_id: string;
+  scopes: string[];
+  issued_at: number;
+  expires_at?: number;
+  revoked: boolean;
+}
+
+export interface TokenRequestLog {
+  at: number;                   // Epoch ms when the request arrived
+  finished_at: number;          // Epoch ms when it was answered
+  grant_type: string;
+  tenant_id?: string;
+  refresh_token?: string;       // Refresh token presented, for refresh grants
+  status: number;
+  error?: string;
+  access_token?: string;        // Token issued, on success
+  cross_tenant?: boolean;       // Refresh token presented by another tenant's client
+}
+
+export type TokenCheck =
+  | { valid: true; tenant_id: string; token?: IssuedToken }
+  | { valid: false; error: 'invalid_token' | 'insufficient_scope'; description: string };
+
+export interface OAuthAuthority {
+  vendor: string;
+  oauth: OAuthConfig | null;
+  static_key: boolean;          // Vendor authenticates with an API key, not issued tokens
+  token_ttl_ms?: number;
+  scopes?: string[];
+  tenants: OAuthTenant[];
+  token_requests: TokenRequestLog[];
+  issued: IssuedToken[];
+  router: Router;
+  isApiKey(value: string): boolean;
+  verify(token: string | undefined, scope?: string): TokenCheck;
+  revokeToken(value: string): boolean;
+  revokeAll(): number;          // Revoke every live token; returns how many
+}
+
+/**
+ * Scope an API call needs under scope enforcement
+ */
+export function requiredScope(collection: string, method: string): string {
+  return `${collection}.${method === 'GET' || method === 'HEAD' ? 'read' : 'write'}`;
+}
+
+function decodeBasic(value: string): string[] {
+  return Buffer.from(value, 'base64').toString('utf-8').split(':');
+}
+
+/**
+ * Client credentials from the body or a Basic Authorization header
+ */
+function clientCredentials(req: Request): { client_id?: string; client_secret?: string } {
+  const [scheme, value = ''] = (req.header('Authorization') ?? '').split(' ', 2);
+  const [basicId, basicSecret] = scheme?.toLowerCase() === 'basic' ? decodeBasic(value) : [];
+  return { client_id: req.body?.client_id ?? basicId, client_secret: req.body?.client_secret ?? basicSecret };
+}
+
+/**
+ * Issuer or subject of a JWT assertion, without verifying it
+ */
+function assertionClient(assertion: string): string | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(assertion.split('.')[1] ?? '', 'base64url').toString('utf-8'));
+    return payload.iss ?? payload.sub;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create the authorization server for one vendor
+ */
+export function createOAuthAuthority(options: OAuthAuthorityOptions): OAuthAuthority {
+  const vendor = options.vendor.toLowerCase();
+  const oauth = getVendorOAuthConfig(vendor);
+  const staticKey = oauth?.auth_type === 'api_key' || oauth?.auth_type === 'api_token';
+  const tokenTtlMs = options.token_ttl_ms
+    ?? (oauth?.token_expiry_minutes ? oauth.token_expiry_minutes * 60 * 1000 : undefined);
+
+  const tenants: OAuthTenant[] = [{ tenant_id: DEFAULT_TENANT, ...MOCK_CREDENTIALS }];
+  for (let i = 0; i < (options.tenants ?? 0); i++) {
+    const suffix = String.fromCharCode(97 + (i % 26)) + (i >= 26 ? Math.floor(i / 26) : '');
+    tenants.push({
+      tenant_id: `tenant_${suffix}`,
+      client_id: `${MOCK_CREDENTIALS.client_id}-${suffix}`,
+      client_secret: `${MOCK_CREDENTIALS.client_secret}-${suffix}`,
+      api_key: `${MOCK_CREDENTIALS.api_key}-${suffix}`
+    });
+  }
+
+  const tokens = new Map<string, IssuedToken>();
+  const refreshTokens = new Map<string, IssuedToken>();
+  const tokenRequests: TokenRequestLog[] = [];
+  const issued: IssuedToken[] = [];
+
+  const tenantByClient = (clientId?: string) => tenants.find(t => t.client_id === clientId);
+
+  function issueToken(tenantId: string, scopes: string[]): IssuedToken {
+    const now = Date.now();
+    const token: IssuedToken = {
+      access_token: `mock_at_${randomBytes(16).toString('hex')}`,
+      refresh_token: oauth?.auth_type === 'jwt' ? undefined : `mock_rt_${randomBytes(16).toString('hex')}`,
+      tenant_id: tenantId,
+      scopes,
+      issued_at: now,
+      expires_at: tokenTtlMs !== undefined ? now + tokenTtlMs : undefined,
+      revoked: false
+    };
+    tokens.set(token.access_token, token);
+    if (token.refresh_token) refreshTokens.set(token.refresh_token, token);
+    issued.push(token);
+    return token;
+  }
+
+  function revokeToken(value: string): boolean {
+    // Revoking either half of a grant revokes both
+    const token = tokens.get(value) ?? refreshTokens.get(value);
+    if (!token) return false;
+    token.revoked = true;
+    if (token.refresh_token) refreshTokens.delete(token.refresh_token);
+    return true;
+  }
+
+  /**
+   * Work out the grant; returns an OAuth error or the tenant and scopes to issue for
+   */
+  function grant(req: Request, log: TokenRequestLog):
+    { status: number; error: string; description: string } | { tenant_id: string; scopes: string[] } {
+    const requested: string[] | undefined = typeof req.body?.scope === 'string'
+      ? req.body.scope.split(' ').filter(Boolean)
+      : undefined;
+
+    if (log.grant_type === 'client_credentials' || log.grant_type === 'authorization_code') {
+      const { client_id, client_secret } = clientCredentials(req);
+      const tenant = tenantByClient(client_id);
+      if (!tenant || tenant.client_secret !== client_secret) {
+        return { status: 401, error: 'invalid_client', description: 'Unknown client credentials' };
+      }
+      log.tenant_id = tenant.tenant_id;
+    } else if (log.grant_type === 'refresh_token') {
+      log.refresh_token = req.body?.refresh_token;
+      const previous = refreshTokens.get(req.body?.refresh_token);
+      const presenting = tenantByClient(clientCredentials(req).client_id);
+      if (!previous || previous.revoked) {
+        log.tenant_id = presenting?.tenant_id;
+        return { status: 400, error: 'invalid_grant', description: 'Refresh token is invalid or revoked' };
+      }
+      log.tenant_id = previous.tenant_id;
+      if (presenting && presenting.tenant_id !== previous.tenant_id) {
+        log.cross_tenant = true;
+        return { status: 400, error: 'invalid_grant', description: 'Refresh token was issued to another client' };
+      }
+      // Refresh tokens rotate: each one can be exchanged once
+      refreshTokens.delete(previous.refresh_token!);
+      if (!requested) return { tenant_id: previous.tenant_id, scopes: previous.scopes };
+    } else if (log.grant_type === JWT_BEARER_GRANT) {
+      if (!req.body?.assertion) {
+        return { status: 400, error: 'invalid_request', description: 'assertion required' };
+      }
+      log.tenant_id = tenantByClient(assertionClient(req.body.assertion))?.tenant_id ?? DEFAULT_TENANT;
+    } else {
+      return { status: 400, error: 'unsupported_grant_type', description: `Unsupported grant_type: ${log.grant_type}` };
+    }
+
+    if (options.scopes && requested) {
+      const unknown = requested.filter(s => !options.scopes!.includes(s));
+      if (unknown.length > 0) {
+        return { status: 400, error: 'invalid_scope', description: `Scope not granted to this client: ${unknown.join(' ')}` };
+      }
+    }
+    return { tenant_id: log.tenant_id!, scopes: requested ?? options.scopes ?? [] };
+  }
+
+  const router = express.Router();
+
+  router.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+    const issuer = `${req.protocol}://${req.get('host')}`;
+    res.json({
+      issuer,
+      token_endpoint: `${issuer}/oauth/token`,
+      revocation_endpoint: `${issuer}/oauth/revoke`,
+      introspection_endpoint: `${issuer}/oauth/introspect`,
+      grant_types_supported: ['client_credentials', 'authorization_code', 'refresh_token', JWT_BEARER_GRANT],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      ...(options.scopes && { scopes_supported: options.scopes })
+    });
+  });
+
+  router.post('/oauth/token', (req: Request, res: Response) => {
+    const log: TokenRequestLog = { at: Date.now(), finished_at: 0, grant_type: String(req.body?.grant_type ?? ''), status: 0 };
+    tokenRequests.push(log);
+
+    const respond = () => {
+      const outcome = grant(req, log);
+      log.finished_at = Date.now();
+      if ('error' in outcome) {
+        log.status = outcome.status;
+        log.error = outcome.error;
+        res.status(outcome.status).json({ error: outcome.error, error_description: outcome.description });
+        return;
+      }
+
+      const token = issueToken(outcome.tenant_id, outcome.scopes);
+      log.status = 200;
+      log.access_token = token.access_token;
+      res.json({
+        access_token: token.access_token,
+        token_type: 'Bearer',
+        ...(token.expires_at !== undefined && { expires_in: Math.round((token.expires_at - token.issued_at) / 1000) }),
+        ...(token.refresh_token && { refresh_token: token.refresh_token }),
+        ...(token.scopes.length > 0 && { scope: token.scopes.join(' ') })
+      });
+    };
+
+    if (options.token_latency_ms) {
+      setTimeout(respond, options.token_latency_ms);
+    } else {
+      respond();
+    }
+  });
+
+  router.post('/oauth/revoke', (req: Request, res: Response) => {
+    revokeToken(req.body?.token ?? '');
+    res.status(200).json({});
+  });
+
+  router.post('/oauth/introspect', (req: Request, res: Response) => {
+    const token = tokens.get(req.body?.token ?? '');
+    const active = !!token && !token.revoked && (token.expires_at === undefined || Date.now() < token.expires_at);
+    res.json(active
+      ? {
+        active,
+        client_id: tenants.find(t => t.tenant_id === token.tenant_id)?.client_id,
+        scope: token.scopes.join(' '),
+        ...(token.expires_at !== undefined && { exp: Math.floor(token.expires_at / 1000) }),
+        iat: Math.floor(token.issued_at / 1000)
+      }
+      : { active: false });
+  });
+
+  return {
+    vendor,
+    oauth,
+    static_key: staticKey,
+    token_ttl_ms: tokenTtlMs,
+    scopes: options.scopes,
+    tenants,
+    token_requests: tokenRequests,
+    issued,
+    router,
+    isApiKey: (value: string) => tenants.some(t => t.api_key === value),
+    verify(token: string | undefined, scope?: string): TokenCheck {
+      if (!token) return { valid: false, error: 'invalid_token', description: 'Missing credentials' };
+
+      if (staticKey) {
+        const tenant = tenants.find(t => t.api_key === token);
+        return tenant
+          ? { valid: true, tenant_id: tenant.tenant_id }
+          : { valid: false, error: 'invalid_token', description: 'Invalid API key' };
+      }
+
+      const issuedToken = tokens.get(token);
+      if (!issuedToken) return { valid: false, error: 'invalid_token', description: 'Unknown access token' };
+      if (issuedToken.revoked) return { valid: false, error: 'invalid_token', description: 'Access token revoked' };
+      if (issuedToken.expires_at !== undefined && Date.now() >= issuedToken.expires_at) {
+        return { valid: false, error: 'invalid_token', description: 'Access token expired' };
+      }
+      if (options.scopes && scope && !issuedToken.scopes.includes(scope)) {
+        return { valid: false, error: 'insufficient_scope', description: `Token lacks scope ${scope}` };
+      }
+      return { valid: true, tenant_id: issuedToken.tenant_id, token: issuedToken };
+    },
+    revokeToken,
+    revokeAll(): number {
+      const live = [...tokens.values()].filter(t => !t.revoked);
+      for (const token of live) revokeToken(token.access_token);
+      return live.length;
+    }
+  };
+}
@@ -0,0 +1,488 @@
+/**
+ * MCP Protocol Conformance Test
+ *
+ * Spawns the server under test over stdio with the MCP SDK client and checks
+ * it the way a host would see it, rather than by looking for files:
+ *
+ *   initialize        serverInfo, capabilities
+ *   tools/list        every inputSchema is a well-formed JSON Schema object
+ *   resources/list    answered when the resources capability is advertised,
+ *   prompts/list      refused with -32601 when it is not
+ *   tools/call        each tool with schema-valid arguments, then with a
+ *                     missing required field and a wrongly typed field
+ *   error codes       unknown methods get -32601, every error uses a
+ *                     JSON-RPC code (mcp-004)
+ *   timeouts          no request outlives timeout_ms, and the server still
+ *                     answers ping afterwards
+ *
+ * Tool calls go to the mock vendor when a vendor is given, so schema-valid
+ * arguments never reach a real API.
+ */
+
+import { McpError, ErrorCode, EmptyResultSchema, type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { SUPPORTED_VENDORS } from '../rules/index.js';
+import { runtimeVerdict, type ConnectionVerdict, type RuntimeTestResult } from './connection-test.js';
+import { connectTargetMcp, type TargetMcpClient } from './mcp-client.js';
+import { startMockVendor, mockVendorEnv, type MockVendorServer } from './mock-vendor.js';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const UNKNOWN_METHOD = 'linus/unknown_method';
+const UNKNOWN_TOOL = 'linus_unknown_tool';
+
+const JSON_SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'null'];
+const TOOL_NAME = /^[A-Za-z0-9_.-]{1,128}$/;
+
+export interface ProtocolTestOptions {
+  server_path: string;
+  vendor?: string;                     // Point the server at the mock vendor
+  fixture?: string;                    // Recorded vendor exchanges to replay
+  timeout_ms?: number;                 // Per MCP request
+  call_tools?: boolean;                // Default true; false checks listings and error codes only
+}
+
+export type CallStatus = 'ok' | 'is_error' | 'rpc_error' | 'timeout' | 'invalid_response' | 'closed';
+
+export interface ProtocolCall {
+  tool: string;
+  variant: 'valid' | 'missing_required' | 'wrong_type' | 'unknown_tool';
+  arguments: Record<string, unknown>;
+  status: CallStatus;
+  code?: number;                       // JSON-RPC error code for rpc_error
+  message?: string;
+  duration_ms: number;
+}
+
+export interface ProtocolTestResult {
+  server_path: string;
+  verdict: ConnectionVerdict;
+  tests: RuntimeTestResult[];
+  server_info?: { name: string; version: string };
+  capabilities: string[];
+  tools: string[];
+  calls: ProtocolCall[];
+  server: { command?: string; stderr: string };
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: unknown;
+  items?: JsonSchema | JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+};
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Structural problems in a tool's input schema, as "path: problem" strings
+ */
+export function schemaProblems(schema: unknown, path = 'inputSchema'): string[] {
+  if (!isObject(schema)) return [`${path}: not a schema object`];
+  const problems: string[] = [];
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type === undefined ? [] : [schema.type];
+  for (const type of types) {
+    if (!JSON_SCHEMA_TYPES.includes(type)) problems.push(`${path}: unknown type ${JSON.stringify(type)}`);
+  }
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    problems.push(`${path}: enum must be a non-empty array`);
+  }
+
+  if (schema.properties !== undefined) {
+    if (!isObject(schema.properties)) {
+      problems.push(`${path}.properties: not an object`);
+    } else {
+      for (const [name, property] of Object.entries(schema.properties)) {
+        problems.push(...schemaProblems(property, `${path}.properties.${name}`));
+      }
+    }
+  }
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required) || schema.required.some(r => typeof r !== 'string')) {
+      problems.push(`${path}.required: not an array of property names`);
+    } else if (isObject(schema.properties)) {
+      for (const name of schema.required) {
+        if (!(name in schema.properties)) problems.push(`${path}.required: ${name} is not a property`);
+      }
+    }
+  }
+
+  const items = Array.isArray(schema.items) ? schema.items : schema.items === undefined ? [] : [schema.items];
+  items.forEach((item, i) => problems.push(...schemaProblems(item, `${path}.items${Array.isArray(schema.items) ? `[${i}]` : ''}`)));
+  for (const keyword of ['anyOf', 'oneOf', 'allOf'] as const) {
+    if (schema[keyword] === undefined) continue;
+    if (!Array.isArray(schema[keyword])) {
+      problems.push(`${path}.${keyword}: not an array`);
+      continue;
+    }
+    schema[keyword].forEach((variant: unknown, i: number) => problems.push(...schemaProblems(variant, `${path}.${keyword}[${i}]`)));
+  }
+  return problems;
+}
+
+/**
+ * Problems with a tool definition as listed by tools/list
+ */
+export function toolProblems(tool: Tool): string[] {
+  const problems: string[] = [];
+  if (!TOOL_NAME.test(tool.name)) problems.push('name: use 1-128 letters, digits, _ - or .');
+  if (!tool.description?.trim()) problems.push('description: missing');
+  if ((tool.inputSchema as JsonSchema).type !== 'object') problems.push('inputSchema: type must be "object"');
+  problems.push(...schemaProblems(tool.inputSchema));
+  return problems;
+}
+
+/**
+ * A value that satisfies a (sub)schema
+ */
+export function sampleValue(schema: JsonSchema): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.default !== undefined) return schema.default;
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants?.length) return sampleValue(variants.find(v => v.type !== 'null') ?? variants[0]);
+  if (schema.allOf?.length) return sampleValue(Object.assign({}, ...schema.allOf));
+
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  switch (type) {
+    case 'string': {
+      if (schema.format === 'date-time') return '2024-01-01T00:00:00.000Z';
+      if (schema.format === 'date') return '2024-01-01';
+      if (schema.format === 'email') return 'linus@example.com';
+      if (schema.format === 'uri' || schema.format === 'url') return 'https://example.com';
+      if (schema.format === 'uuid') return '00000000-0000-4000-8000-000000000000';
+      const length = Math.min(Math.max(schema.minLength ?? 4, 1), schema.maxLength ?? Infinity);
+      return 'test'.padEnd(length, 'x').slice(0, length);
+    }
+    case 'number':
+    case 'integer': {
+      const low = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 1);
+      return Math.min(low, schema.maximum ?? Infinity);
+    }
+    case 'boolean':
+      return true;
+    case 'array': {
+      const item = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+      return Array.from({ length: schema.minItems ?? 0 }, () => sampleValue(item ?? {}));
+    }
+    case 'object':
+      return sampleArguments(schema);
+    case 'null':
+      return null;
+    default:
+      return 'test';
+  }
+}
+
+/**
+ * Arguments with every required property filled in
+ */
+export function sampleArguments(schema: JsonSchema): Record<string, unknown> {
+  const properties = schema.properties ?? {};
+  const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+  return Object.fromEntries(required.filter(name => properties[name]).map(name => [name, sampleValue(properties[name])]));
+}
+
+function wrongTypeValue(schema: JsonSchema): unknown {
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  switch (type) {
+    case 'number':
+    case 'integer':
+      return 'not-a-number';
+    case 'boolean':
+      return 'not-a-boolean';
+    case 'array':
+      return 'not-an-array';
+    case 'object':
+      return 'not-an-object';
+    case 'string':
+      return 12345;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Argument sets that violate the schema: a required property left out, and
+ * one typed property given a value of the wrong type
+ */
+export function invalidArguments(schema: JsonSchema): Array<{ variant: 'missing_required' | 'wrong_type'; arguments: Record<string, unknown> }> {
+  const valid = sampleArguments(schema);
+  const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+  const sets: Array<{ variant: 'missing_required' | 'wrong_type'; arguments: Record<string, unknown> }> = [];
+
+  const missing = required.find(name => name in valid);
+  if (missing) {
+    const { [missing]: _omitted, ...rest } = valid;
+    sets.push({ variant: 'missing_required', arguments: rest });
+  }
+
+  const names = [...required, ...Object.keys(schema.properties ?? {})];
+  for (const name of names) {
+    const wrong = wrongTypeValue(schema.properties?.[name] ?? {});
+    if (wrong === undefined) continue;
+    sets.push({ variant: 'wrong_type', arguments: { ...valid, [name]: wrong } });
+    break;
+  }
+  return sets;
+}
+
+// JSON-RPC reserves -32700 and -32600..-32603; -32000..-32099 is left to servers
+export function isJsonRpcErrorCode(code: number): boolean {
+  return code === -32700 || (code <= -32600 && code >= -32603) || (code <= -32000 && code >= -32099);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+class ProtocolRun {
+  readonly calls: ProtocolCall[] = [];
+  closed = false;
+
+  constructor(private target: TargetMcpClient, private timeout: number) {
+    target.client.onclose = () => { this.closed = true; };
+  }
+
+  async call(tool: string, variant: ProtocolCall['variant'], args: Record<string, unknown>): Promise<ProtocolCall> {
+    const started = Date.now();
+    let call: ProtocolCall;
+    try {
+      const outcome = await this.target.call(tool, args);
+      call = { tool, variant, arguments: args, status: outcome.is_error ? 'is_error' : 'ok', message: outcome.text.slice(0, 200), duration_ms: outcome.duration_ms };
+    } catch (error) {
+      call = { tool, variant, arguments: args, ...this.classify(error), duration_ms: Date.now() - started };
+    }
+    this.calls.push(call);
+    return call;
+  }
+
+  /**
+   * Sort a rejected request into a server error, a client-side timeout, a
+   * dropped connection, or a response the SDK could not parse
+   */
+  classify(error: unknown): Pick<ProtocolCall, 'status' | 'code' | 'message'> {
+    const message = errorMessage(error);
+    if (error instanceof McpError) {
+      if (error.code === ErrorCode.RequestTimeout) return { status: 'timeout', message };
+      if (error.code === ErrorCode.ConnectionClosed || this.closed) return { status: 'closed', message };
+      return { status: 'rpc_error', code: error.code, message };
+    }
+    return { status: this.closed ? 'closed' : 'invalid_response', message };
+  }
+
+  async request(method: string): Promise<Pick<ProtocolCall, 'status' | 'code' | 'message'>> {
+    try {
+      await this.target.client.request({ method }, EmptyResultSchema, { timeout: this.timeout });
+      return { status: 'ok' };
+    } catch (error) {
+      return this.classify(error);
+    }
+  }
+}
+
+/**
+ * A list method: answered when the capability is advertised, otherwise
+ * refused with method-not-found
+ */
+async function listingTest(
+  name: string,
+  capability: string,
+  advertised: boolean,
+  list: () => Promise<unknown[]>
+): Promise<RuntimeTestResult> {
+  const method = `${capability}/list`;
+  try {
+    const items = await list();
+    return { name, status: 'PASS', message: `${method} returned ${items.length} item(s)${advertised ? '' : ` without the ${capability} capability`}` };
+  } catch (error) {
+    if (!advertised && error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
+      return { name, status: 'PASS', message: `No ${capability} capability; ${method} answered ${ErrorCode.MethodNotFound}` };
+    }
+    return {
+      name,
+      rule_ids: advertised ? undefined : ['mcp-004'],
+      status: 'FAIL',
+      message: `${method} failed${advertised ? '' : ` without the ${capability} capability`}: ${errorMessage(error)}`
+    };
+  }
+}
+
+function describeCalls(calls: ProtocolCall[]): string {
+  return calls.map(c => `${c.tool} (${c.variant}): ${c.status}${c.code !== undefined ? ` ${c.code}` : ''}`).join('; ');
+}
+
+async function runProtocolTests(
+  target: TargetMcpClient,
+  run: ProtocolRun,
+  options: ProtocolTestOptions,
+  timeout: number
+): Promise<RuntimeTestResult[]> {
+  const client = target.client;
+  const capabilities = client.getServerCapabilities() ?? {};
+  const info = client.getServerVersion();
+  const tests: RuntimeTestResult[] = [];
+
+  tests.push(info?.name && info.version
+    ? { name: 'initialize', status: 'PASS', message: `${info.name} ${info.version}; capabilities: ${Object.keys(capabilities).join(', ') || 'none'}` }
+    : { name: 'initialize', status: 'FAIL', message: 'initialize result has no serverInfo name and version' });
+
+  // Listings; tools/list is repeated so its failure is reported rather than thrown
+  let tools: Tool[] = [];
+  tests.push(
+    await listingTest('tools_list', 'tools', !!capabilities.tools, async () => (tools = (await client.listTools(undefined, { timeout })).tools)),
+    await listingTest('resources_list', 'resources', !!capabilities.resources, async () => (await client.listResources(undefined, { timeout })).resources),
+    await listingTest('prompts_list', 'prompts', !!capabilities.prompts, async () => (await client.listPrompts(undefined, { timeout })).prompts)
+  );
+
+  const names = tools.map(t => t.name);
+  const problems = tools
+    .map(tool => ({ tool: tool.name, problems: toolProblems(tool) }))
+    .concat(names.filter((n, i) => names.indexOf(n) !== i).map(n => ({ tool: n, problems: ['name: listed more than once'] })))
+    .filter(p => p.problems.length > 0);
+  tests.push(tools.length === 0
+    ? { name: 'tool_schemas', status: 'SKIP', message: 'No tools listed' }
+    : problems.length > 0
+      ? { name: 'tool_schemas', status: 'FAIL', message: problems.map(p => `${p.tool}: ${p.problems.join(', ')}`).join('; '), details: { problems } }
+      : { name: 'tool_schemas', status: 'PASS', message: `${tools.length} tool schema(s) are well-formed` });
+
+  // Tool calls
+  if (options.call_tools === false || tools.length === 0) {
+    const message = tools.length === 0 ? 'No tools to call' : 'Tool calls disabled';
+    tests.push(
+      { name: 'valid_arguments', status: 'SKIP', message },
+      { name: 'invalid_arguments', status: 'SKIP', message }
+    );
+  } else {
+    for (const tool of tools) {
+      if (run.closed) break;
+      const schema = tool.inputSchema as JsonSchema;
+      await run.call(tool.name, 'valid', sampleArguments(schema));
+      for (const invalid of invalidArguments(schema)) {
+        if (run.closed) break;
+        await run.call(tool.name, invalid.variant, invalid.arguments);
+      }
+    }
+
+    const valid = run.calls.filter(c => c.variant === 'valid');
+    const broken = valid.filter(c => c.status === 'invalid_response' || c.status === 'closed');
+    tests.push(broken.length > 0
+      ? { name: 'valid_arguments', status: 'FAIL', message: describeCalls(broken), details: { calls: broken } }
+      : {
+        name: 'valid_arguments',
+        status: 'PASS',
+        message: `${valid.length} tool(s) answered schema-valid arguments with a well-formed result`
+          + `${valid.some(c => c.status !== 'ok') ? ` (${valid.filter(c => c.status !== 'ok').length} returned errors)` : ''}`
+      });
+
+    const invalid = run.calls.filter(c => c.variant === 'missing_required' || c.variant === 'wrong_type');
+    const accepted = invalid.filter(c => c.status === 'ok');
+    tests.push(invalid.length === 0
+      ? { name: 'invalid_arguments', status: 'SKIP', message: 'No tool declares typed or required arguments' }
+      : accepted.length > 0
+        ? { name: 'invalid_arguments', status: 'FAIL', message: `Accepted arguments that violate the schema: ${describeCalls(accepted)}`, details: { calls: accepted } }
+        : { name: 'invalid_arguments', status: 'PASS', message: `${invalid.length} schema-invalid call(s) were rejected` });
+  }
+
+  // Error codes
+  if (!run.closed) {
+    const unknownMethod = await run.request(UNKNOWN_METHOD);
+    const unknownTool = capabilities.tools ? await run.call(UNKNOWN_TOOL, 'unknown_tool', {}) : undefined;
+    const failures: string[] = [];
+    if (unknownMethod.status !== 'rpc_error' || unknownMethod.code !== ErrorCode.MethodNotFound) {
+      failures.push(`${UNKNOWN_METHOD} answered with ${unknownMethod.code ?? unknownMethod.status} instead of ${ErrorCode.MethodNotFound}`);
+    }
+    if (unknownTool?.status === 'ok') failures.push(`tools/call for ${UNKNOWN_TOOL} succeeded`);
+    const nonStandard = run.calls.filter(c => c.status === 'rpc_error' && !isJsonRpcErrorCode(c.code!));
+    if (nonStandard.length > 0) failures.push(`non-JSON-RPC error codes: ${describeCalls(nonStandard)}`);
+    tests.push(failures.length > 0
+      ? { name: 'error_codes', rule_ids: ['mcp-004'], status: 'FAIL', message: failures.join('; '), details: { unknown_method: unknownMethod } }
+      : { name: 'error_codes', rule_ids: ['mcp-004'], status: 'PASS', message: 'Errors use standard JSON-RPC codes' });
+  }
+
+  // Timeouts, then a ping to show the server survived them
+  const timedOut = run.calls.filter(c => c.status === 'timeout');
+  tests.push(timedOut.length > 0
+    ? { name: 'timeouts', status: 'FAIL', message: `No response within ${timeout}ms: ${timedOut.map(c => `${c.tool} (${c.variant})`).join(', ')}`, details: { calls: timedOut } }
+    : { name: 'timeouts', status: 'PASS', message: `Every request answered within ${timeout}ms` });
+
+  const ping = run.closed ? { status: 'closed' as const, message: 'connection closed' } : await run.request('ping');
+  tests.push(ping.status === 'ok'
+    ? { name: 'responsive', status: 'PASS', message: 'Server still answers ping' }
+    : {
+      name: 'responsive',
+      status: 'FAIL',
+      message: run.closed
+        ? `Server exited during the test${run.calls.length > 0 ? ` after ${describeCalls(run.calls.slice(-1))}` : ''}`
+        : `ping failed: ${ping.message}`
+    });
+
+  return tests;
+}
+
+/**
+ * Connect to the server over stdio and check its MCP protocol behavior
+ */
+export async function testMcpProtocol(options: ProtocolTestOptions): Promise<ProtocolTestResult> {
+  const vendor = options.vendor?.toLowerCase();
+  if (vendor && !SUPPORTED_VENDORS.includes(vendor as any)) {
+    throw new Error(`Unsupported vendor: ${options.vendor}. Supported: ${SUPPORTED_VENDORS.join(', ')}`);
+  }
+
+  const timeout = options.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+  const mock: MockVendorServer | undefined = vendor ? await startMockVendor({ vendor, fixture: options.fixture }) : undefined;
+  const result: ProtocolTestResult = {
+    server_path: options.server_path,
+    verdict: 'FAIL',
+    tests: [],
+    capabilities: [],
+    tools: [],
+    calls: [],
+    server: { stderr: '' }
+  };
+
+  try {
+    let target: TargetMcpClient | undefined;
+    try {
+      target = await connectTargetMcp({ server_path: options.server_path, env: mock ? mockVendorEnv(mock) : undefined, timeout_ms: timeout });
+    } catch (error) {
+      result.tests = [{ name: 'initialize', status: 'FAIL', message: errorMessage(error) }];
+    }
+
+    if (target) {
+      const run = new ProtocolRun(target, timeout);
+      try {
+        result.tests = await runProtocolTests(target, run, options, timeout);
+        result.server_info = target.client.getServerVersion() && {
+          name: target.client.getServerVersion()!.name,
+          version: target.client.getServerVersion()!.version
+        };
+        result.capabilities = Object.keys(target.client.getServerCapabilities() ?? {});
+        result.tools = target.tools.map(t => t.name);
+        result.calls = run.calls;
+      } finally {
+        result.server = { command: target.command, stderr: target.stderr().slice(-2000) };
+        await target.close();
+      }
+    }
+  } finally {
+    await mock?.close();
+  }
+
+  result.verdict = runtimeVerdict(result.tests);
+  return result;
+}
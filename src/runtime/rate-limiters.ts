@@ -0,0 +1,179 @@
+/**
+ * Vendor Rate Limiters
+ *
+ * In-memory implementations of the algorithms named in VENDOR_RATE_LIMITS,
+ * used by the mock vendor server to throttle like the real API would.
+ * Every limiter answers the same question for a request arriving at `now`:
+ * is it allowed, and if not, how long until it would be.
+ *
+ * tier_based vendors (Slack) are modelled as a fixed window at their tier
+ * limit and multi_layer vendors (Microsoft 365) as a sliding window at the
+ * outer limit. user_defined vendors (ServiceNow) have no default limit and
+ * are unlimited unless the caller configures one.
+ */
+
+import type { RateLimitConfig } from '../rules/rate-limit-rules.js';
+
+export type RateLimitAlgorithm = 'leaky_bucket' | 'sliding_window' | 'token_bucket' | 'fixed_window';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retry_after_ms: number;   // 0 when allowed
+}
+
+export interface VendorRateLimiter {
+  algorithm: RateLimitAlgorithm | 'unlimited';
+  take(now?: number): RateLimitDecision;
+  reset(): void;
+}
+
+/**
+ * Map a vendor's configured type onto the algorithm the mock enforces
+ */
+export function resolveRateLimitAlgorithm(type: RateLimitConfig['type']): RateLimitAlgorithm {
+  switch (type) {
+    case 'leaky_bucket':
+    case 'sliding_window':
+    case 'token_bucket':
+    case 'fixed_window':
+      return type;
+    case 'tier_based':
+      return 'fixed_window';
+    case 'multi_layer':
+    case 'user_defined':
+      return 'sliding_window';
+  }
+}
+
+function fixedWindow(limit: number, windowMs: number): VendorRateLimiter {
+  let windowStart = -Infinity;
+  let count = 0;
+
+  return {
+    algorithm: 'fixed_window',
+    take(now = Date.now()) {
+      if (now - windowStart >= windowMs) {
+        windowStart = now;
+        count = 0;
+      }
+      if (count < limit) {
+        count++;
+        return { allowed: true, limit, remaining: limit - count, retry_after_ms: 0 };
+      }
+      return { allowed: false, limit, remaining: 0, retry_after_ms: windowStart + windowMs - now };
+    },
+    reset() {
+      windowStart = -Infinity;
+      count = 0;
+    }
+  };
+}
+
+function slidingWindow(limit: number, windowMs: number): VendorRateLimiter {
+  let log: number[] = [];
+
+  return {
+    algorithm: 'sliding_window',
+    take(now = Date.now()) {
+      log = log.filter(at => now - at < windowMs);
+      if (log.length < limit) {
+        log.push(now);
+        return { allowed: true, limit, remaining: limit - log.length, retry_after_ms: 0 };
+      }
+      return { allowed: false, limit, remaining: 0, retry_after_ms: log[0] + windowMs - now };
+    },
+    reset() {
+      log = [];
+    }
+  };
+}
+
+/**
+ * Tokens refill continuously at limit/window; the bucket holds up to the
+ * burst limit, so short bursts above the steady rate are allowed
+ */
+function tokenBucket(limit: number, windowMs: number, capacity: number): VendorRateLimiter {
+  const refillPerMs = limit / windowMs;
+  let tokens = capacity;
+  let last: number | undefined;
+
+  return {
+    algorithm: 'token_bucket',
+    take(now = Date.now()) {
+      if (last !== undefined) {
+        tokens = Math.min(capacity, tokens + (now - last) * refillPerMs);
+      }
+      last = now;
+      if (tokens >= 1) {
+        tokens--;
+        return { allowed: true, limit: capacity, remaining: Math.floor(tokens), retry_after_ms: 0 };
+      }
+      return { allowed: false, limit: capacity, remaining: 0, retry_after_ms: Math.ceil((1 - tokens) / refillPerMs) };
+    },
+    reset() {
+      tokens = capacity;
+      last = undefined;
+    }
+  };
+}
+
+/**
+ * Each request adds one unit to the bucket, which drains at limit/window.
+ * A request that would overflow the bucket is rejected.
+ */
+function leakyBucket(limit: number, windowMs: number): VendorRateLimiter {
+  const leakPerMs = limit / windowMs;
+  let level = 0;
+  let last: number | undefined;
+
+  return {
+    algorithm: 'leaky_bucket',
+    take(now = Date.now()) {
+      if (last !== undefined) {
+        level = Math.max(0, level - (now - last) * leakPerMs);
+      }
+      last = now;
+      if (level + 1 <= limit) {
+        level++;
+        return { allowed: true, limit, remaining: Math.floor(limit - level), retry_after_ms: 0 };
+      }
+      return { allowed: false, limit, remaining: 0, retry_after_ms: Math.ceil((level + 1 - limit) / leakPerMs) };
+    },
+    reset() {
+      level = 0;
+      last = undefined;
+    }
+  };
+}
+
+function unlimited(): VendorRateLimiter {
+  return {
+    algorithm: 'unlimited',
+    take() {
+      return { allowed: true, limit: Infinity, remaining: Infinity, retry_after_ms: 0 };
+    },
+    reset() {}
+  };
+}
+
+/**
+ * Create the limiter a vendor's API enforces
+ */
+export function createVendorRateLimiter(config: RateLimitConfig): VendorRateLimiter {
+  if (config.limit <= 0 || config.window_ms <= 0) {
+    return unlimited();
+  }
+
+  switch (resolveRateLimitAlgorithm(config.type)) {
+    case 'leaky_bucket':
+      return leakyBucket(config.limit, config.window_ms);
+    case 'token_bucket':
+      return tokenBucket(config.limit, config.window_ms, config.burst_limit ?? config.limit);
+    case 'fixed_window':
+      return fixedWindow(config.limit, config.window_ms);
+    case 'sliding_window':
+      return slidingWindow(config.limit, config.window_ms);
+  }
+}
@@ -0,0 +1,474 @@
+/**
+ * Data Roundtrip Test
+ *
+ * Drives a create → read → update → read → delete cycle through the server
+ * under test's own MCP tools while it talks to the mock vendor, then
+ * compares every field written with what came back. Each field is written
+ * with a value chosen to expose a specific kind of loss:
+ *
+ *   decimal       1234.5678                    rounding, number → string (di-007)
+ *   integer       9007199254740991             float conversion
+ *   boolean       false                        falsy values dropped (di-008)
+ *   date_time     2024-02-29T23:59:59.123Z     milliseconds, time zone, date-only truncation
+ *   leading_zero  "00123" (zip, phone, code)   string → number coercion (di-007)
+ *   null / empty  optional fields              null and "" dropped or swapped (di-008)
+ *   text          unicode and emoji            mangled encoding
+ *
+ * A final create is answered with a 503 after the vendor has stored the
+ * record; retrying it without an Idempotency-Key creates a duplicate (di-001).
+ */
+
+import { saveConnectionTest } from '../database/index.js';
+import { SUPPORTED_VENDORS } from '../rules/index.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { runtimeVerdict, type ConnectionVerdict, type RuntimeTestResult } from './connection-test.js';
+import { connectTargetMcp, type TargetMcpClient, type ToolCallOutcome } from './mcp-client.js';
+import { startMockVendor, mockVendorEnv, type MockVendorServer } from './mock-vendor.js';
+
+const TEXT_PROBE = 'Linus roundtrip – ü 漢字 🚀';
+const EMAIL_PROBE = 'linus.roundtrip@example.com';
+const DECIMAL_PROBE = 1234.5678;
+const INTEGER_PROBE = 9007199254740991;
+const DATE_TIME_PROBE = '2024-02-29T23:59:59.123Z';
+const DATE_PROBE = '2024-02-29';
+const LEADING_ZERO_PROBE = '00123';
+
+export type CrudOperation = 'create' | 'read' | 'update' | 'delete';
+export type CrudTools = Partial<Record<CrudOperation, string>>;
+
+export type FieldProbe =
+  | 'text' | 'decimal' | 'integer' | 'boolean' | 'date' | 'date_time'
+  | 'leading_zero' | 'null' | 'empty' | 'enum';
+
+export type FieldIssue = 'type_coercion' | 'changed' | 'dropped' | 'null_lost' | 'empty_lost' | 'precision_lost';
+
+export interface FieldDiff {
+  field: string;
+  probe: FieldProbe;
+  written: unknown;
+  stored?: unknown;            // What the vendor received
+  read?: unknown;              // What the read tool returned
+  issue?: FieldIssue;          // Unset when the field survived the roundtrip
+}
+
+export interface RoundtripTestOptions {
+  vendor: string;
+  fixture?: string;
+  server_path: string;
+  inspection_id?: string;
+  tools?: CrudTools;           // Override tool discovery
+  timeout_ms?: number;         // Per MCP request
+}
+
+export interface RoundtripTestResult {
+  id: string;
+  vendor: string;
+  server_path: string;
+  verdict: ConnectionVerdict;
+  tests: RuntimeTestResult[];
+  tools: CrudTools;
+  collection?: string;         // Vendor collection the create tool wrote to
+  diffs: FieldDiff[];
+  server: { command?: string; stderr: string };
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  nullable?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+};
+
+const CRUD_VERBS: Record<CrudOperation, string[]> = {
+  create: ['create', 'add', 'insert', 'new'],
+  read: ['get', 'read', 'fetch', 'retrieve', 'find', 'show'],
+  update: ['update', 'edit', 'modify', 'patch'],
+  delete: ['delete', 'remove', 'destroy']
+};
+
+// Objects that commonly wrap a record's fields (HubSpot properties, Airtable fields...)
+const FIELD_CONTAINERS = ['properties', 'fields', 'attributes', 'data'];
+
+function schemaType(schema: JsonSchema): { type?: string; nullable: boolean; format?: string; enum?: unknown[] } {
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    const nonNull = variants.filter(v => v.type !== 'null');
+    const inner = schemaType(nonNull[0] ?? {});
+    return { ...inner, nullable: inner.nullable || nonNull.length < variants.length };
+  }
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return {
+    type: types.find(t => t !== 'null'),
+    nullable: types.includes('null') || schema.nullable === true,
+    format: schema.format,
+    enum: schema.enum
+  };
+}
+
+/**
+ * Pick the value that best exposes loss for one input field
+ */
+export function probeFor(name: string, schema: JsonSchema, required: boolean): { probe: FieldProbe; value: unknown } | undefined {
+  const { type, nullable, format, enum: values } = schemaType(schema);
+  if (values?.length) return { probe: 'enum', value: values[0] };
+  if (!required && nullable) return { probe: 'null', value: null };
+
+  switch (type) {
+    case 'number':
+      return { probe: 'decimal', value: DECIMAL_PROBE };
+    case 'integer':
+      return { probe: 'integer', value: INTEGER_PROBE };
+    case 'boolean':
+      return { probe: 'boolean', value: false };
+    case 'string':
+      if (format === 'date-time' || /(_at|At|datetime|timestamp)$/i.test(name)) return { probe: 'date_time', value: DATE_TIME_PROBE };
+      if (format === 'date' || /(date|birthday|dob)$/i.test(name)) return { probe: 'date', value: DATE_PROBE };
+      if (/zip|postal|phone|sku|code$|account_?number/i.test(name)) return { probe: 'leading_zero', value: LEADING_ZERO_PROBE };
+      if (format === 'email' || /email/i.test(name)) return { probe: 'text', value: EMAIL_PROBE };
+      return required ? { probe: 'text', value: TEXT_PROBE } : { probe: 'empty', value: '' };
+    default:
+      return undefined;
+  }
+}
+
+function splitName(name: string): string[] {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase().split(/[_\-.\s]+/).filter(Boolean);
+}
+
+function idArgument(tool: Tool): string | undefined {
+  const schema = tool.inputSchema as JsonSchema;
+  const candidates = [...(schema.required ?? []), ...Object.keys(schema.properties ?? {})];
+  return candidates.find(p => /^id$|_id$|[a-z]Id$/.test(p));
+}
+
+/**
+ * Map the server's tools to create/read/update/delete by verb, preferring
+ * tools about the same noun as the create tool
+ */
+export function findCrudTools(tools: Tool[], overrides: CrudTools = {}): CrudTools {
+  const classified = tools.map(tool => {
+    const words = splitName(tool.name);
+    for (const [operation, verbs] of Object.entries(CRUD_VERBS) as Array<[CrudOperation, string[]]>) {
+      const index = words.findIndex(word => verbs.includes(word));
+      if (index !== -1) {
+        const noun = words.filter((_, i) => i !== index).join('_').replace(/s$/, '');
+        return { tool, operation, noun };
+      }
+    }
+    return { tool, operation: undefined, noun: '' };
+  });
+
+  const create = overrides.create ?? classified.find(c => c.operation === 'create')?.tool.name;
+  const noun = classified.find(c => c.tool.name === create)?.noun;
+  const pick = (operation: CrudOperation) => {
+    if (overrides[operation]) return overrides[operation];
+    const candidates = classified.filter(c => c.operation === operation && idArgument(c.tool));
+    return (candidates.find(c => c.noun === noun) ?? candidates[0])?.tool.name;
+  };
+
+  return { create, read: pick('read'), update: pick('update'), delete: pick('delete') };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The record in a tool result: the first object (up to two levels deep) with an id
+ */
+function findRecord(value: unknown, depth = 0): Record<string, unknown> | undefined {
+  if (!isObject(value)) return undefined;
+  if ('id' in value || 'Id' in value) return value;
+  if (depth >= 2) return undefined;
+  for (const nested of Object.values(value)) {
+    const found = findRecord(nested, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function lookupField(record: Record<string, unknown> | undefined, field: string): { found: boolean; value?: unknown } {
+  if (!record) return { found: false };
+  if (Object.prototype.hasOwnProperty.call(record, field)) return { found: true, value: record[field] };
+  for (const container of FIELD_CONTAINERS) {
+    const nested = record[container];
+    if (isObject(nested) && Object.prototype.hasOwnProperty.call(nested, field)) {
+      return { found: true, value: nested[field] };
+    }
+  }
+  return { found: false };
+}
+
+const isEmpty = (value: unknown) => value === '' || value === false || value === 0 || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Classify how a written value differs from what was read back
+ */
+export function compareField(probe: FieldProbe, written: unknown, read: { found: boolean; value?: unknown }): FieldIssue | undefined {
+  if (read.found && JSON.stringify(read.value) === JSON.stringify(written)) return undefined;
+
+  if (!read.found || read.value === undefined) {
+    if (written === null) return 'null_lost';
+    return isEmpty(written) ? 'empty_lost' : 'dropped';
+  }
+  const value = read.value;
+  if (written === null) return 'null_lost';
+  if (isEmpty(written) && value === null) return 'empty_lost';
+  if (typeof written !== typeof value || Array.isArray(written) !== Array.isArray(value)) return 'type_coercion';
+
+  if (typeof written === 'number' && typeof value === 'number') {
+    return Math.abs(written - value) < 1 || Math.abs(written - value) / Math.abs(written) < 1e-9 ? 'precision_lost' : 'changed';
+  }
+  if (probe === 'date' || probe === 'date_time') {
+    const readAt = Date.parse(String(value));
+    if (Number.isNaN(readAt)) return 'changed';
+    return readAt === Date.parse(String(written)) ? undefined : 'precision_lost';
+  }
+  if (probe === 'leading_zero' && String(value) === String(Number(written))) return 'type_coercion';
+  return 'changed';
+}
+
+function issueTest(
+  name: string,
+  ruleIds: string[],
+  diffs: FieldDiff[],
+  issues: FieldIssue[],
+  passMessage: string
+): RuntimeTestResult {
+  const failed = diffs.filter(d => d.issue && issues.includes(d.issue));
+  return failed.length > 0
+    ? {
+      name,
+      rule_ids: ruleIds,
+      status: 'FAIL',
+      message: failed.map(d => `${d.field}: ${JSON.stringify(d.written)} → ${d.read === undefined ? 'missing' : JSON.stringify(d.read)}`).join('; '),
+      details: { diffs: failed }
+    }
+    : { name, rule_ids: ruleIds, status: 'PASS', message: passMessage };
+}
+
+function describeOutcome(outcome: ToolCallOutcome): string {
+  return outcome.text.length > 200 ? `${outcome.text.slice(0, 200)}...` : outcome.text;
+}
+
+/**
+ * Run the CRUD cycle and the duplicate-create probe; returns the tests past server_start
+ */
+async function runCycle(
+  target: TargetMcpClient,
+  mock: MockVendorServer,
+  crud: CrudTools,
+  state: { collection?: string; diffs: FieldDiff[] }
+): Promise<RuntimeTestResult[]> {
+  const byName = new Map(target.tools.map(tool => [tool.name, tool]));
+  const createTool = byName.get(crud.create!)!;
+  const schema = createTool.inputSchema as JsonSchema;
+  const required = new Set(schema.required ?? []);
+
+  const payload: Record<string, unknown> = {};
+  const probes = new Map<string, FieldProbe>();
+  for (const [field, fieldSchema] of Object.entries(schema.properties ?? {})) {
+    const probe = probeFor(field, fieldSchema, required.has(field));
+    if (!probe) continue;
+    payload[field] = probe.value;
+    probes.set(field, probe.probe);
+  }
+
+  // Create
+  const requestsBefore = mock.requests.length;
+  const created = await target.call(crud.create!, payload);
+  const post = mock.requests.slice(requestsBefore).find(r => r.method === 'POST' && r.path.startsWith('/api/'));
+  state.collection = post?.path.split('/')[2];
+  if (created.is_error || !post || !state.collection) {
+    return [{
+      name: 'create',
+      status: 'FAIL',
+      message: created.is_error
+        ? `${crud.create} returned an error: ${describeOutcome(created)}`
+        : `${crud.create} did not create anything at the vendor`,
+      details: { arguments: payload }
+    }];
+  }
+
+  const stored = mock.records(state.collection);
+  const recordId = String(findRecord(created.value)?.id ?? findRecord(created.value)?.Id ?? stored[stored.length - 1]?.id);
+  const storedRecord = () => mock.records(state.collection!).find(r => r.id === recordId);
+  const tests: RuntimeTestResult[] = [
+    { name: 'create', status: 'PASS', message: `${crud.create} created ${state.collection}/${recordId}` }
+  ];
+
+  // Read back and diff every field
+  const read = async () => {
+    if (!crud.read) return undefined;
+    const outcome = await target.call(crud.read, { [idArgument(byName.get(crud.read)!)!]: recordId });
+    return outcome.is_error ? undefined : findRecord(outcome.value);
+  };
+  const readRecord = crud.read ? await read() : storedRecord();
+  for (const [field, probe] of probes) {
+    const readValue = lookupField(readRecord, field);
+    state.diffs.push({
+      field,
+      probe,
+      written: payload[field],
+      stored: lookupField(storedRecord(), field).value,
+      read: readValue.value,
+      issue: compareField(probe, payload[field], readValue)
+    });
+  }
+
+  if (!readRecord) {
+    tests.push({ name: 'read', status: 'FAIL', message: `${crud.read} did not return ${state.collection}/${recordId}` });
+  } else {
+    tests.push(
+      issueTest('type_coercion', ['di-007'], state.diffs, ['type_coercion', 'changed', 'dropped'],
+        `${probes.size} field(s) kept their type and value`),
+      issueTest('null_empty', ['di-008'], state.diffs, ['null_lost', 'empty_lost'],
+        'Null, empty and falsy values survived the roundtrip'),
+      issueTest('precision', ['di-007'], state.diffs, ['precision_lost'],
+        'Decimals and dates kept their precision')
+    );
+  }
+
+  // Update one text field; the rest must be left alone
+  const updateTool = crud.update ? byName.get(crud.update) : undefined;
+  const updateProperties = Object.keys((updateTool?.inputSchema as JsonSchema | undefined)?.properties ?? {});
+  const updateField = [...probes].find(([field, probe]) => (probe === 'text' || probe === 'empty') && updateProperties.includes(field))?.[0];
+  if (!updateTool || !updateField) {
+    tests.push({ name: 'update', status: 'SKIP', message: updateTool ? `${crud.update} takes none of the created text fields` : 'No update tool found' });
+  } else {
+    const value = `${TEXT_PROBE} (updated)`;
+    const outcome = await target.call(updateTool.name, { [idArgument(updateTool)!]: recordId, [updateField]: value });
+    const after = outcome.is_error ? undefined : crud.read ? await read() : storedRecord();
+    const lost = state.diffs
+      .filter(d => d.field !== updateField && !d.issue && compareField(d.probe, d.written, lookupField(after, d.field)))
+      .map(d => d.field);
+    if (!after || lookupField(after, updateField).value !== value) {
+      tests.push({ name: 'update', status: 'FAIL', message: `${updateField} did not read back as updated${outcome.is_error ? `: ${describeOutcome(outcome)}` : ''}` });
+    } else if (lost.length > 0) {
+      tests.push({ name: 'update', rule_ids: ['di-008'], status: 'FAIL', message: `Updating ${updateField} changed other fields: ${lost.join(', ')}`, details: { fields: lost } });
+    } else {
+      tests.push({ name: 'update', status: 'PASS', message: `${crud.update} updated ${updateField} and left other fields intact` });
+    }
+  }
+
+  // Delete
+  if (!crud.delete) {
+    tests.push({ name: 'delete', status: 'SKIP', message: 'No delete tool found' });
+  } else {
+    const deleteTool = byName.get(crud.delete)!;
+    const outcome = await target.call(deleteTool.name, { [idArgument(deleteTool)!]: recordId });
+    tests.push(!storedRecord()
+      ? { name: 'delete', status: 'PASS', message: `${crud.delete} deleted ${state.collection}/${recordId}` }
+      : { name: 'delete', status: 'FAIL', message: `${state.collection}/${recordId} still exists at the vendor${outcome.is_error ? `: ${describeOutcome(outcome)}` : ''}` });
+  }
+
+  // Create again, losing the vendor's response after it stored the record
+  const recordsBefore = new Set(mock.records(state.collection).map(r => r.id));
+  const postsBefore = mock.requests.length;
+  mock.injectFault({ method: 'POST', collection: state.collection, status: 503, commit: true });
+  await target.call(crud.create!, payload).catch(() => undefined);
+  const posts = mock.requests.slice(postsBefore).filter(r => r.method === 'POST' && r.path === `/api/${state.collection}`);
+  const duplicates = mock.records(state.collection).filter(r => !recordsBefore.has(r.id));
+  const keys = [...new Set(posts.map(p => p.idempotency_key))];
+  const details = { attempts: posts.length, records_created: duplicates.length, idempotency_keys: keys };
+
+  if (posts.length <= 1) {
+    tests.push({ name: 'idempotent_retry', rule_ids: ['di-001'], status: 'SKIP', message: 'Server did not retry a create that failed with 503', details });
+  } else if (duplicates.length > 1) {
+    tests.push({
+      name: 'idempotent_retry',
+      rule_ids: ['di-001'],
+      status: 'FAIL',
+      message: keys.includes(undefined)
+        ? `Retried a create without an Idempotency-Key; ${duplicates.length} records created`
+        : `Retried a create with a new Idempotency-Key each time; ${duplicates.length} records created`,
+      details
+    });
+  } else {
+    tests.push({ name: 'idempotent_retry', rule_ids: ['di-001'], status: 'PASS', message: `Retried ${posts.length - 1} time(s) with the same Idempotency-Key; one record created`, details });
+  }
+
+  return tests;
+}
+
+/**
+ * Create, read, update and delete a record through the server's tools and
+ * check every field survived
+ */
+export async function testDataRoundtrip(options: RoundtripTestOptions): Promise<RoundtripTestResult> {
+  const vendor = options.vendor.toLowerCase();
+  if (!SUPPORTED_VENDORS.includes(vendor as any)) {
+    throw new Error(`Unsupported vendor: ${options.vendor}. Supported: ${SUPPORTED_VENDORS.join(', ')}`);
+  }
+
+  const mock = await startMockVendor({ vendor, fixture: options.fixture });
+  const state: { collection?: string; diffs: FieldDiff[] } = { diffs: [] };
+  let crud: CrudTools = {};
+  let tests: RuntimeTestResult[] = [];
+  let server: RoundtripTestResult['server'] = { stderr: '' };
+
+  try {
+    let target: TargetMcpClient | undefined;
+    try {
+      target = await connectTargetMcp({ server_path: options.server_path, env: mockVendorEnv(mock), timeout_ms: options.timeout_ms });
+    } catch (error: any) {
+      tests = [{ name: 'server_start', status: 'FAIL', message: error.message }];
+    }
+
+    if (target) {
+      try {
+        crud = findCrudTools(target.tools, options.tools);
+        tests = [{ name: 'server_start', status: 'PASS', message: `MCP server exposes ${target.tools.length} tool(s)` }];
+        if (!crud.create || !target.tools.some(t => t.name === crud.create)) {
+          tests.push({
+            name: 'crud_tools',
+            status: 'SKIP',
+            message: crud.create ? `Tool not found: ${crud.create}` : 'No create tool found; pass tools.create to choose one',
+            details: { tools: target.tools.map(t => t.name) }
+          });
+        } else {
+          tests.push({ name: 'crud_tools', status: 'PASS', message: Object.entries(crud).filter(([, name]) => name).map(([op, name]) => `${op}: ${name}`).join(', ') });
+          tests.push(...await runCycle(target, mock, crud, state).catch((error: Error): RuntimeTestResult[] => [
+            { name: 'roundtrip', status: 'FAIL', message: `Tool call failed: ${error.message}` }
+          ]));
+        }
+      } finally {
+        server = { command: target.command, stderr: target.stderr().slice(-2000) };
+        await target.close();
+      }
+    }
+  } finally {
+    await mock.close();
+  }
+
+  const verdict = runtimeVerdict(tests);
+  const record = saveConnectionTest({
+    inspection_id: options.inspection_id,
+    server_path: options.server_path,
+    test_mode: 'full',
+    use_sandbox: true,
+    verdict,
+    tests: tests,
+    performance: {
+      collection: state.collection,
+      fields: state.diffs.length,
+      lossy_fields: state.diffs.filter(d => d.issue).length
+    }
+  });
+
+  return {
+    id: record.id,
+    vendor,
+    server_path: options.server_path,
+    verdict,
+    tests: tests,
+    tools: crud,
+    collection: state.collection,
+    diffs: state.diffs,
+    server
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Target Server Process
+ *
+ * Starts the server under test as a child process so runtime tests can
+ * observe it. The start command comes from package.json (`scripts.start`),
+ * falling back to dist/index.js or index.js. `node <file>` start scripts are
+ * run with the current Node binary directly; anything else goes through
+ * `npm run start`.
+ *
+ * stdin is kept open: MCP stdio servers exit as soon as it closes.
+ *
+ * Outside Windows the server gets its own process group, and stop() signals
+ * the whole group: under `npm run start` the real server is a grandchild
+ * that would otherwise outlive npm, keeping its port and mock vendor env.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { createConnection, createServer, type AddressInfo } from 'net';
+import { join } from 'path';
+
+const OUTPUT_LIMIT = 64 * 1024;
+const OUTPUT_TAIL_CHARS = 2000;
+const STOP_GRACE_MS = 2000;
+const STOP_POLL_MS = 50;
+const PORT_POLL_MS = 100;
+const OWN_PROCESS_GROUP = process.platform !== 'win32';
+
+export interface StartCommand {
+  command: string;
+  args: string[];
+  shell: boolean;
+}
+
+export interface TargetServerOptions {
+  server_path: string;
+  env?: Record<string, string>;
+}
+
+export interface TargetServer {
+  pid?: number;
+  command: string;            // Human-readable command line
+  started_at: number;
+  process: ChildProcess;
+  stdout(): string;
+  stderr(): string;
+  exitCode(): number | null;  // null while running
+  waitForExit(timeoutMs: number): Promise<number | null>;
+  stop(): Promise<void>;
+}
+
+export interface TargetRun {
+  command: string;
+  started_at: number;
+  ended_at: number;
+  exit_code: number | null;   // null if still running when observation ended
+  stderr: string;             // Last 2000 characters
+}
+
+/**
+ * Work out how to start a server from its package.json
+ */
+export function resolveStartCommand(serverPath: string): StartCommand {
+  const packagePath = join(serverPath, 'package.json');
+  if (existsSync(packagePath)) {
+    let pkg: any;
+    try {
+      pkg = JSON.parse(readFileSync(packagePath, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Invalid package.json in ${serverPath}: ${error.message}`);
+    }
+
+    const start: string | undefined = pkg.scripts?.start;
+    const direct = start?.match(/^node\s+(\S+)$/);
+    if (direct) {
+      if (!existsSync(join(serverPath, direct[1]))) {
+        throw new Error(`Start script target not found: ${direct[1]} (build the server first)`);
+      }
+      return { command: process.execPath, args: [direct[1]], shell: false };
+    }
+    if (start) {
+      return { command: 'npm', args: ['run', 'start', '--silent'], shell: process.platform === 'win32' };
+    }
+    if (typeof pkg.main === 'string' && existsSync(join(serverPath, pkg.main))) {
+      return { command: process.execPath, args: [pkg.main], shell: false };
+    }
+  }
+
+  for (const candidate of ['dist/index.js', 'index.js']) {
+    if (existsSync(join(serverPath, candidate))) {
+      return { command: process.execPath, args: [candidate], shell: false };
+    }
+  }
+
+  throw new Error(`No start command found for ${serverPath}: add a start script to package.json`);
+}
+
+/**
+ * Start the server under test with extra environment variables
+ */
+export function startTargetServer(options: TargetServerOptions): TargetServer {
+  if (!existsSync(options.server_path)) {
+    throw new Error(`server_path does not exist: ${options.server_path}`);
+  }
+
+  const start = resolveStartCommand(options.server_path);
+  const child = spawn(start.command, start.args, {
+    cwd: options.server_path,
+    env: { ...process.env, ...options.env },
+    stdio: ['pipe', 'pipe', 'pipe'],
+    shell: start.shell,
+    detached: OWN_PROCESS_GROUP
+  });
+
+  let stdout = '';
+  let stderr = '';
+  let exitCode: number | null = null;
+  const exited = new Promise<void>(resolve => {
+    child.on('exit', (code, signal) => {
+      exitCode = code ?? (signal ? 128 : 1);
+      resolve();
+    });
+    child.on('error', (error) => {
+      stderr += `${error.message}\n`;
+      exitCode = exitCode ?? 127;
+      resolve();
+    });
+  });
+
+  child.stdout!.on('data', (chunk: Buffer) => {
+    if (stdout.length < OUTPUT_LIMIT) stdout += chunk.toString('utf-8');
+  });
+  child.stderr!.on('data', (chunk: Buffer) => {
+    if (stderr.length < OUTPUT_LIMIT) stderr += chunk.toString('utf-8');
+  });
+
+  const waitForExit = async (timeoutMs: number): Promise<number | null> => {
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([exited, new Promise(resolve => { timer = setTimeout(resolve, timeoutMs); })]);
+    clearTimeout(timer);
+    return exitCode;
+  };
+
+  // The process group outlives the child when npm exits before the server
+  const running = (): boolean => {
+    if (!OWN_PROCESS_GROUP || child.pid === undefined) return exitCode === null;
+    try {
+      process.kill(-child.pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const signal = (name: NodeJS.Signals): void => {
+    try {
+      if (OWN_PROCESS_GROUP && child.pid !== undefined) {
+        process.kill(-child.pid, name);
+      } else {
+        child.kill(name);
+      }
+    } catch {
+      // Already gone
+    }
+  };
+
+  const waitForStop = async (timeoutMs: number): Promise<boolean> => {
+    const deadline = Date.now() + timeoutMs;
+    while (running() && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, STOP_POLL_MS));
+    }
+    if (running()) return false;
+    await waitForExit(STOP_GRACE_MS);
+    return true;
+  };
+
+  return {
+    pid: child.pid,
+    command: [start.command === process.execPath ? 'node' : start.command, ...start.args].join(' '),
+    started_at: Date.now(),
+    process: child,
+    stdout: () => stdout,
+    stderr: () => stderr,
+    exitCode: () => exitCode,
+    waitForExit,
+    async stop() {
+      if (!running()) return;
+      child.stdin!.end();
+      signal('SIGTERM');
+      if (!await waitForStop(STOP_GRACE_MS)) {
+        signal('SIGKILL');
+        await waitForStop(STOP_GRACE_MS);
+      }
+    }
+  };
+}
+
+/**
+ * Snapshot a running (or exited) server as a TargetRun
+ */
+export function targetRun(target: TargetServer): TargetRun {
+  const stderr = target.stderr();
+  return {
+    command: target.command,
+    started_at: target.started_at,
+    ended_at: Date.now(),
+    exit_code: target.exitCode(),
+    stderr: stderr.length > OUTPUT_TAIL_CHARS ? stderr.slice(-OUTPUT_TAIL_CHARS) : stderr
+  };
+}
+
+/**
+ * Start the server, observe it for `settle_ms` (or until it exits), then stop it
+ */
+export async function runTargetServer(options: TargetServerOptions & { settle_ms: number }): Promise<TargetRun> {
+  const target = startTargetServer(options);
+  try {
+    await target.waitForExit(options.settle_ms);
+    return targetRun(target);
+  } finally {
+    await target.stop();
+  }
+}
+
+/**
+ * HTTP port from config/interlock.json, in any of the formats
+ * checkIntegration accepts (ports.http, http_port, server.httpPort)
+ */
+export function configuredHttpPort(serverPath: string): number | undefined {
+  try {
+    const config = JSON.parse(readFileSync(join(serverPath, 'config', 'interlock.json'), 'utf-8'));
+    const port = config.ports?.http || config.http_port || config.server?.httpPort;
+    return typeof port === 'number' ? port : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ask the OS for a free localhost port
+ */
+export async function findFreePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const port = (server.address() as AddressInfo).port;
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  return port;
+}
+
+function canConnect(port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = createConnection({ port, host: '127.0.0.1' });
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+/**
+ * Wait until the server accepts connections on a port.
+ * Resolves false if it exits or the timeout passes first.
+ */
+export async function waitForPort(target: TargetServer, port: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (target.exitCode() !== null) return false;
+    if (await canConnect(port)) return true;
+    await target.waitForExit(PORT_POLL_MS);
+  }
+  return false;
+}
@@ -0,0 +1,124 @@
+/**
+ * Throttling Proxy
+ *
+ * An HTTP proxy placed between the server under test and its vendor API
+ * (normally the mock vendor). It enforces a vendor rate-limit algorithm in
+ * front of the upstream, answers 429 when the limit is exceeded and records
+ * the arrival time of every attempt, so retry timing can be measured rather
+ * than guessed from source code.
+ *
+ * In 'persistent' mode the proxy keeps answering 429 once the limit has been
+ * hit, which forces the server through its whole retry schedule.
+ */
+
+import { createServer, request as httpRequest, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { RateLimitConfig } from '../rules/rate-limit-rules.js';
+import { createVendorRateLimiter } from './rate-limiters.js';
+
+export type ThrottleMode = 'algorithm' | 'persistent';
+
+export interface ThrottlingProxyOptions {
+  upstream: string;                // Origin that allowed requests are forwarded to
+  rate_limit: RateLimitConfig;
+  retry_after?: boolean;           // Send Retry-After on 429s (default true)
+  mode?: ThrottleMode;             // Default 'algorithm'
+}
+
+export interface ProxyAttempt {
+  at: number;                      // Epoch ms when the attempt arrived
+  method: string;
+  path: string;
+  status: number;
+  throttled: boolean;
+  retry_after_ms?: number;         // Advertised Retry-After, when sent
+}
+
+export interface ThrottlingProxy {
+  url: string;
+  attempts: ProxyAttempt[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a throttling proxy on localhost
+ */
+export async function startThrottlingProxy(options: ThrottlingProxyOptions): Promise<ThrottlingProxy> {
+  const upstream = new URL(options.upstream);
+  const limiter = createVendorRateLimiter(options.rate_limit);
+  const sendRetryAfter = options.retry_after ?? true;
+  const attempts: ProxyAttempt[] = [];
+  let throttling = false;
+
+  function throttle(res: ServerResponse, attempt: ProxyAttempt, retryAfterMs: number): void {
+    attempt.status = 429;
+    attempt.throttled = true;
+    const headers: Record<string, string | number> = { 'Content-Type': 'application/json' };
+    if (sendRetryAfter) {
+      const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+      headers['Retry-After'] = seconds;
+      attempt.retry_after_ms = seconds * 1000;
+    }
+    res.writeHead(429, headers);
+    res.end(JSON.stringify({ error: 'rate_limited', message: 'Rate limit exceeded' }));
+  }
+
+  function forward(req: IncomingMessage, res: ServerResponse, attempt: ProxyAttempt): void {
+    const proxied = httpRequest({
+      hostname: upstream.hostname,
+      port: upstream.port,
+      method: req.method,
+      path: req.url,
+      headers: { ...req.headers, host: upstream.host }
+    }, (upstreamRes) => {
+      attempt.status = upstreamRes.statusCode ?? 502;
+      res.writeHead(attempt.status, upstreamRes.headers);
+      upstreamRes.pipe(res);
+    });
+    proxied.on('error', (error) => {
+      attempt.status = 502;
+      if (!res.headersSent) res.writeHead(502, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'bad_gateway', message: error.message }));
+    });
+    req.pipe(proxied);
+  }
+
+  const server = createServer((req, res) => {
+    const attempt: ProxyAttempt = {
+      at: Date.now(),
+      method: req.method ?? 'GET',
+      path: (req.url ?? '/').split('?')[0],
+      status: 0,
+      throttled: false
+    };
+    attempts.push(attempt);
+
+    if (throttling) {
+      req.resume();
+      return throttle(res, attempt, options.rate_limit.window_ms);
+    }
+
+    const decision = limiter.take(attempt.at);
+    if (!decision.allowed) {
+      throttling = options.mode === 'persistent';
+      req.resume();
+      return throttle(res, attempt, decision.retry_after_ms);
+    }
+    forward(req, res, attempt);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    attempts,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
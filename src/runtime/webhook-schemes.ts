@@ -0,0 +1,193 @@
+/**
+ * Webhook Schemes
+ *
+ * How each vendor shapes and signs its webhook deliveries, so the runtime
+ * tests can send the server exactly what the real vendor would:
+ *
+ *   stripe     Stripe-Signature: t=<unix>,v1=hex(HMAC(secret, "<t>.<body>"))
+ *   slack      X-Slack-Signature: v0=hex(HMAC(secret, "v0:<ts>:<body>")) + X-Slack-Request-Timestamp
+ *   hubspot    X-HubSpot-Signature-v3: base64(HMAC(secret, method + url + body + <ms>)) + X-HubSpot-Request-Timestamp
+ *   shopify    X-Shopify-Hmac-SHA256: base64(HMAC(secret, body)); no signed timestamp
+ *   zendesk    X-Zendesk-Webhook-Signature: base64(HMAC(secret, <ts> + body)) + ...-Timestamp
+ *   quickbooks intuit-signature: base64(HMAC(verifier token, body)); no signed timestamp
+ *
+ * Salesforce outbound messages are not HMAC-signed, so it has no scheme.
+ */
+
+import { createHmac } from 'crypto';
+
+export interface WebhookEvent {
+  event_id: string;
+  event_type: string;
+  object_id: string;
+  occurred_at: number;       // Epoch ms the change happened
+  attempt?: number;          // 0 for the first delivery, >0 for vendor retries
+}
+
+export interface SignOptions {
+  timestamp: number;         // Epoch ms the delivery is signed at
+  method: string;
+  url: string;
+}
+
+export interface WebhookScheme {
+  vendor: string;
+  collection: string;        // Mock vendor collection the events refer to
+  update_event: string;      // Event type sent when an object changes
+  signature_header: string;
+  signs_timestamp: boolean;  // Whether replayed deliveries can be detected from the signature
+  payload(event: WebhookEvent): { body: string; headers: Record<string, string> };
+  sign(body: string, secret: string, options: SignOptions): Record<string, string>;
+}
+
+function hmac(secret: string, data: string, encoding: 'hex' | 'base64'): string {
+  return createHmac('sha256', secret).update(data).digest(encoding);
+}
+
+const seconds = (ms: number) => Math.floor(ms / 1000);
+
+export const WEBHOOK_SCHEMES: Record<string, WebhookScheme> = {
+  stripe: {
+    vendor: 'stripe',
+    collection: 'customers',
+    update_event: 'customer.updated',
+    signature_header: 'Stripe-Signature',
+    signs_timestamp: true,
+    payload: (event) => ({
+      headers: {},
+      body: JSON.stringify({
+        id: event.event_id,
+        object: 'event',
+        type: event.event_type,
+        created: seconds(event.occurred_at),
+        data: { object: { id: event.object_id, object: 'customer' } }
+      })
+    }),
+    sign: (body, secret, { timestamp }) => {
+      const t = seconds(timestamp);
+      return { 'Stripe-Signature': `t=${t},v1=${hmac(secret, `${t}.${body}`, 'hex')}` };
+    }
+  },
+
+  slack: {
+    vendor: 'slack',
+    collection: 'messages',
+    update_event: 'message',
+    signature_header: 'X-Slack-Signature',
+    signs_timestamp: true,
+    payload: (event) => ({
+      headers: event.attempt
+        ? { 'X-Slack-Retry-Num': String(event.attempt), 'X-Slack-Retry-Reason': 'http_timeout' }
+        : {} as Record<string, string>,
+      body: JSON.stringify({
+        type: 'event_callback',
+        event_id: event.event_id,
+        event_time: seconds(event.occurred_at),
+        event: { type: event.event_type, ts: String(event.occurred_at / 1000), client_msg_id: event.object_id }
+      })
+    }),
+    sign: (body, secret, { timestamp }) => {
+      const ts = seconds(timestamp);
+      return {
+        'X-Slack-Request-Timestamp': String(ts),
+        'X-Slack-Signature': `v0=${hmac(secret, `v0:${ts}:${body}`, 'hex')}`
+      };
+    }
+  },
+
+  hubspot: {
+    vendor: 'hubspot',
+    collection: 'contacts',
+    update_event: 'contact.propertyChange',
+    signature_header: 'X-HubSpot-Signature-v3',
+    signs_timestamp: true,
+    payload: (event) => ({
+      headers: {},
+      body: JSON.stringify([{
+        eventId: event.event_id,
+        subscriptionType: event.event_type,
+        objectId: event.object_id,
+        occurredAt: event.occurred_at,
+        attemptNumber: event.attempt ?? 0
+      }])
+    }),
+    sign: (body, secret, { timestamp, method, url }) => ({
+      'X-HubSpot-Request-Timestamp': String(timestamp),
+      'X-HubSpot-Signature-v3': hmac(secret, `${method}${url}${body}${timestamp}`, 'base64')
+    })
+  },
+
+  shopify: {
+    vendor: 'shopify',
+    collection: 'orders',
+    update_event: 'orders/updated',
+    signature_header: 'X-Shopify-Hmac-SHA256',
+    signs_timestamp: false,
+    payload: (event) => ({
+      headers: {
+        'X-Shopify-Topic': event.event_type,
+        'X-Shopify-Webhook-Id': event.event_id,
+        'X-Shopify-Event-Id': event.event_id,
+        'X-Shopify-Triggered-At': new Date(event.occurred_at).toISOString()
+      },
+      body: JSON.stringify({ id: event.object_id, updated_at: new Date(event.occurred_at).toISOString() })
+    }),
+    sign: (body, secret) => ({ 'X-Shopify-Hmac-SHA256': hmac(secret, body, 'base64') })
+  },
+
+  zendesk: {
+    vendor: 'zendesk',
+    collection: 'tickets',
+    update_event: 'ticket.updated',
+    signature_header: 'X-Zendesk-Webhook-Signature',
+    signs_timestamp: true,
+    payload: (event) => ({
+      headers: {},
+      body: JSON.stringify({
+        id: event.event_id,
+        type: event.event_type,
+        time: new Date(event.occurred_at).toISOString(),
+        detail: { id: event.object_id }
+      })
+    }),
+    sign: (body, secret, { timestamp }) => {
+      const ts = new Date(timestamp).toISOString();
+      return {
+        'X-Zendesk-Webhook-Signature-Timestamp': ts,
+        'X-Zendesk-Webhook-Signature': hmac(secret, `${ts}${body}`, 'base64')
+      };
+    }
+  },
+
+  quickbooks: {
+    vendor: 'quickbooks',
+    collection: 'invoices',
+    update_event: 'Update',
+    signature_header: 'intuit-signature',
+    signs_timestamp: false,
+    payload: (event) => ({
+      headers: {},
+      body: JSON.stringify({
+        eventNotifications: [{
+          realmId: 'mock-realm',
+          dataChangeEvent: {
+            entities: [{
+              name: 'Invoice',
+              id: event.object_id,
+              operation: event.event_type,
+              lastUpdated: new Date(event.occurred_at).toISOString()
+            }]
+          }
+        }]
+      })
+    }),
+    sign: (body, secret) => ({ 'intuit-signature': hmac(secret, body, 'base64') })
+  }
+};
+
+/**
+ * Get the webhook scheme for a vendor, if it signs webhooks
+ */
+export function getWebhookScheme(vendor: string): WebhookScheme | null {
+  return WEBHOOK_SCHEMES[vendor.toLowerCase()] || null;
+}
@@ -0,0 +1,297 @@
+/**
+ * Webhook Delivery Test
+ *
+ * Plays the vendor: starts the server under test against the mock vendor,
+ * then sends it webhook deliveries signed with the vendor's real scheme
+ * (see webhook-schemes.ts). Alongside a correctly signed delivery it sends
+ * tampered and unsigned deliveries, a replayed timestamp, a vendor retry of
+ * an event it already delivered, two events out of order and one delivered
+ * while the vendor API is slow. The server's responses, plus the API calls
+ * it makes back to the mock vendor, show which of wh-002..wh-008 it defends
+ * against at runtime.
+ */
+
+import { randomBytes } from 'crypto';
+import { saveConnectionTest } from '../database/index.js';
+import { getVendorWebhookConfig } from '../rules/index.js';
+import { runtimeVerdict, type ConnectionVerdict, type RuntimeTestResult } from './connection-test.js';
+import { startMockVendor, mockVendorEnv, type MockVendorServer } from './mock-vendor.js';
+import { configuredHttpPort, findFreePort, startTargetServer, waitForPort } from './target-server.js';
+import { WEBHOOK_SCHEMES, getWebhookScheme, type WebhookEvent, type WebhookScheme } from './webhook-schemes.js';
+
+const DEFAULT_STARTUP_TIMEOUT_MS = 10000;
+const DEFAULT_OBSERVE_MS = 500;
+const REPLAY_AGE_MS = 10 * 60 * 1000;     // Beyond every vendor's 5 minute tolerance
+const SLOW_API_MARGIN_MS = 500;
+
+export interface WebhookTestOptions {
+  vendor: string;
+  fixture?: string;
+  server_path: string;
+  inspection_id?: string;
+  port?: number;                 // Default: ports.http from config/interlock.json, else a free port passed as PORT
+  webhook_path?: string;         // Default /webhooks/<vendor>
+  secret?: string;               // Passed to the server as <VENDOR>_WEBHOOK_SECRET
+  timeout_ms?: number;           // Override the vendor's delivery timeout
+  startup_timeout_ms?: number;
+  observe_ms?: number;           // Wait after each delivery for the server's follow-up API calls
+}
+
+export type DeliveryScenario = 'valid' | 'tampered' | 'unsigned' | 'replayed' | 'retry' | 'newer' | 'older' | 'slow';
+
+export interface WebhookDeliveryLog {
+  scenario: DeliveryScenario;
+  event_id: string;
+  status?: number;
+  duration_ms: number;
+  error?: string;
+}
+
+export interface WebhookTestResult {
+  id: string;
+  vendor: string;
+  server_path: string;
+  webhook_url: string;
+  verdict: ConnectionVerdict;
+  tests: RuntimeTestResult[];
+  deliveries: WebhookDeliveryLog[];
+}
+
+const accepted = (d?: WebhookDeliveryLog) => d?.status !== undefined && d.status >= 200 && d.status < 300;
+const rejected = (d?: WebhookDeliveryLog) => d?.status !== undefined && d.status >= 400 && d.status < 500;
+
+function describeDelivery(d?: WebhookDeliveryLog): string {
+  if (!d) return 'not sent';
+  return d.status !== undefined ? `HTTP ${d.status}` : `no response (${d.error})`;
+}
+
+/**
+ * Send one delivery the way the vendor would
+ */
+async function deliver(
+  scheme: WebhookScheme,
+  url: string,
+  secret: string,
+  scenario: DeliveryScenario,
+  event: WebhookEvent,
+  timeoutMs: number,
+  signing: { timestamp?: number; secret?: string; unsigned?: boolean } = {}
+): Promise<WebhookDeliveryLog> {
+  const { body, headers } = scheme.payload(event);
+  const signature = signing.unsigned
+    ? {}
+    : scheme.sign(body, signing.secret ?? secret, { timestamp: signing.timestamp ?? Date.now(), method: 'POST', url });
+
+  const started = Date.now();
+  const log: WebhookDeliveryLog = { scenario, event_id: event.event_id, duration_ms: 0 };
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers, ...signature },
+      body,
+      signal: AbortSignal.timeout(timeoutMs + SLOW_API_MARGIN_MS * 2)
+    });
+    log.status = res.status;
+    await res.arrayBuffer();
+  } catch (error: any) {
+    log.error = error.name === 'TimeoutError' ? 'timed out' : error.message;
+  }
+  log.duration_ms = Date.now() - started;
+  return log;
+}
+
+/**
+ * Evaluate the deliveries against wh-002..wh-008
+ */
+function evaluate(
+  scheme: WebhookScheme,
+  mock: MockVendorServer,
+  deliveries: WebhookDeliveryLog[],
+  marks: { retry_sent: number },
+  objects: { a: string; b: string },
+  timeoutMs: number,
+  thinEvents: boolean
+): RuntimeTestResult[] {
+  const find = (scenario: DeliveryScenario) => deliveries.find(d => d.scenario === scenario);
+  const fetches = (objectId: string, since = 0) =>
+    mock.requests.filter(r => r.method === 'GET' && r.path.includes(objectId) && r.at >= since).length;
+  const tests: RuntimeTestResult[] = [];
+
+  const valid = find('valid');
+  tests.push(accepted(valid)
+    ? { name: 'valid_signature', rule_ids: ['wh-002'], status: 'PASS', message: `Accepted a correctly signed ${scheme.vendor} delivery` }
+    : { name: 'valid_signature', rule_ids: ['wh-002'], status: 'FAIL', message: `Rejected a correctly signed ${scheme.vendor} delivery (${describeDelivery(valid)})` });
+
+  const forged = (['tampered', 'unsigned'] as const).filter(s => !rejected(find(s)));
+  tests.push(forged.length === 0
+    ? { name: 'signature_validation', rule_ids: ['wh-002'], status: 'PASS', message: 'Rejected deliveries with a wrong or missing signature' }
+    : {
+      name: 'signature_validation',
+      rule_ids: ['wh-002'],
+      status: 'FAIL',
+      message: `Did not reject ${forged.join(' and ')} deliveries`,
+      details: Object.fromEntries(forged.map(s => [s, describeDelivery(find(s))]))
+    });
+
+  if (!scheme.signs_timestamp) {
+    tests.push({ name: 'replay_protection', rule_ids: ['wh-004'], status: 'SKIP', message: `${scheme.vendor} signatures carry no timestamp; replays are only caught by event ID deduplication` });
+  } else {
+    const replayed = find('replayed');
+    tests.push(rejected(replayed)
+      ? { name: 'replay_protection', rule_ids: ['wh-004'], status: 'PASS', message: 'Rejected a validly signed delivery with a 10 minute old timestamp' }
+      : { name: 'replay_protection', rule_ids: ['wh-004'], status: 'FAIL', message: `Accepted a delivery with a 10 minute old timestamp (${describeDelivery(replayed)})` });
+  }
+
+  const fetchedA = fetches(objects.a);
+  tests.push(fetchedA > 0
+    ? { name: 'fresh_fetch', rule_ids: ['wh-003'], status: 'PASS', message: 'Fetched the object from the vendor API after the event' }
+    : {
+      name: 'fresh_fetch',
+      rule_ids: ['wh-003'],
+      status: 'FAIL',
+      message: thinEvents
+        ? `${scheme.vendor} events are thin, but the server never fetched the object they refer to`
+        : 'Trusted the webhook payload without fetching the object from the vendor API'
+    });
+
+  const retry = find('retry');
+  tests.push(accepted(retry)
+    ? { name: 'vendor_retry', rule_ids: ['wh-007'], status: 'PASS', message: 'Acknowledged a vendor retry of an already delivered event' }
+    : { name: 'vendor_retry', rule_ids: ['wh-007'], status: 'FAIL', message: `Did not acknowledge a vendor retry (${describeDelivery(retry)}); the vendor will keep retrying` });
+
+  if (fetchedA === 0) {
+    tests.push({ name: 'deduplication', rule_ids: ['wh-004'], status: 'SKIP', message: 'Server makes no API calls per event, so reprocessing is not observable' });
+  } else {
+    const refetched = fetches(objects.a, marks.retry_sent);
+    tests.push(refetched === 0
+      ? { name: 'deduplication', rule_ids: ['wh-004'], status: 'PASS', message: 'Did not process the redelivered event again' }
+      : { name: 'deduplication', rule_ids: ['wh-004'], status: 'FAIL', message: `Processed the redelivered event again (${refetched} more API call(s))` });
+  }
+
+  const newer = find('newer');
+  const older = find('older');
+  if (!accepted(newer) || !(accepted(older) || rejected(older))) {
+    tests.push({ name: 'out_of_order', rule_ids: ['wh-005'], status: 'FAIL', message: `Failed on out-of-order events (newer: ${describeDelivery(newer)}, older: ${describeDelivery(older)})` });
+  } else if (fetches(objects.b) > 0) {
+    tests.push({ name: 'out_of_order', rule_ids: ['wh-005'], status: 'PASS', message: 'Reconciles from current vendor state, so an older event cannot overwrite a newer one' });
+  } else {
+    tests.push({ name: 'out_of_order', rule_ids: ['wh-005'], status: 'SKIP', message: 'Server applies payloads without fetching; ordering is not observable - compare event timestamps before applying' });
+  }
+
+  const slow = find('slow');
+  const ruleIds = scheme.vendor === 'slack' ? ['wh-006', 'wh-008'] : ['wh-008'];
+  tests.push(slow?.status !== undefined && slow.status < 500 && slow.duration_ms <= timeoutMs
+    ? { name: 'response_time', rule_ids: ruleIds, status: 'PASS', message: `Responded in ${slow.duration_ms}ms while the vendor API was slow (limit ${timeoutMs}ms)` }
+    : { name: 'response_time', rule_ids: ruleIds, status: 'FAIL', message: `Took ${slow?.duration_ms}ms (${describeDelivery(slow)}) while the vendor API was slow; ${scheme.vendor} gives up after ${timeoutMs}ms` });
+
+  return tests;
+}
+
+/**
+ * Act as the vendor and check how the server handles webhook deliveries
+ */
+export async function testWebhookDelivery(options: WebhookTestOptions): Promise<WebhookTestResult> {
+  const scheme = getWebhookScheme(options.vendor);
+  if (!scheme) {
+    throw new Error(`No webhook signing scheme for ${options.vendor}. Supported: ${Object.keys(WEBHOOK_SCHEMES).join(', ')}`);
+  }
+  const config = getVendorWebhookConfig(scheme.vendor);
+  const timeoutMs = options.timeout_ms ?? config?.timeout_ms ?? 10000;
+  const observeMs = options.observe_ms ?? DEFAULT_OBSERVE_MS;
+  const secret = options.secret ?? `whsec_${randomBytes(16).toString('hex')}`;
+  const port = options.port ?? configuredHttpPort(options.server_path) ?? await findFreePort();
+  const webhookUrl = `http://127.0.0.1:${port}${options.webhook_path ?? `/webhooks/${scheme.vendor}`}`;
+  const prefix = scheme.vendor.toUpperCase();
+
+  const mock = await startMockVendor({ vendor: scheme.vendor, fixture: options.fixture });
+  const objects = { a: `${scheme.collection}_linus_a`, b: `${scheme.collection}_linus_b`, c: `${scheme.collection}_linus_c` };
+  for (const id of Object.values(objects)) mock.seed(scheme.collection, { id });
+
+  const deliveries: WebhookDeliveryLog[] = [];
+  let tests: RuntimeTestResult[];
+
+  try {
+    const target = startTargetServer({
+      server_path: options.server_path,
+      env: {
+        ...mockVendorEnv(mock),
+        PORT: String(port),
+        HTTP_PORT: String(port),
+        WEBHOOK_SECRET: secret,
+        [`${prefix}_WEBHOOK_SECRET`]: secret,
+        [`${prefix}_SIGNING_SECRET`]: secret
+      }
+    });
+
+    try {
+      if (!await waitForPort(target, port, options.startup_timeout_ms ?? DEFAULT_STARTUP_TIMEOUT_MS)) {
+        const exitCode = target.exitCode();
+        tests = [{
+          name: 'server_start',
+          status: 'FAIL',
+          message: exitCode !== null
+            ? `Server exited with code ${exitCode} before listening on port ${port}`
+            : `Server did not listen on port ${port} within ${options.startup_timeout_ms ?? DEFAULT_STARTUP_TIMEOUT_MS}ms`,
+          details: { stderr: target.stderr().slice(-2000) }
+        }];
+      } else {
+        const now = Date.now();
+        const event = (id: string, objectId: string, occurredAt = now, attempt = 0): WebhookEvent =>
+          ({ event_id: id, event_type: scheme.update_event, object_id: objectId, occurred_at: occurredAt, attempt });
+        const send = async (scenario: DeliveryScenario, e: WebhookEvent, signing?: Parameters<typeof deliver>[6]) => {
+          deliveries.push(await deliver(scheme, webhookUrl, secret, scenario, e, timeoutMs, signing));
+          await new Promise(resolve => setTimeout(resolve, observeMs));
+        };
+
+        const original = event('evt_linus_valid', objects.a);
+        await send('valid', original);
+        await send('tampered', event('evt_linus_tampered', objects.a), { secret: `${secret}_tampered` });
+        await send('unsigned', event('evt_linus_unsigned', objects.a), { unsigned: true });
+        await send('replayed', event('evt_linus_replayed', objects.a, now - REPLAY_AGE_MS), { timestamp: now - REPLAY_AGE_MS });
+
+        const marks = { retry_sent: Date.now() };
+        await send('retry', { ...original, attempt: 1 });
+
+        await send('newer', event('evt_linus_newer', objects.b, now));
+        await send('older', event('evt_linus_older', objects.b, now - 60000));
+
+        mock.setLatency(timeoutMs + SLOW_API_MARGIN_MS);
+        await send('slow', event('evt_linus_slow', objects.c));
+        mock.setLatency(0);
+
+        tests = [
+          { name: 'server_start', status: 'PASS', message: `Server listening on port ${port}` },
+          ...evaluate(scheme, mock, deliveries, marks, objects, timeoutMs, config?.thin_events ?? false)
+        ];
+      }
+    } finally {
+      await target.stop();
+    }
+  } finally {
+    await mock.close();
+  }
+
+  const verdict = runtimeVerdict(tests);
+  const record = saveConnectionTest({
+    inspection_id: options.inspection_id,
+    server_path: options.server_path,
+    test_mode: 'full',
+    use_sandbox: true,
+    verdict,
+    tests,
+    performance: {
+      webhook_url: webhookUrl,
+      delivery_ms: Object.fromEntries(deliveries.map(d => [d.scenario, d.duration_ms]))
+    }
+  });
+
+  return {
+    id: record.id,
+    vendor: scheme.vendor,
+    server_path: options.server_path,
+    webhook_url: webhookUrl,
+    verdict,
+    tests,
+    deliveries
+  };
+}
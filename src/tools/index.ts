@@ -1,7 +1,7 @@
 /**
  * Linus Inspector - MCP Tools
  *
- * 26 tools organized by category:
+ * 34 tools organized by category:
  *
  * Pre-Build Inspection (7 tools):
  * 1. inspect_saas_api - Probe SaaS API before building
@@ -22,29 +22,41 @@
  * 14. inspect_edge_cases - Empty responses, pagination
  * 15. inspect_data_integrity - Type preservation
  *
- * Runtime Inspection (5 tools):
- * 16. inspect_connection - Test live connection
- * 17. test_auth - Verify authentication
- * 18. test_data_roundtrip - Create, read, delete
- * 19. test_rate_limit_backoff - Hit limit, verify backoff
- * 20. test_webhook_delivery - Register and verify webhook
+ * Runtime Inspection (8 tools):
+ * 16. inspect_connection - Run server against a mock vendor
+ * 17. test_auth - Token expiry, revocation and tenants against a local OAuth authority
+ * 18. test_data_roundtrip - CRUD through the server's tools with field-level diffs
+ * 19. test_rate_limit_backoff - Measure retries behind a throttling proxy
+ * 20. test_webhook_delivery - Send vendor-signed webhook deliveries
+ * 21. inspect_tool_fuzzing - Fuzz tool inputs from their schemas with reproducible seeds
+ * 22. test_chaos - Inject upstream faults and check timeouts, circuit breaker and fallbacks
+ * 23. record_vendor_fixture - Import or record redacted vendor exchanges for replay
  *
  * Ecosystem Inspection (5 tools):
- * 21. inspect_integration - Verify InterLock mesh
- * 22. inspect_mcp_protocol - Validate MCP server
- * 23. inspect_documentation - Check README, API docs
- * 24. inspect_test_coverage - Verify tests exist
- * 25. get_inspection_report - Retrieve full results
+ * 24. inspect_integration - Verify InterLock mesh
+ * 25. inspect_mcp_protocol - Validate MCP server (static or live over stdio)
+ * 26. inspect_documentation - Check README, API docs
+ * 27. inspect_test_coverage - Verify tests exist
+ * 28. get_inspection_report - Retrieve full results
+ *
+ * Reference (3 tools):
+ * 29. list_vendor_configs - Supported vendors and their configurations
+ * 30. list_compliance_rules - Compliance rules by regulation
+ * 31. detect_server_profile - Server type and capabilities that decide which rules apply
+ *
+ * Auto-Fix (2 tools):
+ * 32. apply_auto_fixes - Diff, apply and verify fixes for an inspection
+ * 33. revert_auto_fix - Undo applied fixes without clobbering later edits
  *
  * Self-Inspection (1 tool):
- * 26. inspect_self - Physician heal thyself
+ * 34. inspect_self - Physician heal thyself
  */
 
 import { z } from 'zod';
 import { inspectCode, quickInspect, type CodeInspectionResult } from '../inspectors/code-inspector.js';
 import { inspectPrompt, type PromptInspectionResult } from '../inspectors/prompt-inspector.js';
 import { validateSkill, type SkillValidationResult } from '../inspectors/skill-validator.js';
-import { checkIntegration, type IntegrationCheckResult } from '../inspectors/integration-checker.js';
+import { inspectIntegration, type IntegrationCheckResult } from '../inspectors/integration-checker.js';
 import {
   runAllInspections,
   SUPPORTED_VENDORS,
@@ -59,10 +71,38 @@ import {
   getIssuesByInspection,
   getVendorConfig,
   getAllVendorConfigs,
-  getComplianceRules
+  getComplianceRules,
+  type VendorFixtureRecord
 } from '../database/index.js';
 import { inspectSelf, InspectSelfSchema, type SelfInspectionResult } from './inspect-self.js';
 import { detectServerProfile, type ServerProfile } from '../profiler/index.js';
+import { buildSarifLog } from '../reports/index.js';
+import {
+  applyAutoFixes,
+  revertAutoFix,
+  type ApplyAutoFixesResult,
+  type RevertAutoFixResult
+} from '../fixes/index.js';
+import {
+  fuzzTools,
+  importVendorFixture,
+  inspectConnection,
+  recordVendorFixture,
+  testChaos,
+  testAuth,
+  testDataRoundtrip,
+  testMcpProtocol,
+  testRateLimitBackoff,
+  testWebhookDelivery,
+  type AuthTestResult,
+  type BackoffTestResult,
+  type ChaosTestResult,
+  type ConnectionTestResult,
+  type FuzzTestResult,
+  type ProtocolTestResult,
+  type RoundtripTestResult,
+  type WebhookTestResult
+} from '../runtime/index.js';
 import { readFileSync, existsSync, readdirSync } from 'fs';
 import { join, extname } from 'path';
 
@@ -94,7 +134,7 @@ async function readServerCode(serverPath: string): Promise<string> {
   if (codeFiles.length === 0) walkDir(serverPath); // Fallback to root
 
   let code = '';
-  for (const file of codeFiles.slice(0, 20)) { // Limit to 20 files
+  for (const file of codeFiles) {
     try {
       code += readFileSync(file, 'utf-8') + '\n';
     } catch {}
@@ -110,7 +150,14 @@ export const InspectBuildSchema = z.object({
   vendor: z.string().optional().describe('SaaS vendor if applicable'),
   regulation: z.string().optional().describe('Compliance regulation if applicable'),
   industry: z.string().optional().describe('Industry (saas, healthcare, etc.)'),
-  build_id: z.string().optional().describe('Build ID for tracking')
+  build_id: z.string().optional().describe('Build ID for tracking'),
+  baseline_path: z.string().optional().describe('Baseline file (absolute or relative to server_path); only new issues affect the verdict'),
+  write_baseline: z.boolean().optional().describe('Record current issues as the baseline (defaults to .linus-baseline.json)'),
+  probe_health: z.boolean().optional().describe('Start the server on ports.http and call its health endpoints; failures back mcp-001..003'),
+  since: z.string().optional().describe('Git ref (branch, tag or commit); rules run only on files changed since it and findings are kept only on changed lines; cannot be combined with write_baseline'),
+  use_cache: z.boolean().optional().describe('Reuse cached per-file results for files whose content, rules, vendor, regulation and profile are unchanged (default true)'),
+  concurrency: z.number().int().min(0).optional().describe('Worker threads running the rules (default: available cores, at most 8; 0 = in-process)'),
+  file_timeout_ms: z.number().int().positive().optional().describe('Per-file rule time limit; a file that exceeds it is reported in timed_out_files (default 30000)')
 });
 
 export const InspectPromptSchema = z.object({
@@ -135,7 +182,10 @@ export const InspectCodeSchema = z.object({
 export const InspectIntegrationSchema = z.object({
   server_path: z.string().describe('Path to server directory'),
   check_connectivity: z.boolean().optional().describe('Test actual connections'),
-  timeout_ms: z.number().optional().describe('Connection timeout')
+  timeout_ms: z.number().optional().describe('Connection timeout'),
+  probe_health: z.boolean().optional().describe('Start the server on ports.http and call /health, /health/ready and /health/detailed'),
+  vendor: z.string().optional().describe('With probe_health: dependency taken down to check that readiness flips'),
+  inspection_id: z.string().optional().describe('Link the saved integration check to an inspection')
 });
 
 export const GetVendorConfigSchema = z.object({
@@ -148,7 +198,128 @@ export const GetComplianceRulesSchema = z.object({
 
 export const GetInspectionReportSchema = z.object({
   inspection_id: z.string().optional().describe('Get specific inspection'),
-  build_id: z.string().optional().describe('Get all inspections for a build')
+  build_id: z.string().optional().describe('Get all inspections for a build'),
+  format: z.enum(['json', 'sarif']).optional().default('json').describe('Report format (sarif = SARIF 2.1.0 log)')
+});
+
+export const ApplyAutoFixesSchema = z.object({
+  inspection_id: z.string().describe('Inspection whose fixable issues should be fixed'),
+  server_path: z.string().describe('Absolute path to the inspected server directory'),
+  rule_ids: z.array(z.string()).optional().describe('Only fix these rules (e.g. ["oauth-002", "rl-004"])'),
+  dry_run: z.boolean().optional().default(true).describe('Return a unified diff without writing files (default true)')
+});
+
+export const RevertAutoFixSchema = z.object({
+  server_path: z.string().describe('Absolute path to the inspected server directory'),
+  fix_id: z.string().optional().describe('Revert a single auto-fix'),
+  inspection_id: z.string().optional().describe('Revert every applied fix of an inspection'),
+  merge: z.boolean().optional().default(false).describe('If the file changed since the fix, write the revert when it merges cleanly')
+});
+
+export const InspectConnectionSchema = z.object({
+  vendor: z.string().describe('Vendor to emulate with the local mock API'),
+  fixture: z.string().optional().describe("Replay recorded vendor exchanges: a HAR/JSON file, a stored fixture ID or name, or '*' for the vendor's whole suite"),
+  server_path: z.string().describe('Absolute path to the server to start against the mock'),
+  test_mode: z.enum(['auth', 'full', 'quick']).optional().default('quick'),
+  inspection_id: z.string().optional().describe('Link the connection test to an inspection'),
+  settle_ms: z.number().int().positive().optional().describe('How long to observe the server after start (default 2000)')
+});
+
+export const TestAuthSchema = z.object({
+  vendor: z.string().describe('Vendor whose OAuth behavior the local authority emulates'),
+  fixture: z.string().optional().describe("Replay recorded vendor exchanges: a HAR/JSON file, a stored fixture ID or name, or '*' for the vendor's whole suite"),
+  server_path: z.string().describe('Absolute path to the server to start against the authority'),
+  inspection_id: z.string().optional().describe('Link the result to an inspection'),
+  token_ttl_ms: z.number().int().positive().optional().describe("Access token lifetime (default: the vendor's expiry at 25ms per minute)"),
+  settle_ms: z.number().int().positive().optional().describe('How long to observe the server (default: three token lifetimes)'),
+  revoke_after_ms: z.number().int().nonnegative().optional().describe('When to revoke every live token (default: one and a half token lifetimes)'),
+  tenants: z.number().int().nonnegative().optional().describe('Tenant clients offered in <VENDOR>_TENANTS (default 2)'),
+  scopes: z.array(z.string()).optional().describe('Scopes granted to the clients, e.g. contacts.read; unset means not enforced')
+});
+
+export const TestDataRoundtripSchema = z.object({
+  vendor: z.string().describe('Vendor the local stand-in emulates'),
+  fixture: z.string().optional().describe("Replay recorded vendor exchanges: a HAR/JSON file, a stored fixture ID or name, or '*' for the vendor's whole suite"),
+  server_path: z.string().describe('Absolute path to the MCP server whose tools are driven'),
+  inspection_id: z.string().optional().describe('Link the result to an inspection'),
+  tools: z.object({
+    create: z.string().optional(),
+    read: z.string().optional(),
+    update: z.string().optional(),
+    delete: z.string().optional()
+  }).optional().describe('Tool names to use instead of discovering them by verb'),
+  timeout_ms: z.number().int().positive().optional().describe('Per MCP request (default 10000)')
+});
+
+export const TestRateLimitBackoffSchema = z.object({
+  vendor: z.string().describe('Vendor whose rate-limit algorithm the proxy enforces'),
+  fixture: z.string().optional().describe("Replay recorded vendor exchanges: a HAR/JSON file, a stored fixture ID or name, or '*' for the vendor's whole suite"),
+  server_path: z.string().describe('Absolute path to the server to start behind the throttling proxy'),
+  inspection_id: z.string().optional().describe('Link the result to an inspection'),
+  settle_ms: z.number().int().positive().optional().describe('How long to observe each scenario (default 15000)'),
+  max_retries: z.number().int().nonnegative().optional().describe('More retries than this against a persistent 429 fails (default 10)')
+});
+
+export const TestWebhookDeliverySchema = z.object({
+  vendor: z.string().describe('Vendor whose webhook signing scheme to use'),
+  fixture: z.string().optional().describe("Replay recorded vendor exchanges: a HAR/JSON file, a stored fixture ID or name, or '*' for the vendor's whole suite"),
+  server_path: z.string().describe('Absolute path to the server that receives the webhooks'),
+  inspection_id: z.string().optional().describe('Link the result to an inspection'),
+  port: z.number().int().positive().optional().describe('Port the server listens on (default: ports.http from config/interlock.json, else a free port passed as PORT)'),
+  webhook_path: z.string().optional().describe('Path of the webhook endpoint (default /webhooks/<vendor>)'),
+  timeout_ms: z.number().int().positive().optional().describe("Override the vendor's delivery timeout")
+});
+
+export const InspectToolFuzzingSchema = z.object({
+  server_path: z.string().describe('Absolute path to the MCP server whose tools are fuzzed'),
+  inspection_id: z.string().optional().describe('Add findings to this inspection (default: a new runtime inspection)'),
+  build_id: z.string().optional().describe('Build ID for the new inspection'),
+  vendor: z.string().optional().describe('Point the server at a local stand-in for this vendor'),
+  fixture: z.string().optional().describe("Replay recorded vendor exchanges: a HAR/JSON file, a stored fixture ID or name, or '*' for the vendor's whole suite"),
+  seed: z.number().int().nonnegative().optional().describe('Seed for input generation (default: random, returned in the result)'),
+  cases_per_tool: z.number().int().positive().optional().describe('Cases per tool, cycling through the strategies (default 24)'),
+  tools: z.array(z.string()).optional().describe('Only fuzz these tools'),
+  replay: z.object({
+    tool: z.string(),
+    case: z.number().int().nonnegative()
+  }).optional().describe('Re-run a single case from a previous run; pass its seed too'),
+  timeout_ms: z.number().int().positive().optional().describe('A tool call without a response after this long is a hang (default 5000)')
+});
+
+export const TestChaosSchema = z.object({
+  server_path: z.string().describe('Absolute path to the MCP server whose tool is driven through the faults'),
+  vendor: z.string().optional().describe('Put the proxy in front of a local stand-in for this vendor'),
+  fixture: z.string().optional().describe("Replay recorded vendor exchanges: a HAR/JSON file, a stored fixture ID or name, or '*' for the vendor's whole suite"),
+  upstreams: z.record(z.string()).optional().describe('Mesh peers: env var -> origin, e.g. {"SKILL_BUILDER_URL": "http://127.0.0.1:3001"}; the var is pointed at the proxy'),
+  inspection_id: z.string().optional().describe('Link the result to an inspection'),
+  tool: z.string().optional().describe('Tool to drive (default: the first one whose call reaches an upstream)'),
+  arguments: z.record(z.unknown()).optional().describe('Arguments for the tool (default: sample values from its schema)'),
+  faults: z.array(z.enum(['latency', 'reset', 'error_burst', 'malformed_json', 'truncated_body', 'slow_drip'])).optional().describe('Faults to inject (default: all)'),
+  delay_ms: z.number().int().positive().optional().describe('How long latency and slow_drip hold a response (default 5000)'),
+  error_status: z.number().int().min(500).max(599).optional().describe('Status of the error burst (default 503)'),
+  breaker_calls: z.number().int().min(2).optional().describe('Tool calls during the error burst (default 8)'),
+  timeout_ms: z.number().int().positive().optional().describe('Per MCP request (default: four delays, at least 10000)')
+});
+
+export const RecordVendorFixtureSchema = z.object({
+  vendor: z.string().describe('Vendor the fixture belongs to (vendor_configs.vendor)'),
+  file: z.string().optional().describe('Import this HAR or JSON file instead of recording'),
+  server_path: z.string().optional().describe('Record mode: server to run against the real API'),
+  upstream: z.string().optional().describe('Record mode: real API base URL, e.g. https://api.stripe.com/v1'),
+  name: z.string().optional().describe('Fixture name; saving under an existing name replaces it (default: file name or recorded-<timestamp>)'),
+  base_path: z.string().optional().describe('Import: path prefix to strip from recorded URLs, e.g. /v1'),
+  settle_ms: z.number().int().positive().optional().describe('Record mode: how long to let the server run (default 10000)'),
+  redact_fields: z.array(z.string()).optional().describe('Field names to redact besides credentials, e.g. email'),
+  output: z.string().optional().describe('Record mode: also write the redacted exchanges to this HAR file')
+});
+
+export const InspectMcpProtocolSchema = z.object({
+  server_path: z.string().describe('Absolute path to the MCP server'),
+  mode: z.enum(['static', 'live']).optional().default('static').describe('static checks files; live spawns the server over stdio and exercises the protocol'),
+  vendor: z.string().optional().describe('Live mode: point the server at a local stand-in for this vendor'),
+  fixture: z.string().optional().describe("Live mode: replay recorded vendor exchanges (a HAR/JSON file, a stored fixture ID or name, or '*')"),
+  timeout_ms: z.number().int().positive().optional().describe('Live mode: per MCP request (default 10000)'),
+  call_tools: z.boolean().optional().describe('Live mode: call each tool with valid and invalid arguments (default true)')
 });
 
 // Tool implementations
@@ -579,93 +750,117 @@ export const tools = {
   },
 
   // === Runtime Inspection Tools ===
-  // Note: These are stubs - full implementation would require actual network calls
+  // These run the server under test against a local mock vendor (src/runtime)
 
   /**
    * 16. Inspect Connection
-   * Test live connection to SaaS API
+   * Start the server against a mock vendor and observe its traffic
    */
   inspect_connection: {
-    description: 'Test live connection to a SaaS API (requires credentials)',
-    schema: z.object({
-      vendor: z.string(),
-      test_mode: z.enum(['auth', 'full', 'quick']).optional()
-    }),
-    handler: async (params: { vendor: string; test_mode?: string }) => {
-      // This would require actual credentials and network calls
-      return {
-        vendor: params.vendor,
-        test_mode: params.test_mode || 'quick',
-        status: 'NOT_IMPLEMENTED',
-        message: 'Connection testing requires credentials configured in environment'
-      };
+    description: 'Start a server against a local mock of the vendor API and verify it connects, authenticates and respects rate limits',
+    schema: InspectConnectionSchema,
+    handler: async (params: z.infer<typeof InspectConnectionSchema>): Promise<ConnectionTestResult> => {
+      return inspectConnection(params);
     }
   },
 
   /**
    * 17. Test Auth
-   * Verify authentication works
+   * Expire, revoke and scope the server's tokens and watch how it copes
    */
   test_auth: {
-    description: 'Test authentication with a SaaS API',
-    schema: z.object({ vendor: z.string() }),
-    handler: async (params: { vendor: string }) => {
-      return {
-        vendor: params.vendor,
-        status: 'NOT_IMPLEMENTED',
-        message: 'Auth testing requires credentials'
-      };
+    description: 'Run a server against a local OAuth2 authority with short-lived tokens and verify it refreshes pre-emptively, serializes refreshes, recovers from revocation, keeps tenant tokens separate and stays within its scopes',
+    schema: TestAuthSchema,
+    handler: async (params: z.infer<typeof TestAuthSchema>): Promise<AuthTestResult> => {
+      return testAuth(params);
     }
   },
 
   /**
    * 18. Test Data Roundtrip
-   * Create, read, delete test record
+   * Create, read, update and delete through the server's tools and diff every field
    */
   test_data_roundtrip: {
-    description: 'Test data roundtrip (create, read, delete)',
-    schema: z.object({
-      vendor: z.string(),
-      use_sandbox: z.boolean().optional()
-    }),
-    handler: async (params: { vendor: string; use_sandbox?: boolean }) => {
-      return {
-        vendor: params.vendor,
-        use_sandbox: params.use_sandbox ?? true,
-        status: 'NOT_IMPLEMENTED',
-        message: 'Data roundtrip testing requires API access'
-      };
+    description: "Drive create/read/update/delete through a server's MCP tools against a local vendor stand-in and diff every field for type coercion, null/empty loss, precision loss and duplicate creates on retry",
+    schema: TestDataRoundtripSchema,
+    handler: async (params: z.infer<typeof TestDataRoundtripSchema>): Promise<RoundtripTestResult> => {
+      return testDataRoundtrip(params);
     }
   },
 
   /**
    * 19. Test Rate Limit Backoff
-   * Hit rate limit and verify backoff
+   * Throttle the server and measure its retry schedule
    */
   test_rate_limit_backoff: {
-    description: 'Test rate limit backoff behavior',
-    schema: z.object({ vendor: z.string() }),
-    handler: async (params: { vendor: string }) => {
-      return {
-        vendor: params.vendor,
-        status: 'NOT_IMPLEMENTED',
-        message: 'Rate limit testing requires API access'
-      };
+    description: 'Run a server behind a throttling proxy and measure whether it honors Retry-After, backs off exponentially with jitter and stops retrying',
+    schema: TestRateLimitBackoffSchema,
+    handler: async (params: z.infer<typeof TestRateLimitBackoffSchema>): Promise<BackoffTestResult> => {
+      return testRateLimitBackoff(params);
     }
   },
 
   /**
    * 20. Test Webhook Delivery
-   * Register and verify webhook
+   * Act as the vendor and send signed, forged, replayed and retried deliveries
    */
   test_webhook_delivery: {
-    description: 'Test webhook registration and delivery',
-    schema: z.object({ vendor: z.string() }),
-    handler: async (params: { vendor: string }) => {
+    description: 'Send a server webhook deliveries signed with the vendor scheme (plus tampered, replayed, duplicate, out-of-order and slow-path deliveries) and verify how it handles them',
+    schema: TestWebhookDeliverySchema,
+    handler: async (params: z.infer<typeof TestWebhookDeliverySchema>): Promise<WebhookTestResult> => {
+      return testWebhookDelivery(params);
+    }
+  },
+
+  /**
+   * 21. Inspect Tool Fuzzing
+   * Call every tool with generated hostile inputs and record what breaks
+   */
+  inspect_tool_fuzzing: {
+    description: "Fuzz a server's MCP tools with inputs generated from their schemas (boundary values, wrong types, huge strings, unicode, path traversal, missing required fields) and record crashes, hangs, unhandled rejections and stack-trace leaks as fuzzing issues; seeds are reproducible",
+    schema: InspectToolFuzzingSchema,
+    handler: async (params: z.infer<typeof InspectToolFuzzingSchema>): Promise<FuzzTestResult> => {
+      return fuzzTools(params);
+    }
+  },
+
+  /**
+   * 22. Test Chaos
+   * Break the server's upstreams on purpose and watch how it copes
+   */
+  test_chaos: {
+    description: "Put a fault-injecting proxy between a server and its upstreams (mock vendor or mesh peers) and inject latency, connection resets, 5xx bursts, malformed JSON, truncated bodies and slow-drip responses while driving one of its tools; reports whether its timeouts (err-005), circuit breaker (rl-005) and graceful degradation (err-010) engage",
+    schema: TestChaosSchema,
+    handler: async (params: z.infer<typeof TestChaosSchema>): Promise<ChaosTestResult> => {
+      return testChaos(params);
+    }
+  },
+
+  /**
+   * 23. Record Vendor Fixture
+   * Capture real vendor exchanges once, replay them everywhere else
+   */
+  record_vendor_fixture: {
+    description: "Store a vendor fixture for replay by the runtime tools: import a HAR/JSON file, or run a server against the real API through a recording proxy (needs network and credentials). Credentials and secret fields are redacted; a vendor's fixtures together form its regression suite",
+    schema: RecordVendorFixtureSchema,
+    handler: async (params: z.infer<typeof RecordVendorFixtureSchema>) => {
+      let fixture: VendorFixtureRecord;
+      let output: string | undefined;
+      if (params.file) {
+        fixture = importVendorFixture({ ...params, file: params.file });
+      } else if (params.server_path && params.upstream) {
+        ({ fixture, output } = await recordVendorFixture({ ...params, server_path: params.server_path, upstream: params.upstream }));
+      } else {
+        return { success: false, error: 'Pass file to import, or server_path and upstream to record' };
+      }
+
+      const { entries, ...summary } = fixture;
       return {
-        vendor: params.vendor,
-        status: 'NOT_IMPLEMENTED',
-        message: 'Webhook testing requires API access and public endpoint'
+        success: true,
+        ...summary,
+        entries: entries.length,
+        endpoints: [...new Set(entries.map(e => `${e.method} ${e.path}`))],
+        output
       };
     }
   },
@@ -673,25 +868,30 @@ export const tools = {
   // === Ecosystem Inspection Tools ===
 
   /**
-   * 21. Inspect Integration
+   * 24. Inspect Integration
    * Verify InterLock mesh integration
    */
   inspect_integration: {
     description: 'Verify server integrates with BOP ecosystem',
     schema: InspectIntegrationSchema,
     handler: async (params: z.infer<typeof InspectIntegrationSchema>): Promise<IntegrationCheckResult> => {
-      return checkIntegration(params);
+      return inspectIntegration(params);
     }
   },
 
   /**
-   * 22. Inspect MCP Protocol
-   * Validate MCP server implementation
+   * 25. Inspect MCP Protocol
+   * Validate MCP server implementation, statically or by talking to it
    */
   inspect_mcp_protocol: {
-    description: 'Validate MCP server implementation',
-    schema: z.object({ server_path: z.string() }),
-    handler: async (params: { server_path: string }) => {
+    description: 'Validate MCP server implementation: statically from its files, or live over stdio (initialize, list methods, tool schemas, valid and invalid tool calls, JSON-RPC error codes, timeouts)',
+    schema: InspectMcpProtocolSchema,
+    handler: async (params: z.infer<typeof InspectMcpProtocolSchema>) => {
+      if (params.mode === 'live') {
+        const result: ProtocolTestResult = await testMcpProtocol(params);
+        return { mode: 'live' as const, ...result };
+      }
+
       const issues: Array<{ severity: string; issue: string; remedy: string }> = [];
 
       // Check for index file in multiple locations
@@ -755,7 +955,7 @@ export const tools = {
   },
 
   /**
-   * 23. Inspect Documentation
+   * 26. Inspect Documentation
    * Check README, API docs
    */
   inspect_documentation: {
@@ -784,7 +984,7 @@ export const tools = {
   },
 
   /**
-   * 24. Inspect Test Coverage
+   * 27. Inspect Test Coverage
    * Verify tests exist
    */
   inspect_test_coverage: {
@@ -870,11 +1070,11 @@ export const tools = {
   },
 
   /**
-   * 25. Get Inspection Report
+   * 28. Get Inspection Report
    * Retrieve full inspection results
    */
   get_inspection_report: {
-    description: 'Retrieve inspection results by ID or build',
+    description: 'Retrieve inspection results by ID or build, as JSON or a SARIF 2.1.0 log',
     schema: GetInspectionReportSchema,
     handler: async (params: z.infer<typeof GetInspectionReportSchema>) => {
       if (params.inspection_id) {
@@ -883,11 +1083,18 @@ export const tools = {
           return { success: false, error: 'Inspection not found' };
         }
         const issues = getIssuesByInspection(params.inspection_id);
+        if (params.format === 'sarif') {
+          return { success: true, sarif: buildSarifLog([{ inspection, issues }]) };
+        }
         return { success: true, inspection, issues };
       }
 
       if (params.build_id) {
         const inspections = getInspectionsByBuild(params.build_id);
+        if (params.format === 'sarif') {
+          const reports = inspections.map(inspection => ({ inspection, issues: getIssuesByInspection(inspection.id) }));
+          return { success: true, sarif: buildSarifLog(reports) };
+        }
         return { success: true, inspections };
       }
 
@@ -928,7 +1135,7 @@ export const tools = {
   // === Profile Detection Tools ===
 
   /**
-   * 26. Detect Server Profile
+   * 29. Detect Server Profile
    * Analyze a server to determine its capabilities and applicable rules
    */
   detect_server_profile: {
@@ -941,10 +1148,36 @@ export const tools = {
     }
   },
 
+  // === Auto-Fix Tools ===
+
+  /**
+   * Apply Auto-Fixes
+   * Generate fixes for an inspection's auto-fixable issues
+   */
+  apply_auto_fixes: {
+    description: 'Generate code fixes for auto-fixable issues of an inspection (e.g. oauth-002 refresh lock, rl-004 jitter, mcp-002 /health/ready). Dry-run returns a unified diff; with dry_run: false files are written, recorded in auto_fixes and re-inspected.',
+    schema: ApplyAutoFixesSchema,
+    handler: async (params: z.infer<typeof ApplyAutoFixesSchema>): Promise<ApplyAutoFixesResult> => {
+      return applyAutoFixes(params);
+    }
+  },
+
+  /**
+   * Revert Auto-Fix
+   * Restore pre-fix content, refusing to overwrite later edits
+   */
+  revert_auto_fix: {
+    description: 'Revert one auto-fix (fix_id) or all fixes of an inspection (inspection_id). Files edited since the fix are not overwritten: a three-way merge conflict report is returned instead, and a clean merge is only written with merge: true.',
+    schema: RevertAutoFixSchema,
+    handler: async (params: z.infer<typeof RevertAutoFixSchema>): Promise<RevertAutoFixResult> => {
+      return revertAutoFix(params);
+    }
+  },
+
   // === Self-Inspection (Physician Heal Thyself) ===
 
   /**
-   * 27. Inspect Self
+   * 30. Inspect Self
    * Run all inspections on linus-inspector itself
    */
   inspect_self: {
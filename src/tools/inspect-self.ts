@@ -11,10 +11,21 @@ import { z } from 'zod';
 import { readFileSync, readdirSync, statSync, existsSync } from 'fs';
 import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
-import { runProfileAwareInspections, type ProfileAwareInspectionResult } from '../rules/index.js';
+import { glob } from 'glob';
+import {
+  getRegisteredRule,
+  loadRulePacks,
+  runProfileAwareInspections,
+  runServerInspections,
+  type InspectionResult,
+  type ProfileAwareInspectionResult
+} from '../rules/index.js';
 import { checkMetaRules, type MetaViolation, type MetaInspectionContext } from '../rules/meta-rules.js';
 import { createInspection, createInspectionIssue, generateId } from '../database/index.js';
 import { detectServerProfile } from '../profiler/profile-detector.js';
+import { loadLinusConfig } from '../config/index.js';
+import { hasAutoFixer } from '../fixes/fixers.js';
+import { buildProjectGraph, type ProjectSource } from '../analysis/index.js';
 import type { ServerProfile, ServerType } from '../profiler/server-profile.js';
 
 // ============================================================================
@@ -55,11 +66,17 @@ export interface SelfInspectionResult {
     low: number;
     meta_violations: number;
     auto_fixable: number;
+    suppressed: number;
   };
   issues: Array<{
+    rule_id?: string;
     severity: string;
     category: string;
     file: string;
+    line?: number;
+    column?: number;
+    end_line?: number;
+    snippet?: string;
     issue: string;
     remedy: string;
     auto_fixable: boolean;
@@ -165,11 +182,18 @@ export async function inspectSelf(params: InspectSelfParams): Promise<SelfInspec
   const startTime = Date.now();
   const selfPath = getSelfPath();
 
-  // Get source files
-  const files = getSourceFiles(selfPath);
+  // Project config (.linusrc.json) applies to self-inspection too
+  const projectConfig = loadLinusConfig(selfPath);
+  const packs = await loadRulePacks(selfPath, projectConfig.packs);
+
+  // Get source files, minus anything the project config ignores
+  const ignored = new Set(
+    projectConfig.ignore?.length ? await glob(projectConfig.ignore, { cwd: selfPath, absolute: true }) : []
+  );
+  const files = getSourceFiles(selfPath).filter(f => !ignored.has(f));
 
   // Detect own profile for context-aware rule filtering
-  const profile = await detectServerProfile(selfPath);
+  const profile = await detectServerProfile(selfPath, projectConfig);
 
   if (files.length === 0) {
     return {
@@ -184,7 +208,8 @@ export async function inspectSelf(params: InspectSelfParams): Promise<SelfInspec
         medium: 0,
         low: 0,
         meta_violations: 0,
-        auto_fixable: 0
+        auto_fixable: 0,
+        suppressed: 0
       },
       issues: [{
         severity: 'CRITICAL',
@@ -203,6 +228,7 @@ export async function inspectSelf(params: InspectSelfParams): Promise<SelfInspec
   // Collect all issues
   const allIssues: SelfInspectionResult['issues'] = [];
   const allMetaIssues: MetaViolation[] = [];
+  const suppressedIssues: Array<SelfInspectionResult['issues'][number] & { suppression_reason: string }> = [];
 
   // Track profile-aware filtering results (same for all files)
   let skippedCategories: Array<{ category: string; reason: string }> = [];
@@ -218,14 +244,48 @@ export async function inspectSelf(params: InspectSelfParams): Promise<SelfInspec
     inspection_categories: inspectionCategories
   };
 
-  // Inspect each file with profile-aware rule filtering
+  // Read every file up front; cross-file checks and whole-server rules need them all
+  const sources: ProjectSource[] = [];
   for (const file of files) {
     try {
-      const code = readFileSync(file, 'utf-8');
+      sources.push({ file_name: file, code: readFileSync(file, 'utf-8') });
+    } catch (error: any) {
+      allIssues.push({
+        severity: 'HIGH',
+        category: 'self_inspection',
+        file: file,
+        issue: `Failed to inspect file: ${error.message}`,
+        remedy: 'Check file permissions and syntax',
+        auto_fixable: false
+      });
+    }
+  }
+  const project = buildProjectGraph(sources);
+
+  // Whole-server rules run once rather than on every file
+  const serverFindings = new Map(
+    runServerInspections(sources, {
+      vendor: projectConfig.vendor,
+      regulation: projectConfig.regulation,
+      rules: projectConfig.rules
+    }, profile).map(findings => [findings.file_name, findings])
+  );
+  const ruleCategory = (ruleId: string) => getRegisteredRule(ruleId)?.category ?? ruleId.split('-')[0];
+
+  // Inspect each file with profile-aware rule filtering
+  for (const { file_name: file, code } of sources) {
+    try {
       const relativePath = file.replace(selfPath + '/', '');
 
       // Run profile-aware inspection rules (skips inapplicable categories)
-      const result = runProfileAwareInspections(code, profile, {});
+      const result = runProfileAwareInspections(code, profile, {
+        vendor: projectConfig.vendor,
+        regulation: projectConfig.regulation,
+        file_name: file,
+        rules: projectConfig.rules,
+        packs,
+        project
+      });
 
       // Capture skipped/applied categories from first file (same for all)
       if (skippedCategories.length === 0 && result.skipped_categories) {
@@ -233,18 +293,54 @@ export async function inspectSelf(params: InspectSelfParams): Promise<SelfInspec
         appliedCategories = result.applied_categories;
       }
 
+      // Whole-server findings that point into this file join its own
+      const serverResult = serverFindings.get(file);
+      const categoryResults: Array<Pick<InspectionResult, 'category' | 'violations' | 'suppressed'>> = [
+        ...result.results,
+        ...(serverResult?.violations ?? []).map(violation => ({
+          category: ruleCategory(violation.rule_id),
+          violations: [violation]
+        })),
+        ...(serverResult?.suppressed ?? []).map(violation => ({
+          category: ruleCategory(violation.rule_id),
+          violations: [],
+          suppressed: [violation]
+        }))
+      ];
+
       // Collect issues from all categories
-      for (const categoryResult of result.results) {
+      for (const categoryResult of categoryResults) {
         for (const violation of categoryResult.violations) {
           allIssues.push({
+            rule_id: violation.rule_id,
             severity: violation.severity,
             category: categoryResult.category,
             file: relativePath,
+            line: violation.line,
+            column: violation.column,
+            end_line: violation.end_line,
+            snippet: violation.snippet,
             issue: violation.issue,
             remedy: violation.remedy,
             auto_fixable: violation.auto_fixable || false
           });
         }
+        for (const violation of categoryResult.suppressed ?? []) {
+          suppressedIssues.push({
+            rule_id: violation.rule_id,
+            severity: violation.severity,
+            category: categoryResult.category,
+            file: relativePath,
+            line: violation.line,
+            column: violation.column,
+            end_line: violation.end_line,
+            snippet: violation.snippet,
+            issue: violation.issue,
+            remedy: violation.remedy,
+            auto_fixable: violation.auto_fixable || false,
+            suppression_reason: violation.suppression_reason
+          });
+        }
       }
 
       // Run meta-rules if enabled (these should always run for inspectors)
@@ -254,6 +350,7 @@ export async function inspectSelf(params: InspectSelfParams): Promise<SelfInspec
           // Add file context to meta violations
           allMetaIssues.push({
             ...violation,
+            auto_fixable: hasAutoFixer(violation.rule_id),
             issue: `[${relativePath}] ${violation.issue}`
           });
         }
@@ -283,7 +380,8 @@ export async function inspectSelf(params: InspectSelfParams): Promise<SelfInspec
          allMetaIssues.filter(i => i.severity === 'LOW').length,
     meta_violations: allMetaIssues.length,
     auto_fixable: allIssues.filter(i => i.auto_fixable).length +
-                  allMetaIssues.filter(i => i.auto_fixable).length
+                  allMetaIssues.filter(i => i.auto_fixable).length,
+    suppressed: suppressedIssues.length
   };
 
   // Determine verdict
@@ -328,9 +426,14 @@ export async function inspectSelf(params: InspectSelfParams): Promise<SelfInspec
     for (const issue of allIssues.slice(0, 100)) { // Limit to 100
       createInspectionIssue({
         inspection_id: inspection.id,
+        rule_id: issue.rule_id,
         severity: issue.severity as any,
         category: issue.category,
-        location: issue.file,
+        location: issue.line !== undefined ? `${issue.file}:${issue.line}:${issue.column}` : issue.file,
+        line: issue.line,
+        column: issue.column,
+        end_line: issue.end_line,
+        snippet: issue.snippet,
         issue: issue.issue,
         remedy: issue.remedy,
         auto_fixable: issue.auto_fixable,
@@ -338,10 +441,32 @@ export async function inspectSelf(params: InspectSelfParams): Promise<SelfInspec
       });
     }
 
+    // Store waived findings so audits can see what was suppressed and why
+    for (const issue of suppressedIssues) {
+      createInspectionIssue({
+        inspection_id: inspection.id,
+        rule_id: issue.rule_id,
+        severity: issue.severity as any,
+        category: issue.category,
+        location: issue.line !== undefined ? `${issue.file}:${issue.line}:${issue.column}` : issue.file,
+        line: issue.line,
+        column: issue.column,
+        end_line: issue.end_line,
+        snippet: issue.snippet,
+        issue: issue.issue,
+        remedy: issue.remedy,
+        auto_fixable: issue.auto_fixable,
+        auto_fixed: false,
+        suppressed: true,
+        suppression_reason: issue.suppression_reason
+      });
+    }
+
     // Store meta-issues as a special category
     for (const issue of allMetaIssues) {
       createInspectionIssue({
         inspection_id: inspection.id,
+        rule_id: issue.rule_id,
         severity: issue.severity,
         category: 'meta_inspection',
         location: 'self',
@@ -0,0 +1,224 @@
+/**
+ * Tests for the AST analysis context and AST-based rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createAnalysisContext,
+  hasCall,
+  hasIdentifier,
+  hasImport,
+  findStringLiterals,
+  locateMatch,
+  parseSuppressions
+} from '../src/analysis/index.js';
+import { checkOAuthRules } from '../src/rules/oauth-rules.js';
+import { checkErrorRules } from '../src/rules/error-rules.js';
+import { runAllInspections, type RulePack } from '../src/rules/index.js';
+
+describe('Analysis Context', () => {
+  const code = `
+    import { Mutex } from 'async-mutex';
+    const axios = require('axios');
+
+    // TODO: add a lock around this
+    async function load() {
+      try {
+        await axios.get('https://api.example.com');
+      } catch (e) {
+        console.error(e);
+      }
+      return 'refresh_token';
+    }
+  `;
+
+  it('should index imports and requires', () => {
+    const ctx = createAnalysisContext(code);
+    expect(ctx.imports.map(i => i.module)).toEqual(['async-mutex', 'axios']);
+    expect(hasImport(ctx, /^Mutex$/)).toBe(true);
+  });
+
+  it('should index call expressions', () => {
+    const ctx = createAnalysisContext(code);
+    expect(hasCall(ctx, /^axios\.get$/)).toBe(true);
+    expect(ctx.calls.find(c => c.callee === 'axios.get')?.name).toBe('get');
+  });
+
+  it('should index catch clauses', () => {
+    const ctx = createAnalysisContext(code);
+    expect(ctx.catchClauses).toHaveLength(1);
+    expect(ctx.catchClauses[0].parameter).toBe('e');
+    expect(ctx.catchClauses[0].onlyLogs).toBe(true);
+    expect(ctx.catchClauses[0].isEmpty).toBe(false);
+  });
+
+  it('should keep string literals and comments out of identifiers', () => {
+    const ctx = createAnalysisContext(code);
+    expect(findStringLiterals(ctx, /refresh_token/)).toHaveLength(1);
+    expect(hasIdentifier(ctx, /refresh_token/)).toBe(false);
+    expect(hasIdentifier(ctx, /^lock$/)).toBe(false);
+  });
+
+  it('should parse JavaScript files by extension', () => {
+    const ctx = createAnalysisContext('const x = <div>{y}</div>;', 'view.jsx');
+    expect(ctx.sourceFile.parseDiagnostics.length).toBe(0);
+  });
+});
+
+describe('AST-based rules', () => {
+  it('oauth-002 should not be satisfied by a comment mentioning lock', () => {
+    const code = `
+      // we should lock this someday
+      async function getToken() {
+        return refreshToken();
+      }
+    `;
+    const issues = checkOAuthRules(code);
+    expect(issues.some(i => i.rule_id === 'oauth-002')).toBe(true);
+  });
+
+  it('oauth-002 should not trigger on a refresh_token string literal', () => {
+    const code = `
+      const body = new URLSearchParams({ grant_type: 'refresh_token' });
+    `;
+    const issues = checkOAuthRules(code);
+    expect(issues.some(i => i.rule_id === 'oauth-002')).toBe(false);
+  });
+
+  it('oauth-002 should pass when refresh is guarded by a mutex', () => {
+    const code = `
+      import { Mutex } from 'async-mutex';
+      const refreshMutex = new Mutex();
+      async function getToken() {
+        return refreshMutex.runExclusive(() => refreshToken());
+      }
+    `;
+    const issues = checkOAuthRules(code);
+    expect(issues.some(i => i.rule_id === 'oauth-002')).toBe(false);
+  });
+
+  it('oauth-002 should not treat names containing "lock" as a lock', () => {
+    const code = `
+      import { clock } from './time.js';
+      const blockSize = 16;
+      async function getToken(block: Buffer) {
+        return refreshToken(block.subarray(0, blockSize), clock.now());
+      }
+    `;
+    const issues = checkOAuthRules(code);
+    expect(issues.some(i => i.rule_id === 'oauth-002')).toBe(true);
+  });
+
+  it('err-006 should flag empty catch clauses but not commented ones', () => {
+    const empty = checkErrorRules('try { run(); } catch (e) {}');
+    expect(empty.some(i => i.rule_id === 'err-006' && i.severity === 'HIGH')).toBe(true);
+
+    const commented = checkErrorRules('try { run(); } catch { /* optional file */ }');
+    expect(commented.some(i => i.rule_id === 'err-006' && i.severity === 'HIGH')).toBe(false);
+  });
+
+  it('runAllInspections should accept a file name for parsing', () => {
+    const result = runAllInspections('const a = 1;', { file_name: 'index.js' });
+    expect(result.results.length).toBeGreaterThan(0);
+  });
+});
+
+describe('Violation locations', () => {
+  it('locateMatch should report 1-based line, column and snippet', () => {
+    const span = locateMatch('const a = 1;\n  retry(a);\n', /retry/);
+    expect(span).toEqual({ line: 2, column: 3, end_line: 2, snippet: 'retry(a);' });
+  });
+
+  it('err-006 should point at the swallowed catch clause', () => {
+    const code = [
+      'async function run() {',
+      '  try {',
+      '    await work();',
+      '  } catch (e) {}',
+      '}'
+    ].join('\n');
+    const issue = checkErrorRules(code).find(i => i.rule_id === 'err-006');
+    expect(issue?.line).toBe(4);
+    expect(issue?.column).toBe(5);
+    expect(issue?.snippet).toBe('} catch (e) {}');
+  });
+
+  it('oauth-008 should not echo the credential in its snippet', () => {
+    const code = 'const config = {\n  api_key: "abcdefghijklmnopqrstuvwxyz123456"\n};';
+    const issue = checkOAuthRules(code).find(i => i.rule_id === 'oauth-008');
+    expect(issue?.line).toBe(2);
+    expect(issue?.snippet).not.toContain('abcdefghijklmnopqrstuvwxyz');
+    expect(issue?.snippet).toContain('[REDACTED]');
+  });
+
+  it('runAllInspections should give every violation a line', () => {
+    const result = runAllInspections('\n\nfetch("https://api.example.com/users");\n');
+    const violations = result.results.flatMap(r => r.violations);
+    expect(violations.length).toBeGreaterThan(0);
+    expect(violations.every(v => typeof v.line === 'number' && typeof v.snippet === 'string')).toBe(true);
+  });
+});
+
+describe('Suppressions', () => {
+  const swallowed = [
+    'async function run() {',
+    '  // linus-ignore err-006: cleanup failures are expected and harmless',
+    '  try {',
+    '    await work();',
+    '  } catch (e) {}',
+    '}'
+  ].join('\n');
+
+  it('should parse next-line, block and file directives', () => {
+    const code = [
+      '// linus-ignore-file rl-001, rl-003: gateway enforces limits',
+      'const a = 1;',
+      '// linus-ignore oauth-002: single worker',
+      'refresh();',
+      '// linus-ignore err-006: expected',
+      'try {',
+      '  run();',
+      '} catch {}'
+    ].join('\n');
+    const directives = parseSuppressions(createAnalysisContext(code));
+
+    expect(directives).toHaveLength(3);
+    expect(directives[0]).toMatchObject({ scope: 'file', rule_ids: ['rl-001', 'rl-003'], reason: 'gateway enforces limits' });
+    expect(directives[1]).toMatchObject({ scope: 'line', start_line: 4, end_line: 4 });
+    expect(directives[2]).toMatchObject({ scope: 'block', start_line: 6, end_line: 8 });
+  });
+
+  it('should move justified suppressions out of the verdict', () => {
+    const result = runAllInspections(swallowed);
+    const errors = result.results.find(r => r.category === 'error_handling');
+
+    expect(errors?.violations.some(v => v.rule_id === 'err-006')).toBe(false);
+    expect(errors?.suppressed?.[0]).toMatchObject({
+      rule_id: 'err-006',
+      suppressed: true,
+      suppression_reason: 'cleanup failures are expected and harmless'
+    });
+    expect(result.summary.suppressed).toBe(1);
+  });
+
+  it('should report and ignore directives without a reason', () => {
+    const result = runAllInspections(swallowed.replace(': cleanup failures are expected and harmless', ''));
+    const violations = result.results.flatMap(r => r.violations);
+
+    expect(violations.some(v => v.rule_id === 'err-006')).toBe(true);
+    expect(violations.find(v => v.rule_id === 'sup-001')?.line).toBe(2);
+    expect(result.summary.suppressed).toBe(0);
+  });
+
+  it('should not let a line directive on the first line waive file-level findings', () => {
+    const pack: RulePack = {
+      name: 'team-pack',
+      rules: [{ id: 'team-001', name: 'File header', description: 'd', severity: 'MEDIUM', category: 'team', check: () => [{ issue: 'Missing file header' }] }]
+    };
+    const lineDirective = runAllInspections('// linus-ignore team-001: not this line\nconst a = 1;\n', { packs: [pack] });
+    const fileDirective = runAllInspections('// linus-ignore-file team-001: generated file\nconst a = 1;\n', { packs: [pack] });
+
+    expect(lineDirective.results.flatMap(r => r.violations).find(v => v.rule_id === 'team-001')?.line).toBe(1);
+    expect(fileDirective.results.flatMap(r => r.suppressed ?? []).find(v => v.rule_id === 'team-001')?.line).toBe(1);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Tests for the auto-fix engine
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import {
+  AUTO_FIXERS,
+  applyAutoFixes,
+  createUnifiedDiff,
+  issueFile,
+  revertAutoFix,
+  threeWayMerge
+} from '../src/fixes/index.js';
+import { createAnalysisContext } from '../src/analysis/index.js';
+import { createEmptyProfile } from '../src/profiler/index.js';
+import { runProfileAwareInspections } from '../src/rules/index.js';
+import { inspectCode } from '../src/inspectors/code-inspector.js';
+import {
+  createInspection,
+  createInspectionIssue,
+  getAutoFix,
+  getAutoFixesByInspection,
+  getInspection,
+  getIssuesByInspection
+} from '../src/database/index.js';
+
+const RETRY_CODE = `export async function fetchWithRetry(url: string, attempt = 0): Promise<Response> {
+  const res = await fetch(url);
+  if (res.status === 429) {
+    const backoff = 1000 * 2 ** attempt;
+    await new Promise(resolve => setTimeout(resolve, backoff));
+    return fetchWithRetry(url, attempt + 1);
+  }
+  return res;
+}
+`;
+
+const TOKEN_CODE = `export class TokenManager {
+  private token = '';
+
+  /** Exchange the refresh token for a new access token */
+  async refreshToken(): Promise<string> {
+    const res = await fetch('https://auth.example.com/token', { method: 'POST' });
+    this.token = (await res.json()).access_token;
+    return this.token;
+  }
+}
+`;
+
+const TENANT_TOKEN_CODE = `export async function refreshToken(tenantId: string): Promise<string> {
+  const res = await fetch(\`https://auth.example.com/\${tenantId}/token\`, { method: 'POST' });
+  return (await res.json()).access_token;
+}
+`;
+
+const SERVER_CODE = `import express from 'express';
+
+const app = express();
+
+app.get('/health', (_req, res) => res.json({ ok: true }));
+
+app.listen(3000);
+`;
+
+function fix(ruleId: string, code: string): string | undefined {
+  return AUTO_FIXERS[ruleId].apply(code, createAnalysisContext(code, 'src/index.ts'));
+}
+
+function fires(ruleId: string, code: string): boolean {
+  const result = runProfileAwareInspections(code, createEmptyProfile(), { rules: { [ruleId]: 'on' } });
+  return result.results.some(r => r.violations.some(v => v.rule_id === ruleId));
+}
+
+function syntaxErrors(code: string): number {
+  const output = ts.transpileModule(code, { reportDiagnostics: true, compilerOptions: { target: ts.ScriptTarget.ES2022 } });
+  return output.diagnostics?.length ?? 0;
+}
+
+describe('Auto-Fixers', () => {
+  it('should wrap token refresh in a single-flight lock (oauth-002)', () => {
+    expect(fires('oauth-002', TOKEN_CODE)).toBe(true);
+    const fixed = fix('oauth-002', TOKEN_CODE)!;
+
+    expect(fixed).toContain('private refreshTokenLock: Promise<string> | null = null;');
+    expect(fixed).toContain('if (this.refreshTokenLock) return this.refreshTokenLock;');
+    expect(fixed).not.toContain('any');
+    expect(fixed.indexOf('refreshTokenLock: Promise')).toBeLessThan(fixed.indexOf('/** Exchange'));
+    expect(fires('oauth-002', fixed)).toBe(false);
+    expect(syntaxErrors(fixed)).toBe(0);
+  });
+
+  it('should keep one in-flight refresh per argument list (oauth-002)', () => {
+    const fixed = fix('oauth-002', TENANT_TOKEN_CODE)!;
+
+    expect(fixed).toContain('const refreshTokenLocks = new Map<string, Promise<string>>();');
+    expect(fixed).toContain('const lockKey = JSON.stringify([tenantId]);');
+    expect(fires('oauth-002', fixed)).toBe(false);
+    expect(syntaxErrors(fixed)).toBe(0);
+  });
+
+  it('should decline a TypeScript refresh without a declared return type (oauth-002)', () => {
+    expect(fix('oauth-002', TOKEN_CODE.replace(': Promise<string>', ''))).toBeUndefined();
+  });
+
+  it('should add jitter to the backoff delay (rl-004)', () => {
+    expect(fires('rl-004', RETRY_CODE)).toBe(true);
+    const fixed = fix('rl-004', RETRY_CODE)!;
+
+    expect(fixed).toContain('const backoff = withJitter(1000 * 2 ** attempt);');
+    expect(fixed).toContain('function withJitter(delay: number): number {');
+    expect(fires('rl-004', fixed)).toBe(false);
+    expect(syntaxErrors(fixed)).toBe(0);
+  });
+
+  it('should reuse a withJitter the file already declares (rl-004)', () => {
+    const code = RETRY_CODE + '\nfunction withJitter(delay: number): number {\n  return delay * (0.5 + Math.random());\n}\n';
+    const fixed = fix('rl-004', code)!;
+
+    expect(fixed).toContain('const backoff = withJitter(1000 * 2 ** attempt);');
+    expect(fixed.match(/function withJitter/g)).toHaveLength(1);
+    expect(syntaxErrors(fixed)).toBe(0);
+  });
+
+  it('should add /health/ready next to existing routes (mcp-002)', () => {
+    expect(fires('mcp-002', SERVER_CODE)).toBe(true);
+    const fixed = fix('mcp-002', SERVER_CODE)!;
+
+    expect(fixed.indexOf("app.get('/health/ready'")).toBeGreaterThan(fixed.indexOf("app.get('/health',"));
+    expect(fixed.indexOf("app.get('/health/ready'")).toBeLessThan(fixed.indexOf('app.listen'));
+    expect(fires('mcp-002', fixed)).toBe(false);
+    expect(syntaxErrors(fixed)).toBe(0);
+  });
+
+  it('should decline code it cannot rewrite', () => {
+    expect(fix('oauth-002', 'const refreshToken = getToken();')).toBeUndefined();
+    expect(fix('rl-004', 'const backoffOptions = { base: 100, max: 5 };\nretry(load, backoffOptions);\n')).toBeUndefined();
+  });
+});
+
+describe('Unified Diff', () => {
+  it('should render hunks with line ranges', () => {
+    const diff = createUnifiedDiff('a\nb\nc\n', 'a\nB\nc\nd\n', 'src/x.ts');
+    expect(diff).toBe([
+      '--- a/src/x.ts',
+      '+++ b/src/x.ts',
+      '@@ -1,3 +1,4 @@',
+      ' a',
+      '-b',
+      '+B',
+      ' c',
+      '+d',
+      ''
+    ].join('\n'));
+  });
+
+  it('should recover the file from a stored issue location', () => {
+    expect(issueFile({ location: 'src/a.ts:4:7', line: 4, column: 7 })).toBe('src/a.ts');
+    expect(issueFile({ location: 'src/a.ts' })).toBe('src/a.ts');
+  });
+});
+
+describe('Three-Way Merge', () => {
+  it('should merge changes to different regions', () => {
+    const result = threeWayMerge('a\nb\nc\nd\ne\n', 'A\nb\nc\nd\ne\n', 'a\nb\nc\nd\nE\n');
+    expect(result).toMatchObject({ clean: true, merged: 'A\nb\nc\nd\nE\n' });
+  });
+
+  it('should report regions changed on both sides', () => {
+    const result = threeWayMerge('a\nb\nc\n', 'a\nB1\nc\n', 'a\nB2\nc\n');
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual([{ base_line: 2, base: ['b'], current: ['B1'], incoming: ['B2'] }]);
+    expect(result.merged).toBe('a\n<<<<<<< current\nB1\n||||||| base\nb\n=======\nB2\n>>>>>>> incoming\nc\n');
+  });
+});
+
+describe('Apply Auto-Fixes', () => {
+  let serverPath: string;
+
+  beforeEach(() => {
+    serverPath = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-fix-'));
+    fs.mkdirSync(path.join(serverPath, 'src'));
+    fs.writeFileSync(path.join(serverPath, 'src/retry.ts'), RETRY_CODE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(serverPath, { recursive: true, force: true });
+  });
+
+  it('should return a diff in dry-run and write verified fixes when confirmed', async () => {
+    const inspection = await inspectCode({ server_path: serverPath, use_profile: false });
+
+    const preview = applyAutoFixes({ inspection_id: inspection.inspection_id, server_path: serverPath, rule_ids: ['rl-004'] });
+    expect(preview.dry_run).toBe(true);
+    expect(preview.fixes).toMatchObject([{ rule_id: 'rl-004', file: 'src/retry.ts', status: 'planned', resolved: true }]);
+    expect(preview.diff).toContain('+    const backoff = withJitter(1000 * 2 ** attempt);');
+    expect(fs.readFileSync(path.join(serverPath, 'src/retry.ts'), 'utf-8')).toBe(RETRY_CODE);
+
+    const applied = applyAutoFixes({
+      inspection_id: inspection.inspection_id,
+      server_path: serverPath,
+      rule_ids: ['rl-004'],
+      dry_run: false
+    });
+    expect(applied.summary.applied).toBe(1);
+    expect(fs.readFileSync(path.join(serverPath, 'src/retry.ts'), 'utf-8')).toContain('withJitter(');
+
+    const [record] = getAutoFixesByInspection(inspection.inspection_id);
+    expect(record).toMatchObject({ fix_type: 'rl-004', file_path: 'src/retry.ts', original_content: RETRY_CODE });
+    expect(getInspection(inspection.inspection_id)?.auto_fixes_applied).toBe(1);
+
+    const reinspected = await inspectCode({ server_path: serverPath, use_profile: false });
+    expect(reinspected.issues.some(i => i.rule_id === 'rl-004')).toBe(false);
+  });
+
+  it('should reject a fix whose file does not parse', async () => {
+    fs.writeFileSync(path.join(serverPath, 'src/retry.ts'), RETRY_CODE + 'const broken = `unterminated;\n');
+    const inspection = await inspectCode({ server_path: serverPath, use_profile: false });
+
+    const result = applyAutoFixes({ inspection_id: inspection.inspection_id, server_path: serverPath, rule_ids: ['rl-004'] });
+    expect(result.fixes[0]).toMatchObject({ status: 'failed', resolved: false });
+    expect(result.fixes[0].error).toMatch(/does not parse/);
+  });
+
+  it('should mark every issue a fix resolves', () => {
+    const inspection = createInspection({
+      build_id: 'build-multi', server_name: 'multi', mode: 'build', verdict: 'BLOCKED',
+      summary_critical: 0, summary_high: 2, summary_medium: 0, summary_low: 0,
+      auto_fixes_available: 2, auto_fixes_applied: 0
+    });
+    for (const line of [4, 5]) {
+      createInspectionIssue({
+        inspection_id: inspection.id, rule_id: 'rl-004', severity: 'HIGH', category: 'rl',
+        location: `src/retry.ts:${line}:5`, line, column: 5,
+        issue: 'Backoff without jitter', remedy: 'Add jitter', auto_fixable: true, auto_fixed: false
+      });
+    }
+
+    const applied = applyAutoFixes({ inspection_id: inspection.id, server_path: serverPath, dry_run: false });
+    expect(applied.fixes).toHaveLength(1);
+    expect(getIssuesByInspection(inspection.id).every(issue => issue.auto_fixed)).toBe(true);
+
+    revertAutoFix({ server_path: serverPath, fix_id: applied.fixes[0].fix_id! });
+    expect(getIssuesByInspection(inspection.id).some(issue => issue.auto_fixed)).toBe(false);
+  });
+
+  it('should only mark issues with a fixer as auto-fixable', async () => {
+    const inspection = await inspectCode({ server_path: serverPath, use_profile: false });
+    const fixable = inspection.issues.filter(i => i.auto_fixable);
+    expect(inspection.issues.some(i => i.rule_id && !(i.rule_id in AUTO_FIXERS) && !i.auto_fixable)).toBe(true);
+    expect(fixable.every(i => i.rule_id! in AUTO_FIXERS)).toBe(true);
+    expect(inspection.summary.auto_fixable).toBe(fixable.length);
+
+    const result = applyAutoFixes({ inspection_id: inspection.inspection_id, server_path: serverPath });
+    expect(result.fixes.length).toBeGreaterThan(0);
+    expect(result.fixes.some(f => f.status === 'unsupported')).toBe(false);
+  });
+
+  it('should reject unknown inspections', () => {
+    expect(() => applyAutoFixes({ inspection_id: 'insp-missing', server_path: serverPath }))
+      .toThrow(/Inspection not found/);
+  });
+});
+
+describe('Revert Auto-Fixes', () => {
+  let serverPath: string;
+  let retryPath: string;
+  let inspectionId: string;
+  let fixId: string;
+
+  beforeEach(async () => {
+    serverPath = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-fix-revert-'));
+    fs.mkdirSync(path.join(serverPath, 'src'));
+    retryPath = path.join(serverPath, 'src/retry.ts');
+    fs.writeFileSync(retryPath, RETRY_CODE);
+
+    const inspection = await inspectCode({ server_path: serverPath, use_profile: false });
+    inspectionId = inspection.inspection_id;
+    const applied = applyAutoFixes({ inspection_id: inspectionId, server_path: serverPath, rule_ids: ['rl-004'], dry_run: false });
+    fixId = applied.fixes[0].fix_id!;
+  });
+
+  afterEach(() => {
+    fs.rmSync(serverPath, { recursive: true, force: true });
+  });
+
+  it('should restore an unchanged file and only revert once', () => {
+    const result = revertAutoFix({ server_path: serverPath, fix_id: fixId });
+    expect(result.summary.reverted).toBe(1);
+    expect(fs.readFileSync(retryPath, 'utf-8')).toBe(RETRY_CODE);
+    expect(getAutoFix(fixId)?.reverted_at).toBeTruthy();
+    expect(getInspection(inspectionId)?.auto_fixes_applied).toBe(0);
+
+    expect(revertAutoFix({ server_path: serverPath, fix_id: fixId }).outcomes[0].status).toBe('skipped');
+  });
+
+  it('should only write a clean merge of later edits when asked to', () => {
+    const edited = fs.readFileSync(retryPath, 'utf-8').replace('export async function', '// Retries 429s\nexport async function');
+    fs.writeFileSync(retryPath, edited);
+
+    const refused = revertAutoFix({ server_path: serverPath, inspection_id: inspectionId });
+    expect(refused.outcomes[0].status).toBe('changed');
+    expect(refused.outcomes[0].report?.changes_since_fix).toContain('+// Retries 429s');
+    expect(fs.readFileSync(retryPath, 'utf-8')).toBe(edited);
+
+    const merged = revertAutoFix({ server_path: serverPath, inspection_id: inspectionId, merge: true });
+    expect(merged.outcomes[0].status).toBe('merged');
+    expect(fs.readFileSync(retryPath, 'utf-8')).toBe('// Retries 429s\n' + RETRY_CODE);
+  });
+
+  it('should report conflicts instead of overwriting edits to the fixed code', () => {
+    const edited = fs.readFileSync(retryPath, 'utf-8').replace('withJitter(1000 * 2 ** attempt)', 'withJitter(500 * 2 ** attempt)');
+    fs.writeFileSync(retryPath, edited);
+
+    const result = revertAutoFix({ server_path: serverPath, fix_id: fixId, merge: true });
+    expect(result.outcomes[0].status).toBe('conflict');
+    expect(result.outcomes[0].report?.conflicts).toHaveLength(1);
+    expect(result.outcomes[0].report?.merged_preview).toContain('<<<<<<< src/retry.ts (current)');
+    expect(fs.readFileSync(retryPath, 'utf-8')).toBe(edited);
+    expect(getAutoFix(fixId)?.reverted_at).toBeFalsy();
+  });
+
+  it('should require a fix or inspection', () => {
+    expect(() => revertAutoFix({ server_path: serverPath })).toThrow(/fix_id or inspection_id required/);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for inspection baselines
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  fingerprintIssue,
+  compareWithBaseline,
+  type BaselineFile
+} from '../src/inspectors/baseline.js';
+import { inspectCode } from '../src/inspectors/code-inspector.js';
+
+describe('Baseline Fingerprints', () => {
+  it('should ignore whitespace changes in the snippet', () => {
+    const a = fingerprintIssue({ rule_id: 'err-006', file: 'src/a.ts', snippet: '} catch (e) {}' });
+    const b = fingerprintIssue({ rule_id: 'err-006', file: 'src/a.ts', snippet: '}  catch (e)\n{}' });
+    expect(a).toBe(b);
+  });
+
+  it('should differ by rule and file', () => {
+    const base = { rule_id: 'err-006', file: 'src/a.ts', snippet: 'x' };
+    expect(fingerprintIssue(base)).not.toBe(fingerprintIssue({ ...base, rule_id: 'err-007' }));
+    expect(fingerprintIssue(base)).not.toBe(fingerprintIssue({ ...base, file: 'src/b.ts' }));
+  });
+
+  it('should classify new, existing and fixed issues', () => {
+    const known = { rule_id: 'rl-001', file: 'src/a.ts', snippet: 'fetch(url)', severity: 'CRITICAL', issue: 'x' };
+    const gone = { rule_id: 'rl-003', file: 'src/a.ts', snippet: 'retry()', severity: 'CRITICAL', issue: 'y' };
+    const baseline: BaselineFile = {
+      version: 1,
+      created_at: new Date().toISOString(),
+      entries: [known, gone].map(i => ({ ...i, fingerprint: fingerprintIssue(i) }))
+    };
+
+    const comparison = compareWithBaseline([known, known], baseline);
+    expect(comparison.statuses).toEqual(['existing', 'new']);
+    expect(comparison.fixed.map(e => e.rule_id)).toEqual(['rl-003']);
+  });
+});
+
+describe('Baseline Gating', () => {
+  let serverPath: string;
+
+  beforeEach(() => {
+    serverPath = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-'));
+    fs.mkdirSync(path.join(serverPath, 'src'));
+    fs.writeFileSync(path.join(serverPath, 'src/index.ts'), 'try { run(); } catch (e) {}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(serverPath, { recursive: true, force: true });
+  });
+
+  it('should gate only on issues missing from the baseline', async () => {
+    const first = await inspectCode({ server_path: serverPath, write_baseline: true });
+    expect(fs.existsSync(path.join(serverPath, '.linus-baseline.json'))).toBe(true);
+    expect(first.baseline?.written).toBe(true);
+
+    const unchanged = await inspectCode({ server_path: serverPath, baseline_path: '.linus-baseline.json' });
+    expect(unchanged.summary.high).toBeGreaterThan(0);
+    expect(unchanged.baseline?.new).toBe(0);
+    expect(unchanged.verdict).toBe('PASSED');
+
+    fs.writeFileSync(path.join(serverPath, 'src/worker.ts'), 'try { stop(); } catch (err) {}\n');
+    const regressed = await inspectCode({ server_path: serverPath, baseline_path: '.linus-baseline.json' });
+    expect(regressed.issues.some(i => i.file === 'src/worker.ts' && i.baseline_status === 'new')).toBe(true);
+    expect(regressed.verdict).toBe('BLOCKED');
+  });
+
+  it('should reject a missing baseline file', async () => {
+    await expect(inspectCode({ server_path: serverPath, baseline_path: 'missing.json' }))
+      .rejects.toThrow(/Baseline file not found/);
+  });
+});
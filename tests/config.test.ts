@@ -0,0 +1,96 @@
+/**
+ * Tests for project-level .linusrc.json configuration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadLinusConfig } from '../src/config/index.js';
+import { detectServerProfile, createEmptyProfile } from '../src/profiler/index.js';
+import { runProfileAwareInspections } from '../src/rules/index.js';
+
+describe('Project Config', () => {
+  let serverPath: string;
+
+  beforeEach(() => {
+    serverPath = fs.mkdtempSync(path.join(os.tmpdir(), 'linusrc-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(serverPath, { recursive: true, force: true });
+  });
+
+  const writeJson = (file: string, data: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(serverPath, file)), { recursive: true });
+    fs.writeFileSync(path.join(serverPath, file), JSON.stringify(data));
+  };
+
+  it('should return an empty config when none exists', () => {
+    expect(loadLinusConfig(serverPath)).toEqual({});
+  });
+
+  it('should prefer .linusrc.json over linus.config.json', () => {
+    writeJson('.linusrc.json', { vendor: 'stripe' });
+    writeJson('linus.config.json', { vendor: 'hubspot' });
+
+    const config = loadLinusConfig(serverPath);
+    expect(config.vendor).toBe('stripe');
+    expect(config.source).toBe(path.join(serverPath, '.linusrc.json'));
+  });
+
+  it('should reject unknown keys and invalid rule settings', () => {
+    writeJson('linus.config.json', { rules: { 'err-011': 'disabled' } });
+    expect(() => loadLinusConfig(serverPath)).toThrow(/rules\.err-011/);
+
+    writeJson('linus.config.json', { vendr: 'stripe' });
+    expect(() => loadLinusConfig(serverPath)).toThrow(/Invalid/);
+  });
+
+  it('should fall back to legacy profiling.exclude_paths in interlock.json', () => {
+    writeJson('config/interlock.json', { profiling: { exclude_paths: ['src/rules/**'] } });
+    expect(loadLinusConfig(serverPath).profile?.exclude_paths).toEqual(['src/rules/**']);
+  });
+
+  it('should ignore files and pin profile flags during detection', async () => {
+    writeJson('.linusrc.json', {
+      ignore: ['src/generated/**'],
+      profile: { flags: { isMCPServer: true } }
+    });
+    fs.mkdirSync(path.join(serverPath, 'src/generated'), { recursive: true });
+    fs.writeFileSync(path.join(serverPath, 'src/generated/client.ts'), 'const webhookSecret = process.env.SECRET;');
+    fs.writeFileSync(path.join(serverPath, 'src/index.ts'), 'export const ok = true;');
+
+    const profile = await detectServerProfile(serverPath);
+    expect(profile.hasWebhooks).toBe(false);
+    expect(profile.isMCPServer).toBe(true);
+    expect(profile.detectedPatterns).toContain('pinned:isMCPServer=true');
+  });
+});
+
+describe('Rule Overrides', () => {
+  const code = 'try { run(); } catch (e) {}';
+
+  it('should drop disabled rules', () => {
+    const result = runProfileAwareInspections(code, createEmptyProfile(), { rules: { 'err-006': 'off' } });
+    const violations = result.results.flatMap(r => r.violations);
+    expect(violations.some(v => v.rule_id === 'err-006')).toBe(false);
+  });
+
+  it('should override severities', () => {
+    const result = runProfileAwareInspections(code, createEmptyProfile(), { rules: { 'err-006': 'LOW' } });
+    const issue = result.results.flatMap(r => r.violations).find(v => v.rule_id === 'err-006');
+    expect(issue?.severity).toBe('LOW');
+  });
+
+  it('should run enabled rules from a category the profile skips', () => {
+    const webhookCode = 'app.post("/webhook", handler);';
+    const skipped = runProfileAwareInspections(webhookCode, createEmptyProfile());
+    expect(skipped.applied_categories).not.toContain('webhooks');
+
+    const forced = runProfileAwareInspections(webhookCode, createEmptyProfile(), { rules: { 'wh-002': 'on' } });
+    const webhooks = forced.results.find(r => r.category === 'webhooks');
+    expect(webhooks?.violations.length).toBeGreaterThan(0);
+    expect(webhooks?.violations.every(v => v.rule_id === 'wh-002')).toBe(true);
+  });
+});
@@ -15,7 +15,9 @@ import {
   getIssuesByInspection,
   getVendorConfig,
   getAllVendorConfigs,
-  getComplianceRules
+  getComplianceRules,
+  createInspection,
+  createInspectionIssue
 } from '../src/database/index.js';
 
 describe('Database', () => {
@@ -161,6 +163,69 @@ describe('Database', () => {
       expect(issues.some(i => i.severity === 'HIGH')).toBe(true);
     });
 
+    it('should store line, column and snippet for issues', () => {
+      const inspectionId = `insp-${Date.now()}-span`;
+      saveInspection({
+        id: inspectionId,
+        build_id: 'B-002',
+        server_name: 'test',
+        verdict: 'BLOCKED',
+        summary_critical: 0,
+        summary_high: 1,
+        summary_medium: 0,
+        summary_low: 0
+      });
+
+      saveIssue({
+        id: `issue-${Date.now()}-span`,
+        inspection_id: inspectionId,
+        severity: 'HIGH',
+        category: 'err',
+        location: 'src/index.ts:12:5',
+        line: 12,
+        column: 5,
+        end_line: 12,
+        snippet: 'catch (e) {}',
+        issue: 'Empty catch block'
+      });
+
+      const [issue] = getIssuesByInspection(inspectionId);
+      expect(issue.line).toBe(12);
+      expect(issue.column).toBe(5);
+      expect(issue.end_line).toBe(12);
+      expect(issue.snippet).toBe('catch (e) {}');
+    });
+
+    it('should store suppressed issues with their justification', () => {
+      const inspection = createInspection({
+        build_id: 'B-003',
+        server_name: 'test',
+        mode: 'build',
+        verdict: 'PASSED',
+        summary_critical: 0,
+        summary_high: 0,
+        summary_medium: 0,
+        summary_low: 0,
+        auto_fixes_available: 0,
+        auto_fixes_applied: 0
+      });
+
+      createInspectionIssue({
+        inspection_id: inspection.id,
+        severity: 'HIGH',
+        category: 'err',
+        issue: 'Empty catch block',
+        auto_fixable: true,
+        auto_fixed: false,
+        suppressed: true,
+        suppression_reason: 'cleanup is best effort'
+      });
+
+      const [issue] = getIssuesByInspection(inspection.id);
+      expect(issue.suppressed).toBeTruthy();
+      expect(issue.suppression_reason).toBe('cleanup is best effort');
+    });
+
     it('should return empty array for inspection with no issues', () => {
       const issues = getIssuesByInspection('no-issues-inspection');
       expect(issues).toEqual([]);
@@ -0,0 +1,115 @@
+/**
+ * Tests for diff-aware inspection
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseChangedLines, getDiffScope, isInChangedLines } from '../src/inspectors/git-diff.js';
+import { inspectCode } from '../src/inspectors/code-inspector.js';
+
+const EMPTY_CATCH = 'try { run(); } catch (e) {}';
+
+describe('Changed Line Parsing', () => {
+  it('should collect added and modified ranges from a -U0 diff', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -3 +3 @@ export function a() {',
+      '@@ -10,2 +11,4 @@',
+      '@@ -20,3 +24,0 @@',
+      'diff --git a/src/gone.ts b/src/gone.ts',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1,5 +0,0 @@'
+    ].join('\n');
+
+    const files = parseChangedLines(diff);
+    expect([...files.keys()]).toEqual(['src/a.ts']);
+    expect(files.get('src/a.ts')).toEqual([{ start: 3, end: 3 }, { start: 11, end: 14 }]);
+  });
+
+  it('should keep findings that overlap a changed range or have no line', () => {
+    const ranges = [{ start: 5, end: 8 }];
+    expect(isInChangedLines(ranges, { line: 6 })).toBe(true);
+    expect(isInChangedLines(ranges, { line: 2, end_line: 5 })).toBe(true);
+    expect(isInChangedLines(ranges, { line: 9 })).toBe(false);
+    expect(isInChangedLines(ranges, {})).toBe(true);
+    expect(isInChangedLines(undefined, { line: 100 })).toBe(true);
+  });
+});
+
+describe('Diff-Aware Inspection', () => {
+  let repoPath: string;
+  let serverPath: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: repoPath, stdio: 'pipe' });
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-scope-'));
+    serverPath = path.join(repoPath, 'server');
+    fs.mkdirSync(path.join(serverPath, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(serverPath, 'src/old.ts'), `${EMPTY_CATCH}\nexport const a = 1;\n`);
+    fs.writeFileSync(path.join(serverPath, 'src/untouched.ts'), `${EMPTY_CATCH}\n`);
+    git('init', '-q');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'base');
+    git('tag', 'base');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should list changed and untracked files relative to the server', () => {
+    fs.appendFileSync(path.join(serverPath, 'src/old.ts'), `${EMPTY_CATCH}\n`);
+    fs.writeFileSync(path.join(serverPath, 'src/new.ts'), `${EMPTY_CATCH}\n`);
+
+    const scope = getDiffScope(serverPath, 'base');
+    expect(scope.base_commit).toMatch(/^[0-9a-f]{40}$/);
+    expect([...scope.files.keys()].sort()).toEqual(['src/new.ts', 'src/old.ts']);
+    expect(scope.files.get('src/old.ts')).toEqual([{ start: 3, end: 3 }]);
+    expect(scope.files.get('src/new.ts')).toBeUndefined();
+  });
+
+  it('should inspect only changed files and lines', async () => {
+    fs.appendFileSync(path.join(serverPath, 'src/old.ts'), `${EMPTY_CATCH}\n`);
+    fs.writeFileSync(path.join(serverPath, 'src/new.ts'), `${EMPTY_CATCH}\n`);
+
+    const full = await inspectCode({ server_path: serverPath });
+    const diffed = await inspectCode({ server_path: serverPath, since: 'base' });
+
+    expect(full.issues.some(i => i.file === 'src/untouched.ts')).toBe(true);
+    expect(diffed.summary.total_files).toBe(2);
+    expect(diffed.issues.some(i => i.file === 'src/untouched.ts')).toBe(false);
+    expect(diffed.issues.filter(i => i.file === 'src/old.ts' && i.line !== undefined).every(i => i.line === 3)).toBe(true);
+    expect(diffed.issues.some(i => i.file === 'src/new.ts')).toBe(true);
+    expect(diffed.diff?.unchanged_line_issues).toBeGreaterThan(0);
+
+    // The profile still comes from the whole server
+    expect(diffed.profile?.type).toBe(full.profile?.type);
+  });
+
+  it('should compare only baseline entries in changed files', async () => {
+    const baselinePath = path.join(repoPath, 'baseline.json');
+    await inspectCode({ server_path: serverPath, baseline_path: baselinePath, write_baseline: true });
+    fs.writeFileSync(path.join(serverPath, 'src/old.ts'), 'export const a = 1;\n');
+
+    const diffed = await inspectCode({ server_path: serverPath, since: 'base', baseline_path: baselinePath });
+    expect(diffed.baseline?.fixed.length).toBeGreaterThan(0);
+    expect(diffed.baseline?.fixed.every(entry => entry.file === 'src/old.ts')).toBe(true);
+  });
+
+  it('should refuse to write a baseline from a diff-scoped inspection', async () => {
+    await expect(inspectCode({ server_path: serverPath, since: 'base', write_baseline: true }))
+      .rejects.toThrow(/write_baseline cannot be combined with since/);
+  });
+
+  it('should reject an unknown ref before recording an inspection', async () => {
+    await expect(inspectCode({ server_path: serverPath, since: 'no-such-ref' })).rejects.toThrow(/Unknown git ref/);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests for cross-file analysis: the project import graph and whole-server rules
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  buildProjectGraph,
+  createProjectScope,
+  reachableFiles,
+  type ProjectSource
+} from '../src/analysis/index.js';
+import { runAllInspections, runServerInspections } from '../src/rules/index.js';
+import { inspectCode } from '../src/inspectors/code-inspector.js';
+import { projectCacheKey } from '../src/inspectors/result-cache.js';
+import { createEmptyProfile } from '../src/profiler/index.js';
+
+const ROOT = '/srv/app/src';
+
+const LOCK_MODULE = `
+import { Mutex } from 'async-mutex';
+const mutex = new Mutex();
+export function singleFlight<T>(work: () => Promise<T>): Promise<T> {
+  return mutex.runExclusive(work);
+}
+`;
+
+const AUTH_CLIENT = `
+import { singleFlight } from '../utils/concurrency.js';
+export async function getAccessToken() {
+  return singleFlight(() => refreshAccessToken(refreshToken));
+}
+`;
+
+const RETRY_MODULE = `
+export async function withRetries<T>(work: () => Promise<T>, attempts = 5): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await work();
+    } catch (error) {
+      if (attempt >= attempts) throw error;
+      await sleep(100 * 2 ** attempt);
+    }
+  }
+}
+`;
+
+const CALLER = `
+import { withRetries } from './utils/index.js';
+export const load = () => withRetries(() => loadOrders(), 3);
+`;
+
+function source(relativePath: string, code: string): ProjectSource {
+  return { file_name: path.join(ROOT, relativePath), code };
+}
+
+describe('Project Graph', () => {
+  it('should resolve emitted .js names, index files and re-exports', () => {
+    const graph = buildProjectGraph([
+      source('caller.ts', CALLER),
+      source('utils/index.ts', "export * from './retry.js';\nexport { helper } from './helper';\n"),
+      source('utils/retry.ts', RETRY_MODULE),
+      source('utils/helper.ts', "import _ from 'lodash';\nexport const helper = 1;\n")
+    ]);
+
+    expect(graph.files[path.join(ROOT, 'caller.ts')].imports).toEqual([path.join(ROOT, 'utils/index.ts')]);
+    expect(graph.files[path.join(ROOT, 'utils/index.ts')].imports).toEqual([
+      path.join(ROOT, 'utils/retry.ts'),
+      path.join(ROOT, 'utils/helper.ts')
+    ]);
+    expect(graph.files[path.join(ROOT, 'utils/helper.ts')].imports).toEqual([]);
+    expect(reachableFiles(graph, path.join(ROOT, 'caller.ts'))).toHaveLength(3);
+  });
+
+  it('should answer capability and symbol queries through transitive imports', () => {
+    const graph = buildProjectGraph([
+      source('caller.ts', CALLER),
+      source('utils/index.ts', "export * from './retry.js';\n"),
+      source('utils/retry.ts', RETRY_MODULE)
+    ]);
+    const scope = createProjectScope(graph, path.join(ROOT, 'caller.ts'));
+
+    expect(graph.files[path.join(ROOT, 'utils/retry.ts')].capabilities).toContain('exponential-backoff');
+    expect(scope.reaches('exponential-backoff')).toBe(path.join(ROOT, 'utils/retry.ts'));
+    expect(scope.reaches('circuit-breaker')).toBeUndefined();
+    expect(scope.reachesSymbol(/^withRetries$/)).toBe(path.join(ROOT, 'utils/retry.ts'));
+    expect(createProjectScope(graph, path.join(ROOT, 'utils/retry.ts')).reachableFiles).toEqual([]);
+  });
+
+  it('should only change the cache key of files that reach an edited helper', () => {
+    const before = buildProjectGraph([source('caller.ts', CALLER), source('utils/index.ts', RETRY_MODULE), source('other.ts', 'export const x = 1;\n')]);
+    const after = buildProjectGraph([source('caller.ts', CALLER), source('utils/index.ts', 'export const withRetries = 1;\n'), source('other.ts', 'export const x = 1;\n')]);
+
+    expect(projectCacheKey(after, path.join(ROOT, 'caller.ts'))).not.toBe(projectCacheKey(before, path.join(ROOT, 'caller.ts')));
+    expect(projectCacheKey(after, path.join(ROOT, 'other.ts'))).toBe(projectCacheKey(before, path.join(ROOT, 'other.ts')));
+  });
+});
+
+describe('Cross-File Rules', () => {
+  it('should accept a lock imported from another module (oauth-002)', () => {
+    const project = buildProjectGraph([source('auth/client.ts', AUTH_CLIENT), source('utils/concurrency.ts', LOCK_MODULE)]);
+    const fileName = path.join(ROOT, 'auth/client.ts');
+
+    const alone = runAllInspections(AUTH_CLIENT, { file_name: fileName });
+    const inProject = runAllInspections(AUTH_CLIENT, { file_name: fileName, project });
+
+    expect(alone.results.flatMap(r => r.violations).some(v => v.rule_id === 'oauth-002')).toBe(true);
+    expect(inProject.results.flatMap(r => r.violations).some(v => v.rule_id === 'oauth-002')).toBe(false);
+  });
+
+  it('should accept backoff from a shared retry helper (rl-003)', () => {
+    const project = buildProjectGraph([source('caller.ts', CALLER), source('utils/index.ts', RETRY_MODULE)]);
+    const fileName = path.join(ROOT, 'caller.ts');
+
+    const alone = runAllInspections(CALLER, { file_name: fileName });
+    const inProject = runAllInspections(CALLER, { file_name: fileName, project });
+
+    expect(alone.results.flatMap(r => r.violations).some(v => v.rule_id === 'rl-003')).toBe(true);
+    expect(inProject.results.flatMap(r => r.violations).some(v => v.rule_id === 'rl-003')).toBe(false);
+  });
+
+  it('should map whole-server findings back to their file and line', () => {
+    const profile = { ...createEmptyProfile(), isMCPServer: true, hasHTTPLayer: true };
+    const findings = runServerInspections([
+      source('tools.ts', 'export const tools = [];\n'),
+      source('server.ts', "import express from 'express';\nconst app = express();\napp.listen(3000);\n")
+    ], {}, profile);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].file_name).toBe(path.join(ROOT, 'server.ts'));
+    const health = findings[0].violations.find(v => v.rule_id === 'mcp-001');
+    expect(health).toMatchObject({ line: 1, snippet: "import express from 'express';" });
+  });
+
+  it('should check each source on its own so a broken file hides nothing', () => {
+    const profile = { ...createEmptyProfile(), isMCPServer: true, hasHTTPLayer: true };
+    const findings = runServerInspections([
+      source('broken.ts', 'export const banner = `unterminated;\n'),
+      source('server.ts', "import express from 'express';\nconst app = express();\napp.listen(3000);\n"),
+      source('routes/health.ts', "router.get('/health', ok);\n")
+    ], {}, profile);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].file_name).toBe(path.join(ROOT, 'server.ts'));
+    const ruleIds = findings[0].violations.map(v => v.rule_id);
+    expect(ruleIds).toContain('mcp-002');
+    expect(ruleIds).not.toContain('mcp-001');
+  });
+});
+
+describe('Server Inspection', () => {
+  let serverPath: string;
+
+  beforeEach(() => {
+    serverPath = fs.mkdtempSync(path.join(os.tmpdir(), 'project-graph-'));
+    fs.mkdirSync(path.join(serverPath, 'src/routes'), { recursive: true });
+    fs.writeFileSync(path.join(serverPath, 'src/server.ts'), [
+      "import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';",
+      "import express from 'express';",
+      "import rateLimit from 'express-rate-limit';",
+      "import { healthRouter } from './routes/health.js';",
+      'const app = express();',
+      'app.use(rateLimit({ windowMs: 60000 }));',
+      'app.use(healthRouter);',
+      'const server = app.listen(3000);',
+      "process.on('SIGINT', () => server.close());",
+      ''
+    ].join('\n'));
+    fs.writeFileSync(path.join(serverPath, 'src/routes/health.ts'), [
+      "import { Router } from 'express';",
+      'export const healthRouter = Router();',
+      "healthRouter.get('/health', (_req, res) => res.json({ ok: true }));",
+      "healthRouter.get('/health/ready', (_req, res) => res.json({ ready: true }));",
+      "healthRouter.get('/health/detailed', (_req, res) => res.json({}));",
+      ''
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(serverPath, { recursive: true, force: true });
+  });
+
+  const WHOLE_SERVER_RULES = ['mcp-001', 'mcp-002', 'mcp-003', 'mcp-006', 'mcp-010'];
+
+  it('should satisfy whole-server rules across modules', async () => {
+    const result = await inspectCode({ server_path: serverPath, use_cache: false });
+
+    expect(result.profile?.isMCPServer).toBe(true);
+    expect(result.issues.filter(i => WHOLE_SERVER_RULES.includes(i.rule_id))).toEqual([]);
+  }, 30000);
+
+  it('should report a missing whole-server capability once per server', async () => {
+    fs.writeFileSync(path.join(serverPath, 'src/routes/health.ts'), [
+      "import { Router } from 'express';",
+      'export const healthRouter = Router();',
+      ''
+    ].join('\n'));
+
+    const result = await inspectCode({ server_path: serverPath, use_cache: false });
+    const missingHealth = result.issues.filter(i => i.rule_id === 'mcp-001');
+
+    expect(missingHealth).toHaveLength(1);
+    expect(missingHealth[0]).toMatchObject({ file: 'src/routes/health.ts', line: 1 });
+  }, 30000);
+});
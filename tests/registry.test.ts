@@ -0,0 +1,74 @@
+/**
+ * Tests for the rule registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RULE_CATEGORIES,
+  RULE_REGISTRY,
+  RULE_PREFIX_CATEGORIES,
+  getRegisteredRule,
+  runAllInspections,
+  runProfileAwareInspections
+} from '../src/rules/index.js';
+import { RULE_APPLICABILITY, createEmptyProfile, shouldApplyRule } from '../src/profiler/index.js';
+
+describe('Rule Registry', () => {
+  it('should declare applicability for every rule', () => {
+    for (const definition of RULE_CATEGORIES) {
+      expect(Object.keys(definition.applicability).sort())
+        .toEqual(definition.rules.map(r => r.id).sort());
+    }
+  });
+
+  it('should only reference known applicability categories', () => {
+    const known = new Set(RULE_APPLICABILITY.map(a => a.category));
+    for (const rule of RULE_REGISTRY) {
+      for (const tag of rule.applicability) {
+        expect(known.has(tag), `${rule.id} -> ${tag}`).toBe(true);
+      }
+    }
+  });
+
+  it('should have unique IDs whose prefix maps to their category', () => {
+    const ids = RULE_REGISTRY.map(r => r.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const rule of RULE_REGISTRY) {
+      expect(RULE_PREFIX_CATEGORIES[rule.id.split('-')[0]]).toBe(rule.category);
+    }
+  });
+
+  it('should carry metadata from the rule definitions', () => {
+    expect(getRegisteredRule('oauth-008')).toMatchObject({ name: 'Hardcoded Credentials', category: 'oauth' });
+    expect(getRegisteredRule('oauth-003')?.name).toBe('No Token Revocation Detection');
+    expect(getRegisteredRule('gdpr-001')?.regulation).toBe('GDPR');
+  });
+
+  it('should drive the profile rule filter', () => {
+    const profile = createEmptyProfile();
+    expect(shouldApplyRule('err-006', profile).shouldApply).toBe(true);
+    expect(shouldApplyRule('oauth-008', profile).shouldApply).toBe(false);
+    expect(shouldApplyRule('di-001', { ...profile, hasDatabaseWrites: true }).shouldApply).toBe(true);
+  });
+});
+
+describe('Registry Pipelines', () => {
+  const code = 'const res = await fetch(url);\ntry { run(); } catch (e) {}\n';
+
+  it('should run every checked category except profile-only ones without a profile', () => {
+    const categories = runAllInspections(code).results.map(r => r.category);
+    expect(categories).toEqual(['rate_limiting', 'oauth', 'error_handling', 'webhooks', 'compliance', 'data_integrity']);
+  });
+
+  it('should skip categories whose rules do not apply to the profile', () => {
+    const result = runProfileAwareInspections(code, createEmptyProfile());
+    expect(result.applied_categories).toEqual(['error_handling', 'compliance']);
+    expect(result.skipped_categories).toContainEqual({
+      category: 'oauth',
+      reason: 'Server does not use OAuth'
+    });
+
+    const mcp = runProfileAwareInspections(code, { ...createEmptyProfile(), isMCPServer: true });
+    expect(mcp.applied_categories).toContain('mcp_standards');
+  });
+});
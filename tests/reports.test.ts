@@ -0,0 +1,113 @@
+/**
+ * Tests for report exports
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  initDatabase,
+  createInspection,
+  createInspectionIssue,
+  getInspection,
+  getIssuesByInspection
+} from '../src/database/index.js';
+import { buildSarifLog, severityToLevel } from '../src/reports/index.js';
+import { tools } from '../src/tools/index.js';
+
+describe('SARIF Export', () => {
+  let inspectionId: string;
+
+  beforeAll(() => {
+    const testDataDir = path.join(process.cwd(), 'data');
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+    initDatabase();
+
+    const inspection = createInspection({
+      build_id: 'B-SARIF',
+      server_name: 'sarif-test',
+      mode: 'build',
+      verdict: 'BLOCKED',
+      summary_critical: 0,
+      summary_high: 1,
+      summary_medium: 0,
+      summary_low: 0,
+      auto_fixes_available: 1,
+      auto_fixes_applied: 0
+    });
+    inspectionId = inspection.id;
+
+    createInspectionIssue({
+      inspection_id: inspectionId,
+      rule_id: 'err-006',
+      severity: 'HIGH',
+      category: 'err',
+      location: 'src/index.ts:4:5',
+      line: 4,
+      column: 5,
+      end_line: 4,
+      snippet: '} catch (e) {}',
+      issue: 'Empty catch block - errors are being swallowed silently',
+      remedy: 'Log error and rethrow',
+      auto_fixable: true,
+      auto_fixed: false
+    });
+
+    createInspectionIssue({
+      inspection_id: inspectionId,
+      rule_id: 'rl-003',
+      severity: 'CRITICAL',
+      category: 'rl',
+      location: 'src/client.ts:10:3',
+      line: 10,
+      column: 3,
+      end_line: 10,
+      snippet: 'retry()',
+      issue: 'Retry logic without exponential backoff detected',
+      auto_fixable: true,
+      auto_fixed: false,
+      suppressed: true,
+      suppression_reason: 'queue handles retries'
+    });
+  });
+
+  it('should map severities to SARIF levels', () => {
+    expect(severityToLevel('CRITICAL')).toBe('error');
+    expect(severityToLevel('HIGH')).toBe('error');
+    expect(severityToLevel('MEDIUM')).toBe('warning');
+    expect(severityToLevel('LOW')).toBe('note');
+  });
+
+  it('should emit a SARIF 2.1.0 log with rule metadata and locations', () => {
+    const inspection = getInspection(inspectionId)!;
+    const log = buildSarifLog([{ inspection, issues: getIssuesByInspection(inspectionId) }]);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+
+    const run = log.runs[0];
+    const rule = run.tool.driver.rules.find(r => r.id === 'err-006');
+    expect(rule?.name).toBe('Swallowed Errors');
+    expect(rule?.defaultConfiguration.level).toBe('error');
+
+    const result = run.results.find(r => r.ruleId === 'err-006')!;
+    expect(run.tool.driver.rules[result.ruleIndex!].id).toBe('err-006');
+    expect(result.locations?.[0].physicalLocation.artifactLocation.uri).toBe('src/index.ts');
+    expect(result.locations?.[0].physicalLocation.region).toMatchObject({ startLine: 4, startColumn: 5, endLine: 4 });
+  });
+
+  it('should mark suppressed issues with their justification', () => {
+    const inspection = getInspection(inspectionId)!;
+    const log = buildSarifLog([{ inspection, issues: getIssuesByInspection(inspectionId) }]);
+    const result = log.runs[0].results.find(r => r.ruleId === 'rl-003');
+    expect(result?.suppressions).toEqual([{ kind: 'inSource', justification: 'queue handles retries' }]);
+  });
+
+  it('should be available from get_inspection_report', async () => {
+    const report: any = await tools.get_inspection_report.handler({ inspection_id: inspectionId, format: 'sarif' });
+    expect(report.success).toBe(true);
+    expect(report.sarif.runs[0].results).toHaveLength(2);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for the per-file inspection result cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { computeRulesetVersion, profileCacheKey } from '../src/inspectors/result-cache.js';
+import { inspectCode } from '../src/inspectors/code-inspector.js';
+import { createEmptyProfile } from '../src/profiler/index.js';
+import type { RulePack } from '../src/rules/index.js';
+
+describe('Cache Keys', () => {
+  it('should key profiles by type and capability flags only', () => {
+    const profile = createEmptyProfile();
+    const key = profileCacheKey(profile);
+
+    expect(profileCacheKey(undefined)).toBe('legacy');
+    expect(profileCacheKey({ ...profile, confidence: 0.1, detectedPatterns: ['x'] })).toBe(key);
+    expect(profileCacheKey({ ...profile, hasOAuth: !profile.hasOAuth })).not.toBe(key);
+  });
+
+  it('should change the ruleset version with overrides and packs', () => {
+    const pack: RulePack = {
+      name: 'team-pack',
+      rules: [{ id: 'team-001', name: 'No TODO', description: 'd', severity: 'LOW', category: 'team', check: () => [] }]
+    };
+    const base = computeRulesetVersion();
+
+    expect(computeRulesetVersion()).toBe(base);
+    expect(computeRulesetVersion([], { 'err-006': 'off' })).not.toBe(base);
+    expect(computeRulesetVersion([pack])).not.toBe(base);
+    expect(computeRulesetVersion([{ ...pack, rules: [{ ...pack.rules[0], check: () => [{ issue: 'x' }] }] }]))
+      .not.toBe(computeRulesetVersion([pack]));
+  });
+});
+
+describe('Incremental Inspection', () => {
+  let serverPath: string;
+
+  beforeEach(() => {
+    serverPath = fs.mkdtempSync(path.join(os.tmpdir(), 'result-cache-'));
+    fs.mkdirSync(path.join(serverPath, 'src'));
+    fs.writeFileSync(path.join(serverPath, 'src/a.ts'), 'try { run(); } catch (e) {}\n');
+    fs.writeFileSync(path.join(serverPath, 'src/b.ts'), 'export const b = 1;\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(serverPath, { recursive: true, force: true });
+  });
+
+  it('should reuse results for unchanged files', async () => {
+    const first = await inspectCode({ server_path: serverPath });
+    expect(first.cache).toEqual({ hits: 0, misses: 2 });
+
+    const second = await inspectCode({ server_path: serverPath });
+    expect(second.cache).toEqual({ hits: 2, misses: 0 });
+    expect(second.issues).toEqual(first.issues);
+    expect(second.verdict).toBe(first.verdict);
+    expect(second.applied_categories).toEqual(first.applied_categories);
+
+    fs.writeFileSync(path.join(serverPath, 'src/b.ts'), 'export const b = 2;\n');
+    const third = await inspectCode({ server_path: serverPath });
+    expect(third.cache).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('should drop entries for a file\'s earlier contents', async () => {
+    await inspectCode({ server_path: serverPath });
+    fs.writeFileSync(path.join(serverPath, 'src/b.ts'), 'export const b = 2;\n');
+    await inspectCode({ server_path: serverPath });
+
+    // The first version of b.ts was evicted when the second was cached
+    fs.writeFileSync(path.join(serverPath, 'src/b.ts'), 'export const b = 1;\n');
+    const reverted = await inspectCode({ server_path: serverPath });
+    expect(reverted.cache).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('should miss when vendor or regulation change', async () => {
+    await inspectCode({ server_path: serverPath });
+    const withRegulation = await inspectCode({ server_path: serverPath, regulation: 'HIPAA' });
+    expect(withRegulation.cache?.hits).toBe(0);
+  });
+
+  it('should bypass the cache with use_cache: false', async () => {
+    await inspectCode({ server_path: serverPath });
+    const uncached = await inspectCode({ server_path: serverPath, use_cache: false });
+    expect(uncached.cache).toBeUndefined();
+    expect(uncached.summary.total_files).toBe(2);
+  });
+});
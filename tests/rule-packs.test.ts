@@ -0,0 +1,104 @@
+/**
+ * Tests for pluggable rule packs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadRulePacks,
+  listRuleMetadata,
+  runAllInspections,
+  runProfileAwareInspections
+} from '../src/rules/index.js';
+import { createEmptyProfile, shouldApplyRule } from '../src/profiler/index.js';
+import { inspectCode } from '../src/inspectors/code-inspector.js';
+
+const PACK_SOURCE = `
+export default {
+  name: 'acme-rules',
+  rules: [{
+    id: 'acme-001',
+    name: 'Raw fetch',
+    description: 'Outbound calls must go through the Acme HTTP client',
+    severity: 'HIGH',
+    category: 'acme_http',
+    requires: ['rate-limit-outbound'],
+    check: (code, context) => context.calls
+      .filter(c => c.callee === 'fetch')
+      .map(c => ({ issue: 'Raw fetch() bypasses acmeHttp', remedy: 'Use acmeHttp()', node: c.node }))
+  }]
+};
+`;
+
+describe('Rule Packs', () => {
+  let serverPath: string;
+  const code = 'const ok = true;\nconst res = await fetch(url);\n';
+
+  beforeEach(() => {
+    serverPath = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-pack-'));
+    fs.mkdirSync(path.join(serverPath, 'linus-rules'));
+    fs.writeFileSync(path.join(serverPath, 'linus-rules/acme.mjs'), PACK_SOURCE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(serverPath, { recursive: true, force: true });
+  });
+
+  it('should load packs from a directory and report located findings', async () => {
+    const packs = await loadRulePacks(serverPath, ['./linus-rules']);
+    expect(packs.map(p => p.name)).toEqual(['acme-rules']);
+
+    const result = runAllInspections(code, { packs });
+    const acme = result.results.find(r => r.category === 'acme_http');
+    expect(acme?.passed).toBe(false);
+    expect(acme?.violations[0]).toMatchObject({ rule_id: 'acme-001', severity: 'HIGH', line: 2 });
+    expect(listRuleMetadata(packs).some(r => r.id === 'acme-001' && r.category === 'acme_http')).toBe(true);
+  });
+
+  it('should load packs from an npm package', async () => {
+    const pkgDir = path.join(serverPath, 'node_modules/@acme/linus-rules');
+    fs.mkdirSync(pkgDir, { recursive: true });
+    fs.writeFileSync(path.join(pkgDir, 'package.json'), JSON.stringify({ name: '@acme/linus-rules', main: 'index.mjs' }));
+    fs.writeFileSync(path.join(pkgDir, 'index.mjs'), PACK_SOURCE);
+
+    const packs = await loadRulePacks(serverPath, ['@acme/linus-rules']);
+    expect(packs[0].rules.map(r => r.id)).toEqual(['acme-001']);
+  });
+
+  it('should skip pack rules whose profile requirements are not met', async () => {
+    const packs = await loadRulePacks(serverPath, ['./linus-rules']);
+
+    const internal = runProfileAwareInspections(code, createEmptyProfile(), { packs });
+    expect(internal.results.some(r => r.category === 'acme_http')).toBe(false);
+    expect(internal.skipped_categories.map(s => s.category)).toContain('acme_http');
+
+    const consumer = runProfileAwareInspections(code, { ...createEmptyProfile(), hasExternalAPIs: true }, { packs });
+    expect(consumer.applied_categories).toContain('acme_http');
+
+    const forced = runProfileAwareInspections(code, createEmptyProfile(), { packs, rules: { 'acme-001': 'MEDIUM' } });
+    expect(forced.results.find(r => r.category === 'acme_http')?.violations[0].severity).toBe('MEDIUM');
+  });
+
+  it('should keep pack requirements out of the shared rule filter', async () => {
+    await loadRulePacks(serverPath, ['./linus-rules']);
+
+    expect(shouldApplyRule('acme-001', createEmptyProfile())).toMatchObject({ shouldApply: true, categories: [] });
+    expect(shouldApplyRule('acme-001', createEmptyProfile(), ['rate-limit-outbound']).shouldApply).toBe(false);
+  });
+
+  it('should reject packs that redefine built-in rules', async () => {
+    fs.writeFileSync(path.join(serverPath, 'linus-rules/bad.mjs'), PACK_SOURCE.replace('acme-001', 'rl-001'));
+    await expect(loadRulePacks(serverPath, ['./linus-rules'])).rejects.toThrow(/rl-001 is already defined/);
+  });
+
+  it('should run packs listed in .linusrc.json during inspect_build', async () => {
+    fs.writeFileSync(path.join(serverPath, '.linusrc.json'), JSON.stringify({ packs: ['./linus-rules'] }));
+    fs.mkdirSync(path.join(serverPath, 'src'));
+    fs.writeFileSync(path.join(serverPath, 'src/index.ts'), code);
+
+    const result = await inspectCode({ server_path: serverPath, use_profile: false });
+    expect(result.issues.some(i => i.rule_id === 'acme-001' && i.file === 'src/index.ts')).toBe(true);
+  });
+});
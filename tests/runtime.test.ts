@@ -0,0 +1,1223 @@
+/**
+ * Tests for the mock vendor server and runtime connection tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  createFixtureReplayer,
+  createOAuthAuthority,
+  createVendorRateLimiter,
+  inspectConnection,
+  loadFixture,
+  MOCK_CREDENTIALS,
+  parseFixtureFile,
+  recordVendorFixture,
+  redactFixtureEntry,
+  retryChains,
+  findCrudTools,
+  fuzzCase,
+  fuzzTools,
+  importVendorFixture,
+  probeHealthEndpoints,
+  startMockVendor,
+  startTargetServer,
+  testAuth,
+  testChaos,
+  testDataRoundtrip,
+  testMcpProtocol,
+  testRateLimitBackoff,
+  testWebhookDelivery,
+  type MockVendorServer
+} from '../src/runtime/index.js';
+import { VENDOR_RATE_LIMITS } from '../src/rules/rate-limit-rules.js';
+import { getConnectionTest, getInspection, getIntegrationCheck, getIssuesByInspection } from '../src/database/index.js';
+import { inspectIntegration } from '../src/inspectors/integration-checker.js';
+
+// Server under test: gets a token, creates a record and retries 429s after Retry-After
+const CLIENT_SERVER = `
+const api = process.env.HUBSPOT_API_URL;
+const token = await fetch(process.env.HUBSPOT_TOKEN_URL, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  body: new URLSearchParams({
+    grant_type: 'client_credentials',
+    client_id: process.env.HUBSPOT_CLIENT_ID,
+    client_secret: process.env.HUBSPOT_CLIENT_SECRET
+  })
+}).then(res => res.json());
+
+async function call(method, url, body) {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const res = await fetch(url, {
+      method,
+      headers: { Authorization: 'Bearer ' + token.access_token, 'Content-Type': 'application/json' },
+      body: body && JSON.stringify(body)
+    });
+    if (res.status !== 429) return res.json();
+    await new Promise(resolve => setTimeout(resolve, Number(res.headers.get('Retry-After')) * 1000));
+  }
+}
+
+const contact = await call('POST', api + '/contacts', { email: 'a@example.com' });
+await call('GET', api + '/contacts/' + contact.id);
+await call('GET', api + '/contacts/' + contact.id);
+`;
+
+// Two calls with a retry loop; {{RETRY}} decides the wait after a 429
+const RETRYING_SERVER = `
+const api = process.env.HUBSPOT_API_URL;
+const { access_token } = await fetch(process.env.HUBSPOT_TOKEN_URL, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({
+    grant_type: 'client_credentials',
+    client_id: process.env.HUBSPOT_CLIENT_ID,
+    client_secret: process.env.HUBSPOT_CLIENT_SECRET
+  })
+}).then(res => res.json());
+
+async function get(url) {
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(url, { headers: { Authorization: 'Bearer ' + access_token } });
+    if (res.status !== 429) return res;
+    {{RETRY}}
+  }
+}
+
+await get(api + '/contacts');
+await get(api + '/contacts');
+`;
+
+const WELL_BEHAVED_RETRY = `
+    if (attempt === 4) return res;
+    const retryAfter = res.headers.get('Retry-After');
+    const jitter = [1.0, 0.8, 1.1, 0.9][attempt];
+    const delay = retryAfter ? Number(retryAfter) * 1000 : 50 * 2 ** attempt * jitter;
+    await new Promise(resolve => setTimeout(resolve, delay));`;
+
+const HAMMERING_RETRY = `
+    await new Promise(resolve => setTimeout(resolve, 20));`;
+
+// Multi-tenant client: one token per tenant, refreshed 500ms before expiry
+// behind a shared in-flight promise, re-authenticating when refresh fails
+const TOKEN_MANAGER_SERVER = `
+const api = process.env.HUBSPOT_API_URL;
+const tenants = [
+  { tenant_id: 'default', client_id: process.env.HUBSPOT_CLIENT_ID, client_secret: process.env.HUBSPOT_CLIENT_SECRET },
+  ...JSON.parse(process.env.HUBSPOT_TENANTS || '[]')
+];
+const sessions = new Map();
+
+async function grant(tenant, refreshToken) {
+  const res = await fetch(process.env.HUBSPOT_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      grant_type: refreshToken ? 'refresh_token' : 'client_credentials',
+      refresh_token: refreshToken,
+      client_id: tenant.client_id,
+      client_secret: tenant.client_secret
+    })
+  });
+  if (!res.ok) {
+    if (refreshToken) return grant(tenant);
+    throw new Error('token request failed: ' + res.status);
+  }
+  const body = await res.json();
+  return { token: body.access_token, refresh: body.refresh_token, expiresAt: Date.now() + body.expires_in * 1000 };
+}
+
+function session(tenant, force) {
+  const current = sessions.get(tenant.tenant_id);
+  if (current?.pending) return current.pending;
+  if (!force && current && Date.now() < current.expiresAt - 500) return Promise.resolve(current);
+  const pending = grant(tenant, current?.refresh).then(
+    fresh => { sessions.set(tenant.tenant_id, fresh); return fresh; },
+    error => { sessions.delete(tenant.tenant_id); throw error; }
+  );
+  sessions.set(tenant.tenant_id, { ...current, pending });
+  return pending;
+}
+
+async function call(tenant) {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { token } = await session(tenant, attempt > 0);
+    const res = await fetch(api + '/contacts', { headers: { Authorization: 'Bearer ' + token } });
+    if (res.status !== 401) return;
+  }
+}
+
+setInterval(() => Promise.all(tenants.flatMap(t => [call(t), call(t)])).catch(() => {}), 200);
+`;
+
+// Single global token for every tenant, refreshed only after a 401
+const NAIVE_TOKEN_SERVER = `
+const api = process.env.HUBSPOT_API_URL;
+const [tenant] = JSON.parse(process.env.HUBSPOT_TENANTS || '[]');
+let token = null;
+
+async function refresh() {
+  const res = await fetch(process.env.HUBSPOT_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      grant_type: token ? 'refresh_token' : 'client_credentials',
+      refresh_token: token?.refresh_token,
+      client_id: tenant.client_id,
+      client_secret: tenant.client_secret
+    })
+  });
+  if (res.ok) token = await res.json();
+}
+
+async function call() {
+  if (!token) await refresh();
+  const res = await fetch(api + '/contacts', { headers: { Authorization: 'Bearer ' + token?.access_token } });
+  if (res.status === 401) await refresh();
+}
+
+setInterval(() => { call().catch(() => {}); call().catch(() => {}); }, 200);
+`;
+
+// MCP servers import the SDK and zod from this checkout
+const SDK = pathToFileURL(path.resolve('node_modules/@modelcontextprotocol/sdk/dist/esm')).href;
+const ZOD = pathToFileURL(path.resolve('node_modules/zod/index.js')).href;
+
+// CRUD tools over the Stripe mock; {{CREATE}}, {{READ}} and {{RETRY_KEY}}
+// decide how faithfully values are passed through
+const CRUD_MCP_SERVER = `
+import { McpServer } from '${SDK}/server/mcp.js';
+import { StdioServerTransport } from '${SDK}/server/stdio.js';
+import { z } from '${ZOD}';
+import { randomUUID } from 'crypto';
+
+async function vendor(method, path, body, idempotencyKey) {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const res = await fetch(process.env.STRIPE_API_URL + path, {
+      method,
+      headers: {
+        Authorization: 'Bearer ' + process.env.STRIPE_API_KEY,
+        'Content-Type': 'application/json',
+        ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey })
+      },
+      body: body && JSON.stringify(body)
+    });
+    if (res.status < 500) return res.json();
+  }
+  throw new Error('vendor unavailable');
+}
+
+const text = value => ({ content: [{ type: 'text', text: JSON.stringify(value) }] });
+const server = new McpServer({ name: 'crm', version: '1.0.0' });
+server.tool('create_customer', {
+  email: z.string(),
+  name: z.string().optional(),
+  nickname: z.string().nullable().optional(),
+  balance: z.number(),
+  active: z.boolean(),
+  signed_up_at: z.string(),
+  zip: z.string()
+}, async (args) => text(await vendor('POST', '/customers', {{CREATE}}, {{RETRY_KEY}})));
+server.tool('get_customer', { id: z.string() }, async ({ id }) => {
+  const record = await vendor('GET', '/customers/' + id);
+  return text({{READ}});
+});
+server.tool('update_customer', { id: z.string(), name: z.string().optional() }, async ({ id, ...changes }) =>
+  text(await vendor('PATCH', '/customers/' + id, changes)));
+server.tool('delete_customer', { id: z.string() }, async ({ id }) => text(await vendor('DELETE', '/customers/' + id)));
+await server.connect(new StdioServerTransport());
+`;
+
+const FAITHFUL_CRUD = CRUD_MCP_SERVER
+  .replace('{{CREATE}}', 'args')
+  .replace('{{READ}}', 'record')
+  .replace('{{RETRY_KEY}}', 'randomUUID()');
+
+const LOSSY_CRUD = CRUD_MCP_SERVER
+  .replace('{{CREATE}}', `{
+    email: args.email,
+    name: args.name || undefined,
+    nickname: args.nickname ?? undefined,
+    balance: Math.round(args.balance * 100) / 100,
+    active: args.active || undefined,
+    signed_up_at: args.signed_up_at.slice(0, 10),
+    zip: Number(args.zip)
+  }`)
+  .replace('{{READ}}', '{ customer: record }')
+  .replace('{{RETRY_KEY}}', 'undefined');
+
+// MCP server built on the SDK: described tools, a resource and a prompt
+const CONFORMANT_MCP_SERVER = `
+import { McpServer } from '${SDK}/server/mcp.js';
+import { StdioServerTransport } from '${SDK}/server/stdio.js';
+import { z } from '${ZOD}';
+
+const server = new McpServer({ name: 'notes', version: '1.0.0' });
+server.tool('add_note', 'Add a note', { title: z.string(), priority: z.number().int().min(1).max(5) },
+  async ({ title, priority }) => ({ content: [{ type: 'text', text: title + ' (' + priority + ')' }] }));
+server.tool('list_notes', 'List notes', {}, async () => ({ content: [{ type: 'text', text: '[]' }] }));
+server.resource('readme', 'notes://readme', async (uri) => ({ contents: [{ uri: uri.href, text: 'Notes' }] }));
+server.prompt('summarize', 'Summarize notes', { topic: z.string() },
+  ({ topic }) => ({ messages: [{ role: 'user', content: { type: 'text', text: 'Summarize ' + topic } }] }));
+await server.connect(new StdioServerTransport());
+`;
+
+// Hand-rolled JSON-RPC over stdio: a broken schema, no argument validation,
+// a tool that never answers and HTTP-style error codes
+const SLOPPY_MCP_SERVER = `
+import readline from 'readline';
+
+const send = message => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\\n');
+readline.createInterface({ input: process.stdin }).on('line', line => {
+  const { id, method, params } = JSON.parse(line);
+  if (id === undefined) return;
+  switch (method) {
+    case 'initialize':
+      return send({ id, result: { protocolVersion: params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'sloppy', version: '0.0.1' } } });
+    case 'tools/list':
+      return send({ id, result: { tools: [
+        { name: 'echo', description: 'Echo text', inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] } },
+        { name: 'search', inputSchema: { type: 'object', properties: { count: { type: 'numeric' } }, required: ['limit'] } },
+        { name: 'slow', description: 'Never answers', inputSchema: { type: 'object', properties: {} } }
+      ] } });
+    case 'tools/call':
+      if (params.name === 'slow') return;
+      return send({ id, result: { content: [{ type: 'text', text: JSON.stringify(params.arguments) }] } });
+    case 'ping':
+      return send({ id, result: {} });
+    default:
+      return send({ id, error: { code: 404, message: 'Not found' } });
+  }
+});
+`;
+
+// One tool per failure: odd paths return an error stack, huge strings hang,
+// out-of-range counts leave a rejected promise and non-ASCII text crashes
+const FRAGILE_MCP_SERVER = `
+import { McpServer } from '${SDK}/server/mcp.js';
+import { StdioServerTransport } from '${SDK}/server/stdio.js';
+import { z } from '${ZOD}';
+
+const ok = text => ({ content: [{ type: 'text', text }] });
+const server = new McpServer({ name: 'fragile', version: '1.0.0' });
+server.tool('read_file', 'Read a file', { path: z.string() }, async ({ path }) =>
+  !/^[\\w-]+$/.test(path) ? { isError: true, content: [{ type: 'text', text: new Error('ENOENT: ' + path).stack }] } : ok(path));
+server.tool('echo', 'Echo text', { text: z.string() }, async ({ text }) =>
+  text.length > 10000 ? new Promise(() => {}) : ok(text));
+server.tool('count', 'Count to n', { n: z.number() }, async ({ n }) => {
+  if (!Number.isInteger(n) || n < 1 || n > 1000) Promise.reject(new Error('count out of range'));
+  return ok(String(n));
+});
+server.tool('note', 'Save a note', { body: z.string() }, async ({ body }) => {
+  if (/[^\\x20-\\x7e]/.test(body)) setTimeout(() => { throw new Error('not ASCII'); });
+  return ok(body);
+});
+await server.connect(new StdioServerTransport());
+`;
+
+// Lists customers from Stripe (or an inventory peer) with no timeout, no
+// breaker and no fallback
+const NAIVE_CHAOS_SERVER = `
+import { McpServer } from '${SDK}/server/mcp.js';
+import { StdioServerTransport } from '${SDK}/server/stdio.js';
+
+const base = process.env.INVENTORY_URL ?? process.env.STRIPE_API_URL;
+const server = new McpServer({ name: 'naive', version: '1.0.0' });
+server.tool('list_customers', 'List customers', {}, async () => {
+  const res = await fetch(base + '/customers', { headers: { Authorization: 'Bearer ' + process.env.STRIPE_API_KEY } });
+  return { content: [{ type: 'text', text: JSON.stringify(await res.json()) }] };
+});
+await server.connect(new StdioServerTransport());
+`;
+
+// The same tool behind a 300ms timeout and a breaker that opens after three
+// failures, serving the last good response while the vendor misbehaves
+const RESILIENT_CHAOS_SERVER = `
+import { McpServer } from '${SDK}/server/mcp.js';
+import { StdioServerTransport } from '${SDK}/server/stdio.js';
+
+let failures = 0;
+let openUntil = 0;
+let cached = { data: [] };
+
+async function listCustomers() {
+  if (Date.now() < openUntil) return { ...cached, degraded: true };
+  try {
+    const res = await fetch(process.env.STRIPE_API_URL + '/customers', {
+      headers: { Authorization: 'Bearer ' + process.env.STRIPE_API_KEY },
+      signal: AbortSignal.timeout(300)
+    });
+    if (res.status >= 500) throw new Error('vendor answered ' + res.status);
+    cached = await res.json();
+    failures = 0;
+    return cached;
+  } catch {
+    if (++failures >= 3) openUntil = Date.now() + 60000;
+    return { ...cached, degraded: true };
+  }
+}
+
+const server = new McpServer({ name: 'resilient', version: '1.0.0' });
+server.tool('list_customers', 'List customers', {}, async () =>
+  ({ content: [{ type: 'text', text: JSON.stringify(await listCustomers()) }] }));
+await server.connect(new StdioServerTransport());
+`;
+
+// Health endpoints whose readiness follows the Stripe API
+const HEALTHY_SERVER = `
+import { createServer } from 'http';
+
+async function vendorUp() {
+  try {
+    const res = await fetch(process.env.STRIPE_API_URL + '/customers', {
+      headers: { Authorization: 'Bearer ' + process.env.STRIPE_API_KEY }
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+createServer(async (req, res) => {
+  const send = (status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  if (req.url === '/health') return send(200, { status: 'healthy', uptime: process.uptime() });
+  const up = await vendorUp();
+  if (req.url === '/health/ready') return send(up ? 200 : 503, { ready: up });
+  if (req.url === '/health/detailed') return send(200, { status: up ? 'healthy' : 'degraded', checks: { stripe: up ? 'up' : 'down' } });
+  send(404, { error: 'not_found' });
+}).listen(Number(process.env.PORT), '127.0.0.1');
+`;
+
+// Plain-text liveness, readiness that never looks at dependencies, no detail
+const STATIC_HEALTH_SERVER = `
+import { createServer } from 'http';
+
+createServer((req, res) => {
+  if (req.url === '/health') return res.end('OK');
+  if (req.url === '/health/ready') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    return res.end(JSON.stringify({ status: 'ok' }));
+  }
+  res.writeHead(404);
+  res.end();
+}).listen(Number(process.env.PORT), '127.0.0.1');
+`;
+
+// Webhook receiver: verifies the Stripe signature and its timestamp, acks,
+// then fetches the customer once per event ID
+const WEBHOOK_RECEIVER = `
+import { createServer } from 'http';
+import { createHmac } from 'crypto';
+
+const seen = new Set();
+createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => body += chunk);
+  req.on('end', () => {
+    const parts = Object.fromEntries((req.headers['stripe-signature'] || '').split(',').map(p => p.split('=')));
+    const expected = createHmac('sha256', process.env.STRIPE_WEBHOOK_SECRET).update(parts.t + '.' + body).digest('hex');
+    if (parts.v1 !== expected || Math.abs(Date.now() / 1000 - Number(parts.t)) > 300) {
+      res.writeHead(400);
+      return res.end();
+    }
+    const event = JSON.parse(body);
+    res.writeHead(200);
+    res.end();
+    if (seen.has(event.id)) return;
+    seen.add(event.id);
+    fetch(process.env.STRIPE_API_URL + '/customers/' + event.data.object.id, {
+      headers: { Authorization: 'Bearer ' + process.env.STRIPE_API_KEY }
+    }).catch(() => {});
+  });
+}).listen(process.env.PORT);
+`;
+
+// Webhook receiver that trusts every delivery and fetches before acking
+const NAIVE_RECEIVER = `
+import { createServer } from 'http';
+
+createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => body += chunk);
+  req.on('end', async () => {
+    const event = JSON.parse(body);
+    await fetch(process.env.STRIPE_API_URL + '/customers/' + event.data.object.id, {
+      headers: { Authorization: 'Bearer ' + process.env.STRIPE_API_KEY }
+    });
+    res.writeHead(200);
+    res.end();
+  });
+}).listen(process.env.PORT);
+`;
+
+/**
+ * Fresh directory per test for a module server started with `node server.js`;
+ * tests write their own server.js
+ */
+function useServerDir(prefix: string, name: string): { path: string } {
+  const dir = { path: '' };
+
+  beforeEach(() => {
+    dir.path = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    fs.writeFileSync(path.join(dir.path, 'package.json'), JSON.stringify({
+      name,
+      type: 'module',
+      scripts: { start: 'node server.js' }
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir.path, { recursive: true, force: true });
+  });
+
+  return dir;
+}
+
+function statuses(tests: { name: string; status: string }[]): Record<string, string> {
+  return Object.fromEntries(tests.map(t => [t.name, t.status]));
+}
+
+describe('Target Server', () => {
+  const server = useServerDir('target-server-', 'target-server');
+
+  it('should stop the real server behind npm run start', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'),
+      "require('fs').writeFileSync('server.pid', String(process.pid));\nsetInterval(() => {}, 1000);\n");
+    fs.writeFileSync(path.join(server.path, 'package.json'), JSON.stringify({ scripts: { start: 'node server.js --quiet' } }));
+
+    const target = startTargetServer({ server_path: server.path });
+    const pidFile = path.join(server.path, 'server.pid');
+    for (let i = 0; i < 100 && !fs.existsSync(pidFile); i++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    const serverPid = Number(fs.readFileSync(pidFile, 'utf-8'));
+    expect(serverPid).not.toBe(target.pid);
+
+    await target.stop();
+    expect(() => process.kill(serverPid, 0)).toThrow();
+  }, 20000);
+});
+
+describe('Vendor Rate Limiters', () => {
+  it('should let a token bucket burst above the steady rate (Stripe)', () => {
+    const limiter = createVendorRateLimiter(VENDOR_RATE_LIMITS.stripe);
+    const decisions = Array.from({ length: 151 }, () => limiter.take(0));
+    expect(decisions.filter(d => d.allowed)).toHaveLength(150);
+    expect(decisions[150].retry_after_ms).toBe(10);
+    expect(limiter.take(10).allowed).toBe(true);
+  });
+
+  it('should count requests over a sliding window (HubSpot)', () => {
+    const limiter = createVendorRateLimiter(VENDOR_RATE_LIMITS.hubspot);
+    for (let i = 0; i < 190; i++) limiter.take(i * 10);
+    const denied = limiter.take(5000);
+    expect(denied).toMatchObject({ allowed: false, retry_after_ms: 5000 });
+    expect(limiter.take(10000).allowed).toBe(true);
+  });
+
+  it('should drain a leaky bucket at a constant rate (Salesforce)', () => {
+    const limiter = createVendorRateLimiter(VENDOR_RATE_LIMITS.salesforce);
+    for (let i = 0; i < 100; i++) limiter.take(0);
+    expect(limiter.take(0)).toMatchObject({ allowed: false, retry_after_ms: 200 });
+    expect(limiter.take(200).allowed).toBe(true);
+  });
+
+  it('should not limit vendors without a default limit (ServiceNow)', () => {
+    const limiter = createVendorRateLimiter(VENDOR_RATE_LIMITS.servicenow);
+    expect(limiter.algorithm).toBe('unlimited');
+    expect(limiter.take(0).allowed).toBe(true);
+  });
+});
+
+describe('Mock Vendor Server', () => {
+  let mock: MockVendorServer;
+
+  afterEach(async () => {
+    await mock?.close();
+  });
+
+  async function getToken(): Promise<string> {
+    const res = await fetch(`${mock.url}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ grant_type: 'client_credentials', ...MOCK_CREDENTIALS })
+    });
+    return (await res.json()).access_token;
+  }
+
+  it('should issue tokens with the vendor expiry and reject them once expired', async () => {
+    mock = await startMockVendor({ vendor: 'salesforce', token_ttl_ms: 50 });
+    const token = await getToken();
+    const headers = { Authorization: `Bearer ${token}` };
+
+    expect((await fetch(`${mock.url}/api/accounts`, { headers })).status).toBe(200);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    const expired = await fetch(`${mock.url}/api/accounts`, { headers });
+    expect(expired.status).toBe(401);
+    expect((await expired.json()).error_description).toBe('Access token expired');
+  });
+
+  it('should answer 429 with Retry-After once the limit is reached', async () => {
+    mock = await startMockVendor({ vendor: 'stripe', rate_limit: { limit: 2, burst_limit: 2, window_ms: 2000 } });
+    const headers = { Authorization: `Bearer ${MOCK_CREDENTIALS.api_key}` };
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      const res = await fetch(`${mock.url}/api/customers`, { headers });
+      statuses.push(res.status);
+      if (res.status === 429) expect(res.headers.get('Retry-After')).toBe('1');
+    }
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it('should store records and replay creates with the same Idempotency-Key', async () => {
+    mock = await startMockVendor({ vendor: 'stripe' });
+    const headers = {
+      Authorization: `Bearer ${MOCK_CREDENTIALS.api_key}`,
+      'Content-Type': 'application/json',
+      'Idempotency-Key': 'key-1'
+    };
+    const body = JSON.stringify({ amount: 1999, currency: 'usd', metadata: null });
+
+    const first = await (await fetch(`${mock.url}/api/charges`, { method: 'POST', headers, body })).json();
+    const second = await (await fetch(`${mock.url}/api/charges`, { method: 'POST', headers, body })).json();
+    expect(second.id).toBe(first.id);
+    expect(mock.records('charges')).toHaveLength(1);
+
+    const read = await (await fetch(`${mock.url}/api/charges/${first.id}`, { headers })).json();
+    expect(read).toMatchObject({ amount: 1999, currency: 'usd', metadata: null });
+
+    await fetch(`${mock.url}/api/charges/${first.id}`, { method: 'DELETE', headers });
+    expect((await fetch(`${mock.url}/api/charges/${first.id}`, { headers })).status).toBe(404);
+  });
+
+  it('should reject unsupported vendors', async () => {
+    await expect(startMockVendor({ vendor: 'acme' })).rejects.toThrow(/Unsupported vendor/);
+  });
+});
+
+describe('Vendor Fixtures', () => {
+  let workDir: string;
+  const mocks: MockVendorServer[] = [];
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runtime-fixtures-'));
+  });
+
+  afterEach(async () => {
+    for (const mock of mocks.splice(0)) await mock.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should parse HAR entries relative to the API base and redact credentials', () => {
+    const har = {
+      log: {
+        entries: [{
+          request: {
+            method: 'post',
+            url: 'https://api.stripe.com/v1/oauth/token?b=2&a=1',
+            postData: { text: 'grant_type=client_credentials&client_secret=shh' }
+          },
+          response: {
+            status: 200,
+            headers: [{ name: 'Set-Cookie', value: 'session=abc' }, { name: 'Content-Type', value: 'application/json' }],
+            content: { mimeType: 'application/json', text: '{"access_token":"tok","expires_in":3600,"next_page_token":"p2"}' }
+          }
+        }]
+      }
+    };
+
+    const { source, entries } = parseFixtureFile(JSON.stringify(har), '/v1');
+    expect(source).toBe('har');
+    expect(entries[0]).toMatchObject({ method: 'POST', path: '/oauth/token', query: 'a=1&b=2', status: 200 });
+
+    const { entry, redactions } = redactFixtureEntry(entries[0]);
+    expect(redactions).toBe(3);
+    expect(entry.headers['set-cookie']).toBe('[REDACTED]');
+    expect(entry.request_body).toBe('grant_type=client_credentials&client_secret=%5BREDACTED%5D');
+    expect(JSON.parse(entry.body)).toEqual({ access_token: '[REDACTED]', expires_in: 3600, next_page_token: 'p2' });
+  });
+
+  it('should replay repeated requests in recorded order', () => {
+    const replayer = createFixtureReplayer([
+      { method: 'GET', path: '/customers', status: 200, headers: {}, body: '{"page":1}' },
+      { method: 'GET', path: '/customers', status: 200, headers: {}, body: '{"page":2}' },
+      { method: 'GET', path: '/customers', query: 'limit=1', status: 200, headers: {}, body: '{"limited":true}' }
+    ]);
+    expect(replayer.match('get', '/customers', 'limit=1')?.body).toBe('{"limited":true}');
+    expect(['1', '2', '3'].map(() => replayer.match('GET', '/customers')?.body))
+      .toEqual(['{"page":1}', '{"page":2}', '{"limited":true}']);
+    expect(replayer.match('POST', '/customers')).toBeUndefined();
+  });
+
+  it('should record a server against the real API and replay the redacted exchanges offline', async () => {
+    // The "real" vendor API, reachable only while recording
+    const real = await startMockVendor({ vendor: 'stripe' });
+    mocks.push(real);
+    real.seed('customers', { id: 'cus_ada', email: 'ada@example.com' });
+
+    const serverPath = path.join(workDir, 'server');
+    fs.mkdirSync(serverPath);
+    fs.writeFileSync(path.join(serverPath, 'package.json'), JSON.stringify({ type: 'module', scripts: { start: 'node server.js' } }));
+    fs.writeFileSync(path.join(serverPath, 'server.js'), `
+      const headers = { Authorization: 'Bearer ${MOCK_CREDENTIALS.api_key}', 'Content-Type': 'application/json' };
+      await fetch(process.env.STRIPE_API_URL + '/customers?limit=2&email=ada%40example.com', { headers });
+      await fetch(process.env.STRIPE_API_URL + '/customers', {
+        method: 'POST', headers, body: JSON.stringify({ email: 'grace@example.com', password: 'hunter2' })
+      });
+    `);
+
+    const output = path.join(workDir, 'stripe.har');
+    const { fixture } = await recordVendorFixture({
+      vendor: 'stripe',
+      server_path: serverPath,
+      upstream: `${real.url}/api`,
+      name: 'customers-smoke',
+      settle_ms: 3000,
+      output
+    });
+    expect(fixture).toMatchObject({ vendor: 'stripe', source: 'recorded', base_path: '/api', redactions: 2 });
+    expect(fixture.entries.map((e: any) => [e.method, e.path, e.query])).toEqual([
+      ['GET', '/customers', 'email=ada%40example.com&limit=2'],
+      ['POST', '/customers', undefined]
+    ]);
+    expect(JSON.parse(fixture.entries[1].request_body).password).toBe('[REDACTED]');
+    expect(JSON.parse(fixture.entries[1].body)).toMatchObject({ email: 'grace@example.com', password: '[REDACTED]' });
+
+    // The HAR written alongside imports back to the same exchanges
+    const imported = importVendorFixture({ vendor: 'stripe', file: output, name: 'customers-smoke-har', base_path: '/api' });
+    expect(imported.entries).toEqual(fixture.entries.map((e: any) => ({ ...e, headers: expect.any(Object) })));
+    expect(loadFixture('stripe', '*').length).toBeGreaterThanOrEqual(4);
+
+    // Offline: a fresh mock answers recorded calls from the fixture, in any query order
+    const replay = await startMockVendor({ vendor: 'stripe', fixture: 'customers-smoke' });
+    mocks.push(replay);
+    const headers = { Authorization: `Bearer ${MOCK_CREDENTIALS.api_key}` };
+    const listed = await (await fetch(`${replay.url}/api/customers?limit=2&email=ada%40example.com`, { headers })).json();
+    expect(listed.data.map((c: any) => c.id)).toEqual(['cus_ada']);
+    expect((await fetch(`${replay.url}/api/invoices`, { headers })).status).toBe(200);
+    expect(replay.requests.map(r => [r.path, r.replayed])).toEqual([['/api/customers', true], ['/api/invoices', undefined]]);
+    expect(replay.fixture_entries).toBe(2);
+  }, 20000);
+
+  it('should reject unknown vendors and fixtures', () => {
+    const file = path.join(workDir, 'fixture.json');
+    fs.writeFileSync(file, JSON.stringify([{ method: 'GET', path: '/customers', body: { data: [] } }]));
+    expect(() => importVendorFixture({ vendor: 'acme', file })).toThrow(/Unsupported vendor/);
+    expect(() => loadFixture('stripe', 'no-such-fixture')).toThrow(/Fixture not found for stripe/);
+    expect(loadFixture('stripe', file)).toEqual([
+      { method: 'GET', path: '/customers', query: undefined, request_body: undefined, status: 200, headers: {}, body: '{"data":[]}' }
+    ]);
+  });
+});
+
+describe('Inspect Connection', () => {
+  const server = useServerDir('runtime-', 'client-server');
+
+  it('should pass a server that authenticates, writes and honors Retry-After', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), CLIENT_SERVER);
+
+    const result = await inspectConnection({
+      vendor: 'hubspot',
+      server_path: server.path,
+      test_mode: 'full',
+      settle_ms: 10000,
+      rate_limit: { limit: 2, window_ms: 1000, type: 'fixed_window' }
+    });
+
+    expect(result.tests.map(t => [t.name, t.status])).toEqual([
+      ['server_start', 'PASS'],
+      ['vendor_reachable', 'PASS'],
+      ['auth', 'PASS'],
+      ['rate_limit', 'PASS'],
+      ['data_writes', 'PASS']
+    ]);
+    expect(result.verdict).toBe('PASS');
+    expect(result.performance.by_status['429']).toBe(1);
+    expect(getConnectionTest(result.id)).toMatchObject({ verdict: 'PASS', test_mode: 'full' });
+  }, 20000);
+
+  it('should report PARTIAL when the server never calls the vendor', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), 'setInterval(() => {}, 1000);');
+
+    const result = await inspectConnection({ vendor: 'hubspot', server_path: server.path, test_mode: 'auth', settle_ms: 300 });
+    expect(result.tests.find(t => t.name === 'server_start')?.status).toBe('PASS');
+    expect(result.tests.find(t => t.name === 'auth')?.status).toBe('SKIP');
+    expect(result.verdict).toBe('PARTIAL');
+  });
+
+  it('should fail a server that crashes on start', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), 'throw new Error("boom");');
+
+    const result = await inspectConnection({ vendor: 'hubspot', server_path: server.path, settle_ms: 2000 });
+    expect(result.verdict).toBe('FAIL');
+    expect(result.server.stderr).toContain('boom');
+  });
+});
+
+describe('Rate Limit Backoff', () => {
+  const server = useServerDir('runtime-backoff-', 'retrying-server');
+
+  it('should group retries of a throttled request into one chain', () => {
+    const chains = retryChains([
+      { at: 0, method: 'GET', path: '/api/a', status: 200, throttled: false },
+      { at: 10, method: 'GET', path: '/api/a', status: 429, throttled: true },
+      { at: 60, method: 'GET', path: '/api/a', status: 429, throttled: true },
+      { at: 160, method: 'GET', path: '/api/a', status: 200, throttled: false }
+    ]);
+    expect(chains.map(c => c.delays_ms)).toEqual([[], [50, 100]]);
+  });
+
+  it('should pass a server that honors Retry-After and backs off with jitter', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), RETRYING_SERVER.replace('{{RETRY}}', WELL_BEHAVED_RETRY));
+
+    const result = await testRateLimitBackoff({ vendor: 'hubspot', server_path: server.path, settle_ms: 5000 });
+    expect(result.rate_limit).toMatchObject({ type: 'sliding_window', limit: 1 });
+    expect(statuses(result.tests)).toEqual({
+      server_start: 'PASS',
+      retry_after: 'PASS',
+      exponential_backoff: 'PASS',
+      jitter: 'PASS',
+      max_retries: 'PASS'
+    });
+    // A bounded retry count is not a circuit breaker, so it backs no static rule
+    expect(result.tests.find(t => t.name === 'max_retries')?.rule_ids).toBeUndefined();
+    expect(result.verdict).toBe('PASS');
+    expect(getConnectionTest(result.id)?.verdict).toBe('PASS');
+  }, 20000);
+
+  it('should fail a server that retries immediately and forever', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), RETRYING_SERVER.replace('{{RETRY}}', HAMMERING_RETRY));
+
+    const result = await testRateLimitBackoff({ vendor: 'hubspot', server_path: server.path, settle_ms: 1500 });
+    expect(statuses(result.tests)).toMatchObject({
+      retry_after: 'FAIL',
+      exponential_backoff: 'FAIL',
+      jitter: 'FAIL',
+      max_retries: 'FAIL'
+    });
+    expect(result.verdict).toBe('FAIL');
+  }, 20000);
+});
+
+describe('Auth', () => {
+  const server = useServerDir('runtime-auth-', 'auth-server');
+
+  it('should issue tokens per tenant and enforce scopes', async () => {
+    const authority = createOAuthAuthority({ vendor: 'salesforce', tenants: 1, scopes: ['accounts.read'] });
+    const mock = await startMockVendor({ vendor: 'salesforce', authority });
+    try {
+      const [, tenant] = authority.tenants;
+      const token = await fetch(`${mock.url}/oauth/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grant_type: 'client_credentials', client_id: tenant.client_id, client_secret: tenant.client_secret })
+      }).then(res => res.json());
+      expect(token).toMatchObject({ expires_in: 7200, scope: 'accounts.read' });
+
+      const headers = { Authorization: `Bearer ${token.access_token}`, 'Content-Type': 'application/json' };
+      expect((await fetch(`${mock.url}/api/accounts`, { headers })).status).toBe(200);
+      const write = await fetch(`${mock.url}/api/accounts`, { method: 'POST', headers, body: '{}' });
+      expect(write.status).toBe(403);
+      expect(write.headers.get('WWW-Authenticate')).toContain('scope="accounts.write"');
+      expect(mock.requests[1]).toMatchObject({ tenant_id: 'tenant_a', status: 200 });
+
+      const refreshed = await fetch(`${mock.url}/oauth/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grant_type: 'refresh_token', refresh_token: token.refresh_token, client_id: MOCK_CREDENTIALS.client_id })
+      });
+      expect(refreshed.status).toBe(400);
+      expect(authority.token_requests[1].cross_tenant).toBe(true);
+    } finally {
+      await mock.close();
+    }
+  });
+
+  it('should pass a server that refreshes early, once, per tenant', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), TOKEN_MANAGER_SERVER);
+
+    const result = await testAuth({ vendor: 'hubspot', server_path: server.path, token_ttl_ms: 2000, scopes: ['contacts.read'] });
+    expect(statuses(result.tests)).toEqual({
+      server_start: 'PASS',
+      token_expiry: 'PASS',
+      concurrent_refresh: 'PASS',
+      revocation: 'PASS',
+      tenant_isolation: 'PASS',
+      scopes: 'PASS'
+    });
+    expect(result.verdict).toBe('PASS');
+    expect(getConnectionTest(result.id)).toMatchObject({ verdict: 'PASS', test_mode: 'auth' });
+  }, 20000);
+
+  it('should fail a server that shares one token and refreshes only after 401s', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), NAIVE_TOKEN_SERVER);
+
+    const result = await testAuth({ vendor: 'hubspot', server_path: server.path, token_ttl_ms: 2000, scopes: ['contacts.write'] });
+    expect(statuses(result.tests)).toEqual({
+      server_start: 'PASS',
+      token_expiry: 'FAIL',
+      concurrent_refresh: 'FAIL',
+      revocation: 'FAIL',
+      tenant_isolation: 'FAIL',
+      scopes: 'FAIL'
+    });
+    expect(result.verdict).toBe('FAIL');
+  }, 20000);
+
+  it('should skip token lifecycle checks for static API keys', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), 'setInterval(() => {}, 1000);');
+
+    const result = await testAuth({ vendor: 'stripe', server_path: server.path, settle_ms: 500 });
+    expect(statuses(result.tests)).toMatchObject({ token_expiry: 'SKIP', concurrent_refresh: 'SKIP', revocation: 'SKIP' });
+    expect(result.verdict).toBe('PARTIAL');
+  });
+});
+
+describe('Data Roundtrip', () => {
+  const server = useServerDir('runtime-roundtrip-', 'crm-mcp-server');
+
+  it('should map tools to CRUD operations by verb and noun', () => {
+    const tool = (name: string, properties: string[] = ['id']) =>
+      ({ name, inputSchema: { type: 'object' as const, properties: Object.fromEntries(properties.map(p => [p, { type: 'string' }])) } });
+    expect(findCrudTools([
+      tool('list_contacts', []),
+      tool('get_deal'),
+      tool('createContact', ['email']),
+      tool('getContact', ['contactId']),
+      tool('update_contact'),
+      tool('remove_contact')
+    ])).toEqual({ create: 'createContact', read: 'getContact', update: 'update_contact', delete: 'remove_contact' });
+  });
+
+  it('should pass a server that preserves every field and retries idempotently', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), FAITHFUL_CRUD);
+
+    const result = await testDataRoundtrip({ vendor: 'stripe', server_path: server.path });
+    expect(statuses(result.tests)).toEqual({
+      server_start: 'PASS',
+      crud_tools: 'PASS',
+      create: 'PASS',
+      type_coercion: 'PASS',
+      null_empty: 'PASS',
+      precision: 'PASS',
+      update: 'PASS',
+      delete: 'PASS',
+      idempotent_retry: 'PASS'
+    });
+    expect(result.collection).toBe('customers');
+    expect(result.diffs.every(d => !d.issue)).toBe(true);
+    expect(getConnectionTest(result.id)?.verdict).toBe('PASS');
+  }, 20000);
+
+  it('should report per-field diffs for a lossy server', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), LOSSY_CRUD);
+
+    const result = await testDataRoundtrip({ vendor: 'stripe', server_path: server.path });
+    expect(statuses(result.tests)).toMatchObject({
+      type_coercion: 'FAIL',
+      null_empty: 'FAIL',
+      precision: 'FAIL',
+      idempotent_retry: 'FAIL'
+    });
+    expect(Object.fromEntries(result.diffs.map(d => [d.field, d.issue]))).toEqual({
+      email: undefined,
+      name: 'empty_lost',
+      nickname: 'null_lost',
+      balance: 'precision_lost',
+      active: 'empty_lost',
+      signed_up_at: 'precision_lost',
+      zip: 'type_coercion'
+    });
+    const stored = getConnectionTest(result.id)!.tests.find((t: any) => t.name === 'precision');
+    expect(stored.details.diffs.map((d: any) => d.field)).toEqual(['balance', 'signed_up_at']);
+  }, 20000);
+});
+
+describe('MCP Protocol', () => {
+  const server = useServerDir('runtime-protocol-', 'notes-mcp-server');
+
+  it('should pass a conformant SDK server', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), CONFORMANT_MCP_SERVER);
+
+    const result = await testMcpProtocol({ server_path: server.path });
+    expect(statuses(result.tests)).toEqual({
+      initialize: 'PASS',
+      tools_list: 'PASS',
+      resources_list: 'PASS',
+      prompts_list: 'PASS',
+      tool_schemas: 'PASS',
+      valid_arguments: 'PASS',
+      invalid_arguments: 'PASS',
+      error_codes: 'PASS',
+      timeouts: 'PASS',
+      responsive: 'PASS'
+    });
+    expect(result.verdict).toBe('PASS');
+    expect(result.server_info).toEqual({ name: 'notes', version: '1.0.0' });
+    expect(result.calls.filter(c => c.tool === 'add_note').map(c => [c.variant, c.status === 'ok'])).toEqual([
+      ['valid', true],
+      ['missing_required', false],
+      ['wrong_type', false]
+    ]);
+  }, 20000);
+
+  it('should report schema, validation, error code and timeout failures', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), SLOPPY_MCP_SERVER);
+
+    const result = await testMcpProtocol({ server_path: server.path, timeout_ms: 500 });
+    expect(statuses(result.tests)).toEqual({
+      initialize: 'PASS',
+      tools_list: 'PASS',
+      resources_list: 'FAIL',
+      prompts_list: 'FAIL',
+      tool_schemas: 'FAIL',
+      valid_arguments: 'PASS',
+      invalid_arguments: 'FAIL',
+      error_codes: 'FAIL',
+      timeouts: 'FAIL',
+      responsive: 'PASS'
+    });
+    const tests = Object.fromEntries(result.tests.map(t => [t.name, t]));
+    expect(tests.tool_schemas.message).toContain('search: description: missing');
+    expect(tests.tool_schemas.message).toContain('required: limit is not a property');
+    expect(tests.error_codes.rule_ids).toEqual(['mcp-004']);
+    expect(tests.error_codes.message).toContain('answered with 404');
+    expect(tests.timeouts.message).toContain('slow (valid)');
+  }, 20000);
+
+  it('should fail to initialize something that is not an MCP server', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), 'process.exit(1);');
+
+    const result = await testMcpProtocol({ server_path: server.path, timeout_ms: 2000 });
+    expect(result.tests).toHaveLength(1);
+    expect(result.tests[0]).toMatchObject({ name: 'initialize', status: 'FAIL' });
+    expect(result.verdict).toBe('FAIL');
+  });
+});
+
+describe('Tool Fuzzing', () => {
+  const server = useServerDir('runtime-fuzz-', 'fragile-mcp-server');
+
+  it('should generate the same case from the same seed', () => {
+    const tool = {
+      name: 'search',
+      inputSchema: { type: 'object' as const, properties: { query: { type: 'string' }, limit: { type: 'integer' } }, required: ['query'] }
+    };
+    const cases = Array.from({ length: 12 }, (_, i) => fuzzCase(tool, 42, i));
+    expect(cases).toEqual(Array.from({ length: 12 }, (_, i) => fuzzCase(tool, 42, i)));
+    expect(cases.slice(0, 6).map(c => c.strategy)).toEqual([
+      'boundary', 'wrong_type', 'huge_string', 'unicode', 'path_traversal', 'missing_required'
+    ]);
+    expect(cases[5].arguments).toEqual({});
+    expect(cases.map(c => c.arguments)).not.toEqual(Array.from({ length: 12 }, (_, i) => fuzzCase(tool, 43, i).arguments));
+  });
+
+  it('should record crashes, hangs, rejections and stack leaks as fuzzing issues', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), FRAGILE_MCP_SERVER);
+
+    const result = await testFuzz({ seed: 7, cases_per_tool: 6, timeout_ms: 1000 });
+    expect(Object.fromEntries(result.findings.map(f => [f.tool, f.rule_id]))).toEqual({
+      read_file: 'fuzz-004',
+      echo: 'fuzz-002',
+      count: 'fuzz-003',
+      note: 'fuzz-001'
+    });
+    expect(result.findings.find(f => f.tool === 'note')?.strategy).toBe('unicode');
+    expect(result.restarts).toBe(1);
+    expect(result.verdict).toBe('BLOCKED');
+
+    const issues = getIssuesByInspection(result.inspection_id);
+    expect(issues.map(i => i.category)).toEqual(['fuzzing', 'fuzzing', 'fuzzing', 'fuzzing']);
+    expect(issues.find(i => i.rule_id === 'fuzz-001')?.issue).toContain('Replay with seed 7');
+    expect(getInspection(result.inspection_id)).toMatchObject({ mode: 'runtime', verdict: 'BLOCKED', summary_critical: 1 });
+
+    // Replaying the recorded case reproduces the crash alone
+    const crash = result.findings.find(f => f.rule_id === 'fuzz-001')!;
+    const replay = await testFuzz({ seed: 7, replay: { tool: 'note', case: crash.case }, timeout_ms: 1000 });
+    expect(replay.cases_run).toBe(1);
+    expect(replay.findings.map(f => f.rule_id)).toEqual(['fuzz-001']);
+  }, 30000);
+
+  it('should find nothing in a server that validates and contains its errors', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), CONFORMANT_MCP_SERVER);
+
+    const result = await testFuzz({ seed: 7, cases_per_tool: 6 });
+    expect(result.cases_run).toBe(12);
+    expect(result.findings).toEqual([]);
+    expect(result.verdict).toBe('PASSED');
+  }, 20000);
+
+  function testFuzz(options: Omit<Parameters<typeof fuzzTools>[0], 'server_path'>) {
+    return fuzzTools({ server_path: server.path, ...options });
+  }
+});
+
+describe('Chaos', () => {
+  const server = useServerDir('runtime-chaos-', 'chaos-server');
+
+  it('should fail a server that waits out, hammers and surfaces every fault', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), NAIVE_CHAOS_SERVER);
+
+    const result = await testChaos({ server_path: server.path, vendor: 'stripe', delay_ms: 1500, breaker_calls: 4 });
+    expect(result.tool).toBe('list_customers');
+    expect(statuses(result.tests)).toEqual({
+      server_start: 'PASS',
+      target_tool: 'PASS',
+      timeouts: 'FAIL',
+      circuit_breaker: 'FAIL',
+      graceful_degradation: 'FAIL'
+    });
+    const byFault = Object.fromEntries(result.scenarios.map(s => [s.fault, s]));
+    expect(byFault.error_burst.calls.map(c => c.upstream_attempts)).toEqual([1, 1, 1, 1]);
+    expect(byFault.latency.calls[0].duration_ms).toBeGreaterThanOrEqual(1500);
+    expect(byFault.reset.calls[0].status).toBe('raw_error');
+    expect(byFault.malformed_json.calls[0].status).toBe('raw_error');
+    expect(result.tests.find(t => t.name === 'circuit_breaker')?.rule_ids).toEqual(['rl-005']);
+    expect(getConnectionTest(result.id)?.verdict).toBe('FAIL');
+  }, 40000);
+
+  it('should pass a server with timeouts, a circuit breaker and a cached fallback', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), RESILIENT_CHAOS_SERVER);
+
+    const result = await testChaos({ server_path: server.path, vendor: 'stripe', delay_ms: 1500, breaker_calls: 5 });
+    expect(statuses(result.tests)).toEqual({
+      server_start: 'PASS',
+      target_tool: 'PASS',
+      timeouts: 'PASS',
+      circuit_breaker: 'PASS',
+      graceful_degradation: 'PASS'
+    });
+    const byFault = Object.fromEntries(result.scenarios.map(s => [s.fault, s]));
+    expect(byFault.error_burst.calls.map(c => c.upstream_attempts)).toEqual([1, 1, 1, 0, 0]);
+    expect(byFault.latency.attempts[0].aborted).toBe(true);
+    expect(byFault.slow_drip.calls[0].duration_ms).toBeLessThan(1500);
+    expect(result.verdict).toBe('PASS');
+  }, 40000);
+
+  it('should proxy mesh peers named by environment variable', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), NAIVE_CHAOS_SERVER);
+    const peer = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ data: [] }));
+    });
+    await new Promise<void>(resolve => peer.listen(0, '127.0.0.1', () => resolve()));
+    const origin = `http://127.0.0.1:${(peer.address() as { port: number }).port}`;
+
+    try {
+      const result = await testChaos({
+        server_path: server.path,
+        upstreams: { INVENTORY_URL: origin },
+        faults: ['error_burst'],
+        breaker_calls: 3
+      });
+      expect(result.upstreams).toEqual([{ name: 'INVENTORY_URL', upstream: origin, proxy: expect.stringMatching(/^http:\/\/127\.0\.0\.1:/) }]);
+      expect(result.scenarios.map(s => s.fault)).toEqual(['baseline', 'error_burst']);
+      expect(statuses(result.tests)).toMatchObject({ timeouts: 'SKIP', circuit_breaker: 'FAIL' });
+    } finally {
+      await new Promise<void>(resolve => peer.close(() => resolve()));
+    }
+
+    await expect(testChaos({ server_path: server.path })).rejects.toThrow('needs a vendor or at least one upstream');
+  }, 20000);
+});
+
+describe('Health Probe', () => {
+  const server = useServerDir('runtime-health-', 'health-server');
+
+  it('should pass endpoints that answer fast and flip readiness during an outage', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), HEALTHY_SERVER);
+
+    const result = await probeHealthEndpoints({ server_path: server.path, vendor: 'stripe', samples: 3 });
+    expect(statuses(result.tests)).toEqual({
+      server_start: 'PASS',
+      health: 'PASS',
+      readiness: 'PASS',
+      detailed: 'PASS',
+      latency: 'PASS',
+      readiness_flip: 'PASS'
+    });
+    expect(result.endpoints.map(e => e.status)).toEqual([200, 200, 200]);
+    expect(result.readiness_flip).toMatchObject({ while_down: 503, liveness_while_down: 200, after_recovery: 200 });
+  }, 20000);
+
+  it('should fail malformed bodies, missing endpoints and readiness that never flips', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), STATIC_HEALTH_SERVER);
+
+    const result = await probeHealthEndpoints({ server_path: server.path, vendor: 'stripe', samples: 1, flip_timeout_ms: 600 });
+    expect(statuses(result.tests)).toEqual({
+      server_start: 'PASS',
+      health: 'FAIL',
+      readiness: 'PASS',
+      detailed: 'FAIL',
+      latency: 'PASS',
+      readiness_flip: 'FAIL'
+    });
+    const tests = Object.fromEntries(result.tests.map(t => [t.name, t]));
+    expect(tests.health.message).toContain('not a JSON object');
+    expect(tests.detailed.message).toContain('answered 404');
+    expect(tests.readiness_flip.rule_ids).toEqual(['mcp-002']);
+  }, 20000);
+
+  it('should save probed endpoint status with the integration check', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), HEALTHY_SERVER);
+
+    const result = await inspectIntegration({ server_path: server.path, probe_health: true, vendor: 'stripe' });
+    expect(result.checks.health_probe?.verdict).toBe('PASS');
+    expect(result.issues.filter(i => i.category === 'health')).toEqual([]);
+    const record = getIntegrationCheck(result.id!)!;
+    expect(record.health_endpoint_status).toBe(200);
+    expect((record.health_probe as any).endpoints.map((e: any) => e.path)).toEqual(['/health', '/health/ready', '/health/detailed']);
+    expect(getIntegrationCheck((await inspectIntegration({ server_path: server.path })).id!)!.health_endpoint_status).toBeUndefined();
+  }, 20000);
+});
+
+describe('Webhook Delivery', () => {
+  const server = useServerDir('runtime-webhook-', 'webhook-server');
+
+  it('should pass a receiver that verifies signatures, dedups and acks fast', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), WEBHOOK_RECEIVER);
+
+    const result = await testWebhookDelivery({ vendor: 'stripe', server_path: server.path, timeout_ms: 1000 });
+    expect(statuses(result.tests)).toEqual({
+      server_start: 'PASS',
+      valid_signature: 'PASS',
+      signature_validation: 'PASS',
+      replay_protection: 'PASS',
+      fresh_fetch: 'PASS',
+      vendor_retry: 'PASS',
+      deduplication: 'PASS',
+      out_of_order: 'PASS',
+      response_time: 'PASS'
+    });
+    expect(result.deliveries.map(d => d.status)).toEqual([200, 400, 400, 400, 200, 200, 200, 200]);
+    expect(getConnectionTest(result.id)?.verdict).toBe('PASS');
+  }, 20000);
+
+  it('should fail a receiver that trusts and reprocesses every delivery', async () => {
+    fs.writeFileSync(path.join(server.path, 'server.js'), NAIVE_RECEIVER);
+
+    const result = await testWebhookDelivery({ vendor: 'stripe', server_path: server.path, timeout_ms: 300 });
+    expect(statuses(result.tests)).toMatchObject({
+      valid_signature: 'PASS',
+      signature_validation: 'FAIL',
+      replay_protection: 'FAIL',
+      fresh_fetch: 'PASS',
+      deduplication: 'FAIL',
+      response_time: 'FAIL'
+    });
+    expect(result.verdict).toBe('FAIL');
+  }, 20000);
+
+  it('should reject vendors without a signing scheme', async () => {
+    await expect(testWebhookDelivery({ vendor: 'salesforce', server_path: server.path })).rejects.toThrow('No webhook signing scheme');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for parallel file inspection
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { inspectFiles, type FileOutcome } from '../src/inspectors/worker-pool.js';
+import { inspectCode } from '../src/inspectors/code-inspector.js';
+import { createEmptyProfile } from '../src/profiler/index.js';
+
+// Spins forever on files that contain HANG, like a catastrophic regex would
+const HANGING_PACK = `
+export default {
+  name: 'hang-rules',
+  rules: [{
+    id: 'hang-001',
+    name: 'Hang',
+    description: 'Never returns on marked files',
+    severity: 'LOW',
+    category: 'hang',
+    check: (code) => {
+      while (code.includes('HANG')) {}
+      return [];
+    }
+  }]
+};
+`;
+
+async function collect(outcomes: AsyncGenerator<FileOutcome, void>): Promise<FileOutcome[]> {
+  const all: FileOutcome[] = [];
+  for await (const outcome of outcomes) all.push(outcome);
+  return all;
+}
+
+describe('Worker Pool', () => {
+  let serverPath: string;
+  let files: string[];
+
+  beforeEach(() => {
+    serverPath = fs.mkdtempSync(path.join(os.tmpdir(), 'worker-pool-'));
+    fs.mkdirSync(path.join(serverPath, 'src'));
+    fs.mkdirSync(path.join(serverPath, 'linus-rules'));
+    fs.writeFileSync(path.join(serverPath, 'linus-rules/hang.mjs'), HANGING_PACK);
+    files = [];
+    for (let i = 0; i < 25; i++) {
+      const file = path.join(serverPath, 'src', `f${String(i).padStart(2, '0')}.ts`);
+      fs.writeFileSync(file, i % 2 === 0 ? `try { run${i}(); } catch (e) {}\n` : `export const v${i} = ${i};\n`);
+      files.push(file);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(serverPath, { recursive: true, force: true });
+  });
+
+  it('should return worker results in input order, matching in-process results', async () => {
+    const common = { server_path: serverPath, pack_specs: [], packs: [], inspection: { profile: createEmptyProfile() } };
+
+    const parallel = await collect(inspectFiles(files, { ...common, concurrency: 3 }));
+    const inline = await collect(inspectFiles(files, { ...common, concurrency: 0 }));
+
+    expect(parallel.map(o => o.file_path)).toEqual(files);
+    expect(parallel).toEqual(inline);
+  });
+
+  it('should time out one file without stalling the rest', async () => {
+    fs.writeFileSync(path.join(serverPath, 'src/f03.ts'), '// HANG\n');
+    fs.writeFileSync(path.join(serverPath, '.linusrc.json'), JSON.stringify({ packs: ['./linus-rules'] }));
+
+    const result = await inspectCode({ server_path: serverPath, use_cache: false, concurrency: 2, file_timeout_ms: 5000 });
+
+    expect(result.timed_out_files).toEqual(['src/f03.ts']);
+    expect(result.summary.total_files).toBe(25);
+    expect(new Set(result.issues.map(i => i.file)).size).toBe(13);
+    expect(result.verdict).not.toBe('PASSED');
+  }, 30000);
+
+  it('should inspect every file of a large server', async () => {
+    const result = await inspectCode({ server_path: serverPath, use_cache: false });
+    expect(result.summary.total_files).toBe(25);
+    expect(result.issues.map(i => i.file)).toEqual([...result.issues.map(i => i.file)].sort());
+  }, 30000);
+});